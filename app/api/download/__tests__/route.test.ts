@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+
+const IMAGE_URL = 'https://firebasestorage.googleapis.com/v0/b/bucket/o/thumbnail.png';
+
+function download(params: Record<string, string>) {
+    const url = new URL('http://localhost/api/download');
+    Object.entries({ url: IMAGE_URL, ...params }).forEach(([key, value]) => url.searchParams.set(key, value));
+    return GET(new NextRequest(url));
+}
+
+describe('GET /api/download with preset=youtube', () => {
+    it('rejects a budget below the smallest it will try to hit', async () => {
+        const response = await download({ preset: 'youtube', maxBytes: String(50 * 1024) });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error: `maxBytes must be at least ${100 * 1024}` });
+    });
+
+    it('rejects a budget that is not a number', async () => {
+        const response = await download({ preset: 'youtube', maxBytes: 'lots' });
+        expect(response.status).toBe(400);
+    });
+
+    it('rejects formats YouTube does not take', async () => {
+        const response = await download({ preset: 'youtube', format: 'png' });
+        expect(response.status).toBe(400);
+    });
+});
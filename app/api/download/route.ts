@@ -1,15 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { YOUTUBE_THUMBNAIL_PRESET, getExportFormat, type ExportFormat } from '@/lib/constants/export';
+import { encodeWithinBudget, getYouTubeByteBudget } from '@/lib/utils/exportBudget';
+
+/**
+ * Resize to 1280x720 (center crop) and re-encode until the image fits the byte budget
+ */
+async function encodeYouTubeThumbnail(image: Buffer, format: ExportFormat, maxBytes: number) {
+    return encodeWithinBudget<Buffer>(async (width, height, quality) => {
+        const pipeline = sharp(image).resize(width, height, { fit: 'cover' });
+        const output = format === 'webp'
+            ? await pipeline.webp({ quality: Math.round(quality * 100) }).toBuffer()
+            : await pipeline.jpeg({ quality: Math.round(quality * 100), mozjpeg: true }).toBuffer();
+        return { output, size: output.length };
+    }, YOUTUBE_THUMBNAIL_PRESET.width, YOUTUBE_THUMBNAIL_PRESET.height, getYouTubeByteBudget(maxBytes));
+}
 
 /**
  * Image Download Proxy API
  * 
  * This endpoint fetches images from external URLs and returns them as downloadable files.
  * It bypasses CORS restrictions that prevent client-side canvas export.
+ *
+ * With `preset=youtube` the image is resized to 1280x720 and re-encoded as JPEG
+ * (or `format=webp`) to fit under `maxBytes`. That defaults to and is capped at
+ * YouTube's 2 MB limit; below 100 KB the request is rejected with a 400. The final
+ * size is reported in the X-Export-Width/Height/Size/Quality headers.
  */
 export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const imageUrl = searchParams.get('url');
     const filename = searchParams.get('filename') || 'thumbnail.png';
+    const preset = searchParams.get('preset');
 
     if (!imageUrl) {
         return NextResponse.json(
@@ -18,6 +40,29 @@ export async function GET(request: NextRequest) {
         );
     }
 
+    if (preset && preset !== 'youtube') {
+        return NextResponse.json(
+            { error: `Unknown preset: ${preset}` },
+            { status: 400 }
+        );
+    }
+
+    const format = (searchParams.get('format') || 'jpeg') as ExportFormat;
+    if (preset && !YOUTUBE_THUMBNAIL_PRESET.formats.includes(format)) {
+        return NextResponse.json(
+            { error: 'YouTube preset supports jpeg or webp' },
+            { status: 400 }
+        );
+    }
+
+    const maxBytes = Number(searchParams.get('maxBytes') || YOUTUBE_THUMBNAIL_PRESET.maxBytes);
+    if (preset && (!Number.isFinite(maxBytes) || maxBytes < YOUTUBE_THUMBNAIL_PRESET.minBytes)) {
+        return NextResponse.json(
+            { error: `maxBytes must be at least ${YOUTUBE_THUMBNAIL_PRESET.minBytes}` },
+            { status: 400 }
+        );
+    }
+
     try {
         // Validate URL to prevent SSRF attacks
         const url = new URL(imageUrl);
@@ -54,6 +99,26 @@ export async function GET(request: NextRequest) {
         const imageBuffer = await response.arrayBuffer();
         const contentType = response.headers.get('content-type') || 'image/png';
 
+        if (preset === 'youtube') {
+            const result = await encodeYouTubeThumbnail(Buffer.from(imageBuffer), format, maxBytes);
+            const formatOption = getExportFormat(format);
+            const presetFilename = filename.replace(/\.[a-z0-9]+$/i, '') + `.${formatOption.extension}`;
+
+            return new NextResponse(new Uint8Array(result.output), {
+                status: 200,
+                headers: {
+                    'Content-Type': formatOption.mimeType,
+                    'Content-Disposition': `attachment; filename="${presetFilename}"`,
+                    'Cache-Control': 'no-cache',
+                    'X-Export-Width': String(result.width),
+                    'X-Export-Height': String(result.height),
+                    'X-Export-Size': String(result.size),
+                    'X-Export-Quality': String(Math.round(result.quality * 100)),
+                    'X-Export-Within-Budget': String(result.withinBudget),
+                },
+            });
+        }
+
         // Return as downloadable file
         return new NextResponse(imageBuffer, {
             status: 200,
@@ -0,0 +1,385 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import dynamicImport from 'next/dynamic';
+
+// Hooks
+import { useAuth, useUserData, useTheme, useMobile, useSubscriptionStatus } from '@/hooks';
+
+// Constants
+import {
+    getNavItemsForRoute,
+    SUBSCRIPTION_PLANS,
+    SUBSCRIPTION_PLAN_ORDER,
+    type SubscriptionPlanId,
+} from '@/lib/constants';
+
+// Services
+import { getUserPlan } from '@/lib/services/userService';
+import { redirectToCheckout, redirectToPortal, type SubscriptionStatus } from '@/lib/services/subscriptionService';
+import { formatDate } from '@/lib/utils/formatTime';
+import { getSavedPromoCode } from '@/lib/utils/promoCode';
+
+// Components
+import { Sidebar } from '@/components/layout';
+import { LoadingSpinner, PricingModal } from '@/components/ui';
+
+// Lazy load modals to reduce TBT
+const ProfileModal = dynamicImport(
+    () => import('@/components/modals/ProfileModal'),
+    { ssr: false }
+);
+
+// Styles
+import dashboardStyles from '@/app/dashboard/dashboard.module.css';
+import projectsStyles from '@/app/projects/projects.module.css';
+import styles from './billing.module.css';
+
+const STATUS_LABELS: Record<string, string> = {
+    active: 'Active',
+    trialing: 'Trial',
+    past_due: 'Payment due',
+    unpaid: 'Unpaid',
+    canceled: 'Cancelled',
+    incomplete: 'Incomplete',
+};
+
+// Stripe only knows the product name, so match it to one of our plans
+function getSubscribedPlanId(status: SubscriptionStatus | null): SubscriptionPlanId | null {
+    const name = status?.hasSubscription ? status.subscription?.name.toLowerCase() : undefined;
+    if (!name) return null;
+    return SUBSCRIPTION_PLAN_ORDER.find(id => name.includes(id)) ?? null;
+}
+
+export default function BillingPage() {
+    const router = useRouter();
+
+    // Custom hooks
+    const { user, loading: authLoading, signOut } = useAuth();
+    const { userData } = useUserData(user);
+    const { theme, setTheme } = useTheme({ userId: user?.uid });
+    const { isMobile, sidebarOpen, toggleSidebar, closeSidebar } = useMobile();
+    const { status, loading: statusLoading, error: statusError, refresh } = useSubscriptionStatus(user);
+
+    // Billing sits under Usage in the sidebar
+    const navItems = useMemo(() => getNavItemsForRoute('usage'), []);
+
+    const [profileMenuOpen, setProfileMenuOpen] = useState(false);
+    const [pricingModalOpen, setPricingModalOpen] = useState(false);
+    const [profileModalOpen, setProfileModalOpen] = useState(false);
+    const [pendingPlan, setPendingPlan] = useState<SubscriptionPlanId | null>(null);
+    const [redirecting, setRedirecting] = useState<'portal' | SubscriptionPlanId | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    // Fall back to the plan implied by the user's credits if the status request failed
+    const fallbackPlan = getUserPlan(userData).type;
+    const currentPlanId = status
+        ? getSubscribedPlanId(status)
+        : fallbackPlan === 'free' ? null : fallbackPlan;
+    const subscription = status?.subscription ?? null;
+
+    // Handlers
+    const handleSignOut = useCallback(async () => {
+        try {
+            await signOut();
+            setProfileMenuOpen(false);
+        } catch (error) {
+            console.error('Sign out error:', error);
+        }
+    }, [signOut]);
+
+    const handleThemeToggle = useCallback((newTheme: 'light' | 'dark') => {
+        setTheme(newTheme);
+    }, [setTheme]);
+
+    const handleOpenPortal = useCallback(async () => {
+        setRedirecting('portal');
+        setActionError(null);
+        try {
+            await redirectToPortal();
+        } catch (error) {
+            console.error('Portal error:', error);
+            setActionError(error instanceof Error ? error.message : 'Failed to open billing portal');
+            setRedirecting(null);
+        }
+    }, []);
+
+    const handleSubscribe = useCallback(async (plan: SubscriptionPlanId) => {
+        if (!user?.email) return;
+        setRedirecting(plan);
+        setActionError(null);
+        try {
+            await redirectToCheckout(plan, user.email, getSavedPromoCode() ?? undefined);
+        } catch (error) {
+            console.error('Checkout error:', error);
+            setActionError(error instanceof Error ? error.message : 'Failed to start checkout');
+            setRedirecting(null);
+        }
+    }, [user?.email]);
+
+    // Loading state
+    if (authLoading) {
+        return (
+            <LoadingSpinner theme={theme} text="Loading..." fullScreen />
+        );
+    }
+
+    if (!user) {
+        return null;
+    }
+
+    const currentRank = currentPlanId ? SUBSCRIPTION_PLAN_ORDER.indexOf(currentPlanId) : -1;
+    const periodEnd = subscription?.currentPeriodEnd ? formatDate(subscription.currentPeriodEnd) : null;
+    const pending = pendingPlan ? SUBSCRIPTION_PLANS[pendingPlan] : null;
+    const isUpgrade = !!pendingPlan && SUBSCRIPTION_PLAN_ORDER.indexOf(pendingPlan) > currentRank;
+
+    return (
+        <div className={`${dashboardStyles.container} ${theme === 'dark' ? `${dashboardStyles.darkTheme} darkTheme` : dashboardStyles.lightTheme}`}>
+            {/* Decorative blur elements */}
+            {!isMobile && (
+                <>
+                    <div className={dashboardStyles.blurTopRight} />
+                    <div className={dashboardStyles.blurSidebarBottom} />
+                </>
+            )}
+
+            {/* Mobile Overlay */}
+            {isMobile && sidebarOpen && (
+                <div className={dashboardStyles.overlay} onClick={closeSidebar} />
+            )}
+
+            {/* Sidebar */}
+            <Sidebar
+                user={user}
+                userData={userData}
+                navItems={navItems}
+                theme={theme}
+                sidebarOpen={sidebarOpen}
+                profileMenuOpen={profileMenuOpen}
+                onProfileMenuToggle={() => setProfileMenuOpen(prev => !prev)}
+                onProfileMenuClose={() => setProfileMenuOpen(false)}
+                onThemeToggle={handleThemeToggle}
+                onSignOut={handleSignOut}
+                onCloseSidebar={closeSidebar}
+                onUpgradeClick={() => setPricingModalOpen(true)}
+                onProfileClick={() => setProfileModalOpen(true)}
+            />
+
+            {/* Main Content */}
+            <main className={dashboardStyles.main}>
+                <header className={dashboardStyles.header}>
+                    {isMobile && (
+                        <button className={dashboardStyles.menuButton} onClick={toggleSidebar}>
+                            <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                                <path d="M3 12H21M3 6H21M3 18H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                            </svg>
+                        </button>
+                    )}
+
+                    <h1 className={projectsStyles.pageTitle}>Billing</h1>
+
+                    <button className={dashboardStyles.createButton} onClick={() => router.push('/usage')}>
+                        <span>View Usage</span>
+                    </button>
+                </header>
+
+                <div className={dashboardStyles.content}>
+                    <div className={projectsStyles.pageHeader}>
+                        <div className={projectsStyles.headerLeft}>
+                            <h2 className={dashboardStyles.sectionTitle}>
+                                Your <span className={dashboardStyles.titleAccent}>Subscription</span>
+                            </h2>
+                            <p className={projectsStyles.projectSubtext}>
+                                Plan, renewal and credit balance
+                            </p>
+                        </div>
+                    </div>
+
+                    {(statusError || actionError) && (
+                        <div className={styles.error} role="alert">
+                            <span>{actionError || `Couldn't load your subscription: ${statusError}`}</span>
+                            {statusError && !actionError && (
+                                <button className={styles.errorRetry} onClick={() => refresh()}>
+                                    Retry
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {statusLoading && !status ? (
+                        <LoadingSpinner theme={theme} text="Loading subscription..." />
+                    ) : (
+                        <>
+                            <div className={styles.overview}>
+                                {/* Current plan */}
+                                <section className={styles.card}>
+                                    <h3 className={styles.cardTitle}>Current plan</h3>
+                                    <div className={styles.planRow}>
+                                        <span className={styles.planName}>
+                                            {currentPlanId ? SUBSCRIPTION_PLANS[currentPlanId].name : subscription?.name || 'Free'}
+                                        </span>
+                                        {subscription && (
+                                            <span className={`${styles.statusBadge} ${subscription.cancelAtPeriodEnd || subscription.status !== 'active' ? styles.statusBadgeWarning : ''}`}>
+                                                {subscription.cancelAtPeriodEnd ? 'Cancelling' : STATUS_LABELS[subscription.status] || subscription.status}
+                                            </span>
+                                        )}
+                                    </div>
+
+                                    {currentPlanId ? (
+                                        <p className={styles.planMeta}>
+                                            {SUBSCRIPTION_PLANS[currentPlanId].price}/mo · {(subscription?.monthlyCredits || SUBSCRIPTION_PLANS[currentPlanId].monthlyCredits).toLocaleString()} credits each month
+                                        </p>
+                                    ) : (
+                                        <p className={styles.planMeta}>Trial credits only. Subscribe for monthly credits and private projects.</p>
+                                    )}
+
+                                    {periodEnd && (
+                                        <p className={`${styles.renewal} ${subscription?.cancelAtPeriodEnd ? styles.renewalCancelling : ''}`}>
+                                            {subscription?.cancelAtPeriodEnd
+                                                ? `Ends on ${periodEnd} - you keep your plan until then`
+                                                : `Renews on ${periodEnd}`}
+                                        </p>
+                                    )}
+
+                                    {subscription && subscription.features.length > 0 && (
+                                        <ul className={styles.features}>
+                                            {subscription.features.map(feature => (
+                                                <li key={feature}>{feature}</li>
+                                            ))}
+                                        </ul>
+                                    )}
+
+                                    {currentPlanId && (
+                                        <button
+                                            className={styles.secondaryButton}
+                                            onClick={handleOpenPortal}
+                                            disabled={redirecting !== null}
+                                        >
+                                            {redirecting === 'portal'
+                                                ? 'Opening portal...'
+                                                : subscription?.cancelAtPeriodEnd ? 'Resume subscription' : 'Payment methods & invoices'}
+                                        </button>
+                                    )}
+                                </section>
+
+                                {/* Credits */}
+                                <section className={styles.card}>
+                                    <h3 className={styles.cardTitle}>Credits</h3>
+                                    <dl className={styles.credits}>
+                                        <div className={styles.creditRow}>
+                                            <dt>Subscription</dt>
+                                            <dd>{(status?.credits.subscription ?? userData?.subscriptionCredits ?? 0).toLocaleString()}</dd>
+                                        </div>
+                                        <div className={styles.creditRow}>
+                                            <dt>One-time</dt>
+                                            <dd>{(status?.credits.oneTime ?? userData?.toppedUpBalance ?? 0).toLocaleString()}</dd>
+                                        </div>
+                                        <div className={`${styles.creditRow} ${styles.creditTotal}`}>
+                                            <dt>Total</dt>
+                                            <dd>{(status?.credits.total ?? ((userData?.subscriptionCredits ?? 0) + (userData?.toppedUpBalance ?? 0))).toLocaleString()}</dd>
+                                        </div>
+                                    </dl>
+                                    <p className={styles.hint}>
+                                        Subscription credits reset each renewal. One-time credits from top-ups don&apos;t expire.
+                                    </p>
+                                    <button className={styles.secondaryButton} onClick={() => setPricingModalOpen(true)}>
+                                        Buy more credits
+                                    </button>
+                                </section>
+                            </div>
+
+                            {/* Plans */}
+                            <h3 className={styles.sectionHeading}>{currentPlanId ? 'Change plan' : 'Choose a plan'}</h3>
+                            <div className={styles.plans}>
+                                {SUBSCRIPTION_PLAN_ORDER.map((planId, rank) => {
+                                    const plan = SUBSCRIPTION_PLANS[planId];
+                                    const isCurrent = planId === currentPlanId;
+                                    return (
+                                        <section
+                                            key={planId}
+                                            className={`${styles.planCard} ${isCurrent ? styles.planCardCurrent : ''} ${pendingPlan === planId ? styles.planCardSelected : ''}`}
+                                        >
+                                            <span className={styles.planCardName}>{plan.name}</span>
+                                            <span className={styles.planCardPrice}>
+                                                {plan.price}<span className={styles.planCardPeriod}>/mo</span>
+                                            </span>
+                                            <span className={styles.planCardCredits}>{plan.monthlyCredits.toLocaleString()} credits each month</span>
+                                            {isCurrent ? (
+                                                <button className={styles.secondaryButton} disabled>Current plan</button>
+                                            ) : currentPlanId ? (
+                                                <button
+                                                    className={rank > currentRank ? styles.primaryButton : styles.secondaryButton}
+                                                    onClick={() => setPendingPlan(planId)}
+                                                    disabled={redirecting !== null}
+                                                >
+                                                    {rank > currentRank ? `Upgrade to ${plan.name}` : `Downgrade to ${plan.name}`}
+                                                </button>
+                                            ) : (
+                                                <button
+                                                    className={styles.primaryButton}
+                                                    onClick={() => handleSubscribe(planId)}
+                                                    disabled={redirecting !== null}
+                                                >
+                                                    {redirecting === planId ? 'Redirecting...' : `Get ${plan.name}`}
+                                                </button>
+                                            )}
+                                        </section>
+                                    );
+                                })}
+                            </div>
+
+                            {/* Plan change summary - the switch itself happens in the Stripe portal */}
+                            {pending && currentPlanId && (
+                                <section className={styles.confirm} aria-live="polite">
+                                    <h3 className={styles.cardTitle}>
+                                        {isUpgrade ? 'Upgrade' : 'Downgrade'} to {pending.name}
+                                    </h3>
+                                    <p className={styles.confirmText}>
+                                        {SUBSCRIPTION_PLANS[currentPlanId].name} ({SUBSCRIPTION_PLANS[currentPlanId].price}/mo, {SUBSCRIPTION_PLANS[currentPlanId].monthlyCredits.toLocaleString()} credits)
+                                        {' → '}
+                                        {pending.name} ({pending.price}/mo, {pending.monthlyCredits.toLocaleString()} credits)
+                                    </p>
+                                    <p className={styles.hint}>
+                                        {isUpgrade
+                                            ? 'You\'ll confirm the change in the Stripe billing portal, which shows any prorated charge before you pay.'
+                                            : `You'll confirm the change in the Stripe billing portal. One-time credits are kept${periodEnd ? `, and your current plan's credits last until ${periodEnd}` : ''}.`}
+                                    </p>
+                                    <div className={styles.confirmActions}>
+                                        <button className={styles.secondaryButton} onClick={() => setPendingPlan(null)} disabled={redirecting !== null}>
+                                            Keep {SUBSCRIPTION_PLANS[currentPlanId].name}
+                                        </button>
+                                        <button className={styles.primaryButton} onClick={handleOpenPortal} disabled={redirecting !== null}>
+                                            {redirecting === 'portal' ? 'Opening portal...' : 'Continue to billing portal'}
+                                        </button>
+                                    </div>
+                                </section>
+                            )}
+                        </>
+                    )}
+                </div>
+            </main>
+
+            {/* Pricing Modal */}
+            <PricingModal
+                open={pricingModalOpen}
+                onClose={() => setPricingModalOpen(false)}
+                theme={theme}
+                userEmail={user?.email || undefined}
+                source="credits"
+                currentPlan={fallbackPlan}
+            />
+
+            <ProfileModal
+                open={profileModalOpen}
+                onClose={() => setProfileModalOpen(false)}
+                user={user}
+                userData={userData}
+                theme={theme}
+                onUpgradeClick={() => setPricingModalOpen(true)}
+            />
+        </div>
+    );
+}
@@ -15,6 +15,7 @@ import { useAuth, useUserData, useTheme, useMobile } from '@/hooks';
 
 // Services
 import { getCommunityFeed, likeThumbnail } from '@/lib/services/thumbnailService';
+import { getUserPlan } from '@/lib/services/userService';
 
 // Constants
 import { getNavItemsForRoute } from '@/lib/constants';
@@ -41,8 +42,7 @@ export default function CommunityPage() {
     // Navigation
     const navItems = useMemo(() => getNavItemsForRoute('community'), []);
 
-    // User's plan (mock for now, should come from userData)
-    const [isPro] = useState(false);
+    const plan = getUserPlan(userData).type;
 
     // UI state
     const [profileMenuOpen, setProfileMenuOpen] = useState(false);
@@ -352,12 +352,12 @@ export default function CommunityPage() {
                                     </div>
                                 )}
 
-                                {!isPro && (
-                                    <button className={styles.upgradeButton}>
+                                {plan === 'free' && (
+                                    <button className={styles.upgradeButton} onClick={() => setPricingModalOpen(true)}>
                                         <svg width="20" height="20" viewBox="0 0 20 20" fill="none">
                                             <path d="M10 2.5L12.5 7.5L17.5 8.33333L13.75 12.0833L14.5833 17.0833L10 14.5L5.41667 17.0833L6.25 12.0833L2.5 8.33333L7.5 7.5L10 2.5Z" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round" />
                                         </svg>
-                                        <span>Upgrade to Pro</span>
+                                        <span>Upgrade Plan</span>
                                     </button>
                                 )}
                             </div>
@@ -372,6 +372,7 @@ export default function CommunityPage() {
                 onClose={() => setPricingModalOpen(false)}
                 theme={theme}
                 userEmail={user?.email || undefined}
+                currentPlan={plan}
             />
         </div>
     );
@@ -4,6 +4,7 @@ import { useState, useRef, useEffect } from 'react';
 import Image from 'next/image';
 import styles from './ModelDropdown.module.css';
 import { AVAILABLE_MODELS } from '@/lib/constants';
+import { canUseModel, type PlanEntitlements } from '@/lib/utils/entitlements';
 import { Model } from '@/types';
 
 interface ModelDropdownProps {
@@ -14,9 +15,11 @@ interface ModelDropdownProps {
   showLabel?: boolean;
   disabled?: boolean;
   className?: string; // Allow custom classes for the trigger
+  entitlements?: PlanEntitlements; // Locks models the plan doesn't include
+  onLockedModel?: (model: Model) => void;
 }
 
-export default function ModelDropdown({ selectedModel, onSelectModel, theme = 'light', openUpward = false, showLabel = false, disabled = false, className }: ModelDropdownProps) {
+export default function ModelDropdown({ selectedModel, onSelectModel, theme = 'light', openUpward = false, showLabel = false, disabled = false, className, entitlements, onLockedModel }: ModelDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [showMoreModels, setShowMoreModels] = useState(false);
   const [dropdownPosition, setDropdownPosition] = useState<{ top?: number; bottom?: number; left: number } | null>(null);
@@ -57,7 +60,11 @@ export default function ModelDropdown({ selectedModel, onSelectModel, theme = 'l
   }, [isOpen]);
 
   const handleSelectModel = (model: Model) => {
-    onSelectModel(model);
+    if (entitlements && !canUseModel(entitlements, model)) {
+      onLockedModel?.(model);
+    } else {
+      onSelectModel(model);
+    }
     setIsOpen(false);
   };
 
@@ -70,12 +77,14 @@ export default function ModelDropdown({ selectedModel, onSelectModel, theme = 'l
   const renderModelItem = (model: Model) => {
     const isSelected = selectedModel?.id === model.id;
     const showProBadge = model.hasResolutionOptions || model.isPro;
+    const isLocked = !!entitlements && !canUseModel(entitlements, model);
 
     return (
       <div key={model.id} className={styles.modelItemWrapper}>
         <button
-          className={`${styles.modelItem} ${isSelected ? styles.modelItemSelected : ''} ${showProBadge ? styles.modelItemPro : ''}`}
+          className={`${styles.modelItem} ${isSelected ? styles.modelItemSelected : ''} ${showProBadge ? styles.modelItemPro : ''} ${isLocked ? styles.modelItemLocked : ''}`}
           onClick={() => handleSelectModel(model)}
+          title={isLocked ? `${model.name} is included with paid plans` : undefined}
         >
           <div className={styles.modelLogo}>
             <Image
@@ -90,7 +99,15 @@ export default function ModelDropdown({ selectedModel, onSelectModel, theme = 'l
             <div className={styles.modelNameRow}>
               <p className={styles.modelName}>{model.name}</p>
               {showProBadge && (
-                <span className={styles.proBadge}>PRO</span>
+                <span className={styles.proBadge}>
+                  {isLocked && (
+                    <svg width="9" height="9" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+                      <rect width="18" height="11" x="3" y="11" rx="2" ry="2" />
+                      <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+                    </svg>
+                  )}
+                  PRO
+                </span>
               )}
             </div>
           </div>
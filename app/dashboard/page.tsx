@@ -28,6 +28,7 @@ import {
 
 // Services
 import { getUserPlan } from '@/lib/services/userService';
+import { getEntitlements } from '@/lib/utils/entitlements';
 
 // Analytics
 import { trackProjectCreate } from '@/lib/analytics';
@@ -73,6 +74,7 @@ export default function DashboardPage() {
   // Custom hooks
   const { user, loading: authLoading, signOut } = useAuth();
   const { userData } = useUserData(user);
+  const entitlements = useMemo(() => getEntitlements(getUserPlan(userData).type), [userData]);
   const { theme, setTheme } = useTheme({ userId: user?.uid });
   const { isMobile, sidebarOpen, toggleSidebar, closeSidebar } = useMobile();
   const { templates, loading: _templatesLoading } = useTemplates(); // eslint-disable-line @typescript-eslint/no-unused-vars
@@ -730,7 +732,7 @@ export default function DashboardPage() {
         }
         onCreateProject={handleCreateProject}
         theme={theme}
-        isPaidUser={getUserPlan(userData).type !== 'free'}
+        canMakePrivate={entitlements.privateProjects}
         onUpgradeClick={() => setPricingModalOpen(true)}
       />
 
@@ -742,7 +744,7 @@ export default function DashboardPage() {
         initialName={editProjectModal.projectName}
         initialIsPublic={editProjectModal.isPublic}
         theme={theme}
-        isPaidUser={getUserPlan(userData).type !== 'free'}
+        canMakePrivate={entitlements.privateProjects}
         onUpgradeClick={() => setPricingModalOpen(true)}
       />
 
@@ -782,6 +784,11 @@ export default function DashboardPage() {
         privacy={shareModalState.privacy}
         onMakePublic={handleMakePublic}
         theme={theme}
+        entitlements={entitlements}
+        onUpgradeClick={() => {
+          setShareModalState(prev => ({ ...prev, isOpen: false }));
+          setPricingModalOpen(true);
+        }}
       />
 
       {/* Template Customization Modal */}
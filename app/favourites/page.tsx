@@ -19,6 +19,7 @@ import { getNavItemsForRoute } from '@/lib/constants';
 
 // Services
 import { getUserPlan } from '@/lib/services/userService';
+import { getEntitlements } from '@/lib/utils/entitlements';
 
 // Components
 import { Sidebar } from '@/components/layout';
@@ -49,6 +50,7 @@ export default function FavouritesPage() {
     // Custom hooks
     const { user, loading: authLoading, signOut } = useAuth();
     const { userData } = useUserData(user);
+    const entitlements = useMemo(() => getEntitlements(getUserPlan(userData).type), [userData]);
     const { theme, setTheme } = useTheme({ userId: user?.uid });
     const { isMobile, sidebarOpen, toggleSidebar, closeSidebar } = useMobile();
     const {
@@ -371,7 +373,7 @@ export default function FavouritesPage() {
                 initialName={editProjectModal.projectName}
                 initialIsPublic={editProjectModal.isPublic}
                 theme={theme}
-                isPaidUser={getUserPlan(userData).type !== 'free'}
+                canMakePrivate={entitlements.privateProjects}
                 onUpgradeClick={() => setPricingModalOpen(true)}
             />
 
@@ -2,21 +2,127 @@
 
 export const dynamic = 'force-dynamic';
 
-import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Image from 'next/image';
+import { useAuth, useUserData } from '@/hooks';
+import {
+  verifyCheckoutSession,
+  getCheckoutReturnPath,
+  clearCheckoutReturnPath,
+  type CheckoutSessionSummary,
+} from '@/lib/services/subscriptionService';
+import { clearSavedPromoCode } from '@/lib/utils/promoCode';
+import { formatDate } from '@/lib/utils/formatTime';
 import styles from './payment-success.module.css';
 
+// How long to wait for the Stripe webhook to update the user document
+const RECONCILE_TIMEOUT_MS = 60000;
+const RECONCILE_POLL_MS = 3000;
+const SUPPORT_EMAIL = process.env.NEXT_PUBLIC_SUPPORT_EMAIL || '';
+
+type Phase = 'verifying' | 'failed' | 'reconciling' | 'done' | 'timeout';
+
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(amount / 100);
+}
+
 export default function PaymentSuccessPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const sessionId = searchParams.get('session_id');
+
+  const { user } = useAuth(true, 'Sign in to finish your purchase');
+  const { userData } = useUserData(user);
+
+  const [phase, setPhase] = useState<Phase>('verifying');
+  const [session, setSession] = useState<CheckoutSessionSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [returnPath, setReturnPath] = useState<string | null>(null);
   const [countdown, setCountdown] = useState(5);
 
+  // Read after mount - sessionStorage isn't available during server rendering
+  useEffect(() => {
+    setReturnPath(getCheckoutReturnPath());
+  }, []);
+
+  const continueToApp = useCallback(() => {
+    clearCheckoutReturnPath();
+    router.push(returnPath || '/dashboard');
+  }, [router, returnPath]);
+
+  const verify = useCallback(async () => {
+    if (!sessionId) {
+      setError('This page was opened without a checkout reference.');
+      setPhase('failed');
+      return;
+    }
+
+    setPhase('verifying');
+    setError(null);
+    try {
+      const result = await verifyCheckoutSession(sessionId);
+      if (result.status !== 'complete') {
+        setError(result.status === 'expired'
+          ? 'This checkout expired before it was completed. You have not been charged.'
+          : 'This checkout hasn\'t been completed yet.');
+        setPhase('failed');
+        return;
+      }
+      setSession(result);
+      setPhase(result.fulfilled ? 'done' : 'reconciling');
+      // The promo code has been used
+      clearSavedPromoCode();
+    } catch (err) {
+      console.error('Checkout verification error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to verify your payment');
+      setPhase('failed');
+    }
+  }, [sessionId]);
+
+  // Verify once signed in (the API call needs the user's token)
+  const uid = user?.uid;
+  useEffect(() => {
+    if (uid) verify();
+  }, [uid, verify]);
+
+  // Ask the backend again whether the webhook has applied the purchase
+  const checkFulfilled = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const result = await verifyCheckoutSession(sessionId);
+      if (result.fulfilled) setPhase('done');
+    } catch (err) {
+      console.error('Error checking checkout fulfilment:', err);
+    }
+  }, [sessionId]);
+
+  // Wait for the webhook: check again when it updates the user document, and poll in case that update is missed
+  const isWaiting = phase === 'reconciling' || phase === 'timeout';
+  useEffect(() => {
+    if (isWaiting && userData) checkFulfilled();
+  }, [isWaiting, userData, checkFulfilled]);
+
   useEffect(() => {
+    if (!isWaiting) return;
+    const timer = setInterval(checkFulfilled, RECONCILE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isWaiting, checkFulfilled]);
+
+  // Keep listening after the timeout, but tell the user what's going on
+  useEffect(() => {
+    if (phase !== 'reconciling') return;
+    const timer = setTimeout(() => setPhase('timeout'), RECONCILE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [phase]);
+
+  useEffect(() => {
+    if (phase !== 'done') return;
     const timer = setInterval(() => {
       setCountdown((prev) => {
         if (prev <= 1) {
           clearInterval(timer);
-          router.push('/dashboard');
+          continueToApp();
           return 0;
         }
         return prev - 1;
@@ -24,24 +130,49 @@ export default function PaymentSuccessPage() {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [router]);
+  }, [phase, continueToApp]);
+
+  const continueLabel = returnPath?.startsWith('/project/')
+    ? 'Back to your project'
+    : returnPath ? 'Continue' : 'Go to Dashboard';
+  const isWarning = phase === 'failed' || phase === 'timeout';
 
   return (
     <div className={styles.container}>
       <div className={styles.card}>
         <div className={styles.iconWrapper}>
-          <div className={styles.successIcon}>
-            <svg
-              viewBox="0 0 24 24"
-              fill="none"
-              stroke="currentColor"
-              strokeWidth="2.5"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            >
-              <polyline points="20 6 9 17 4 12" />
-            </svg>
-          </div>
+          {phase === 'verifying' ? (
+            <div className={styles.pendingIcon}>
+              <span className={styles.spinner} />
+            </div>
+          ) : isWarning ? (
+            <div className={styles.warningIcon}>
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M12 8v5" />
+                <path d="M12 16.5v.5" />
+              </svg>
+            </div>
+          ) : (
+            <div className={styles.successIcon}>
+              <svg
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <polyline points="20 6 9 17 4 12" />
+              </svg>
+            </div>
+          )}
         </div>
 
         <div className={styles.logoContainer}>
@@ -54,22 +185,82 @@ export default function PaymentSuccessPage() {
           />
         </div>
 
-        <h1 className={styles.heading}>Payment Successful!</h1>
+        <h1 className={styles.heading}>
+          {phase === 'verifying' && 'Confirming your payment...'}
+          {phase === 'failed' && 'We couldn\'t confirm your payment'}
+          {phase === 'timeout' && 'Payment received'}
+          {(phase === 'reconciling' || phase === 'done') && 'Payment Successful!'}
+        </h1>
 
         <p className={styles.message}>
-          Thank you for your purchase. Your credits have been added to your account.
+          {phase === 'verifying' && 'This only takes a moment.'}
+          {phase === 'failed' && error}
+          {phase === 'reconciling' && 'Adding credits to your account...'}
+          {phase === 'done' && session && (session.plan === 'morecredits'
+            ? `${session.credits.toLocaleString()} credits have been added to your account.`
+            : `Your ${session.productName} plan is active and your credits are ready.`)}
+          {phase === 'timeout' && 'Your payment went through, but your credits haven\'t shown up yet. They usually appear within a few minutes, and this page updates as soon as they do.'}
         </p>
 
+        {session && (
+          <dl className={styles.receipt}>
+            <div className={styles.receiptRow}>
+              <dt>Purchase</dt>
+              <dd>{session.productName}</dd>
+            </div>
+            <div className={styles.receiptRow}>
+              <dt>Credits</dt>
+              <dd>+{session.credits.toLocaleString()}</dd>
+            </div>
+            {session.amountDiscount > 0 && (
+              <div className={styles.receiptRow}>
+                <dt>Discount</dt>
+                <dd>-{formatAmount(session.amountDiscount, session.currency)}</dd>
+              </div>
+            )}
+            <div className={`${styles.receiptRow} ${styles.receiptTotal}`}>
+              <dt>Total paid</dt>
+              <dd>{formatAmount(session.amountTotal, session.currency)}</dd>
+            </div>
+            <div className={styles.receiptRow}>
+              <dt>Date</dt>
+              <dd>{formatDate(session.createdAt)}</dd>
+            </div>
+            <div className={styles.receiptRow}>
+              <dt>Email</dt>
+              <dd>{session.customerEmail}</dd>
+            </div>
+          </dl>
+        )}
+
+        {isWarning && sessionId && (
+          <p className={styles.support}>
+            {phase === 'failed' && 'If you were charged, your credits will still be added once Stripe confirms the payment. '}
+            Still stuck? Contact {SUPPORT_EMAIL
+              ? <a href={`mailto:${SUPPORT_EMAIL}?subject=${encodeURIComponent(`Checkout ${sessionId}`)}`}>{SUPPORT_EMAIL}</a>
+              : 'support'} with reference <code className={styles.reference}>{sessionId}</code>
+          </p>
+        )}
+
+        {phase === 'failed' && sessionId && (
+          <button onClick={verify} className={`${styles.button} ${styles.buttonSpaced}`}>
+            Try Again
+          </button>
+        )}
+
         <button
-          onClick={() => router.push('/dashboard')}
-          className={styles.button}
+          onClick={continueToApp}
+          className={phase === 'failed' && sessionId ? styles.secondaryButton : styles.button}
+          disabled={phase === 'verifying'}
         >
-          Go to Dashboard
+          {continueLabel}
         </button>
 
-        <p className={styles.redirect}>
-          Redirecting in {countdown} seconds...
-        </p>
+        {phase === 'done' && (
+          <p className={styles.redirect}>
+            Redirecting in {countdown} seconds...
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,19 +1,20 @@
 'use client';
 
-import { useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo, memo } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import dynamic from 'next/dynamic';
 
 // Hooks
-import { useAuth, useUserData, useTheme } from '@/hooks';
+import { useAuth, useUserData, useTheme, useCanvasHistory, useDebouncedBatchUpdate, useCanvasViewport, getViewportTransform, useGenerationJobs, type GenerationJob, type GenerationJobPlaceholder } from '@/hooks';
+import { useProjectsContext } from '@/contexts';
 
 // Types
 import { Model } from '@/types';
 
 // Constants
-import { DEFAULT_MODEL } from '@/lib/constants';
+import { DEFAULT_MODEL, DEFAULT_TEXT_LAYER_STYLE } from '@/lib/constants';
 import { AVAILABLE_MODELS } from '@/lib/constants/models';
 import {
     CONTENT_TYPES,
@@ -26,11 +27,27 @@ import {
 } from '@/lib/constants/smartMerge';
 
 // Services
-import { addThumbnail, getProjectThumbnails, deleteThumbnail, updateThumbnail, updateThumbnailPositions, uploadThumbnail, trackThumbnailDownload, startGenerationJob, pollGenerationJob, startSmartMergeJob, pollSmartMergeJob, GenerateThumbnailRequest, ApiThumbnail, SmartMergeRequest } from '@/lib/services/thumbnailService';
+import { addThumbnail, getProjectThumbnails, deleteThumbnail, updateThumbnail, updateThumbnailPositions, uploadThumbnail, trackThumbnailDownload, startGenerationJob, startSmartMergeJob, getSmartMergeConfig, runJob, JOB_KIND_LABELS, type JobKind, type JobResultMap, GenerateThumbnailRequest, ApiThumbnail, SmartMergeRequest, UpdateThumbnailRequest, ThumbnailResponse, TextLayerStyle, RefImage, StoredGenerationRequest } from '@/lib/services/thumbnailService';
 import { getProject, deleteProject, ApiProject } from '@/lib/services/projectService';
 import { calculateTotalCredits, getUserPlan } from '@/lib/services/userService';
+import { batchUpdateThumbnailPositions, type BatchPositionUpdate } from '@/lib/services/firestoreThumbnailService';
 import { signInWithGoogle } from '@/lib/firebase'; // Added for inline login
 
+// Utils
+import { measureTextLayer, getTextLayerCss, renderTextLayerToBlob } from '@/lib/utils/textLayer';
+import { getLayersBounds, fetchImageBlob, toPngBlob, type CompositeLayer } from '@/lib/utils/exportImage';
+import { alignRects, distributeRects, tidyRects, arrangeLayerOrder, restackElements, type AlignEdge, type DistributeAxis, type TidySortKey, type LayerArrangeMode } from '@/lib/utils/canvasArrange';
+import { formatFileSize } from '@/lib/utils/exportBudget';
+import { formatRelativeTime } from '@/lib/utils/formatTime';
+import { getVisibleCanvasRect, rectsIntersect, getPreviewImageUrl } from '@/lib/utils/canvasViewport';
+import { randomSeed, toStoredGenerationRequest } from '@/lib/utils/generationRequest';
+import { estimateCost, getImageCredits, canAfford } from '@/lib/utils/pricing';
+import { getEntitlements, canUseModel, getLockedFeature } from '@/lib/utils/entitlements';
+import { findRefImageSource, getLineageLinks, getLineageTree, getLineageChain } from '@/lib/utils/canvasLineage';
+import { CANVAS_CLIPBOARD_TYPE, serializeCanvasElements, parseCanvasElements, centerElementsOn, type CanvasClipboardPayload } from '@/lib/utils/canvasClipboard';
+import { addPendingDeletes, removePendingDeletes, reconcilePendingDeletes } from '@/lib/utils/pendingDeletes';
+import type { ExportResult } from '@/components/modals/ExportModal';
+
 // Analytics
 import {
     trackGenerationStart,
@@ -77,6 +94,12 @@ const ExportSatisfactionToast = dynamic(
     { ssr: false }
 );
 
+// Lazy load modals
+const ExportModal = dynamic(
+    () => import('@/components/modals/ExportModal'),
+    { ssr: false }
+);
+
 // Styles
 import styles from './projectCanvas.module.css';
 
@@ -84,6 +107,7 @@ import styles from './projectCanvas.module.css';
 import { LoadingSpinner, AnimatedBorder, PricingModal } from '@/components/ui';
 import { ModelOptionsBar } from '@/components/generation';
 import { HighlightedPromptEditor } from '@/components/prompt';
+import { TextLayerPanel, LayersPanel, ArrangeToolbar, ContextMenu, CommandPalette, Minimap, InspectorPanel, LineageOverlay, LineagePanel, JobsTray, type LayerItem, type ContextMenuEntry, type PaletteCommand, type InspectorDetails, type LineageConnector, type LineageItem } from '@/components/canvas';
 
 // Props interface for when used as a shared component
 interface ProjectCanvasPageProps {
@@ -99,11 +123,25 @@ interface ProjectCanvasPageProps {
 type CreationMode = 'url' | 'prompt';
 type ToolMode = 'select' | 'hand';
 
+// What went wrong with a failed generation, as reported by the backend
+interface JobFailure {
+    message: string;
+    code?: string;
+    suggestion?: string;
+}
+
+// Request behind a generation placeholder, kept so a failed job can be retried exactly
+type RetryableJobRequest =
+    | { kind: 'generation'; request: GenerateThumbnailRequest; timeout?: number }
+    | { kind: 'smart-merge'; request: SmartMergeRequest; timeout?: number };
+
+type FailedElementAction = 'retry' | 'edit' | 'dismiss';
+
 interface CanvasElement {
     id: string;
     backendId?: string;  // Actual ID from backend, stored separately to keep React key stable
-    type: 'image' | 'youtube-thumbnail' | 'generated' | 'uploaded' | 'smart-merge' | 'edit';
-    src: string;
+    type: 'image' | 'youtube-thumbnail' | 'generated' | 'uploaded' | 'smart-merge' | 'edit' | 'text';
+    src: string;  // Empty for text layers
     x: number;
     y: number;
     width: number;
@@ -111,16 +149,23 @@ interface CanvasElement {
     naturalWidth: number;
     naturalHeight: number;
     aspectRatio: number;
-    status?: 'generating' | 'complete' | 'uploading';
+    status?: 'generating' | 'complete' | 'uploading' | 'failed';
     statusText?: string;  // Human-readable status message (e.g., "Analyzing your images...")
     progress?: number;    // Progress percentage (0-100)
+    failure?: JobFailure;                  // Only for status 'failed'
+    retryRequest?: RetryableJobRequest;    // Request a failed placeholder can be retried with
     prompt?: string;
-}
-
-interface Viewport {
-    x: number;
-    y: number;
-    zoom: number;
+    systemRefinedPrompt?: string;  // Prompt as rewritten by the backend before generating
+    style?: string;
+    textLayer?: TextLayerStyle;  // Only for type 'text'
+    zIndex?: number;   // Persisted stacking order; array order is the source of truth while editing
+    locked?: boolean;  // Can't be dragged, resized, nudged or deleted
+    hidden?: boolean;  // Not rendered on the canvas or included in exports
+    createdAt?: string;  // Set once synced with the backend
+    updatedAt?: string;
+    model?: string;      // Generation model, for tidying by model
+    refImages?: RefImage[];  // Images the generation was based on
+    generationRequest?: StoredGenerationRequest;  // Exact request a generated element came from
 }
 
 interface SelectionBox {
@@ -153,6 +198,26 @@ interface ResizeState {
     elementStarts: { id: string; x: number; y: number; width: number; height: number }[];
 }
 
+// Position/size snapshot of an element, recorded by undo/redo history
+type ElementGeometry = Pick<CanvasElement, 'id' | 'x' | 'y' | 'width' | 'height'>;
+
+// Text layer content plus the box it occupies, recorded by undo/redo history
+type TextLayerSnapshot = Pick<CanvasElement, 'id' | 'x' | 'y' | 'width' | 'height' | 'naturalWidth' | 'naturalHeight' | 'aspectRatio'> & {
+    textLayer: TextLayerStyle;
+};
+
+// Lock/visibility flags, recorded by undo/redo history
+type LayerFlags = Pick<CanvasElement, 'id' | 'locked' | 'hidden'>;
+
+// Position update sent to the backend (keyed by backend thumbnail ID)
+interface PositionUpdate {
+    id: string;
+    x: number;
+    y: number;
+    width?: number;
+    height?: number;
+}
+
 // Category chips for optional generation hints
 const CATEGORY_OPTIONS = [
     { id: 'gaming', label: 'Gaming' },
@@ -171,20 +236,69 @@ const TONE_OPTIONS = [
     { id: 'fun', label: 'Fun' },
 ];
 
+// Inspector labels
+const ELEMENT_TYPE_LABELS: Record<CanvasElement['type'], string> = {
+    'image': 'Uploaded image',
+    'uploaded': 'Uploaded image',
+    'youtube-thumbnail': 'YouTube thumbnail',
+    'generated': 'Generated',
+    'smart-merge': 'Smart merge',
+    'edit': 'Edited',
+    'text': 'Text layer',
+};
+
+const REF_IMAGE_LABELS: Record<RefImage['type'], string> = {
+    youtube: 'YouTube',
+    upload: 'Upload',
+    url: 'Link',
+};
+
+const INSPECTOR_OPEN_STORAGE_KEY = 'stumbnail_inspector_open';
+const LINEAGE_VISIBLE_STORAGE_KEY = 'stumbnail_lineage_visible';
+
+// Model a stored request was made with. Requests send baseModel when a model has one, so match ids first.
+const findModelForRequest = (request: Pick<StoredGenerationRequest, 'gen_model'>): Model | undefined =>
+    AVAILABLE_MODELS.find(m => m.id === request.gen_model) ||
+    AVAILABLE_MODELS.find(m => m.baseModel === request.gen_model);
+
+// Credits a request costs when it is sent again - models with megapixel options send them as the resolution
+const getRequestCredits = (job: RetryableJobRequest): number => job.kind === 'generation'
+    ? estimateCost({
+        model: findModelForRequest(job.request),
+        action: 'prompt',
+        resolution: job.request.resolution,
+        size: job.request.size,
+        megapixels: job.request.resolution,
+    })
+    : estimateCost({
+        model: AVAILABLE_MODELS.find(m => m.id === job.request.model),
+        action: 'smart-merge',
+        resolution: job.request.resolution,
+    });
+
 // Helper component for individual canvas elements to handle loading state independently
-const CanvasItem = ({
+// Memoized so viewport commits don't re-render every mounted element
+// Finished elements - not a placeholder that is still generating, uploading or has failed
+const isSettledElement = (el: CanvasElement) => !el.status || el.status === 'complete';
+
+const CanvasItem = memo(function CanvasItem({
     element,
     isSelected,
     onMouseDown,
-    theme
+    theme,
+    previewSrc,
+    onFailedAction
 }: {
     element: CanvasElement;
     isSelected: boolean;
     onMouseDown: (e: React.MouseEvent, elementId: string) => void;
     theme: 'light' | 'dark';
-}) => {
+    previewSrc?: string | null;  // Low-res copy to show while the element is small on screen
+    onFailedAction?: (elementId: string, action: FailedElementAction) => void;  // Omitted in view mode
+}) {
     const [isLoaded, setIsLoaded] = useState(false);
     const [hasError, setHasError] = useState(false);
+    const [previewFailed, setPreviewFailed] = useState(false);
     const imgRef = useRef<HTMLImageElement>(null);
 
     // Check if the src is valid (not empty, not just whitespace)
@@ -194,6 +308,7 @@ const CanvasItem = ({
     useEffect(() => {
         setIsLoaded(false);
         setHasError(false);
+        setPreviewFailed(false);
 
         // Check if the image is already loaded from cache
         // This handles the case where the image loads before React attaches event handlers
@@ -217,9 +332,9 @@ const CanvasItem = ({
         }
     }, [element.status]);
 
-    // If src is empty or invalid AND not generating, show error
+    // If src is empty or invalid AND not a placeholder, show error (text layers have no src)
     useEffect(() => {
-        if (!hasValidSrc && element.status !== 'generating') {
+        if (!hasValidSrc && element.status !== 'generating' && element.status !== 'failed' && element.type !== 'text') {
             setHasError(true);
             setIsLoaded(true);
         }
@@ -234,9 +349,30 @@ const CanvasItem = ({
                 width: element.width,
                 height: element.height,
             }}
+            data-element-id={element.id}
             onMouseDown={(e) => onMouseDown(e, element.id)}
         >
-            {element.status === 'generating' ? (
+            {element.type === 'text' && element.textLayer ? (
+                // Text layer - laid out at natural size, then scaled to the element box
+                <div
+                    className={styles.textLayer}
+                    style={{
+                        width: element.naturalWidth,
+                        height: element.naturalHeight,
+                        transform: `scale(${element.naturalHeight > 0 ? element.height / element.naturalHeight : 1})`,
+                    }}
+                >
+                    <div
+                        className={styles.textLayerContent}
+                        style={{
+                            ...getTextLayerCss(element.textLayer),
+                            transform: `rotate(${element.textLayer.rotation}deg)`,
+                        }}
+                    >
+                        {element.textLayer.text}
+                    </div>
+                </div>
+            ) : element.status === 'generating' ? (
                 <div className={styles.generatingPlaceholder}>
                     <LoadingSpinner theme={theme} size="medium" />
                     <div className={styles.generatingStatus}>
@@ -256,6 +392,35 @@ const CanvasItem = ({
                         )}
                     </div>
                 </div>
+            ) : element.status === 'failed' ? (
+                <div className={styles.failedPlaceholder}>
+                    <span className={styles.failedTitle}>Generation failed</span>
+                    <span className={styles.failedMessage}>{element.failure?.message || 'Something went wrong'}</span>
+                    {element.failure?.suggestion && (
+                        <span className={styles.failedSuggestion}>{element.failure.suggestion}</span>
+                    )}
+                    {element.failure?.code && (
+                        <code className={styles.failedCode}>{element.failure.code}</code>
+                    )}
+                    {onFailedAction && (
+                        // Buttons shouldn't start a drag of the placeholder
+                        <div className={styles.failedActions} onMouseDown={(e) => e.stopPropagation()}>
+                            {element.retryRequest && (
+                                <button className={styles.failedActionPrimary} onClick={() => onFailedAction(element.id, 'retry')}>
+                                    Retry
+                                </button>
+                            )}
+                            {element.retryRequest?.kind === 'generation' && (
+                                <button className={styles.failedAction} onClick={() => onFailedAction(element.id, 'edit')}>
+                                    Edit prompt
+                                </button>
+                            )}
+                            <button className={styles.failedAction} onClick={() => onFailedAction(element.id, 'dismiss')}>
+                                Dismiss
+                            </button>
+                        </div>
+                    )}
+                </div>
             ) : (
                 <>
                     {/* Show loading placeholder until image is fully loaded */}
@@ -267,12 +432,18 @@ const CanvasItem = ({
                     {hasValidSrc && (
                         <img
                             ref={imgRef}
-                            src={element.src}
+                            src={previewSrc && !previewFailed ? previewSrc : element.src}
                             alt={element.prompt || "Thumbnail"}
                             className={styles.elementImage}
                             draggable={false}
+                            decoding="async"
                             onLoad={() => setIsLoaded(true)}
                             onError={() => {
+                                // The optimizer couldn't serve a preview - fall back to the original
+                                if (previewSrc && !previewFailed) {
+                                    setPreviewFailed(true);
+                                    return;
+                                }
                                 console.error('Image failed to load:', element.src?.substring(0, 100));
                                 setHasError(true);
                                 setIsLoaded(true);
@@ -314,7 +485,7 @@ const CanvasItem = ({
             )}
         </div>
     );
-};
+});
 
 export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const {
@@ -339,8 +510,11 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const user = propUser ?? hookUser;
     const authLoading = propAuthLoading ?? hookLoading;
 
-    const { userData } = useUserData(user);
+    const { userData, totalCredits, loading: isUserDataLoading } = useUserData(user);
+    const planType = getUserPlan(userData).type;
+    const entitlements = useMemo(() => getEntitlements(planType), [planType]);
     const { theme } = useTheme({ userId: user?.uid });
+    const { projects, createNewProject } = useProjectsContext();
 
     const [showSidebarTooltip, setShowSidebarTooltip] = useState(false);
 
@@ -353,7 +527,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const hasPerformedInitialFit = useRef(false);
     const hasTrackedEditorOpen = useRef(false); // Track if we've sent the editor_open analytics event
     const pendingTemplateRef = useRef<{ type: string; prompt?: string; imageURL?: string; category?: string; tone?: string } | null>(null);
-    const pendingAutoGenerateRef = useRef(false); // Track if we need to auto-generate after template load
+    const pendingAutoGenerateRef = useRef(false); // Track if we need to auto-generate after template load or regenerate
 
     // Resolution Constants
     const RESOLUTION_MAP: Record<string, number> = {
@@ -416,6 +590,15 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const [youtubeLinkError, setYoutubeLinkError] = useState<string | null>(null);
     const [showUrlPopup, setShowUrlPopup] = useState(false);
     const [pricingModalOpen, setPricingModalOpen] = useState(false);
+    const [exportModalOpen, setExportModalOpen] = useState(false);
+    const [tidySortKey, setTidySortKey] = useState<TidySortKey>('createdAt');
+    const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+    const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+    const [showLineage, setShowLineage] = useState(false);
+    const [isFileDragOver, setIsFileDragOver] = useState(false);
+    // Last pointer position over the canvas (client coordinates) - pastes land there
+    const lastPointerRef = useRef<{ x: number; y: number } | null>(null);
+    const [contextMenu, setContextMenu] = useState<{ x: number; y: number; elementIds: string[]; canvasPoint: { x: number; y: number } | null } | null>(null);
     const [isPromptModalOpen, setIsPromptModalOpen] = useState(false);
     const [projectError, setProjectError] = useState<'not-found' | 'access-denied' | null>(null);
 
@@ -423,6 +606,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const [promptText, setPromptText] = useState('');
     const [promptModel, setPromptModel] = useState<Model | null>(DEFAULT_MODEL);
     const [thumbnailCount, setThumbnailCount] = useState(1);
+    const [autoGenerateRequest, setAutoGenerateRequest] = useState(0);  // Bumped to re-run auto-generation with unchanged inputs
     const [attachedImages, setAttachedImages] = useState<{ id: string; file: File; preview: string }[]>([]);
 
     // Optional generation hints (for intelligence layer)
@@ -444,6 +628,8 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const [resolution, setResolution] = useState<string | undefined>();
     const [size, setSize] = useState<string | undefined>();
     const [megapixels, setMegapixels] = useState<string | undefined>();
+    // Fixed seed for prompt generations; null picks a new random seed per image
+    const [lockedSeed, setLockedSeed] = useState<number | null>(null);
 
     // Per-element options for floating panel
     const [elementAspectRatios, setElementAspectRatios] = useState<Record<string, string>>({});
@@ -463,18 +649,24 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const [isSmartMergeGenerating, setIsSmartMergeGenerating] = useState(false);
     // Smart Merge model state - default to Pro (24 credits)
     const [smartMergeModel, setSmartMergeModel] = useState<string>('nano-banana-pro');
+    // What the backend charges per Smart Merge, from its config
+    const [smartMergeCreditCost, setSmartMergeCreditCost] = useState<number | undefined>(undefined);
 
     // Tool State
     const [toolMode, setToolMode] = useState<ToolMode>('select');
     const [isHandToolActive, setIsHandToolActive] = useState(false);
 
     // Canvas State
-    const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, zoom: 1 });
+    // Pan/zoom is applied to the workspace directly during gestures and committed to state in batches
+    const workspaceRef = useRef<HTMLDivElement>(null);
+    const { viewport, viewportRef, setViewport, setViewportLive, commitViewport } = useCanvasViewport(workspaceRef);
+    const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
     const [canvasElements, setCanvasElements] = useState<CanvasElement[]>([]);
     const [selectedElementIds, setSelectedElementIds] = useState<string[]>([]);
     const [isGenerating, setIsGenerating] = useState(false);
     const [generationError, setGenerationError] = useState<string | null>(null);
     const [toast, setToast] = useState<{ message: string, type: 'error' | 'success' } | null>(null);
+    const [newTextElementId, setNewTextElementId] = useState<string | null>(null);  // Focus the text editor after creating a layer
 
     // Feedback state for analytics instrumentation
     const [showConfidenceFeedback, setShowConfidenceFeedback] = useState(false);
@@ -529,6 +721,488 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         canvasElementsRef.current = canvasElements;
     }, [canvasElements]);
 
+    // Track the canvas size for viewport culling
+    useEffect(() => {
+        const container = canvasContainerRef.current;
+        if (!container) return;
+
+        const observer = new ResizeObserver(([entry]) => {
+            setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [isLoadingProject]);
+
+    // Elements worth mounting: visible ones near the viewport, plus the selection so
+    // in-progress drags and edits keep their DOM nodes
+    const renderedElements = useMemo(() => {
+        if (containerSize.width === 0) return canvasElements.filter(el => !el.hidden);
+
+        const visibleRect = getVisibleCanvasRect(viewport, containerSize.width, containerSize.height);
+        return canvasElements.filter(el =>
+            !el.hidden && (selectedElementIds.includes(el.id) || rectsIntersect(el, visibleRect))
+        );
+    }, [canvasElements, viewport, containerSize, selectedElementIds]);
+
+    // Hidden elements stay off the minimap
+    const minimapElements = useMemo(() => canvasElements.filter(el => !el.hidden), [canvasElements]);
+
+    // Device pixel ratio decides when a preview is sharp enough (read once; zoom changes it rarely)
+    const [devicePixelRatio] = useState(() => typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1);
+
+    // Debounced position persistence - rapid writes to the same thumbnail are merged so the latest wins
+    const persistPositionBatch = useCallback(async (updates: PositionUpdate[]) => {
+        await updateThumbnailPositions(projectId, updates);
+    }, [projectId]);
+    const { debouncedBatchUpdate: queuePositionUpdates, flush: flushPositionUpdates } = useDebouncedBatchUpdate(persistPositionBatch, 300);
+
+    // Queue position/size writes for elements (skips generating placeholders and unsync'd elements)
+    const persistElementPositions = useCallback((elements: CanvasElement[]) => {
+        const updates = elements
+            .filter(el => el.status !== 'generating' && el.backendId)
+            .map(el => ({ id: el.backendId!, x: el.x, y: el.y, width: el.width, height: el.height }));
+
+        if (updates.length > 0) {
+            queuePositionUpdates(updates);
+        }
+    }, [queuePositionUpdates]);
+
+    // Undo/redo history
+    const { push: pushHistory, undo: undoHistory, redo: redoHistory } = useCanvasHistory();
+
+    // Generation jobs for the jobs tray, persisted so they survive a reload
+    const {
+        jobs: generationJobs,
+        addJob,
+        markJobStarted,
+        updateJob,
+        failJob,
+        removeJob,
+        getJobSignal,
+        cancelGenerationJob,
+        isJobCancelled,
+        clearFinishedJobs,
+    } = useGenerationJobs(projectId, { enabled: !viewMode });
+
+    // Apply recorded geometry to elements locally and persist it
+    const applyElementGeometry = useCallback((geometry: ElementGeometry[]) => {
+        const byId = new Map(geometry.map(g => [g.id, g]));
+        const applyTo = (elements: CanvasElement[]) => elements.map(el => {
+            const g = byId.get(el.id);
+            return g ? { ...el, x: g.x, y: g.y, width: g.width, height: g.height } : el;
+        });
+
+        // Update the ref immediately so rapid repeated commands read fresh positions
+        canvasElementsRef.current = applyTo(canvasElementsRef.current);
+        setCanvasElements(prev => applyTo(prev));
+        persistElementPositions(canvasElementsRef.current.filter(el => byId.has(el.id)));
+    }, [persistElementPositions]);
+
+    // Record a move/resize that has already been applied
+    const recordGeometryChange = useCallback((label: string, before: ElementGeometry[], after: ElementGeometry[], mergeKey?: string) => {
+        const changed = after.some(a => {
+            const b = before.find(g => g.id === a.id);
+            return !b || b.x !== a.x || b.y !== a.y || b.width !== a.width || b.height !== a.height;
+        });
+        if (!changed) return;
+
+        pushHistory({
+            label,
+            mergeKey,
+            undo: () => applyElementGeometry(before),
+            redo: () => applyElementGeometry(after),
+        });
+    }, [pushHistory, applyElementGeometry]);
+
+    // Layer state (order, lock, visibility) goes straight to Firestore - the rules allow these fields
+    const persistLayerBatch = useCallback(async (updates: BatchPositionUpdate[]) => {
+        await batchUpdateThumbnailPositions(projectId, updates);
+    }, [projectId]);
+    const { debouncedBatchUpdate: queueLayerUpdates } = useDebouncedBatchUpdate(persistLayerBatch, 300);
+
+    // Restack elements to match `order` (bottom to top) and persist the new zIndex values
+    const applyElementOrder = useCallback((order: string[]) => {
+        const before = new Map(canvasElementsRef.current.map(el => [el.id, el.zIndex]));
+        canvasElementsRef.current = restackElements(canvasElementsRef.current, order);
+        setCanvasElements(prev => restackElements(prev, order));
+
+        const updates = canvasElementsRef.current
+            .filter(el => el.backendId && el.status !== 'generating' && before.get(el.id) !== el.zIndex)
+            .map(el => ({ id: el.backendId!, zIndex: el.zIndex }));
+        if (updates.length > 0) {
+            queueLayerUpdates(updates);
+        }
+    }, [queueLayerUpdates]);
+
+    // Restack elements and record the change for undo
+    const reorderElementsWithHistory = useCallback((label: string, order: string[]) => {
+        const before = canvasElementsRef.current.map(el => el.id);
+        if (before.length === order.length && before.every((id, i) => id === order[i])) return;
+
+        applyElementOrder(order);
+        pushHistory({
+            label,
+            undo: () => applyElementOrder(before),
+            redo: () => applyElementOrder(order),
+        });
+    }, [applyElementOrder, pushHistory]);
+
+    // Bring forward / send backward / to front / to back
+    const arrangeElements = useCallback((ids: string[], mode: LayerArrangeMode) => {
+        const next = arrangeLayerOrder(canvasElementsRef.current.map(el => el.id), ids, mode);
+
+        const labels: Record<LayerArrangeMode, string> = {
+            forward: 'Bring forward',
+            backward: 'Send backward',
+            front: 'Bring to front',
+            back: 'Send to back',
+        };
+        reorderElementsWithHistory(labels[mode], next);
+    }, [reorderElementsWithHistory]);
+
+    // Move one layer to a position in the layers panel (top-most first)
+    const moveLayer = useCallback((id: string, targetIndex: number) => {
+        const order = canvasElementsRef.current.map(el => el.id).filter(other => other !== id);
+        order.splice(order.length - targetIndex, 0, id);
+        reorderElementsWithHistory('Reorder layers', order);
+    }, [reorderElementsWithHistory]);
+
+    // Apply lock/visibility flags locally and persist them
+    const applyLayerFlags = useCallback((flags: LayerFlags[]) => {
+        const byId = new Map(flags.map(f => [f.id, f]));
+        const applyTo = (elements: CanvasElement[]) => elements.map(el => {
+            const f = byId.get(el.id);
+            return f ? { ...el, locked: f.locked, hidden: f.hidden } : el;
+        });
+
+        canvasElementsRef.current = applyTo(canvasElementsRef.current);
+        setCanvasElements(prev => applyTo(prev));
+        // Hidden elements can't be interacted with, so drop them from the selection
+        const hiddenIds = flags.filter(f => f.hidden).map(f => f.id);
+        if (hiddenIds.length > 0) {
+            setSelectedElementIds(prev => prev.filter(id => !hiddenIds.includes(id)));
+        }
+
+        const updates = canvasElementsRef.current
+            .filter(el => el.backendId && byId.has(el.id))
+            .map(el => ({ id: el.backendId!, locked: !!el.locked, hidden: !!el.hidden }));
+        if (updates.length > 0) {
+            queueLayerUpdates(updates);
+        }
+    }, [queueLayerUpdates]);
+
+    // Toggle lock or visibility for elements. Mixed selections are switched on first.
+    const toggleLayerFlag = useCallback((ids: string[], flag: 'locked' | 'hidden') => {
+        const targets = canvasElementsRef.current.filter(el => ids.includes(el.id));
+        if (targets.length === 0) return;
+
+        const value = !targets.every(el => el[flag]);
+        const before: LayerFlags[] = targets.map(({ id, locked, hidden }) => ({ id, locked, hidden }));
+        const after: LayerFlags[] = before.map(f => ({ ...f, [flag]: value }));
+
+        applyLayerFlags(after);
+        const noun = targets.length > 1 ? `${targets.length} layers` : 'layer';
+        pushHistory({
+            label: flag === 'locked' ? `${value ? 'Lock' : 'Unlock'} ${noun}` : `${value ? 'Hide' : 'Show'} ${noun}`,
+            undo: () => applyLayerFlags(before),
+            redo: () => applyLayerFlags(after),
+        });
+    }, [applyLayerFlags, pushHistory]);
+
+    // Run an align/distribute/tidy command and write all moved positions in one batch.
+    // Locked, hidden and in-flight elements are left where they are.
+    const applyArrangeCommand = useCallback((label: string, ids: string[], arrange: (items: CanvasElement[]) => CanvasElement[]) => {
+        const items = canvasElementsRef.current.filter(el =>
+            ids.includes(el.id) && !el.locked && !el.hidden && isSettledElement(el)
+        );
+        if (items.length < 2) return;
+
+        const toGeometry = ({ id, x, y, width, height }: CanvasElement): ElementGeometry => ({ id, x, y, width, height });
+        const before = items.map(toGeometry);
+        const after = arrange(items).map(toGeometry);
+
+        applyElementGeometry(after);
+        flushPositionUpdates();
+        recordGeometryChange(label, before, after);
+    }, [applyElementGeometry, flushPositionUpdates, recordGeometryChange]);
+
+    const alignElements = useCallback((ids: string[], edge: AlignEdge) => {
+        applyArrangeCommand('Align', ids, items => alignRects(items, edge));
+    }, [applyArrangeCommand]);
+
+    const distributeElements = useCallback((ids: string[], axis: DistributeAxis) => {
+        applyArrangeCommand('Distribute', ids, items => distributeRects(items, axis));
+    }, [applyArrangeCommand]);
+
+    // Tidy the selection, or the whole board when fewer than two elements are selected
+    const tidyElements = useCallback((ids: string[]) => {
+        const targetIds = ids.length >= 2 ? ids : canvasElementsRef.current.map(el => el.id);
+        applyArrangeCommand('Tidy up', targetIds, items => tidyRects(items, tidySortKey));
+    }, [applyArrangeCommand, tidySortKey]);
+
+    // Remove elements from the canvas without touching the backend
+    const removeElementsLocally = useCallback((ids: string[]) => {
+        canvasElementsRef.current = canvasElementsRef.current.filter(el => !ids.includes(el.id));
+        setCanvasElements(prev => prev.filter(el => !ids.includes(el.id)));
+        setSelectedElementIds(prev => prev.filter(id => !ids.includes(id)));
+    }, []);
+
+    // Put removed elements back at their original stacking position
+    const restoreElementsLocally = useCallback((entries: { element: CanvasElement; index: number }[]) => {
+        const insert = (elements: CanvasElement[]) => {
+            const next = [...elements];
+            [...entries]
+                .sort((a, b) => a.index - b.index)
+                .forEach(({ element, index }) => {
+                    if (!next.some(el => el.id === element.id)) {
+                        next.splice(Math.min(index, next.length), 0, element);
+                    }
+                });
+            return next;
+        };
+
+        canvasElementsRef.current = insert(canvasElementsRef.current);
+        setCanvasElements(prev => insert(prev));
+    }, []);
+
+    // Send a delete that was held back for undo. It is recorded as pending until the
+    // backend confirms, so a delete cut off by a reload is retried on the next load.
+    // On pagehide the keepalive request goes out with the last auth token (see apiDelete);
+    // if that can't be sent or is rejected, the retry on load is what deletes the thumbnail.
+    const commitBackendDelete = useCallback((backendId: string) => {
+        deleteThumbnail(projectId, backendId, { keepalive: true })
+            .then(() => removePendingDeletes(projectId, [backendId]))
+            .catch(err => {
+                console.error('Failed to delete thumbnail:', err);
+            });
+    }, [projectId]);
+
+    // Delete elements. The backend delete is deferred until the history entry
+    // expires, so the thumbnail can be restored with undo until then.
+    const deleteElementsWithHistory = useCallback((ids: string[]) => {
+        const removed = canvasElementsRef.current
+            .map((element, index) => ({ element, index }))
+            .filter(({ element }) => ids.includes(element.id));
+        if (removed.length === 0) return;
+
+        removeElementsLocally(ids);
+
+        // Placeholders can't be restored meaningfully, so they are simply dropped
+        const restorable = removed.filter(({ element }) => isSettledElement(element));
+        if (restorable.length === 0) return;
+
+        const backendIds = restorable.flatMap(({ element }) => element.backendId ? [element.backendId] : []);
+        addPendingDeletes(projectId, backendIds);
+
+        let isDeleted = true;
+        pushHistory({
+            label: restorable.length > 1 ? `Delete ${restorable.length} items` : 'Delete',
+            undo: () => {
+                isDeleted = false;
+                removePendingDeletes(projectId, backendIds);
+                restoreElementsLocally(restorable);
+            },
+            redo: () => {
+                isDeleted = true;
+                addPendingDeletes(projectId, backendIds);
+                removeElementsLocally(restorable.map(({ element }) => element.id));
+            },
+            dispose: () => {
+                if (!isDeleted) return;
+                backendIds.forEach(commitBackendDelete);
+            },
+        });
+    }, [pushHistory, projectId, commitBackendDelete, removeElementsLocally, restoreElementsLocally]);
+
+    // Add new elements to the canvas, register them with the backend and record the addition for undo.
+    // `persist` saves one element (addThumbnail/uploadThumbnail) or returns null to keep it local-only.
+    const addElementsWithHistory = useCallback((
+        label: string,
+        elements: CanvasElement[],
+        persist: (element: CanvasElement) => Promise<ThumbnailResponse> | null
+    ) => {
+        if (elements.length === 0) return;
+
+        const backendIds = new Map<string, string>();
+        let isPresent = true;
+        let isDisposed = false;
+
+        const startIndex = canvasElementsRef.current.length;
+        restoreElementsLocally(elements.map((element, i) => ({ element, index: startIndex + i })));
+        setSelectedElementIds(elements.map(el => el.id));
+
+        elements.forEach(element => {
+            const saved = persist(element);
+            if (!saved) return;
+
+            saved.then(response => {
+                if (!response.success || !response.thumbnail) return;
+                const backendId = response.thumbnail.id;
+                backendIds.set(element.id, backendId);
+
+                if (!isPresent) {
+                    addPendingDeletes(projectId, [backendId]);
+                    // The addition was undone and its history entry is already gone
+                    if (isDisposed) commitBackendDelete(backendId);
+                    return;
+                }
+
+                setCanvasElements(prev => prev.map(el =>
+                    el.id === element.id ? { ...el, backendId } : el
+                ));
+
+                // Catch up on any moves made before the backend ID was known
+                const latest = canvasElementsRef.current.find(el => el.id === element.id);
+                if (latest) {
+                    persistElementPositions([{ ...latest, backendId }]);
+                }
+            }).catch(err => {
+                console.error('Failed to persist new canvas element:', err);
+            });
+        });
+
+        pushHistory({
+            label,
+            undo: () => {
+                isPresent = false;
+                addPendingDeletes(projectId, [...backendIds.values()]);
+                removeElementsLocally(elements.map(el => el.id));
+            },
+            redo: () => {
+                isPresent = true;
+                removePendingDeletes(projectId, [...backendIds.values()]);
+                restoreElementsLocally(elements.map((element, i) => ({
+                    element: { ...element, backendId: backendIds.get(element.id) },
+                    index: canvasElementsRef.current.length + i,
+                })));
+            },
+            dispose: () => {
+                isDisposed = true;
+                if (isPresent) return;
+                backendIds.forEach(commitBackendDelete);
+            },
+        });
+    }, [pushHistory, projectId, commitBackendDelete, persistElementPositions, removeElementsLocally, restoreElementsLocally]);
+
+    // Duplicate elements next to the originals
+    const duplicateElementsWithHistory = useCallback((ids: string[]) => {
+        const sources = canvasElementsRef.current.filter(el =>
+            ids.includes(el.id) && isSettledElement(el)
+        );
+        const duplicates: CanvasElement[] = sources.map(source => ({
+            ...source,
+            id: crypto.randomUUID(),
+            backendId: undefined,
+            x: source.x + 30,
+            y: source.y + 30,
+            // Copies start as plain layers on top of the stack
+            zIndex: undefined,
+            locked: undefined,
+            hidden: undefined,
+        }));
+        const sourceByDuplicateId = new Map(duplicates.map((duplicate, i) => [duplicate.id, sources[i]]));
+
+        addElementsWithHistory(
+            duplicates.length > 1 ? `Duplicate ${duplicates.length} items` : 'Duplicate',
+            duplicates,
+            duplicate => {
+                // Only synced elements are persisted; local-only elements stay local
+                const source = sourceByDuplicateId.get(duplicate.id);
+                if (!source?.backendId) return null;
+
+                return addThumbnail(projectId, {
+                    thumbnailUrl: source.src,
+                    type: source.type === 'text' ? 'text' : source.type === 'youtube-thumbnail' ? 'youtube-thumbnail' : 'uploaded',
+                    x: duplicate.x,
+                    y: duplicate.y,
+                    width: duplicate.width,
+                    height: duplicate.height,
+                    naturalWidth: duplicate.naturalWidth,
+                    naturalHeight: duplicate.naturalHeight,
+                    prompt: source.prompt ?? null,
+                    model: source.model ?? null,
+                    refImages: source.refImages,
+                    textLayer: source.textLayer,
+                });
+            }
+        );
+    }, [addElementsWithHistory, projectId]);
+
+    // Debounced text layer persistence (text edits fire on every keystroke)
+    const persistTextLayerBatch = useCallback(async (updates: ({ id: string } & UpdateThumbnailRequest)[]) => {
+        await Promise.all(updates.map(({ id, ...changes }) => updateThumbnail(projectId, id, changes)));
+    }, [projectId]);
+    const { debouncedBatchUpdate: queueTextLayerUpdates } = useDebouncedBatchUpdate(persistTextLayerBatch, 500);
+
+    // Apply a text layer snapshot locally and persist it
+    const applyTextLayerSnapshot = useCallback((snapshot: TextLayerSnapshot) => {
+        const applyTo = (elements: CanvasElement[]) => elements.map(el =>
+            el.id === snapshot.id ? { ...el, ...snapshot } : el
+        );
+
+        canvasElementsRef.current = applyTo(canvasElementsRef.current);
+        setCanvasElements(prev => applyTo(prev));
+
+        const element = canvasElementsRef.current.find(el => el.id === snapshot.id);
+        if (element?.backendId) {
+            queueTextLayerUpdates([{
+                id: element.backendId,
+                x: snapshot.x,
+                y: snapshot.y,
+                width: snapshot.width,
+                height: snapshot.height,
+                naturalWidth: snapshot.naturalWidth,
+                naturalHeight: snapshot.naturalHeight,
+                textLayer: snapshot.textLayer,
+            }]);
+        }
+    }, [queueTextLayerUpdates]);
+
+    // Edit a text layer's content or style. The box is re-measured around its
+    // current center, keeping the on-canvas scale the user resized it to.
+    const handleTextLayerChange = useCallback((elementId: string, changes: Partial<TextLayerStyle>) => {
+        const element = canvasElementsRef.current.find(el => el.id === elementId);
+        if (!element?.textLayer) return;
+
+        const textLayer = { ...element.textLayer, ...changes };
+        const natural = measureTextLayer(textLayer);
+        const scale = element.naturalHeight > 0 ? element.height / element.naturalHeight : 1;
+        const width = natural.width * scale;
+        const height = natural.height * scale;
+
+        const toSnapshot = (el: CanvasElement): TextLayerSnapshot => ({
+            id: el.id,
+            x: el.x,
+            y: el.y,
+            width: el.width,
+            height: el.height,
+            naturalWidth: el.naturalWidth,
+            naturalHeight: el.naturalHeight,
+            aspectRatio: el.aspectRatio,
+            textLayer: el.textLayer!,
+        });
+        const before = toSnapshot(element);
+        const after: TextLayerSnapshot = {
+            id: element.id,
+            x: element.x + (element.width - width) / 2,
+            y: element.y + (element.height - height) / 2,
+            width,
+            height,
+            naturalWidth: natural.width,
+            naturalHeight: natural.height,
+            aspectRatio: natural.width / natural.height,
+            textLayer,
+        };
+
+        applyTextLayerSnapshot(after);
+        pushHistory({
+            label: 'Edit text',
+            mergeKey: `text:${elementId}`,
+            undo: () => applyTextLayerSnapshot(before),
+            redo: () => applyTextLayerSnapshot(after),
+        });
+    }, [applyTextLayerSnapshot, pushHistory]);
+
     // Auto-delete empty abandoned projects on page leave
     useEffect(() => {
         const cleanupEmptyProject = async () => {
@@ -673,6 +1347,15 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                 naturalHeight: data.naturalHeight,
                                 aspectRatio: data.aspectRatio,
                                 prompt: data.prompt,
+                                systemRefinedPrompt: data.systemRefinedPrompt ?? null,
+                                model: data.model ?? null,
+                                style: data.style ?? null,
+                                generationRequest: data.generationRequest ?? null,
+                                refImages: data.refImages ?? [],
+                                textLayer: data.textLayer ?? null,
+                                zIndex: data.zIndex,
+                                locked: data.locked ?? false,
+                                hidden: data.hidden ?? false,
                                 createdAt: data.createdAt?.toDate?.()?.toISOString?.() || new Date().toISOString(),
                                 updatedAt: data.updatedAt?.toDate?.()?.toISOString?.() || new Date().toISOString(),
                             } as ApiThumbnail;
@@ -686,6 +1369,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 } else {
                     // In edit mode, use API as normal
                     thumbnailsResponse = await getProjectThumbnails(projectId);
+
+                    // Finish deletes from an earlier visit that didn't reach the backend
+                    if (thumbnailsResponse.thumbnails) {
+                        const { retry, visible } = reconcilePendingDeletes(projectId, thumbnailsResponse.thumbnails);
+                        retry.forEach(commitBackendDelete);
+                        thumbnailsResponse = { ...thumbnailsResponse, thumbnails: visible };
+                    }
                 }
 
                 if (thumbnailsResponse.success && thumbnailsResponse.thumbnails) {
@@ -694,13 +1384,20 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                     const elements: CanvasElement[] = thumbnailsResponse.thumbnails
                         .filter((thumb: ApiThumbnail) => {
                             // Filter out thumbnails with missing critical data
+                            if (thumb.type === 'text') {
+                                if (!thumb.textLayer) {
+                                    console.warn('Text layer missing content:', thumb.id);
+                                    return false;
+                                }
+                                return true;
+                            }
                             if (!thumb.thumbnailUrl) {
                                 console.warn('Thumbnail missing URL:', thumb.id);
                                 return false;
                             }
                             return true;
                         })
-                        .map((thumb: ApiThumbnail) => {
+                        .map((thumb: ApiThumbnail): CanvasElement => {
                             // Provide sensible defaults for missing dimensions
                             const naturalWidth = thumb.naturalWidth || 1920;
                             const naturalHeight = thumb.naturalHeight || 1080;
@@ -732,8 +1429,25 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                 aspectRatio,
                                 status: thumb.status === 'generating' ? 'generating' : 'complete',
                                 prompt: thumb.prompt || undefined,
+                                systemRefinedPrompt: thumb.systemRefinedPrompt || undefined,
+                                style: thumb.style || undefined,
+                                textLayer: thumb.textLayer || undefined,
+                                zIndex: thumb.zIndex,
+                                locked: thumb.locked || undefined,
+                                hidden: thumb.hidden || undefined,
+                                createdAt: thumb.createdAt,
+                                updatedAt: thumb.updatedAt,
+                                model: thumb.model || undefined,
+                                refImages: thumb.refImages || undefined,
+                                generationRequest: thumb.generationRequest || undefined,
                             };
-                        });
+                        })
+                        // Hidden layers are the owner's work in progress
+                        .filter(el => !(viewMode && el.hidden));
+
+                    // Stack by saved zIndex. Elements never reordered keep their load order on top.
+                    const stackRank = (el: CanvasElement) => el.zIndex ?? Number.POSITIVE_INFINITY;
+                    elements.sort((a, b) => stackRank(a) === stackRank(b) ? 0 : stackRank(a) - stackRank(b));
                     setCanvasElements(elements);
 
                     // Track if project started empty (for cleanup on abandon)
@@ -766,7 +1480,27 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         };
 
         fetchProjectData();
-    }, [projectId, user, viewMode]);
+    }, [projectId, user, viewMode, setViewport, commitBackendDelete]);
+
+    // Load Smart Merge's credit cost (view mode can't merge)
+    useEffect(() => {
+        if (!user || viewMode) return;
+
+        let cancelled = false;
+        getSmartMergeConfig()
+            .then(response => {
+                if (!cancelled && response.success) {
+                    setSmartMergeCreditCost(response.config.credit_cost);
+                }
+            })
+            .catch(error => {
+                console.error('Failed to load Smart Merge config:', error);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [user, viewMode]);
 
     // Reset editor open tracking when project changes
     useEffect(() => {
@@ -847,7 +1581,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
             hasPerformedInitialFit.current = true;
         }
-    }, [isLoadingProject, canvasElements]);
+    }, [isLoadingProject, canvasElements, setViewport]);
 
     // Handle template data from sessionStorage (when creating from a template)
     // Prompt-based templates are handled immediately; YouTube templates stored in ref for later
@@ -952,14 +1686,14 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
     const handleTogglePublic = useCallback(() => {
         // If trying to make private (isPublic is true, going to false) and user is not paid
-        if (isPublic && getUserPlan(userData).type === 'free') {
+        if (isPublic && !entitlements.privateProjects) {
             setPricingModalOpen(true);
             return;
         }
         const newVisibility = !isPublic;
         setIsPublic(newVisibility);
-        trackVisibilityToggle(newVisibility ? 'public' : 'private', 'free');
-    }, [isPublic, userData]);
+        trackVisibilityToggle(newVisibility ? 'public' : 'private', planType);
+    }, [isPublic, entitlements, planType]);
 
     const handleModeSelect = useCallback((mode: CreationMode) => {
         setSelectedMode(mode);
@@ -1002,18 +1736,17 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     const screenToCanvas = useCallback((screenX: number, screenY: number) => {
         if (!canvasContainerRef.current) return { x: 0, y: 0 };
         const rect = canvasContainerRef.current.getBoundingClientRect();
+        const { x, y, zoom } = viewportRef.current;
         return {
-            x: (screenX - rect.left - viewport.x) / viewport.zoom,
-            y: (screenY - rect.top - viewport.y) / viewport.zoom,
+            x: (screenX - rect.left - x) / zoom,
+            y: (screenY - rect.top - y) / zoom,
         };
-    }, [viewport]);
+    }, [viewportRef]);
 
     // Animate viewport to target position with easing
     const animateViewportTo = useCallback((targetX: number, targetY: number, targetZoom: number, duration = 400) => {
         const startTime = performance.now();
-        const startX = viewport.x;
-        const startY = viewport.y;
-        const startZoom = viewport.zoom;
+        const { x: startX, y: startY, zoom: startZoom } = viewportRef.current;
 
         const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
 
@@ -1022,7 +1755,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             const progress = Math.min(elapsed / duration, 1);
             const eased = easeOutCubic(progress);
 
-            setViewport({
+            setViewportLive({
                 x: startX + (targetX - startX) * eased,
                 y: startY + (targetY - startY) * eased,
                 zoom: startZoom + (targetZoom - startZoom) * eased,
@@ -1030,11 +1763,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
             if (progress < 1) {
                 requestAnimationFrame(animate);
+            } else {
+                commitViewport();
             }
         };
 
         requestAnimationFrame(animate);
-    }, [viewport]);
+    }, [viewportRef, setViewportLive, commitViewport]);
 
     // Gap between auto-placed elements (DB-persistable: this is just a constant)
     const ELEMENT_GAP = 20;
@@ -1324,16 +2059,9 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         img.src = thumbnailUrl;
     }, [isLoadingProject, projectId, addElementAtViewportCenter]);
 
-    const handleYoutubeLinkSubmit = useCallback(() => {
-        if (!validateYoutubeLink(youtubeLink)) return;
-
-        const videoId = extractVideoId(youtubeLink.trim());
-        if (!videoId) return;
-
-        const thumbnailUrl = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
-
-        const img = new window.Image();
-        img.onload = async () => {
+    // Add a YouTube video's thumbnail to the canvas, centred on `anchor` (canvas coordinates) or the viewport
+    const addYoutubeThumbnail = useCallback((videoId: string, anchor?: { x: number; y: number }) => {
+        const placeThumbnail = async (thumbnailUrl: string, img: HTMLImageElement) => {
             if (!canvasContainerRef.current) return;
 
             // Calculate position explicitly to ensure backend and frontend match
@@ -1343,7 +2071,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             const height = img.naturalHeight * scale;
 
             const containerRect = canvasContainerRef.current.getBoundingClientRect();
-            const centerCanvas = screenToCanvas(
+            const centerCanvas = anchor ?? screenToCanvas(
                 containerRect.left + containerRect.width / 2,
                 containerRect.top + containerRect.height / 2
             );
@@ -1352,7 +2080,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             const preferredY = centerCanvas.y - height / 2;
 
             // Find position using current state
-            const pos = findNonOverlappingPosition(width, height, canvasElements, preferredX, preferredY);
+            const pos = findNonOverlappingPosition(width, height, canvasElementsRef.current, preferredX, preferredY);
 
             // Add locally with explicit position
             const tempId = addElementAtViewportCenter(
@@ -1367,8 +2095,6 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 pos.y
             );
 
-            setYoutubeLink('');
-
             // Add to backend
             if (projectId) {
                 try {
@@ -1396,103 +2122,244 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 }
             }
         };
-        img.onerror = () => {
-            const fallbackUrl = `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`;
-            const fallbackImg = new window.Image();
-            fallbackImg.onload = async () => {
-                if (!canvasContainerRef.current) return;
-
-                // Calculate position explicitly
-                const maxDisplayWidth = 600;
-                const scale = Math.min(1, maxDisplayWidth / fallbackImg.naturalWidth);
-                const width = fallbackImg.naturalWidth * scale;
-                const height = fallbackImg.naturalHeight * scale;
-
-                const containerRect = canvasContainerRef.current.getBoundingClientRect();
-                const centerCanvas = screenToCanvas(
-                    containerRect.left + containerRect.width / 2,
-                    containerRect.top + containerRect.height / 2
-                );
-
-                const preferredX = centerCanvas.x - width / 2;
-                const preferredY = centerCanvas.y - height / 2;
-
-                const pos = findNonOverlappingPosition(width, height, canvasElements, preferredX, preferredY);
-
-                // Add locally
-                const tempId = addElementAtViewportCenter(
-                    fallbackUrl,
-                    'youtube-thumbnail',
-                    fallbackImg.naturalWidth,
-                    fallbackImg.naturalHeight,
-                    'complete',
-                    false,
-                    undefined,
-                    pos.x,
-                    pos.y
-                );
-
-                setYoutubeLink('');
-
-                // Add to backend
-                if (projectId) {
-                    try {
-                        const response = await addThumbnail(projectId, {
-                            thumbnailUrl: fallbackUrl,
-                            type: 'youtube-thumbnail',
-                            x: pos.x,
-                            y: pos.y,
-                            width,
-                            height,
-                            naturalWidth: fallbackImg.naturalWidth,
-                            naturalHeight: fallbackImg.naturalHeight,
-                            youtubeVideoId: videoId
-                        });
 
-                        if (response.success && response.thumbnail) {
-                            // Store backend ID without changing the element's id (which is used as React key)
-                            // Changing the id would cause CanvasItem to remount, resetting isLoaded state
-                            setCanvasElements(prev => prev.map(el =>
-                                el.id === tempId ? { ...el, backendId: response.thumbnail.id } : el
-                            ));
-                        }
-                    } catch (error) {
-                        console.error('Failed to save YouTube thumbnail:', error);
-                    }
+        // Not every video has a maxres thumbnail - fall back to the always-present hq one
+        const loadThumbnail = (quality: 'maxresdefault' | 'hqdefault') => {
+            const thumbnailUrl = `https://img.youtube.com/vi/${videoId}/${quality}.jpg`;
+            const img = new window.Image();
+            img.onload = () => placeThumbnail(thumbnailUrl, img);
+            img.onerror = () => {
+                if (quality === 'maxresdefault') {
+                    loadThumbnail('hqdefault');
+                } else {
+                    setToast({ message: 'Could not load the YouTube thumbnail', type: 'error' });
                 }
             };
-            fallbackImg.src = fallbackUrl;
+            img.src = thumbnailUrl;
         };
-        img.src = thumbnailUrl;
-    }, [youtubeLink, addElementAtViewportCenter]);
-
-    // Calculate generation credits based on model and selected options
-    // Only Nano Banana Pro credits change based on resolution (2K/4K)
-    const getGenerationCredits = useCallback((model: Model | null, res?: string) => {
-        if (!model) return 0;
-
-        // Only Nano Banana Pro - resolution affects credits
-        if (model.id === 'nano-banana-pro' || model.baseModel === 'nano-banana-pro') {
-            const r = res || model.defaultResolution || '2K';
-            if (r === '4K') return 47;
-            // 1K and 2K both cost 24 credits
-            return 24;
-        }
 
-        // All other models have fixed credits
-        return model.credits;
-    }, []);
+        loadThumbnail('maxresdefault');
+    }, [projectId, addElementAtViewportCenter, findNonOverlappingPosition, screenToCanvas]);
+
+    const handleYoutubeLinkSubmit = useCallback(() => {
+        if (!validateYoutubeLink(youtubeLink)) return;
+
+        const videoId = extractVideoId(youtubeLink.trim());
+        if (!videoId) return;
+
+        addYoutubeThumbnail(videoId);
+        setYoutubeLink('');
+    }, [youtubeLink, addYoutubeThumbnail]);
+
+    // Credits for the prompt bar's Generate, covering every thumbnail in the batch
+    const sidebarCredits = estimateCost({
+        model: promptModel,
+        action: 'prompt',
+        resolution,
+        size,
+        megapixels,
+        count: thumbnailCount,
+    });
+
+    // The backend's Smart Merge charge; until its config has loaded, estimated from
+    // the model choice and the prompt bar's resolution that are sent along
+    const getSmartMergeCredits = (modelId: string) => estimateCost({
+        model: AVAILABLE_MODELS.find(m => m.id === modelId),
+        action: 'smart-merge',
+        resolution: resolution || '2K',
+        smartMergeCost: smartMergeCreditCost,
+    });
+    const smartMergeCredits = getSmartMergeCredits(smartMergeModel);
 
-    // Memoized credits for sidebar (only pass resolution for nano-banana-pro)
-    const sidebarCredits = getGenerationCredits(promptModel, resolution);
+    // Balance is unknown until user data has loaded - leave those checks to the backend
+    const isShortOfCredits = (cost: number) => !isUserDataLoading && !!userData && !canAfford(cost, totalCredits);
+
+    // Block an action the balance can't cover before any job is started
+    const ensureCredits = useCallback((cost: number, action: string) => {
+        if (isUserDataLoading || !userData || canAfford(cost, totalCredits)) return true;
+
+        trackCreditsExhausted(planType, action);
+        setToast({ message: `Not enough credits - this needs ${cost} and you have ${totalCredits}`, type: 'error' });
+        setPricingModalOpen(true);
+        return false;
+    }, [isUserDataLoading, userData, totalCredits, planType]);
+
+    // Same for features the plan doesn't include - lockedFeature comes from the entitlements checks
+    const ensureEntitled = useCallback((lockedFeature: string | null) => {
+        if (isUserDataLoading || !lockedFeature) return true;
+
+        setToast({ message: `${lockedFeature} is included with paid plans`, type: 'error' });
+        setPricingModalOpen(true);
+        return false;
+    }, [isUserDataLoading]);
+
+    const handleLockedModel = useCallback((model: Model) => {
+        ensureEntitled(model.name);
+    }, [ensureEntitled]);
 
     // Prompt mode handlers
     const handlePromptChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
         setPromptText(e.target.value);
     }, []);
 
+    // Keep the exact request on the generated thumbnail so it can be regenerated or varied later
+    const recordGenerationRequest = useCallback((thumbnailId: string, generationRequest: StoredGenerationRequest) => {
+        if (!projectId) return;
+        updateThumbnail(projectId, thumbnailId, { generationRequest }).catch(err => {
+            console.error('Failed to save generation request:', err);
+        });
+    }, [projectId]);
+
+    // Placeholder geometry saved with a started job, so the placeholder can be put back after a reload
+    const getJobPlaceholder = useCallback((elementId: string): GenerationJobPlaceholder | undefined => {
+        const el = canvasElementsRef.current.find(candidate => candidate.id === elementId);
+        return el && {
+            x: el.x,
+            y: el.y,
+            width: el.width,
+            height: el.height,
+            naturalWidth: el.naturalWidth,
+            naturalHeight: el.naturalHeight,
+        };
+    }, []);
+
+    const removeJobPlaceholder = useCallback((elementId: string) => {
+        setCanvasElements(prev => prev.filter(el => el.id !== elementId));
+        setSelectedElementIds(prev => prev.filter(id => id !== elementId));
+    }, []);
+
+    // runJob options that mirror a job's status onto its placeholder and the jobs tray,
+    // and stop following it when it is cancelled from the tray
+    const jobRunOptions = useCallback((elementId: string) => {
+        const setStatus = (changes: Pick<CanvasElement, 'statusText' | 'progress'>) => {
+            setCanvasElements(prev => prev.map(el =>
+                el.id === elementId ? { ...el, ...changes } : el
+            ));
+            updateJob(elementId, changes);
+        };
+        return {
+            onProgress: (status: string, progress: number) => setStatus({ statusText: status, progress }),
+            onSlow: () => setStatus({ statusText: 'Taking longer than usual, please wait...' }),
+            signal: getJobSignal(elementId),
+        };
+    }, [updateJob, getJobSignal]);
+
+    // Keep a failed placeholder on the canvas with what went wrong. `retry` is left as it was when omitted.
+    const failPlaceholder = useCallback((elementId: string, failure: JobFailure, retry?: RetryableJobRequest) => {
+        setCanvasElements(prev => prev.map(el =>
+            el.id === elementId && el.status === 'generating'
+                ? {
+                    ...el,
+                    status: 'failed' as const,
+                    statusText: undefined,
+                    progress: undefined,
+                    failure,
+                    retryRequest: retry ?? el.retryRequest,
+                }
+                : el
+        ));
+        failJob(elementId, failure.message);
+    }, [failJob]);
+
+    // Swap a placeholder for the thumbnail its job produced, keeping the element id stable (React key)
+    const completePlaceholder = useCallback((
+        elementId: string,
+        result: JobResultMap[JobKind],
+        generationRequest?: StoredGenerationRequest
+    ) => {
+        const thumbnail = result.thumbnail;
+        setCanvasElements(prev => {
+            // The finished thumbnail may already be on the canvas, e.g. loaded with the project
+            if (thumbnail?.id && prev.some(el => el.backendId === thumbnail.id)) {
+                return prev.filter(el => el.id !== elementId);
+            }
+            return prev.map(el =>
+                el.id === elementId
+                    ? {
+                        ...el,
+                        backendId: thumbnail?.id,
+                        src: result.image || thumbnail?.thumbnailUrl || el.src,
+                        status: 'complete' as const,
+                        statusText: undefined,
+                        progress: undefined,
+                        failure: undefined,
+                        retryRequest: undefined,
+                        naturalWidth: thumbnail?.naturalWidth || el.naturalWidth,
+                        naturalHeight: thumbnail?.naturalHeight || el.naturalHeight,
+                        prompt: thumbnail?.prompt || el.prompt,
+                        model: thumbnail?.model || undefined,
+                        refImages: thumbnail?.refImages || undefined,
+                        systemRefinedPrompt: thumbnail?.systemRefinedPrompt || undefined,
+                        generationRequest: generationRequest || thumbnail?.generationRequest || undefined,
+                        createdAt: thumbnail?.createdAt,
+                    }
+                    : el
+            );
+        });
+        removeJob(elementId);
+    }, [removeJob]);
+
+    const handleCancelJob = useCallback((elementId: string) => {
+        cancelGenerationJob(elementId);
+        removeJobPlaceholder(elementId);
+    }, [cancelGenerationJob, removeJobPlaceholder]);
+
+    // Pick a job persisted before a reload back up: put its placeholder back and poll until it finishes
+    const resumeGenerationJob = useCallback(async (job: GenerationJob) => {
+        const { jobId, placeholder } = job;
+        if (!jobId || !placeholder) return;
+
+        updateJob(job.id, { resumed: false });
+        setCanvasElements(prev => prev.some(el => el.id === job.id) ? prev : [...prev, {
+            id: job.id,
+            type: 'generated',
+            src: '',
+            ...placeholder,
+            aspectRatio: placeholder.naturalWidth / placeholder.naturalHeight,
+            status: 'generating',
+            statusText: job.statusText || 'Reconnecting...',
+            progress: job.progress,
+            prompt: job.prompt,
+        }]);
+
+        try {
+            // Same deadline as before the reload
+            const result = await runJob(job.kind, jobId, {
+                ...jobRunOptions(job.id),
+                timeout: job.timeout,
+                startedAt: job.startedAt ?? job.createdAt,
+            });
+
+            if (!result.success) {
+                if (isJobCancelled(job.id)) {
+                    removeJobPlaceholder(job.id);
+                } else {
+                    failPlaceholder(job.id, { message: result.error, code: result.code, suggestion: result.suggestion });
+                }
+                return;
+            }
+
+            if (!result.result.image && !result.result.thumbnail?.thumbnailUrl) {
+                throw new Error('Failed to generate thumbnail');
+            }
+            completePlaceholder(job.id, result.result);
+        } catch (error) {
+            console.error('Error resuming generation job:', error);
+            // The request wasn't kept across the reload, so this one can only be dismissed
+            failPlaceholder(job.id, { message: error instanceof Error ? error.message : 'Generation failed' });
+        }
+    }, [updateJob, isJobCancelled, jobRunOptions, removeJobPlaceholder, completePlaceholder, failPlaceholder]);
+
+    // Resume jobs left running by a previous visit once the project's own elements have loaded
+    useEffect(() => {
+        if (viewMode || isLoadingProject || !user) return;
+        generationJobs.filter(job => job.resumed).forEach(resumeGenerationJob);
+    }, [generationJobs, viewMode, isLoadingProject, user, resumeGenerationJob]);
+
     const handlePromptSubmit = useCallback(async () => {
         if (!promptText.trim() || !user?.email) return;
+        if (!ensureEntitled(getLockedFeature(entitlements, promptModel))) return;
+        if (!ensureCredits(sidebarCredits, 'generation')) return;
         // Allow multiple generations - removed isGenerating check to allow sequential generations
 
         setIsGenerating(true);
@@ -1507,7 +2374,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             promptModel?.id || 'nano-banana-pro',
             isPromptModalOpen ? 'expanded' : 'sidebar',
             thumbnailCount,
-            'free' // TODO: Get actual user plan
+            planType
         );
 
         // Create placeholder elements for each thumbnail being generated
@@ -1530,6 +2397,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 ? { ...el, statusText: 'Queued...', progress: 0 }
                 : el
         ));
+        newElementIds.forEach(id => addJob({ id, kind: 'generation', label: promptText, prompt: promptText }));
 
         // After a short delay to let state update, fit all new elements in view with animation
         setTimeout(() => {
@@ -1552,6 +2420,44 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         let hasError = false;
         const successfulThumbnailIds: string[] = []; // Track actual backend IDs for analytics
 
+        // Request for the i-th thumbnail of the batch; also rebuilt for retries when the batch stops early
+        const buildRequest = (i: number): GenerateThumbnailRequest => {
+            const request: GenerateThumbnailRequest = {
+                userEmail: user.email || '',
+                userName: user.displayName || undefined,
+                prompt: promptText,
+                projectId: projectId,
+                gen_model: promptModel?.baseModel || promptModel?.id || 'nano-banana-pro',
+                aspectRatio: aspectRatio,
+                // Model-specific options
+                ...(promptModel?.options?.resolutions && resolution && { resolution }),
+                ...(promptModel?.options?.sizes && size && { size }),
+                ...(promptModel?.options?.megapixels && megapixels && { resolution: megapixels }), // Flux uses resolution field for MP
+                // A locked seed steps per image so a batch still gives distinct results
+                seed: lockedSeed !== null ? lockedSeed + i : randomSeed(),
+                // Optional hints for intelligence layer
+                ...(selectedCategory && {
+                    category: selectedCategory === 'custom' ? customCategory.trim() : selectedCategory
+                }),
+                ...(selectedTone && {
+                    tone: selectedTone === 'custom' ? customTone.trim() : selectedTone
+                }),
+            };
+
+            // Add reference images if available (respect model limit)
+            const modelLimit = promptModel?.maxImages || 10;
+            if (imageInputs.length > 0) {
+                request.imageInput = imageInputs.slice(0, modelLimit);
+            }
+            return request;
+        };
+        const builtRequests: GenerateThumbnailRequest[] = [];
+        const retryFor = (i: number): RetryableJobRequest => ({
+            kind: 'generation',
+            request: builtRequests[i] ?? buildRequest(i),
+            timeout: promptModel?.jobTimeout,
+        });
+
         // Generate thumbnails via API
         try {
             // Generate each thumbnail
@@ -1559,32 +2465,17 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 const elementId = newElementIds[i];
                 if (!elementId) continue;
 
-                const request: GenerateThumbnailRequest = {
-                    userEmail: user.email || '',
-                    userName: user.displayName || undefined,
-                    prompt: promptText,
-                    projectId: projectId,
-                    gen_model: promptModel?.baseModel || promptModel?.id || 'nano-banana-pro',
-                    aspectRatio: aspectRatio,
-                    // Model-specific options
-                    ...(promptModel?.options?.resolutions && resolution && { resolution }),
-                    ...(promptModel?.options?.sizes && size && { size }),
-                    ...(promptModel?.options?.megapixels && megapixels && { resolution: megapixels }), // Flux uses resolution field for MP
-                    // Optional hints for intelligence layer
-                    ...(selectedCategory && {
-                        category: selectedCategory === 'custom' ? customCategory.trim() : selectedCategory
-                    }),
-                    ...(selectedTone && {
-                        tone: selectedTone === 'custom' ? customTone.trim() : selectedTone
-                    }),
-                };
-
-                // Add reference images if available (respect model limit)
-                const modelLimit = promptModel?.maxImages || 10;
-                if (imageInputs.length > 0) {
-                    request.imageInput = imageInputs.slice(0, modelLimit);
+                // Cancelled from the jobs tray while waiting its turn
+                if (isJobCancelled(elementId)) {
+                    hasError = true;
+                    removeJobPlaceholder(elementId);
+                    continue;
                 }
 
+                const request = buildRequest(i);
+                builtRequests[i] = request;
+
+
                 // Start the generation job
                 const startResponse = await startGenerationJob(request);
 
@@ -1594,31 +2485,23 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
                 console.log('Generation job started:', startResponse.jobId);
 
+                if (!markJobStarted(elementId, startResponse.jobId, getJobPlaceholder(elementId), promptModel?.jobTimeout)) {
+                    hasError = true;
+                    removeJobPlaceholder(elementId);
+                    continue;
+                }
+
                 // Poll for job completion with progress updates
-                const result = await pollGenerationJob(
-                    startResponse.jobId,
-                    (status, progress) => {
-                        // Update the placeholder element with current status and progress
-                        setCanvasElements(prev => prev.map(el =>
-                            el.id === elementId
-                                ? { ...el, statusText: status, progress }
-                                : el
-                        ));
-                    },
-                    () => {
-                        // Timeout warning callback (triggered at 30 seconds)
-                        setCanvasElements(prev => prev.map(el =>
-                            el.id === elementId
-                                ? { ...el, statusText: 'Taking longer than usual, please wait...' }
-                                : el
-                        ));
-                    }
-                );
+                const result = await runJob('generation', startResponse.jobId, {
+                    ...jobRunOptions(elementId),
+                    timeout: promptModel?.jobTimeout,
+                });
 
                 if (result.success && result.result.image) {
                     // Track successful generation
                     const durationMs = Date.now() - startTime;
-                    trackGenerationSuccess('prompt', promptModel?.id || 'nano-banana-pro', durationMs, 'free');
+                    trackGenerationSuccess('prompt', promptModel?.id || 'nano-banana-pro', durationMs, planType);
+                    removeJob(elementId);
 
                     // Capture the actual backend thumbnail ID for analytics
                     const backendThumbnailId = result.result.thumbnail?.id;
@@ -1626,6 +2509,11 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                         successfulThumbnailIds.push(backendThumbnailId);
                     }
 
+                    const generationRequest = toStoredGenerationRequest(request, result.result.thumbnail?.refImages);
+                    if (backendThumbnailId) {
+                        recordGenerationRequest(backendThumbnailId, generationRequest);
+                    }
+
                     // Update the element with the generated image
                     setCanvasElements(prev => prev.map(el =>
                         el.id === elementId
@@ -1640,17 +2528,27 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                 naturalWidth: result.result.thumbnail?.naturalWidth || el.naturalWidth,
                                 naturalHeight: result.result.thumbnail?.naturalHeight || el.naturalHeight,
                                 prompt: result.result.thumbnail?.prompt || el.prompt || promptText,
+                                model: result.result.thumbnail?.model || el.model,
+                                refImages: result.result.thumbnail?.refImages || el.refImages,
+                                systemRefinedPrompt: result.result.thumbnail?.systemRefinedPrompt || undefined,
+                                generationRequest,
+                                createdAt: result.result.thumbnail?.createdAt || el.createdAt,
                             }
                             : el
                     ));
+                } else if (isJobCancelled(elementId)) {
+                    hasError = true;
+                    removeJobPlaceholder(elementId);
                 } else {
-                    // Remove failed placeholder element and clear from selection
+                    // Keep the failed placeholder so the same request can be retried
                     hasError = true;
                     const errorMsg = !result.success ? result.error : 'Failed to generate thumbnail';
-                    trackGenerationFailure('prompt', errorMsg, 'free');
-                    setCanvasElements(prev => prev.filter(el => el.id !== elementId));
-                    setSelectedElementIds(prev => prev.filter(id => id !== elementId));
-                    setToast({ message: errorMsg, type: 'error' });
+                    trackGenerationFailure('prompt', errorMsg, planType);
+                    failPlaceholder(elementId, {
+                        message: errorMsg,
+                        code: !result.success ? result.code : undefined,
+                        suggestion: !result.success ? result.suggestion : undefined,
+                    }, retryFor(i));
                 }
             }
         } catch (error) {
@@ -1661,16 +2559,14 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
             // Check for insufficient credits error and show pricing modal
             if (errorMessage.toLowerCase().includes('insufficient credits')) {
-                trackCreditsExhausted('free', 'generation');
+                trackCreditsExhausted(planType, 'generation');
                 setPricingModalOpen(true);
             } else {
-                trackGenerationFailure('prompt', errorMessage, 'free');
-                setToast({ message: errorMessage, type: 'error' });
+                trackGenerationFailure('prompt', errorMessage, planType);
             }
 
-            // Remove placeholder elements on error and clear from selection
-            setCanvasElements(prev => prev.filter(el => !newElementIds.includes(el.id)));
-            setSelectedElementIds(prev => prev.filter(id => !newElementIds.includes(id)));
+            // Fail every placeholder still waiting, each with its own request to retry
+            newElementIds.forEach((id, i) => failPlaceholder(id, { message: errorMessage }, retryFor(i)));
 
         } finally {
             setIsGenerating(false);
@@ -1698,12 +2594,12 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 }
             }
         }
-    }, [promptText, promptModel, thumbnailCount, addElementAtViewportCenter, fitElementsInView, user, projectId, isPublic, attachedImages, isGenerating, aspectRatio, resolution, size, megapixels]);
+    }, [promptText, promptModel, thumbnailCount, addElementAtViewportCenter, fitElementsInView, user, projectId, isPublic, attachedImages, isGenerating, aspectRatio, resolution, size, megapixels, lockedSeed, recordGenerationRequest, addJob, markJobStarted, removeJob, isJobCancelled, getJobPlaceholder, removeJobPlaceholder, jobRunOptions, failPlaceholder, ensureCredits, sidebarCredits, ensureEntitled, entitlements, planType]);
 
     const handleThumbnailCountChange = useCallback((count: number) => {
         setThumbnailCount(count);
-        trackBatchCountChange(count, 'free');
-    }, []);
+        trackBatchCountChange(count, planType);
+    }, [planType]);
 
     // Auto-trigger generation when template with autoGenerate flag is loaded
     useEffect(() => {
@@ -1716,7 +2612,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             }, 100);
             return () => clearTimeout(timer);
         }
-    }, [promptText, user?.email, isGenerating, isLoadingProject, handlePromptSubmit]);
+    }, [promptText, user?.email, isGenerating, isLoadingProject, handlePromptSubmit, autoGenerateRequest]);
 
     const handleCreateNewStyle = useCallback(() => {
         console.log('Create new style clicked');
@@ -1742,9 +2638,9 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
     }, []);
 
     // Image upload handler - registers with backend
-    const handleImageUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const files = e.target.files;
-        if (!files || files.length === 0 || !projectId) return;
+    // Upload image files to the canvas, centred on `anchor` (canvas coordinates) or the viewport
+    const uploadImageFiles = useCallback((files: File[], anchor?: { x: number; y: number }) => {
+        if (files.length === 0 || !projectId) return;
 
         // Track asset upload
         trackAssetUpload('image');
@@ -1757,7 +2653,6 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         // Validate number of files
         if (files.length > MAX_FILES) {
             setToast({ message: `Maximum ${MAX_FILES} files allowed per upload`, type: 'error' });
-            if (fileInputRef.current) fileInputRef.current.value = '';
             return;
         }
 
@@ -1765,7 +2660,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         let totalSize = 0;
         const oversizedFiles: string[] = [];
 
-        for (const file of Array.from(files)) {
+        for (const file of files) {
             totalSize += file.size;
             if (file.size > MAX_FILE_SIZE) {
                 oversizedFiles.push(`${file.name} (${(file.size / 1024 / 1024).toFixed(1)}MB)`);
@@ -1777,7 +2672,6 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 message: `File(s) too large (max 10MB each): ${oversizedFiles.slice(0, 2).join(', ')}${oversizedFiles.length > 2 ? '...' : ''}`,
                 type: 'error'
             });
-            if (fileInputRef.current) fileInputRef.current.value = '';
             return;
         }
 
@@ -1786,14 +2680,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 message: `Total upload size too large (${(totalSize / 1024 / 1024).toFixed(1)}MB, max 50MB)`,
                 type: 'error'
             });
-            if (fileInputRef.current) fileInputRef.current.value = '';
             return;
         }
 
         // Use a local copy of elements to track position for concurrent uploads
         const runningElements = [...canvasElements];
 
-        Array.from(files).forEach(async (file) => {
+        files.forEach(async (file) => {
             // Use URL.createObjectURL for instant optimistic display (0ms latency)
             const objectUrl = URL.createObjectURL(file);
 
@@ -1820,7 +2713,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                     const height = img.naturalHeight * scale;
 
                     const containerRect = canvasContainerRef.current.getBoundingClientRect();
-                    const centerCanvas = screenToCanvas(
+                    const centerCanvas = anchor ?? screenToCanvas(
                         containerRect.left + containerRect.width / 2,
                         containerRect.top + containerRect.height / 2
                     );
@@ -1902,11 +2795,16 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 URL.revokeObjectURL(objectUrl);
             }
         });
+    }, [projectId, addElementAtViewportCenter, canvasElements, findNonOverlappingPosition, screenToCanvas]);
 
+    const handleImageUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) {
+            uploadImageFiles(Array.from(e.target.files));
+        }
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
-    }, [projectId, addElementAtViewportCenter, canvasElements, findNonOverlappingPosition, screenToCanvas]);
+    }, [uploadImageFiles]);
 
 
 
@@ -1938,7 +2836,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         // Middle click or hand tool - start panning
         if (e.button === 1 || (e.button === 0 && (toolMode === 'hand' || isHandToolActive))) {
             setIsPanning(true);
-            setPanStart({ x: e.clientX - viewport.x, y: e.clientY - viewport.y });
+            setPanStart({ x: e.clientX - viewportRef.current.x, y: e.clientY - viewportRef.current.y });
             e.preventDefault();
             return;
         }
@@ -1961,12 +2859,14 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             });
             e.preventDefault();
         }
-    }, [viewport, toolMode, isHandToolActive, screenToCanvas, shiftPressed]);
+    }, [viewportRef, toolMode, isHandToolActive, screenToCanvas, shiftPressed]);
 
     const handleCanvasMouseMove = useCallback((e: React.MouseEvent) => {
+        lastPointerRef.current = { x: e.clientX, y: e.clientY };
+
         // Panning
         if (isPanning) {
-            setViewport(prev => ({
+            setViewportLive(prev => ({
                 ...prev,
                 x: e.clientX - panStart.x,
                 y: e.clientY - panStart.y,
@@ -1987,7 +2887,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             const dy = (e.clientY - dragState.startY) / viewport.zoom;
 
             // Calculate snap guides from other elements
-            const otherElements = canvasElements.filter(el => !dragState.elementIds.includes(el.id));
+            const otherElements = canvasElements.filter(el => !el.hidden && !dragState.elementIds.includes(el.id));
             const snapXPositions: number[] = [];
             const snapYPositions: number[] = [];
 
@@ -2121,13 +3021,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 return el;
             }));
         }
-    }, [isPanning, panStart, viewport.zoom, dragState, resizeState, canvasElements, isRubberbanding, selectionBox, screenToCanvas]);
+    }, [isPanning, panStart, viewport.zoom, dragState, resizeState, canvasElements, isRubberbanding, selectionBox, screenToCanvas, setViewportLive]);
 
     const handleCanvasMouseUp = useCallback((e: React.MouseEvent) => {
         // Complete rubberband selection
         if (isRubberbanding && selectionBox) {
             const selectedIds = canvasElements
-                .filter(el => isElementInSelectionBox(el, selectionBox))
+                .filter(el => !el.hidden && isElementInSelectionBox(el, selectionBox))
                 .map(el => el.id);
 
             if (shiftPressed) {
@@ -2137,42 +3037,39 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             }
         }
 
-        // Persist position/size changes after drag or resize
+        // Persist position/size changes after drag or resize, and record them for undo
         if (dragState.isDragging && dragState.elementIds.length > 0) {
-            // Get current positions of dragged elements (exclude generating placeholders and unsync'd elements)
-            const updates = canvasElements
-                .filter(el => dragState.elementIds.includes(el.id) && el.status !== 'generating' && el.backendId)
-                .map(el => ({ id: el.backendId!, x: el.x, y: el.y }));
-
-            // Persist to backend (fire and forget) if there are any synced elements
-            if (updates.length > 0) {
-                updateThumbnailPositions(projectId, updates).catch(err => {
-                    console.error('Failed to persist drag positions:', err);
-                });
-            }
+            const dragged = canvasElements.filter(el => dragState.elementIds.includes(el.id));
+            persistElementPositions(dragged);
+
+            const before = dragged
+                .map(el => {
+                    const start = dragState.elementStarts.find(s => s.id === el.id);
+                    return start ? { id: el.id, x: start.x, y: start.y, width: el.width, height: el.height } : null;
+                })
+                .filter((g): g is ElementGeometry => g !== null);
+            const after = dragged.map(({ id, x, y, width, height }) => ({ id, x, y, width, height }));
+            recordGeometryChange('Move', before, after);
         }
 
         if (resizeState.isResizing && resizeState.elementIds.length > 0) {
-            // Get current positions and sizes of resized elements (exclude generating placeholders and unsync'd elements)
-            const updates = canvasElements
-                .filter(el => resizeState.elementIds.includes(el.id) && el.status !== 'generating' && el.backendId)
-                .map(el => ({ id: el.backendId!, x: el.x, y: el.y, width: el.width, height: el.height }));
-
-            // Persist to backend (fire and forget) if there are any synced elements
-            if (updates.length > 0) {
-                updateThumbnailPositions(projectId, updates).catch(err => {
-                    console.error('Failed to persist resize positions:', err);
-                });
-            }
+            const resized = canvasElements.filter(el => resizeState.elementIds.includes(el.id));
+            persistElementPositions(resized);
+
+            const after = resized.map(({ id, x, y, width, height }) => ({ id, x, y, width, height }));
+            recordGeometryChange('Resize', resizeState.elementStarts, after);
         }
 
+        if (isPanning) {
+            commitViewport();
+        }
         setIsPanning(false);
         setIsRubberbanding(false);
         setSelectionBox(null);
         setDragState(prev => ({ ...prev, isDragging: false, elementIds: [], elementStarts: [] }));
         setResizeState(prev => ({ ...prev, isResizing: false, elementIds: [], elementStarts: [] }));
         setSnapLines({ x: [], y: [] }); // Clear snap lines
-    }, [isRubberbanding, selectionBox, canvasElements, isElementInSelectionBox, shiftPressed, dragState, resizeState, projectId]);
+    }, [isRubberbanding, selectionBox, canvasElements, isElementInSelectionBox, shiftPressed, dragState, resizeState, persistElementPositions, recordGeometryChange, isPanning, commitViewport]);
 
     // Element interaction handlers
     const handleElementMouseDown = useCallback((e: React.MouseEvent, elementId: string) => {
@@ -2181,6 +3078,9 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         if (toolMode === 'hand' || isHandToolActive) return;
         e.stopPropagation();
 
+        // Right button - selection is handled by the context menu
+        if (e.button === 2) return;
+
         const isSelected = selectedElementIds.includes(elementId);
         let newSelectedIds: string[];
 
@@ -2204,11 +3104,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         // In view mode, allow selection but not dragging
         if (viewMode) return;
 
-        // Start dragging all selected elements
-        const elementsToDrag = newSelectedIds.length > 0 ? newSelectedIds : [elementId];
-        const elementStarts = canvasElements
-            .filter(el => elementsToDrag.includes(el.id))
-            .map(el => ({ id: el.id, x: el.x, y: el.y }));
+        // Start dragging all selected elements (locked ones stay put)
+        const selectedForDrag = newSelectedIds.length > 0 ? newSelectedIds : [elementId];
+        const draggable = canvasElements.filter(el => selectedForDrag.includes(el.id) && !el.locked);
+        if (draggable.length === 0) return;
+
+        const elementsToDrag = draggable.map(el => el.id);
+        const elementStarts = draggable.map(el => ({ id: el.id, x: el.x, y: el.y }));
 
         setDragState({
             isDragging: true,
@@ -2227,51 +3129,1168 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
         // Get all selected elements
         const selectedElements = canvasElements.filter(el => selectedElementIds.includes(el.id));
-        if (selectedElements.length === 0) return;
+        if (selectedElements.length === 0 || selectedElements.some(el => el.locked)) return;
+
+        // Calculate group bounding box
+        const minX = Math.min(...selectedElements.map(el => el.x));
+        const minY = Math.min(...selectedElements.map(el => el.y));
+        const maxX = Math.max(...selectedElements.map(el => el.x + el.width));
+        const maxY = Math.max(...selectedElements.map(el => el.y + el.height));
+
+        const groupWidth = maxX - minX;
+        const groupHeight = maxY - minY;
+
+        // Store starting positions for all elements
+        const elementStarts = selectedElements.map(el => ({
+            id: el.id,
+            x: el.x,
+            y: el.y,
+            width: el.width,
+            height: el.height,
+        }));
+
+        setResizeState({
+            isResizing: true,
+            elementIds: selectedElementIds,
+            handle,
+            startX: e.clientX,
+            startY: e.clientY,
+            groupStartX: minX,
+            groupStartY: minY,
+            groupStartWidth: groupWidth,
+            groupStartHeight: groupHeight,
+            elementStarts,
+        });
+    }, [canvasElements, selectedElementIds, viewMode]);
+
+    // Download each selected element as its original file (no compositing)
+    const handleExportOriginals = useCallback(async () => {
+        // Get selected elements
+        const selectedElements = canvasElements.filter(el => selectedElementIds.includes(el.id));
+
+        if (selectedElements.length === 0) {
+            alert('No thumbnails selected');
+            return;
+        }
+
+        console.log('Exporting', selectedElements.length, 'thumbnails');
+        let exportSuccessCount = 0;
+        const exportedThumbnailIds: string[] = []; // Track exported backend IDs for satisfaction feedback
+
+        for (let i = 0; i < selectedElements.length; i++) {
+            const element = selectedElements[i];
+
+            // Name file with prompt (or text content for text layers) if available
+            let fileName = element.type === 'text' ? `text-${i + 1}` : `thumbnail-${i + 1}`;
+            const nameSource = element.type === 'text' ? element.textLayer?.text : element.prompt;
+            if (nameSource) {
+                // Sanitize prompt to be safe for filenames
+                const safePrompt = nameSource
+                    .replace(/[^a-z0-9\s-]/gi, '') // Remove special chars
+                    .trim()
+                    .replace(/\s+/g, '-') // Replace spaces with hyphens
+                    .substring(0, 50); // Limit length
+
+                if (safePrompt) {
+                    fileName = safePrompt;
+                }
+            }
+            // Handle duplicates by appending index if generating multiple
+            if (selectedElements.length > 1) {
+                fileName += `-${i + 1}`;
+            }
+            const filename = `${fileName}.png`;
+
+            try {
+                let blob: Blob;
+                if (element.type === 'text' && element.textLayer) {
+                    // Text layers have no stored image - render them client-side
+                    blob = await renderTextLayerToBlob(element.textLayer, element.naturalWidth, element.naturalHeight);
+                } else {
+                    console.log('Downloading:', element.src.substring(0, 100) + '...');
+
+                    // Fetch the image
+                    const response = await fetch(element.src);
+
+                    if (!response.ok) {
+                        throw new Error(`HTTP ${response.status}`);
+                    }
+
+                    blob = await response.blob();
+                }
+                console.log('Got blob:', blob.size, 'bytes, type:', blob.type);
+
+                // Create download link
+                const url = window.URL.createObjectURL(blob);
+                const link = document.createElement('a');
+                link.href = url;
+                link.download = filename;
+                link.click();
+
+                // Cleanup
+                window.URL.revokeObjectURL(url);
+
+                console.log('Download triggered for:', filename);
+
+                // Track download and export (use backendId if available for API calls)
+                const thumbnailId = element.backendId || element.id;
+                trackThumbnailDownload(projectId, thumbnailId).catch(console.error);
+                trackCanvasExport('png', 'original', planType);
+                trackExportSucceeded(projectId, thumbnailId);
+                exportedThumbnailIds.push(thumbnailId);
+                exportSuccessCount++;
+
+                // Small delay between downloads
+                if (i < selectedElements.length - 1) {
+                    await new Promise(r => setTimeout(r, 500));
+                }
+            } catch (err) {
+                console.error('Download failed:', err);
+                // Fallback: open in new tab
+                if (element.src) {
+                    window.open(element.src, '_blank');
+                }
+            }
+        }
+
+        // Show satisfaction toast if exports succeeded and throttle allows
+        if (exportSuccessCount > 0 && canShowExportSatisfaction()) {
+            setLastExportedThumbnailIds(exportedThumbnailIds);
+            setTimeout(() => {
+                setShowExportSatisfaction(true);
+                markExportSatisfactionShown();
+            }, 500);
+        }
+    }, [canvasElements, selectedElementIds, projectId, planType]);
+
+    // Flattened export - every finished element on the canvas (bottom to top), framed around the selection
+    const exportLayers = useMemo<CompositeLayer[]>(() => {
+        if (!exportModalOpen) return [];
+        return canvasElements.filter(el =>
+            !el.hidden && isSettledElement(el) && (el.src || el.textLayer)
+        );
+    }, [exportModalOpen, canvasElements]);
+
+    const exportRegion = useMemo(() => {
+        if (!exportModalOpen) return null;
+        return getLayersBounds(canvasElements.filter(el => selectedElementIds.includes(el.id)));
+    }, [exportModalOpen, canvasElements, selectedElementIds]);
+
+    const handleCompositeExported = useCallback((result: ExportResult) => {
+        trackCanvasExport(result.format, `${result.width}x${result.height}`, planType);
+
+        // Report what was actually written - the YouTube preset may have compressed or downscaled
+        const summary = `${result.width}×${result.height} ${result.format.toUpperCase()}, ${formatFileSize(result.size)}`;
+        if (result.withinBudget === false) {
+            setToast({ message: `Exported ${summary} - still over the size limit, try WebP or a simpler image`, type: 'error' });
+        } else {
+            setToast({ message: `Exported ${summary}`, type: 'success' });
+        }
+
+        const exportedThumbnailIds = canvasElements
+            .filter(el => selectedElementIds.includes(el.id) && el.type !== 'text')
+            .map(el => el.backendId || el.id);
+        exportedThumbnailIds.forEach(thumbnailId => trackExportSucceeded(projectId, thumbnailId));
+
+        if (canShowExportSatisfaction()) {
+            setLastExportedThumbnailIds(exportedThumbnailIds);
+            setTimeout(() => {
+                setShowExportSatisfaction(true);
+                markExportSatisfactionShown();
+            }, 500);
+        }
+    }, [canvasElements, selectedElementIds, projectId, planType]);
+
+    // Layers panel rows, top-most first
+    const layerItems = useMemo<LayerItem[]>(() => [...canvasElements].reverse().map(el => {
+        let label: string;
+        if (el.type === 'text') {
+            label = el.textLayer?.text.trim() || 'Text';
+        } else if (el.status === 'generating' || el.status === 'uploading') {
+            label = el.statusText || (el.status === 'uploading' ? 'Uploading...' : 'Generating...');
+        } else if (el.status === 'failed') {
+            label = `Failed: ${el.prompt || el.failure?.message || 'generation'}`;
+        } else if (el.prompt) {
+            label = el.prompt;
+        } else {
+            label = el.type === 'youtube-thumbnail' ? 'YouTube thumbnail' : 'Image';
+        }
+
+        return {
+            id: el.id,
+            label,
+            previewUrl: el.src || undefined,
+            isText: el.type === 'text',
+            locked: !!el.locked,
+            hidden: !!el.hidden,
+        };
+    }), [canvasElements]);
+
+    // Clicking a row selects the element - hidden ones are shown first so the selection is visible
+    const handleLayerSelect = useCallback((id: string, additive: boolean) => {
+        const element = canvasElementsRef.current.find(el => el.id === id);
+        if (element?.hidden) {
+            toggleLayerFlag([id], 'hidden');
+        }
+        setSelectedElementIds(prev => {
+            if (!additive) return [id];
+            return prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id];
+        });
+    }, [toggleLayerFlag]);
+
+    // Add a text layer - centered over the selected image if there is one, otherwise the viewport
+    const handleAddTextLayer = useCallback(() => {
+        if (viewMode || !canvasContainerRef.current) return;
+
+        const textLayer: TextLayerStyle = { ...DEFAULT_TEXT_LAYER_STYLE };
+        const natural = measureTextLayer(textLayer);
+
+        const target = selectedElementIds.length === 1
+            ? canvasElementsRef.current.find(el => el.id === selectedElementIds[0] && el.type !== 'text')
+            : undefined;
+
+        let center: { x: number; y: number };
+        let maxWidth: number;
+        if (target) {
+            center = { x: target.x + target.width / 2, y: target.y + target.height / 2 };
+            maxWidth = target.width * 0.8;
+        } else {
+            const rect = canvasContainerRef.current.getBoundingClientRect();
+            center = screenToCanvas(rect.left + rect.width / 2, rect.top + rect.height / 2);
+            maxWidth = 600;
+        }
+
+        const scale = Math.min(1, maxWidth / natural.width);
+        const width = natural.width * scale;
+        const height = natural.height * scale;
+
+        const element: CanvasElement = {
+            id: crypto.randomUUID(),
+            type: 'text',
+            src: '',
+            x: center.x - width / 2,
+            y: center.y - height / 2,
+            width,
+            height,
+            naturalWidth: natural.width,
+            naturalHeight: natural.height,
+            aspectRatio: natural.width / natural.height,
+            status: 'complete',
+            textLayer,
+        };
+
+        addElementsWithHistory('Add text', [element], el => projectId ? addThumbnail(projectId, {
+            thumbnailUrl: '',
+            type: 'text',
+            x: el.x,
+            y: el.y,
+            width: el.width,
+            height: el.height,
+            naturalWidth: el.naturalWidth,
+            naturalHeight: el.naturalHeight,
+            textLayer: el.textLayer,
+        }) : null);
+        setToolMode('select');
+        setNewTextElementId(element.id);
+    }, [viewMode, selectedElementIds, screenToCanvas, addElementsWithHistory, projectId]);
+
+    // Only auto-focus the text editor right after creation, not on later reselection
+    useEffect(() => {
+        if (newTextElementId && !selectedElementIds.includes(newTextElementId)) {
+            setNewTextElementId(null);
+        }
+    }, [newTextElementId, selectedElementIds]);
+
+    // Delete elements, keeping locked ones (they stay selected)
+    const deleteElements = useCallback((ids: string[]) => {
+        const deletableIds = canvasElementsRef.current
+            .filter(el => ids.includes(el.id) && !el.locked)
+            .map(el => el.id);
+        if (deletableIds.length === 0) return;
+
+        // Backend delete is deferred by the history so it can be undone
+        deleteElementsWithHistory(deletableIds);
+
+        // Clean up prompts and models for deleted elements
+        setElementPrompts(prev => {
+            const newPrompts = { ...prev };
+            deletableIds.forEach(id => delete newPrompts[id]);
+            return newPrompts;
+        });
+        setElementModels(prev => {
+            const newModels = { ...prev };
+            deletableIds.forEach(id => delete newModels[id]);
+            return newModels;
+        });
+
+        setSelectedElementIds(prev => prev.filter(id => !deletableIds.includes(id)));
+    }, [deleteElementsWithHistory]);
+
+    // Animate the viewport to show every visible element
+    const fitToView = useCallback(() => {
+        const visibleIds = canvasElementsRef.current.filter(el => !el.hidden).map(el => el.id);
+        if (visibleIds.length === 0) {
+            setViewport({ x: 0, y: 0, zoom: 1 });
+            return;
+        }
+        fitElementsInView(visibleIds);
+    }, [fitElementsInView, setViewport]);
+
+    // Copy an element's image to the system clipboard as PNG
+    const copyElementImage = useCallback(async (element: CanvasElement) => {
+        try {
+            // Pass the blob as a promise so Safari still treats the write as part of the click
+            const png = element.type === 'text' && element.textLayer
+                ? renderTextLayerToBlob(element.textLayer, element.naturalWidth, element.naturalHeight)
+                : fetchImageBlob(element.src).then(toPngBlob);
+            await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+            setToast({ message: 'Image copied to clipboard', type: 'success' });
+        } catch (error) {
+            console.error('Failed to copy image:', error);
+            setToast({ message: 'Could not copy image to clipboard', type: 'error' });
+        }
+    }, []);
+
+    const copyElementPrompt = useCallback(async (element: CanvasElement) => {
+        if (!element.prompt) return;
+        try {
+            await navigator.clipboard.writeText(element.prompt);
+            setToast({ message: 'Prompt copied to clipboard', type: 'success' });
+        } catch (error) {
+            console.error('Failed to copy prompt:', error);
+            setToast({ message: 'Could not copy prompt to clipboard', type: 'error' });
+        }
+    }, []);
+
+    // Attach element images to the prompt bar as reference images
+    // Fetch images into the prompt bar's attached references
+    const attachImagesAsReference = useCallback(async (sources: { src: string; name: string }[]) => {
+        if (sources.length === 0) return;
+
+        // Same 10MB limit as reference images picked from disk
+        const MAX_REF_FILE_SIZE = 10 * 1024 * 1024;
+
+        try {
+            const newImages = await Promise.all(sources.map(async ({ src, name }) => {
+                const blob = await fetchImageBlob(src);
+                if (blob.size > MAX_REF_FILE_SIZE) {
+                    throw new Error('Reference images must be under 10MB each');
+                }
+                const extension = blob.type.split('/')[1] || 'png';
+                const file = new File([blob], `${name}.${extension}`, { type: blob.type });
+                return {
+                    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                    file,
+                    preview: URL.createObjectURL(file)
+                };
+            }));
+            setAttachedImages(prev => [...prev, ...newImages]);
+            setSelectedMode('prompt');
+            setIsMobileSidebarOpen(true);
+        } catch (error) {
+            console.error('Failed to attach reference image:', error);
+            const errorMsg = error instanceof Error ? error.message : 'Failed to attach reference image';
+            setToast({ message: errorMsg, type: 'error' });
+        }
+    }, []);
+
+    const attachElementsAsReference = useCallback((ids: string[]) => {
+        const elements = canvasElementsRef.current.filter(el =>
+            ids.includes(el.id) && el.type !== 'text' && el.src && isSettledElement(el)
+        );
+        return attachImagesAsReference(elements.map(element => ({ src: element.src, name: `reference-${element.id}` })));
+    }, [attachImagesAsReference]);
+
+    // Run a stored generation request again and place the result beside the element it came from
+    const rerunGeneration = useCallback(async (source: CanvasElement, stored: StoredGenerationRequest) => {
+        if (!user?.email || viewMode) return;
+
+        const request: GenerateThumbnailRequest = {
+            ...stored,
+            userEmail: user.email,
+            userName: user.displayName || undefined,
+            projectId,
+        };
+        const model = findModelForRequest(stored);
+        if (!ensureEntitled(getLockedFeature(entitlements, model))) return;
+        if (!ensureCredits(getRequestCredits({ kind: 'generation', request }), 'generation')) return;
+        const modelId = model?.id || stored.gen_model || 'nano-banana-pro';
+
+        // Same display size rules as addElementAtViewportCenter, to the right of the source
+        const displayWidth = Math.min(600, source.naturalWidth);
+        const displayHeight = displayWidth * (source.naturalHeight / source.naturalWidth);
+        const position = findNonOverlappingPosition(
+            displayWidth,
+            displayHeight,
+            canvasElementsRef.current,
+            source.x + source.width + 40,
+            source.y
+        );
+
+        setSelectedElementIds([]);
+        const newId = addElementAtViewportCenter('', 'generated', source.naturalWidth, source.naturalHeight, 'generating', false, stored.prompt, position.x, position.y);
+        if (!newId) return;
+        const retry: RetryableJobRequest = { kind: 'generation', request, timeout: findModelForRequest(stored)?.jobTimeout };
+
+        const updatePlaceholder = (changes: Partial<CanvasElement>) => setCanvasElements(prev => prev.map(el =>
+            el.id === newId ? { ...el, ...changes } : el
+        ));
+        updatePlaceholder({ statusText: 'Queued...', progress: 0 });
+        addJob({ id: newId, kind: 'generation', label: stored.prompt, prompt: stored.prompt });
+
+        const startTime = Date.now();
+        trackGenerationStart('prompt', modelId, 'sidebar', 1, planType);
+
+        try {
+            const startResponse = await startGenerationJob(request);
+            if (!startResponse.success) {
+                throw new Error('Failed to start generation job');
+            }
+
+            if (!markJobStarted(newId, startResponse.jobId, getJobPlaceholder(newId), retry.timeout)) {
+                removeJobPlaceholder(newId);
+                return;
+            }
+
+            const result = await runJob('generation', startResponse.jobId, {
+                ...jobRunOptions(newId),
+                timeout: retry.timeout,
+            });
+
+            if (!result.success) {
+                if (isJobCancelled(newId)) {
+                    removeJobPlaceholder(newId);
+                    return;
+                }
+                trackGenerationFailure('prompt', result.error, planType);
+                failPlaceholder(newId, { message: result.error, code: result.code, suggestion: result.suggestion }, retry);
+                return;
+            }
+            if (!result.result.image) {
+                throw new Error('Failed to generate thumbnail');
+            }
+
+            trackGenerationSuccess('prompt', modelId, Date.now() - startTime, planType);
+            removeJob(newId);
+
+            const thumbnail = result.result.thumbnail;
+            if (thumbnail?.id) {
+                recordGenerationRequest(thumbnail.id, stored);
+            }
+
+            // Keep the element id stable (React key) and store the backend id alongside
+            updatePlaceholder({
+                backendId: thumbnail?.id,
+                src: result.result.image,
+                status: 'complete',
+                statusText: undefined,
+                progress: undefined,
+                naturalWidth: thumbnail?.naturalWidth || source.naturalWidth,
+                naturalHeight: thumbnail?.naturalHeight || source.naturalHeight,
+                prompt: thumbnail?.prompt || stored.prompt,
+                model: thumbnail?.model || undefined,
+                refImages: thumbnail?.refImages || undefined,
+                systemRefinedPrompt: thumbnail?.systemRefinedPrompt || undefined,
+                generationRequest: stored,
+                createdAt: thumbnail?.createdAt,
+            });
+        } catch (error) {
+            if (isJobCancelled(newId)) {
+                removeJobPlaceholder(newId);
+                return;
+            }
+
+            console.error('Regeneration error:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Generation failed';
+
+            if (errorMessage.toLowerCase().includes('insufficient credits')) {
+                trackCreditsExhausted(planType, 'generation');
+                setPricingModalOpen(true);
+            } else {
+                trackGenerationFailure('prompt', errorMessage, planType);
+            }
+
+            failPlaceholder(newId, { message: errorMessage }, retry);
+        }
+    }, [user, viewMode, projectId, findNonOverlappingPosition, addElementAtViewportCenter, recordGenerationRequest, addJob, markJobStarted, removeJob, isJobCancelled, getJobPlaceholder, removeJobPlaceholder, jobRunOptions, failPlaceholder, ensureCredits, ensureEntitled, entitlements, planType]);
+
+    // Generate an element again. Elements with a stored request repeat it exactly, seed included;
+    // older ones load their prompt and model into the prompt bar and generate from there.
+    const regenerateElement = useCallback((element: CanvasElement) => {
+        if (element.generationRequest) {
+            rerunGeneration(element, element.generationRequest);
+            return;
+        }
+        if (!element.prompt) return;
+
+        const model = AVAILABLE_MODELS.find(m => m.id === element.model || m.baseModel === element.model) || DEFAULT_MODEL;
+
+        // Pick the model's aspect ratio closest to the element's own
+        const elementRatio = element.naturalWidth / element.naturalHeight;
+        const ratioValue = (ratio: string) => {
+            const [w, h] = ratio.split(':').map(Number);
+            return w / h;
+        };
+        const closestRatio = (model.options?.aspectRatios || [])
+            .filter(ratio => ratio.includes(':'))
+            .reduce<string | null>((best, ratio) =>
+                best === null || Math.abs(ratioValue(ratio) - elementRatio) < Math.abs(ratioValue(best) - elementRatio)
+                    ? ratio
+                    : best,
+                null);
+
+        setPromptText(element.prompt);
+        setPromptModel(model);
+        if (closestRatio) setAspectRatio(closestRatio);
+        setThumbnailCount(1);
+        setSelectedMode('prompt');
+
+        pendingAutoGenerateRef.current = true;
+        setAutoGenerateRequest(prev => prev + 1);
+    }, [rerunGeneration]);
+
+    // Same request with a new seed - a variation on the composition rather than a copy
+    const varyElement = useCallback((element: CanvasElement) => {
+        if (element.generationRequest) {
+            rerunGeneration(element, { ...element.generationRequest, seed: randomSeed() });
+        } else {
+            // Without a stored seed every regeneration is already a new roll
+            regenerateElement(element);
+        }
+    }, [rerunGeneration, regenerateElement]);
+
+    // Load a request's settings into the prompt bar
+    const applyGenerationSettings = useCallback((stored: Omit<StoredGenerationRequest, 'imageInput'>) => {
+        const model = findModelForRequest(stored) || DEFAULT_MODEL;
+        setPromptText(stored.prompt);
+        setPromptModel(model);
+        if (stored.aspectRatio) setAspectRatio(stored.aspectRatio);
+        // Flux sends megapixels in the resolution field
+        if (model.options?.megapixels) {
+            setMegapixels(stored.resolution);
+        } else {
+            setResolution(stored.resolution);
+        }
+        setSize(stored.size);
+        setThumbnailCount(1);
+        setSelectedMode('prompt');
+        setIsMobileSidebarOpen(true);
+    }, []);
+
+    // Load an element's settings into the prompt bar with its seed locked, so prompt edits
+    // keep the composition
+    const lockElementSeed = useCallback((element: CanvasElement) => {
+        const stored = element.generationRequest;
+        if (stored?.seed === undefined) return;
+
+        applyGenerationSettings(stored);
+        setLockedSeed(stored.seed);
+        setToast({ message: `Seed ${stored.seed} locked - edit the prompt and generate`, type: 'success' });
+    }, [applyGenerationSettings]);
+
+    // Put a failed placeholder's request back in flight, in place
+    const retryFailedElement = useCallback(async (elementId: string) => {
+        const element = canvasElementsRef.current.find(el => el.id === elementId);
+        const retry = element?.retryRequest;
+        if (!element || element.status !== 'failed' || !retry || !user?.email || viewMode) return;
+        if (!ensureCredits(getRequestCredits(retry), retry.kind)) return;
+
+        setCanvasElements(prev => prev.map(el =>
+            el.id === elementId
+                ? { ...el, status: 'generating' as const, statusText: 'Retrying...', progress: 0, failure: undefined }
+                : el
+        ));
+        addJob({
+            id: elementId,
+            kind: retry.kind,
+            label: retry.kind === 'generation' ? retry.request.prompt : JOB_KIND_LABELS[retry.kind],
+            prompt: element.prompt,
+        });
+
+        try {
+            const startResponse = retry.kind === 'generation'
+                ? await startGenerationJob(retry.request)
+                : await startSmartMergeJob(retry.request);
+            if (!startResponse.success || !startResponse.jobId) {
+                throw new Error('Failed to start generation job');
+            }
+            if (!markJobStarted(elementId, startResponse.jobId, getJobPlaceholder(elementId), retry.timeout)) {
+                removeJobPlaceholder(elementId);
+                return;
+            }
+
+            const result = await runJob(retry.kind, startResponse.jobId, {
+                ...jobRunOptions(elementId),
+                timeout: retry.timeout,
+            });
+
+            if (!result.success) {
+                if (isJobCancelled(elementId)) {
+                    removeJobPlaceholder(elementId);
+                } else {
+                    failPlaceholder(elementId, { message: result.error, code: result.code, suggestion: result.suggestion });
+                }
+                return;
+            }
+            if (!result.result.image && !result.result.thumbnail?.thumbnailUrl) {
+                throw new Error('Failed to generate thumbnail');
+            }
+
+            let generationRequest: StoredGenerationRequest | undefined;
+            const thumbnailId = result.result.thumbnail?.id;
+            if (retry.kind === 'generation') {
+                generationRequest = toStoredGenerationRequest(retry.request, result.result.thumbnail?.refImages);
+                if (thumbnailId) {
+                    recordGenerationRequest(thumbnailId, generationRequest);
+                }
+            }
+            completePlaceholder(elementId, result.result, generationRequest);
+        } catch (error) {
+            console.error('Retry error:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Generation failed';
+            if (errorMessage.toLowerCase().includes('insufficient credits')) {
+                trackCreditsExhausted(planType, 'generation');
+                setPricingModalOpen(true);
+            }
+            failPlaceholder(elementId, { message: errorMessage });
+        }
+    }, [user, viewMode, addJob, markJobStarted, getJobPlaceholder, removeJobPlaceholder, jobRunOptions, isJobCancelled, failPlaceholder, completePlaceholder, recordGenerationRequest, ensureCredits, planType]);
+
+    const dismissFailedElement = useCallback((elementId: string) => {
+        removeJobPlaceholder(elementId);
+        removeJob(elementId);
+    }, [removeJobPlaceholder, removeJob]);
+
+    // Move a failed generation's prompt, settings and references into the prompt bar to change before trying again
+    const editFailedElement = useCallback((elementId: string) => {
+        const retry = canvasElementsRef.current.find(el => el.id === elementId)?.retryRequest;
+        if (retry?.kind !== 'generation') return;
+
+        const { request } = retry;
+        applyGenerationSettings(request);
+        setLockedSeed(null);
+        const inputs = request.imageInput === undefined
+            ? []
+            : Array.isArray(request.imageInput) ? request.imageInput : [request.imageInput];
+        attachImagesAsReference(inputs.map((src, index) => ({ src, name: `reference-${elementId}-${index}` })));
+        dismissFailedElement(elementId);
+    }, [applyGenerationSettings, attachImagesAsReference, dismissFailedElement]);
+
+    const handleFailedElementAction = useCallback((elementId: string, action: FailedElementAction) => {
+        if (action === 'retry') {
+            retryFailedElement(elementId);
+        } else if (action === 'edit') {
+            editFailedElement(elementId);
+        } else {
+            dismissFailedElement(elementId);
+        }
+    }, [retryFailedElement, editFailedElement, dismissFailedElement]);
+
+    // Inspector panel - open state is remembered across sessions
+    useEffect(() => {
+        setIsInspectorOpen(localStorage.getItem(INSPECTOR_OPEN_STORAGE_KEY) === 'true');
+    }, []);
+
+    const setInspectorOpen = useCallback((open: boolean) => {
+        localStorage.setItem(INSPECTOR_OPEN_STORAGE_KEY, String(open));
+        setIsInspectorOpen(open);
+    }, []);
+
+    const inspectedElement = selectedElementIds.length === 1
+        ? canvasElements.find(el => el.id === selectedElementIds[0]) ?? null
+        : null;
+
+    const inspectorDetails = useMemo((): InspectorDetails | null => {
+        if (!isInspectorOpen || !inspectedElement) return null;
+        const el = inspectedElement;
+
+        return {
+            typeLabel: ELEMENT_TYPE_LABELS[el.type],
+            width: el.width,
+            height: el.height,
+            naturalWidth: el.naturalWidth,
+            naturalHeight: el.naturalHeight,
+            createdAt: el.createdAt,
+            updatedAt: el.updatedAt,
+            prompt: el.prompt,
+            systemRefinedPrompt: el.systemRefinedPrompt,
+            modelName: el.model
+                ? AVAILABLE_MODELS.find(m => m.id === el.model || m.baseModel === el.model)?.name ?? el.model
+                : undefined,
+            style: el.style,
+            seed: el.generationRequest?.seed,
+            aspectRatio: el.generationRequest?.aspectRatio,
+            resolution: el.generationRequest?.size || el.generationRequest?.resolution,
+            references: (el.refImages || []).map(ref => ({
+                previewUrl: ref.previewUrl || ref.storageUrl || '',
+                label: REF_IMAGE_LABELS[ref.type],
+                sourceElementId: findRefImageSource(ref, canvasElements, el.id)?.id,
+            })).filter(ref => ref.previewUrl),
+        };
+    }, [isInspectorOpen, inspectedElement, canvasElements]);
+
+    // Select an element and bring it to the middle of the screen at the current zoom
+    const panToElement = useCallback((id: string) => {
+        const element = canvasElementsRef.current.find(el => el.id === id);
+        const containerRect = canvasContainerRef.current?.getBoundingClientRect();
+        if (!element || !containerRect) return;
+
+        if (element.hidden) toggleLayerFlag([id], 'hidden');
+        setSelectedElementIds([id]);
+
+        const { zoom } = viewportRef.current;
+        animateViewportTo(
+            containerRect.width / 2 - (element.x + element.width / 2) * zoom,
+            containerRect.height / 2 - (element.y + element.height / 2) * zoom,
+            zoom
+        );
+    }, [animateViewportTo, toggleLayerFlag, viewportRef]);
+
+    const copyGenerationSettings = useCallback(async (element: CanvasElement) => {
+        // The stored request is the complete record; older elements only have what the thumbnail kept
+        const settings = element.generationRequest ? {
+            ...element.generationRequest,
+            systemRefinedPrompt: element.systemRefinedPrompt ?? null,
+            style: element.style ?? null,
+        } : {
+            prompt: element.prompt ?? null,
+            systemRefinedPrompt: element.systemRefinedPrompt ?? null,
+            model: element.model ?? null,
+            style: element.style ?? null,
+            width: element.naturalWidth,
+            height: element.naturalHeight,
+            refImages: (element.refImages || []).map(ref => ref.storageUrl || ref.youtubeUrl || ref.previewUrl),
+        };
+        try {
+            await navigator.clipboard.writeText(JSON.stringify(settings, null, 2));
+            setToast({ message: 'Generation settings copied to clipboard', type: 'success' });
+        } catch (error) {
+            console.error('Failed to copy generation settings:', error);
+            setToast({ message: 'Could not copy to clipboard', type: 'error' });
+        }
+    }, []);
+
+    // Lineage - which elements were generated or edited from which
+    useEffect(() => {
+        setShowLineage(localStorage.getItem(LINEAGE_VISIBLE_STORAGE_KEY) === 'true');
+    }, []);
+
+    const toggleLineage = useCallback(() => {
+        setShowLineage(prev => {
+            localStorage.setItem(LINEAGE_VISIBLE_STORAGE_KEY, String(!prev));
+            return !prev;
+        });
+    }, []);
+
+    const lineageLinks = useMemo(
+        () => getLineageLinks(canvasElements.filter(el => !el.hidden && isSettledElement(el))),
+        [canvasElements]
+    );
+
+    const lineageConnectors = useMemo((): LineageConnector[] => {
+        if (!showLineage) return [];
+
+        const elementsById = new Map(canvasElements.map(el => [el.id, el]));
+        // Emphasise the chain the selection belongs to
+        const highlightedIds = new Set<string>();
+        selectedElementIds.forEach(id => getLineageChain(lineageLinks, id).forEach(chainId => highlightedIds.add(chainId)));
+
+        return lineageLinks.flatMap(({ parentId, childId }) => {
+            const parent = elementsById.get(parentId);
+            const child = elementsById.get(childId);
+            if (!parent || !child) return [];
+            return [{
+                id: `${parentId}->${childId}`,
+                from: parent,
+                to: child,
+                highlighted: highlightedIds.has(parentId) && highlightedIds.has(childId),
+            }];
+        });
+    }, [showLineage, lineageLinks, canvasElements, selectedElementIds]);
+
+    // Edit tree for the sidebar, when a single selected element has one
+    const lineageTree = useMemo(
+        () => selectedElementIds.length === 1 ? getLineageTree(lineageLinks, selectedElementIds[0]) : null,
+        [lineageLinks, selectedElementIds]
+    );
+
+    const lineageItems = useMemo((): Record<string, LineageItem> => {
+        if (!lineageTree) return {};
+        return Object.fromEntries(canvasElements.map(el => [el.id, {
+            label: el.prompt || ELEMENT_TYPE_LABELS[el.type],
+            previewUrl: el.type === 'text' || !el.src ? undefined : getPreviewImageUrl(el.src, 80) ?? el.src,
+        }]));
+    }, [lineageTree, canvasElements]);
+
+    // Copy elements into a fresh project and switch to it
+    const openInNewProject = useCallback(async (ids: string[]) => {
+        const elements = canvasElementsRef.current.filter(el =>
+            ids.includes(el.id) && isSettledElement(el)
+        );
+        if (elements.length === 0) return;
+
+        const newProject = await createNewProject(`${projectName} copy`, isPublic);
+        if (!newProject) {
+            setToast({ message: 'Failed to create project', type: 'error' });
+            return;
+        }
+
+        // Keep the elements' layout relative to each other
+        const minX = Math.min(...elements.map(el => el.x));
+        const minY = Math.min(...elements.map(el => el.y));
+
+        try {
+            await Promise.all(elements.map(element => addThumbnail(newProject.id, {
+                thumbnailUrl: element.src,
+                type: element.type === 'text' ? 'text' : element.type === 'youtube-thumbnail' ? 'youtube-thumbnail' : 'uploaded',
+                x: element.x - minX,
+                y: element.y - minY,
+                width: element.width,
+                height: element.height,
+                naturalWidth: element.naturalWidth,
+                naturalHeight: element.naturalHeight,
+                prompt: element.prompt ?? null,
+                model: element.model ?? null,
+                refImages: element.refImages,
+                textLayer: element.textLayer,
+            })));
+        } catch (error) {
+            console.error('Failed to copy elements to new project:', error);
+            setToast({ message: 'Some items could not be copied to the new project', type: 'error' });
+        }
+
+        router.push(`/project/${newProject.id}`);
+    }, [createNewProject, projectName, isPublic, router]);
+
+    // Show the "Using URL" form in the sidebar
+    const openYoutubeUrlForm = useCallback(() => {
+        setSelectedMode('url');
+        setShowUrlPopup(true);
+        setIsMobileSidebarOpen(true);
+    }, []);
+
+    // Serialize elements for the clipboard. Blob URLs only exist in this tab, so those elements are left out.
+    const getClipboardPayload = useCallback((ids: string[]): string | null => {
+        const elements = canvasElementsRef.current.filter(el =>
+            ids.includes(el.id) && isSettledElement(el) && !el.src.startsWith('blob:')
+        );
+        if (elements.length === 0) return null;
+        return serializeCanvasElements(elements, projectId);
+    }, [projectId]);
+
+    // Copy elements from the context menu or palette, where there is no copy event to write to
+    const copyElements = useCallback(async (ids: string[]) => {
+        const payload = getClipboardPayload(ids);
+        if (!payload) return;
+        try {
+            await navigator.clipboard.writeText(payload);
+            setToast({ message: ids.length > 1 ? `Copied ${ids.length} items` : 'Copied to clipboard', type: 'success' });
+        } catch (error) {
+            console.error('Failed to copy elements:', error);
+            setToast({ message: 'Could not copy to clipboard', type: 'error' });
+        }
+    }, [getClipboardPayload]);
+
+    // Paste copied elements, keeping their layout, centred on `anchor` or the viewport.
+    // Each one is registered in this project with its prompt, model and reference images.
+    const pasteCanvasElements = useCallback((payload: CanvasClipboardPayload, anchor?: { x: number; y: number }) => {
+        if (viewMode) return;
+
+        let target = anchor;
+        if (!target) {
+            const containerRect = canvasContainerRef.current?.getBoundingClientRect();
+            if (!containerRect) return;
+            target = screenToCanvas(containerRect.left + containerRect.width / 2, containerRect.top + containerRect.height / 2);
+        }
+
+        const pasted: CanvasElement[] = centerElementsOn(payload.elements, target).map(source => ({
+            id: crypto.randomUUID(),
+            type: source.type,
+            src: source.src,
+            x: source.x,
+            y: source.y,
+            width: source.width,
+            height: source.height,
+            naturalWidth: source.naturalWidth,
+            naturalHeight: source.naturalHeight,
+            aspectRatio: source.width / source.height,
+            status: 'complete',
+            prompt: source.prompt,
+            model: source.model,
+            refImages: source.refImages,
+            textLayer: source.textLayer,
+        }));
+
+        addElementsWithHistory(
+            pasted.length > 1 ? `Paste ${pasted.length} items` : 'Paste',
+            pasted,
+            element => {
+                if (!projectId) return null;
+
+                const layout = {
+                    x: element.x,
+                    y: element.y,
+                    width: element.width,
+                    height: element.height,
+                    naturalWidth: element.naturalWidth,
+                    naturalHeight: element.naturalHeight,
+                };
+                const metadata = {
+                    prompt: element.prompt ?? null,
+                    model: element.model ?? null,
+                    refImages: element.refImages,
+                };
+
+                // Never reached storage in the source project - upload the image so this project has its own copy
+                if (element.src.startsWith('data:')) {
+                    return uploadThumbnail(projectId, { imageData: element.src, ...layout, ...metadata });
+                }
+
+                return addThumbnail(projectId, {
+                    thumbnailUrl: element.src,
+                    type: element.type === 'text' ? 'text' : element.type === 'youtube-thumbnail' ? 'youtube-thumbnail' : 'uploaded',
+                    ...layout,
+                    ...metadata,
+                    textLayer: element.textLayer,
+                });
+            }
+        );
+    }, [viewMode, projectId, screenToCanvas, addElementsWithHistory]);
+
+    // Put pasted or dropped content on the canvas - copied canvas elements, image files (uploaded in parallel)
+    // or a YouTube link. Returns false when there was nothing usable.
+    const importExternalContent = useCallback((files: File[], text: string, anchor?: { x: number; y: number }): boolean => {
+        const payload = parseCanvasElements(text);
+        if (payload) {
+            pasteCanvasElements(payload, anchor);
+            return true;
+        }
+
+        const imageFiles = files.filter(file => file.type.startsWith('image/'));
+        if (imageFiles.length > 0) {
+            uploadImageFiles(imageFiles, anchor);
+            return true;
+        }
+
+        const videoId = text ? extractVideoId(text.trim()) : null;
+        if (videoId) {
+            addYoutubeThumbnail(videoId, anchor);
+            return true;
+        }
+
+        return false;
+    }, [pasteCanvasElements, uploadImageFiles, addYoutubeThumbnail]);
+
+    // Paste images or a YouTube link from the system clipboard at a canvas position
+    const pasteFromClipboard = useCallback(async (anchor?: { x: number; y: number }) => {
+        try {
+            const clipboardItems = await navigator.clipboard.read();
+            const files: File[] = [];
+            let text = '';
+
+            for (const item of clipboardItems) {
+                const imageType = item.types.find(type => type.startsWith('image/'));
+                if (imageType) {
+                    const blob = await item.getType(imageType);
+                    files.push(new File([blob], `pasted-image.${imageType.split('/')[1]}`, { type: imageType }));
+                } else if (item.types.includes('text/plain')) {
+                    text = await (await item.getType('text/plain')).text();
+                }
+            }
+
+            if (!importExternalContent(files, text, anchor)) {
+                setToast({ message: 'Nothing to paste - copy an image, a YouTube link or canvas items first', type: 'error' });
+            }
+        } catch (error) {
+            console.error('Failed to read clipboard:', error);
+            setToast({ message: 'Clipboard access was blocked by the browser', type: 'error' });
+        }
+    }, [importExternalContent]);
+
+    // Ctrl+C - put the selected elements on the clipboard so any project, in any tab, can paste them
+    useEffect(() => {
+        const handleCopy = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+            // Highlighted page text takes precedence
+            const textSelection = window.getSelection();
+            if (textSelection && !textSelection.isCollapsed) return;
+            if (!e.clipboardData) return;
+
+            const payload = getClipboardPayload(selectedElementIds);
+            if (!payload) return;
+
+            e.clipboardData.setData(CANVAS_CLIPBOARD_TYPE, payload);
+            e.clipboardData.setData('text/plain', payload);
+            e.preventDefault();
+        };
+
+        document.addEventListener('copy', handleCopy);
+        return () => document.removeEventListener('copy', handleCopy);
+    }, [selectedElementIds, getClipboardPayload]);
+
+    // Ctrl+V - the browser hands over the clipboard in a paste event, so no permission prompt is needed
+    useEffect(() => {
+        if (viewMode) return;
+
+        const handlePaste = (e: ClipboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+            if (!e.clipboardData) return;
+
+            // Land at the cursor when it is over the canvas, otherwise at the viewport centre
+            let anchor: { x: number; y: number } | undefined;
+            const pointer = lastPointerRef.current;
+            const containerRect = canvasContainerRef.current?.getBoundingClientRect();
+            if (pointer && containerRect &&
+                pointer.x >= containerRect.left && pointer.x <= containerRect.right &&
+                pointer.y >= containerRect.top && pointer.y <= containerRect.bottom) {
+                anchor = screenToCanvas(pointer.x, pointer.y);
+            }
+
+            const files = Array.from(e.clipboardData.files);
+            const text = e.clipboardData.getData(CANVAS_CLIPBOARD_TYPE) || e.clipboardData.getData('text/plain');
+            if (importExternalContent(files, text, anchor)) {
+                e.preventDefault();
+            }
+        };
+
+        document.addEventListener('paste', handlePaste);
+        return () => document.removeEventListener('paste', handlePaste);
+    }, [viewMode, importExternalContent, screenToCanvas]);
+
+    // Drag and drop from the desktop or another tab
+    const isExternalDrag = (e: React.DragEvent) =>
+        e.dataTransfer.types.includes('Files') || e.dataTransfer.types.includes('text/uri-list');
+
+    const handleCanvasDragOver = useCallback((e: React.DragEvent) => {
+        if (viewMode || !isExternalDrag(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsFileDragOver(true);
+    }, [viewMode]);
+
+    const handleCanvasDragLeave = useCallback((e: React.DragEvent) => {
+        // dragleave also fires when moving onto a child - only clear once the pointer leaves the canvas
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        setIsFileDragOver(false);
+    }, []);
+
+    const handleCanvasDrop = useCallback((e: React.DragEvent) => {
+        setIsFileDragOver(false);
+        if (viewMode || !isExternalDrag(e)) return;
+        e.preventDefault();
 
-        // Calculate group bounding box
-        const minX = Math.min(...selectedElements.map(el => el.x));
-        const minY = Math.min(...selectedElements.map(el => el.y));
-        const maxX = Math.max(...selectedElements.map(el => el.x + el.width));
-        const maxY = Math.max(...selectedElements.map(el => el.y + el.height));
+        const files = Array.from(e.dataTransfer.files);
+        const text = e.dataTransfer.getData('text/uri-list') || e.dataTransfer.getData('text/plain');
+        if (!importExternalContent(files, text, screenToCanvas(e.clientX, e.clientY))) {
+            setToast({ message: 'Only images and YouTube links can be dropped on the canvas', type: 'error' });
+        }
+    }, [viewMode, importExternalContent, screenToCanvas]);
 
-        const groupWidth = maxX - minX;
-        const groupHeight = maxY - minY;
+    const handleCanvasContextMenu = useCallback((e: React.MouseEvent) => {
+        e.preventDefault();
 
-        // Store starting positions for all elements
-        const elementStarts = selectedElements.map(el => ({
-            id: el.id,
-            x: el.x,
-            y: el.y,
-            width: el.width,
-            height: el.height,
-        }));
+        // Only the canvas itself gets a menu - floating panels and toolbars keep the default behaviour
+        const target = e.target as HTMLElement;
+        if (!target.closest(`.${styles.canvasViewport}`) || target.closest(`.${styles.conversionFormPanel}`)) return;
+
+        const elementId = target.closest<HTMLElement>(`.${styles.canvasElement}`)?.dataset.elementId;
+        if (elementId) {
+            // Right-clicking outside the selection acts on that element alone
+            const ids = selectedElementIds.includes(elementId) ? selectedElementIds : [elementId];
+            setSelectedElementIds(ids);
+            setContextMenu({ x: e.clientX, y: e.clientY, elementIds: ids, canvasPoint: null });
+        } else {
+            setContextMenu({ x: e.clientX, y: e.clientY, elementIds: [], canvasPoint: screenToCanvas(e.clientX, e.clientY) });
+        }
+    }, [selectedElementIds, screenToCanvas]);
+
+    const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+    const contextMenuItems = useMemo((): ContextMenuEntry[] => {
+        if (!contextMenu) return [];
+
+        if (contextMenu.elementIds.length === 0) {
+            const anchor = contextMenu.canvasPoint ?? undefined;
+            return [
+                ...(!viewMode ? [
+                    { id: 'paste', label: 'Paste', shortcut: 'Ctrl+V', onSelect: () => pasteFromClipboard(anchor) },
+                    { id: 'upload', label: 'Upload image…', onSelect: triggerImageUpload },
+                    { id: 'youtube', label: 'Add YouTube thumbnail…', onSelect: openYoutubeUrlForm },
+                    null,
+                ] : []),
+                { id: 'fit', label: 'Fit to view', shortcut: 'Shift+1', onSelect: fitToView },
+            ];
+        }
 
-        setResizeState({
-            isResizing: true,
-            elementIds: selectedElementIds,
-            handle,
-            startX: e.clientX,
-            startY: e.clientY,
-            groupStartX: minX,
-            groupStartY: minY,
-            groupStartWidth: groupWidth,
-            groupStartHeight: groupHeight,
-            elementStarts,
-        });
-    }, [canvasElements, selectedElementIds, viewMode]);
+        const ids = contextMenu.elementIds;
+        const elements = canvasElements.filter(el => ids.includes(el.id));
+        const single = elements.length === 1 ? elements[0] : null;
+        const isReady = elements.every(isSettledElement);
+        const hasImages = elements.some(el => el.type !== 'text' && el.src);
+        const allLocked = elements.every(el => el.locked);
+
+        return [
+            ...(!viewMode ? [
+                { id: 'duplicate', label: 'Duplicate', shortcut: 'Ctrl+D', disabled: !isReady, onSelect: () => duplicateElementsWithHistory(ids) },
+                { id: 'delete', label: 'Delete', shortcut: 'Del', danger: true, disabled: allLocked, onSelect: () => deleteElements(ids) },
+                null,
+            ] : []),
+            { id: 'download', label: 'Download', disabled: !isReady, onSelect: handleExportOriginals },
+            { id: 'copy', label: 'Copy', shortcut: 'Ctrl+C', disabled: !isReady, onSelect: () => copyElements(ids) },
+            { id: 'copy-image', label: 'Copy image', disabled: !single || !isReady, onSelect: () => single && copyElementImage(single) },
+            { id: 'copy-prompt', label: 'Copy prompt', disabled: !single?.prompt, onSelect: () => single && copyElementPrompt(single) },
+            { id: 'inspect', label: 'Inspect', shortcut: 'I', disabled: !single, onSelect: () => setInspectorOpen(true) },
+            ...(!viewMode ? [
+                null,
+                { id: 'reference', label: 'Use as reference', disabled: !hasImages || !isReady, onSelect: () => attachElementsAsReference(ids) },
+                {
+                    id: 'regenerate', label: 'Regenerate with same settings',
+                    disabled: !single?.prompt || single.type !== 'generated' || !isReady,
+                    onSelect: () => single && regenerateElement(single)
+                },
+                {
+                    id: 'vary', label: 'Vary (new seed)',
+                    disabled: !single?.prompt || single.type !== 'generated' || !isReady,
+                    onSelect: () => single && varyElement(single)
+                },
+                {
+                    id: 'lock-seed', label: 'Lock seed',
+                    disabled: single?.generationRequest?.seed === undefined,
+                    onSelect: () => single && lockElementSeed(single)
+                },
+                { id: 'new-project', label: 'Open in new project', disabled: !isReady, onSelect: () => openInNewProject(ids) },
+                null,
+                { id: 'front', label: 'Bring to front', shortcut: 'Ctrl+Shift+]', onSelect: () => arrangeElements(ids, 'front') },
+                { id: 'forward', label: 'Bring forward', shortcut: 'Ctrl+]', onSelect: () => arrangeElements(ids, 'forward') },
+                { id: 'backward', label: 'Send backward', shortcut: 'Ctrl+[', onSelect: () => arrangeElements(ids, 'backward') },
+                { id: 'back', label: 'Send to back', shortcut: 'Ctrl+Shift+[', onSelect: () => arrangeElements(ids, 'back') },
+                null,
+                { id: 'lock', label: allLocked ? 'Unlock' : 'Lock', shortcut: 'Ctrl+Shift+L', onSelect: () => toggleLayerFlag(ids, 'locked') },
+            ] : []),
+        ];
+    }, [contextMenu, canvasElements, viewMode, pasteFromClipboard, triggerImageUpload, openYoutubeUrlForm, fitToView, duplicateElementsWithHistory, deleteElements, handleExportOriginals, copyElements, copyElementImage, copyElementPrompt, attachElementsAsReference, regenerateElement, varyElement, lockElementSeed, openInNewProject, arrangeElements, toggleLayerFlag, setInspectorOpen]);
 
     // Keyboard shortcuts
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
             // Check if user is typing in an input field
             const isTyping = document.activeElement?.tagName === 'INPUT' ||
-                document.activeElement?.tagName === 'TEXTAREA';
+                document.activeElement?.tagName === 'TEXTAREA' ||
+                document.activeElement?.tagName === 'SELECT';
 
             // Track modifier keys (always track these)
             if (e.key === 'Shift') setShiftPressed(true);
             if (e.key === 'Control') setCtrlPressed(true);
 
+            // Command palette works everywhere, including while typing
+            if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && e.code === 'KeyK') {
+                e.preventDefault();
+                setIsPaletteOpen(prev => !prev);
+                return;
+            }
+
             // Skip canvas shortcuts if typing in input field
             if (isTyping) {
                 // Only allow Escape to work while typing
@@ -2283,81 +4302,117 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 return;
             }
 
-            // H for hand tool
-            if (e.key === 'h' || e.key === 'H') {
+            // H for hand tool - not with Ctrl/Cmd or Alt, which hide and align
+            if ((e.key === 'h' || e.key === 'H') && !e.ctrlKey && !e.metaKey && !e.altKey) {
                 setToolMode('hand');
                 e.preventDefault();
             }
 
-            // V for select tool
-            if (e.key === 'v' || e.key === 'V') {
+            // V for select tool - not with Ctrl/Cmd, which would cancel the paste event, or Alt, which aligns
+            if ((e.key === 'v' || e.key === 'V') && !e.ctrlKey && !e.metaKey && !e.altKey) {
                 setToolMode('select');
                 e.preventDefault();
             }
 
+            // T to add a text layer
+            if (!viewMode && (e.key === 't' || e.key === 'T') && !e.ctrlKey && !e.metaKey) {
+                handleAddTextLayer();
+                e.preventDefault();
+            }
+
+            // I to toggle the inspector
+            if ((e.key === 'i' || e.key === 'I') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+                setInspectorOpen(!isInspectorOpen);
+                e.preventDefault();
+            }
+
+            // L to toggle lineage connectors
+            if ((e.key === 'l' || e.key === 'L') && !e.ctrlKey && !e.metaKey && !e.altKey) {
+                toggleLineage();
+                e.preventDefault();
+            }
+
             // Space for temporary hand tool
             if (e.code === 'Space' && !e.repeat) {
                 setIsHandToolActive(true);
                 e.preventDefault();
             }
 
+            // Undo (Ctrl+Z) / Redo (Ctrl+Shift+Z or Ctrl+Y)
+            if (!viewMode && (e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z')) {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    redoHistory();
+                } else {
+                    undoHistory();
+                }
+                return;
+            }
+            if (!viewMode && (e.ctrlKey || e.metaKey) && e.key === 'y') {
+                e.preventDefault();
+                redoHistory();
+                return;
+            }
+
             // Delete selected elements (only in edit mode)
             if (!viewMode && (e.key === 'Delete' || e.key === 'Backspace') && selectedElementIds.length > 0) {
-                // Delete from backend (fire and forget)
-                selectedElementIds.forEach(id => {
-                    deleteThumbnail(projectId, id).catch(err => {
-                        console.error('Failed to delete thumbnail:', err);
-                    });
-                });
+                deleteElements(selectedElementIds);
+                e.preventDefault();
+            }
 
-                // Delete from local state
-                setCanvasElements(prev => prev.filter(el => !selectedElementIds.includes(el.id)));
+            // Layer order: Ctrl+] / Ctrl+[ one step, with Shift to front / back
+            if (!viewMode && (e.ctrlKey || e.metaKey) && (e.code === 'BracketRight' || e.code === 'BracketLeft') && selectedElementIds.length > 0) {
+                e.preventDefault();
+                const up = e.code === 'BracketRight';
+                arrangeElements(selectedElementIds, e.shiftKey ? (up ? 'front' : 'back') : (up ? 'forward' : 'backward'));
+                return;
+            }
 
-                // Clean up prompts and models for deleted elements
-                setElementPrompts(prev => {
-                    const newPrompts = { ...prev };
-                    selectedElementIds.forEach(id => delete newPrompts[id]);
-                    return newPrompts;
-                });
-                setElementModels(prev => {
-                    const newModels = { ...prev };
-                    selectedElementIds.forEach(id => delete newModels[id]);
-                    return newModels;
-                });
+            // Align (Alt+A/H/D/W/V/S) and distribute (Alt+Shift+H/V). Codes, not keys - Alt changes the character on macOS.
+            if (!viewMode && e.altKey && !e.ctrlKey && !e.metaKey && selectedElementIds.length >= 2) {
+                const alignByCode: Record<string, AlignEdge> = {
+                    KeyA: 'left', KeyH: 'centerX', KeyD: 'right', KeyW: 'top', KeyV: 'centerY', KeyS: 'bottom',
+                };
+                if (e.shiftKey && (e.code === 'KeyH' || e.code === 'KeyV')) {
+                    e.preventDefault();
+                    distributeElements(selectedElementIds, e.code === 'KeyH' ? 'horizontal' : 'vertical');
+                    return;
+                }
+                if (!e.shiftKey && alignByCode[e.code]) {
+                    e.preventDefault();
+                    alignElements(selectedElementIds, alignByCode[e.code]);
+                    return;
+                }
+            }
 
-                setSelectedElementIds([]);
+            // Tidy into a grid (Ctrl+Alt+T)
+            if (!viewMode && (e.ctrlKey || e.metaKey) && e.altKey && e.code === 'KeyT') {
                 e.preventDefault();
+                tidyElements(selectedElementIds);
+                return;
             }
 
-            // Duplicate (Ctrl+D)
-            if (e.ctrlKey && e.key === 'd' && selectedElementIds.length > 0) {
+            // Lock (Ctrl+Shift+L) / hide (Ctrl+Shift+H)
+            if (!viewMode && (e.ctrlKey || e.metaKey) && e.shiftKey && (e.code === 'KeyL' || e.code === 'KeyH') && selectedElementIds.length > 0) {
                 e.preventDefault();
-                const newElements: CanvasElement[] = [];
-
-                canvasElements
-                    .filter(el => selectedElementIds.includes(el.id))
-                    .forEach(element => {
-                        const newElement: CanvasElement = {
-                            ...element,
-                            id: crypto.randomUUID(),
-                            x: element.x + 30,
-                            y: element.y + 30,
-                        };
-                        newElements.push(newElement);
-                    });
+                toggleLayerFlag(selectedElementIds, e.code === 'KeyL' ? 'locked' : 'hidden');
+                return;
+            }
 
-                setCanvasElements(prev => [...prev, ...newElements]);
-                setSelectedElementIds(newElements.map(el => el.id));
+            // Duplicate (Ctrl+D)
+            if (!viewMode && e.ctrlKey && e.key === 'd' && selectedElementIds.length > 0) {
+                e.preventDefault();
+                duplicateElementsWithHistory(selectedElementIds);
             }
 
             // Select all (Ctrl+A)
             if (e.ctrlKey && e.key === 'a') {
                 e.preventDefault();
-                setSelectedElementIds(canvasElements.map(el => el.id));
+                setSelectedElementIds(canvasElements.filter(el => !el.hidden).map(el => el.id));
             }
 
             // Arrow keys to nudge
-            if (selectedElementIds.length > 0 && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
+            if (!viewMode && selectedElementIds.length > 0 && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
                 const nudge = e.shiftKey ? 10 : 1;
                 let dx = 0, dy = 0;
                 if (e.key === 'ArrowUp') dy = -nudge;
@@ -2365,29 +4420,14 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 if (e.key === 'ArrowLeft') dx = -nudge;
                 if (e.key === 'ArrowRight') dx = nudge;
 
-                setCanvasElements(prev => {
-                    const newElements = prev.map(el =>
-                        selectedElementIds.includes(el.id)
-                            ? { ...el, x: el.x + dx, y: el.y + dy }
-                            : el
-                    );
-
-                    // Persist nudged positions (debounced via timeout, exclude generating placeholders and unsync'd elements)
-                    const updates = newElements
-                        .filter(el => selectedElementIds.includes(el.id) && el.status !== 'generating' && el.backendId)
-                        .map(el => ({ id: el.backendId!, x: el.x, y: el.y }));
-
-                    // Use a small delay to batch rapid arrow key presses
-                    if (updates.length > 0) {
-                        setTimeout(() => {
-                            updateThumbnailPositions(projectId, updates).catch(err => {
-                                console.error('Failed to persist nudge positions:', err);
-                            });
-                        }, 300);
-                    }
+                const before = canvasElementsRef.current
+                    .filter(el => selectedElementIds.includes(el.id) && !el.locked)
+                    .map(({ id, x, y, width, height }) => ({ id, x, y, width, height }));
+                const after = before.map(g => ({ ...g, x: g.x + dx, y: g.y + dy }));
 
-                    return newElements;
-                });
+                // Position writes are debounced, and repeated nudges merge into one undo step
+                applyElementGeometry(after);
+                recordGeometryChange('Nudge', before, after, `nudge:${selectedElementIds.join(',')}`);
                 e.preventDefault();
             }
 
@@ -2414,6 +4454,10 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 e.preventDefault();
                 setViewport(prev => ({ ...prev, zoom: 1 }));
             }
+            if (e.shiftKey && e.code === 'Digit1' && !e.ctrlKey && !e.metaKey) {
+                e.preventDefault();
+                fitToView();
+            }
         };
 
         const handleKeyUp = (e: KeyboardEvent) => {
@@ -2428,7 +4472,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             window.removeEventListener('keydown', handleKeyDown);
             window.removeEventListener('keyup', handleKeyUp);
         };
-    }, [selectedElementIds, canvasElements, projectId]);
+    }, [selectedElementIds, canvasElements, projectId, viewMode, undoHistory, redoHistory, deleteElements, duplicateElementsWithHistory, applyElementGeometry, recordGeometryChange, handleAddTextLayer, arrangeElements, toggleLayerFlag, alignElements, distributeElements, tidyElements, fitToView, setViewport, isInspectorOpen, setInspectorOpen, toggleLineage]);
 
     // Prevent browser zoom with Ctrl+scroll AND handle canvas zoom directly
     // Must handle zoom here because stopImmediatePropagation blocks React's onWheel
@@ -2472,7 +4516,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
                 const zoomFactor = e.deltaY > 0 ? 0.9 : 1.1;
 
-                setViewport(prev => {
+                setViewportLive(prev => {
                     const newZoom = Math.min(10, Math.max(0.05, prev.zoom * zoomFactor));
                     // Zoom centered on mouse position
                     const newX = mouseX - (mouseX - prev.x) * (newZoom / prev.zoom);
@@ -2482,7 +4526,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             } else {
                 // Regular scroll = pan (slowed down by 0.4x for smoother control)
                 e.preventDefault();
-                setViewport(prev => ({
+                setViewportLive(prev => ({
                     ...prev,
                     x: prev.x - e.deltaX * 0.4,
                     y: prev.y - e.deltaY * 0.4,
@@ -2521,20 +4565,154 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             document.removeEventListener('keyup', handleKeyUp);
             document.body.style.touchAction = '';
         };
-    }, []);
+    }, [setViewportLive]);
 
     // Zoom controls
     const handleZoomIn = useCallback(() => {
         setViewport(prev => ({ ...prev, zoom: Math.min(10, prev.zoom * 1.2) }));
-    }, []);
+    }, [setViewport]);
 
     const handleZoomOut = useCallback(() => {
         setViewport(prev => ({ ...prev, zoom: Math.max(0.05, prev.zoom / 1.2) }));
-    }, []);
+    }, [setViewport]);
 
     const handleResetView = useCallback(() => {
         setViewport({ x: 0, y: 0, zoom: 1 });
-    }, []);
+    }, [setViewport]);
+
+    // Command palette (Ctrl+K) - every canvas command plus projects, models and recent prompts
+    const paletteCommands = useMemo((): PaletteCommand[] => {
+        const selection = selectedElementIds;
+        const hasSelection = selection.length > 0;
+        const selectedElements = canvasElements.filter(el => selection.includes(el.id));
+        const allLocked = hasSelection && selectedElements.every(el => el.locked);
+        const allHidden = hasSelection && selectedElements.every(el => el.hidden);
+        const generatedElement = selectedElements.length === 1 && selectedElements[0].type === 'generated' &&
+            selectedElements[0].status === 'complete' && selectedElements[0].prompt ? selectedElements[0] : null;
+
+        const commands: PaletteCommand[] = [
+            { id: 'tool-select', group: 'Tools', label: 'Select tool', shortcut: 'V', keywords: ['pointer', 'move'], onSelect: () => setToolMode('select') },
+            { id: 'tool-hand', group: 'Tools', label: 'Hand tool', shortcut: 'H', keywords: ['pan'], onSelect: () => setToolMode('hand') },
+            { id: 'tool-hand-hold', group: 'Tools', label: 'Pan while held', shortcut: 'Space', keywords: ['hand', 'drag'] },
+        ];
+
+        if (!viewMode) {
+            commands.push(
+                {
+                    id: 'create-prompt', group: 'Create', label: 'Generate from prompt', keywords: ['new', 'thumbnail', 'ai'], onSelect: () => {
+                        setSelectedMode('prompt');
+                        setIsMobileSidebarOpen(true);
+                    }
+                },
+                { id: 'create-text', group: 'Create', label: 'Add text layer', shortcut: 'T', keywords: ['type', 'title'], onSelect: handleAddTextLayer },
+                { id: 'create-upload', group: 'Create', label: 'Upload image…', keywords: ['file', 'import'], onSelect: triggerImageUpload },
+                { id: 'create-youtube', group: 'Create', label: 'Add YouTube thumbnail…', keywords: ['url', 'link', 'video'], onSelect: openYoutubeUrlForm },
+                { id: 'create-paste', group: 'Create', label: 'Paste from clipboard', shortcut: 'Ctrl+V', keywords: ['image', 'link'], onSelect: () => pasteFromClipboard() },
+
+                { id: 'edit-undo', group: 'Edit', label: 'Undo', shortcut: 'Ctrl+Z', onSelect: undoHistory },
+                { id: 'edit-redo', group: 'Edit', label: 'Redo', shortcut: 'Ctrl+Shift+Z', onSelect: redoHistory },
+            );
+        }
+
+        commands.push(
+            { id: 'edit-select-all', group: 'Edit', label: 'Select all', shortcut: 'Ctrl+A', onSelect: () => setSelectedElementIds(canvasElements.filter(el => !el.hidden).map(el => el.id)) },
+            { id: 'edit-deselect', group: 'Edit', label: 'Deselect', shortcut: 'Esc', disabled: !hasSelection, onSelect: () => setSelectedElementIds([]) },
+            { id: 'edit-copy', group: 'Edit', label: 'Copy selection', shortcut: 'Ctrl+C', hint: 'Paste into any project', keywords: ['clipboard'], disabled: !hasSelection, onSelect: () => copyElements(selection) },
+        );
+
+        if (!viewMode) {
+            commands.push(
+                { id: 'edit-duplicate', group: 'Edit', label: 'Duplicate selection', shortcut: 'Ctrl+D', disabled: !hasSelection, onSelect: () => duplicateElementsWithHistory(selection) },
+                { id: 'edit-delete', group: 'Edit', label: 'Delete selection', shortcut: 'Del', keywords: ['remove'], disabled: !hasSelection, onSelect: () => deleteElements(selection) },
+                { id: 'edit-nudge', group: 'Edit', label: 'Nudge selection', shortcut: 'Arrows', hint: 'Shift for 10px', keywords: ['move'] },
+                {
+                    id: 'edit-export', group: 'Edit', label: 'Export selection…', keywords: ['download', 'youtube', 'png', 'jpeg'], disabled: !hasSelection, onSelect: () => {
+                        trackExportClicked(selection.length);
+                        setExportModalOpen(true);
+                    }
+                },
+                { id: 'edit-regenerate', group: 'Edit', label: 'Regenerate with same settings', keywords: ['again', 'rerun'], disabled: !generatedElement, onSelect: () => generatedElement && regenerateElement(generatedElement) },
+                { id: 'edit-vary', group: 'Edit', label: 'Vary (new seed)', keywords: ['variation', 'reroll'], disabled: !generatedElement, onSelect: () => generatedElement && varyElement(generatedElement) },
+                { id: 'edit-lock-seed', group: 'Edit', label: 'Lock seed', keywords: ['composition'], disabled: generatedElement?.generationRequest?.seed === undefined, onSelect: () => generatedElement && lockElementSeed(generatedElement) },
+
+                { id: 'arrange-front', group: 'Arrange', label: 'Bring to front', shortcut: 'Ctrl+Shift+]', keywords: ['layer', 'order'], disabled: !hasSelection, onSelect: () => arrangeElements(selection, 'front') },
+                { id: 'arrange-forward', group: 'Arrange', label: 'Bring forward', shortcut: 'Ctrl+]', keywords: ['layer', 'order'], disabled: !hasSelection, onSelect: () => arrangeElements(selection, 'forward') },
+                { id: 'arrange-backward', group: 'Arrange', label: 'Send backward', shortcut: 'Ctrl+[', keywords: ['layer', 'order'], disabled: !hasSelection, onSelect: () => arrangeElements(selection, 'backward') },
+                { id: 'arrange-back', group: 'Arrange', label: 'Send to back', shortcut: 'Ctrl+Shift+[', keywords: ['layer', 'order'], disabled: !hasSelection, onSelect: () => arrangeElements(selection, 'back') },
+                { id: 'arrange-lock', group: 'Arrange', label: allLocked ? 'Unlock selection' : 'Lock selection', shortcut: 'Ctrl+Shift+L', disabled: !hasSelection, onSelect: () => toggleLayerFlag(selection, 'locked') },
+                { id: 'arrange-hide', group: 'Arrange', label: allHidden ? 'Show selection' : 'Hide selection', shortcut: 'Ctrl+Shift+H', keywords: ['visibility'], disabled: !hasSelection, onSelect: () => toggleLayerFlag(selection, 'hidden') },
+                { id: 'arrange-align-left', group: 'Arrange', label: 'Align left', shortcut: 'Alt+A', disabled: selection.length < 2, onSelect: () => alignElements(selection, 'left') },
+                { id: 'arrange-align-center-x', group: 'Arrange', label: 'Align horizontal centers', shortcut: 'Alt+H', disabled: selection.length < 2, onSelect: () => alignElements(selection, 'centerX') },
+                { id: 'arrange-align-right', group: 'Arrange', label: 'Align right', shortcut: 'Alt+D', disabled: selection.length < 2, onSelect: () => alignElements(selection, 'right') },
+                { id: 'arrange-align-top', group: 'Arrange', label: 'Align top', shortcut: 'Alt+W', disabled: selection.length < 2, onSelect: () => alignElements(selection, 'top') },
+                { id: 'arrange-align-center-y', group: 'Arrange', label: 'Align vertical centers', shortcut: 'Alt+V', disabled: selection.length < 2, onSelect: () => alignElements(selection, 'centerY') },
+                { id: 'arrange-align-bottom', group: 'Arrange', label: 'Align bottom', shortcut: 'Alt+S', disabled: selection.length < 2, onSelect: () => alignElements(selection, 'bottom') },
+                { id: 'arrange-distribute-h', group: 'Arrange', label: 'Distribute horizontally', shortcut: 'Alt+Shift+H', keywords: ['spacing'], disabled: selection.length < 3, onSelect: () => distributeElements(selection, 'horizontal') },
+                { id: 'arrange-distribute-v', group: 'Arrange', label: 'Distribute vertically', shortcut: 'Alt+Shift+V', keywords: ['spacing'], disabled: selection.length < 3, onSelect: () => distributeElements(selection, 'vertical') },
+                { id: 'arrange-tidy', group: 'Arrange', label: 'Tidy into a grid', shortcut: 'Ctrl+Alt+T', keywords: ['clean', 'organize'], onSelect: () => tidyElements(selection) },
+            );
+        }
+
+        commands.push(
+            { id: 'view-zoom-in', group: 'View', label: 'Zoom in', shortcut: 'Ctrl+=', onSelect: handleZoomIn },
+            { id: 'view-zoom-out', group: 'View', label: 'Zoom out', shortcut: 'Ctrl+-', onSelect: handleZoomOut },
+            { id: 'view-zoom-100', group: 'View', label: 'Zoom to 100%', shortcut: 'Ctrl+1', keywords: ['actual size'], onSelect: () => setViewport(prev => ({ ...prev, zoom: 1 })) },
+            { id: 'view-reset', group: 'View', label: 'Reset view', shortcut: 'Ctrl+0', onSelect: handleResetView },
+            { id: 'view-fit', group: 'View', label: 'Fit to view', shortcut: 'Shift+1', keywords: ['zoom', 'all'], onSelect: fitToView },
+            { id: 'view-lineage', group: 'View', label: showLineage ? 'Hide lineage' : 'Show lineage', shortcut: 'L', keywords: ['history', 'edits', 'variations', 'tree', 'connectors'], onSelect: toggleLineage },
+            { id: 'view-inspector', group: 'View', label: isInspectorOpen ? 'Hide inspector' : 'Show inspector', shortcut: 'I', keywords: ['details', 'metadata', 'prompt', 'info'], onSelect: () => setInspectorOpen(!isInspectorOpen) },
+        );
+
+        if (!viewMode) {
+            commands.push(
+                { id: 'project-visibility', group: 'Project', label: isPublic ? 'Make project private' : 'Make project public', keywords: ['share', 'privacy'], onSelect: handleTogglePublic },
+                { id: 'project-credits', group: 'Project', label: 'Buy credits…', keywords: ['pricing', 'upgrade', 'plan'], onSelect: () => setPricingModalOpen(true) },
+                { id: 'project-dashboard', group: 'Project', label: 'Back to dashboard', keywords: ['home'], onSelect: handleBack },
+            );
+
+            // Most recent prompts first, once each
+            const seenPrompts = new Set<string>();
+            canvasElements
+                .filter(el => el.prompt?.trim())
+                .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''))
+                .forEach(el => {
+                    const prompt = el.prompt!.trim();
+                    if (seenPrompts.has(prompt) || seenPrompts.size >= 10) return;
+                    seenPrompts.add(prompt);
+                    commands.push({
+                        id: `prompt-${el.id}`,
+                        group: 'Recent prompts',
+                        label: prompt,
+                        onSelect: () => {
+                            setPromptText(prompt);
+                            setSelectedMode('prompt');
+                            setIsMobileSidebarOpen(true);
+                        },
+                    });
+                });
+
+            AVAILABLE_MODELS.forEach(model => commands.push({
+                id: `model-${model.id}`,
+                group: 'Models',
+                label: model.name,
+                hint: promptModel?.id === model.id ? 'Current model' : `${getImageCredits(model)} credits`,
+                keywords: [model.description, model.featureTag || ''],
+                onSelect: () => canUseModel(entitlements, model) ? setPromptModel(model) : handleLockedModel(model),
+            }));
+
+            projects
+                .filter(project => project.id !== projectId)
+                .forEach(project => commands.push({
+                    id: `project-${project.id}`,
+                    group: 'Projects',
+                    label: project.name,
+                    hint: formatRelativeTime(project.updatedAt),
+                    onSelect: () => router.push(`/project/${project.id}`),
+                }));
+        }
+
+        return commands;
+    }, [selectedElementIds, canvasElements, viewMode, isPublic, promptModel, projects, projectId, router, handleAddTextLayer, triggerImageUpload, openYoutubeUrlForm, pasteFromClipboard, undoHistory, redoHistory, copyElements, duplicateElementsWithHistory, deleteElements, regenerateElement, varyElement, lockElementSeed, arrangeElements, toggleLayerFlag, alignElements, distributeElements, tidyElements, handleZoomIn, handleZoomOut, handleResetView, fitToView, handleTogglePublic, handleBack, setViewport, isInspectorOpen, setInspectorOpen, showLineage, toggleLineage, entitlements, handleLockedModel]);
 
     // Modify prompt handlers
     const handleModifyPromptChange = useCallback((elementId: string, value: string) => {
@@ -2557,6 +4735,14 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         const elMegapixels = elementMegapixels[elementId] || model.defaultMegapixels;
 
         if (!prompt?.trim() || !user) return;
+        if (!ensureEntitled(getLockedFeature(entitlements, model))) return;
+        if (!ensureCredits(estimateCost({
+            model,
+            action: 'modify',
+            resolution: elResolution,
+            size: elSize,
+            megapixels: elMegapixels,
+        }), 'modify')) return;
         // Allow multiple generations - removed isGenerating check to allow sequential generations
 
         setIsGenerating(true);
@@ -2564,6 +4750,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         let hasError = false;
 
         let newId: string = '';
+        let retry: RetryableJobRequest | undefined;
 
         try {
             // Calculate dimensions based on selected options
@@ -2589,6 +4776,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                         ? { ...el, statusText: 'Queued...', progress: 0 }
                         : el
                 ));
+                addJob({ id: newId, kind: 'generation', label: prompt, prompt });
             }
 
             // Animate to show the new placeholder
@@ -2637,6 +4825,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 ...(model?.options?.resolutions && elResolution && { resolution: elResolution }),
                 ...(model?.options?.sizes && elSize && { size: elSize }),
                 ...(model?.options?.megapixels && elMegapixels && { resolution: elMegapixels }),
+                seed: randomSeed(),
             };
 
             // Add reference images if available (respect model limit)
@@ -2644,6 +4833,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             if (imageInputs.length > 0) {
                 request.imageInput = imageInputs.slice(0, modelLimit);
             }
+            retry = { kind: 'generation', request, timeout: model?.jobTimeout };
 
             // Start the generation job
             const startResponse = await startGenerationJob(request);
@@ -2654,28 +4844,25 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
             console.log('Modify generation job started:', startResponse.jobId);
 
+            if (!markJobStarted(newId, startResponse.jobId, getJobPlaceholder(newId), model?.jobTimeout)) {
+                hasError = true;
+                removeJobPlaceholder(newId);
+                return;
+            }
+
             // Poll for job completion with progress updates
-            const result = await pollGenerationJob(
-                startResponse.jobId,
-                (status, progress) => {
-                    // Update the placeholder element with current status and progress
-                    setCanvasElements(prev => prev.map(el =>
-                        el.id === newId
-                            ? { ...el, statusText: status, progress }
-                            : el
-                    ));
-                },
-                () => {
-                    // Timeout warning callback (triggered at 30 seconds)
-                    setCanvasElements(prev => prev.map(el =>
-                        el.id === newId
-                            ? { ...el, statusText: 'Taking longer than usual, please wait...' }
-                            : el
-                    ));
-                }
-            );
+            const result = await runJob('generation', startResponse.jobId, {
+                ...jobRunOptions(newId),
+                timeout: model?.jobTimeout,
+            });
 
             if (result.success && result.result.image) {
+                removeJob(newId);
+                const generationRequest = toStoredGenerationRequest(request, result.result.thumbnail?.refImages);
+                if (result.result.thumbnail?.id) {
+                    recordGenerationRequest(result.result.thumbnail.id, generationRequest);
+                }
+
                 // Update the placeholder with the generated image
                 setCanvasElements(prev => prev.map(el =>
                     el.id === newId
@@ -2687,16 +4874,30 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                             statusText: undefined,
                             progress: undefined,
                             prompt: result.result.thumbnail?.prompt || prompt,
+                            model: result.result.thumbnail?.model || el.model,
+                            // Fall back to the source element so lineage shows before the backend catches up
+                            refImages: result.result.thumbnail?.refImages?.length ? result.result.thumbnail.refImages : sourceElement ? [{
+                                type: 'url' as const,
+                                thumbnailId: sourceElement.backendId || sourceElement.id,
+                                previewUrl: sourceElement.src,
+                            }] : el.refImages,
+                            systemRefinedPrompt: result.result.thumbnail?.systemRefinedPrompt || undefined,
+                            generationRequest,
+                            createdAt: result.result.thumbnail?.createdAt || el.createdAt,
                         }
                         : el
                 ));
+            } else if (isJobCancelled(newId)) {
+                hasError = true;
+                removeJobPlaceholder(newId);
             } else {
-                // Remove failed placeholder element and clear from selection
+                // Keep the failed placeholder so the same request can be retried
                 hasError = true;
-                const errorMsg = !result.success ? result.error : 'Failed to generate thumbnail';
-                setCanvasElements(prev => prev.filter(el => el.id !== newId));
-                setSelectedElementIds(prev => prev.filter(id => id !== newId));
-                setToast({ message: errorMsg, type: 'error' });
+                failPlaceholder(newId, {
+                    message: !result.success ? result.error : 'Failed to generate thumbnail',
+                    code: !result.success ? result.code : undefined,
+                    suggestion: !result.success ? result.suggestion : undefined,
+                }, retry);
             }
         } catch (error) {
             console.error('Modify generation error:', error);
@@ -2707,13 +4908,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             // Check for insufficient credits error and show pricing modal
             if (errorMessage.toLowerCase().includes('insufficient credits')) {
                 setPricingModalOpen(true);
+            }
+
+            if (newId) {
+                failPlaceholder(newId, { message: errorMessage }, retry);
             } else {
                 setToast({ message: errorMessage, type: 'error' });
             }
-
-            // Remove placeholder on error and clear from selection
-            setCanvasElements(prev => prev.filter(el => el.id !== newId));
-            setSelectedElementIds(prev => prev.filter(id => id !== newId));
         } finally {
             setIsGenerating(false);
 
@@ -2730,7 +4931,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 }));
             }
         }
-    }, [elementPrompts, elementModels, modifyAttachedImages, canvasElements, user, isGenerating, projectId, isPublic, addElementAtViewportCenter, fitElementsInView, elementAspectRatios, elementResolutions, elementSizes, elementMegapixels]);
+    }, [elementPrompts, elementModels, modifyAttachedImages, canvasElements, user, isGenerating, projectId, isPublic, addElementAtViewportCenter, fitElementsInView, elementAspectRatios, elementResolutions, elementSizes, elementMegapixels, recordGenerationRequest, addJob, markJobStarted, removeJob, isJobCancelled, getJobPlaceholder, removeJobPlaceholder, jobRunOptions, failPlaceholder, ensureCredits, ensureEntitled, entitlements]);
 
     const handleModifyPromptKeyDown = useCallback((elementId: string, e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter') {
@@ -2848,13 +5049,18 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
         if (!smartMergeConfig.contentType || !projectId) {
             return;
         }
+        if (!ensureCredits(smartMergeCredits, 'smart-merge')) return;
 
         setIsSmartMergeGenerating(true);
         setGenerationError(null);
 
+        let newId = '';
+        let retry: RetryableJobRequest | undefined;
+
         try {
             // Get selected asset URLs
-            const selectedElements = canvasElements.filter(el => selectedElementIds.includes(el.id));
+            // Text layers have no image to merge
+            const selectedElements = canvasElements.filter(el => selectedElementIds.includes(el.id) && el.type !== 'text');
             const assetUrls = selectedElements.map(el => el.src);
 
             // Get resolution from model options
@@ -2865,7 +5071,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
             // Create placeholder element with initial status
             setSelectedElementIds([]);
-            const newId = addElementAtViewportCenter('', 'generated', defaultWidth, defaultHeight, 'generating', true);
+            newId = addElementAtViewportCenter('', 'generated', defaultWidth, defaultHeight, 'generating', true);
 
             // Update placeholder with initial status text
             setCanvasElements(prev => prev.map(el =>
@@ -2873,6 +5079,9 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                     ? { ...el, statusText: 'Queued...', progress: 0 }
                     : el
             ));
+            if (newId) {
+                addJob({ id: newId, kind: 'smart-merge', label: 'Smart Merge' });
+            }
 
             // Build Smart Merge request
             const request: SmartMergeRequest = {
@@ -2902,6 +5111,8 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             };
 
             console.log('Smart Merge request:', request);
+            const timeout = AVAILABLE_MODELS.find(m => m.id === smartMergeModel)?.jobTimeout;
+            retry = { kind: 'smart-merge', request, timeout };
 
             // Animate to show the placeholder
             if (newId) {
@@ -2917,28 +5128,19 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
             console.log('Smart Merge job started:', startResponse.jobId);
 
+            if (!markJobStarted(newId, startResponse.jobId, getJobPlaceholder(newId), timeout)) {
+                removeJobPlaceholder(newId);
+                return;
+            }
+
             // Poll for job completion with progress updates
-            const result = await pollSmartMergeJob(
-                startResponse.jobId,
-                (status, progress) => {
-                    // Update the placeholder element with current status and progress
-                    setCanvasElements(prev => prev.map(el =>
-                        el.id === newId
-                            ? { ...el, statusText: status, progress }
-                            : el
-                    ));
-                },
-                () => {
-                    // Timeout warning callback (triggered at 30 seconds)
-                    setCanvasElements(prev => prev.map(el =>
-                        el.id === newId
-                            ? { ...el, statusText: 'Taking longer than usual, please wait...' }
-                            : el
-                    ));
-                }
-            );
+            const result = await runJob('smart-merge', startResponse.jobId, {
+                ...jobRunOptions(newId),
+                timeout,
+            });
 
             if (result.success && result.result.thumbnail) {
+                removeJob(newId);
                 // Update placeholder with actual thumbnail
                 setCanvasElements(prev => prev.map(el => {
                     if (el.id === newId) {
@@ -2950,6 +5152,10 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                             statusText: undefined,
                             progress: undefined,
                             prompt: result.result.thumbnail.prompt || undefined,
+                            model: result.result.thumbnail.model || undefined,
+                            refImages: result.result.thumbnail.refImages || undefined,
+                            systemRefinedPrompt: result.result.thumbnail.systemRefinedPrompt || undefined,
+                            createdAt: result.result.thumbnail.createdAt,
                         };
                     }
                     return el;
@@ -2959,13 +5165,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                     intelligence: result.result.intelligence,
                     thumbnail: result.result.thumbnail,
                 });
+            } else if (isJobCancelled(newId)) {
+                removeJobPlaceholder(newId);
+                return;
             } else if (!result.success) {
-                // Show error message with suggestion if available
-                let errorMessage = result.error;
-                if (result.suggestion) {
-                    errorMessage += ` Suggestion: ${result.suggestion}`;
-                }
-                throw new Error(errorMessage);
+                // Keep the failed placeholder, with the suggestion, so the merge can be retried
+                failPlaceholder(newId, { message: result.error, code: result.code, suggestion: result.suggestion }, retry);
+                return;
             }
 
             handleCloseSmartMerge();
@@ -2977,21 +5183,17 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
             // Check for insufficient credits error and show pricing modal
             if (errorMessage.toLowerCase().includes('insufficient credits')) {
                 setPricingModalOpen(true);
+            }
+
+            if (newId) {
+                failPlaceholder(newId, { message: errorMessage }, retry);
             } else {
                 setToast({ message: errorMessage, type: 'error' });
             }
-
-            // Remove placeholder on error and clear from selection
-            setCanvasElements(prev => {
-                const generatingIds = prev.filter(el => el.status === 'generating').map(el => el.id);
-                // Clear these IDs from selection
-                setSelectedElementIds(ids => ids.filter(id => !generatingIds.includes(id)));
-                return prev.filter(el => el.status !== 'generating');
-            });
         } finally {
             setIsSmartMergeGenerating(false);
         }
-    }, [smartMergeConfig, canvasElements, selectedElementIds, projectId, promptModel, aspectRatio, resolution, addElementAtViewportCenter, fitElementsInView, handleCloseSmartMerge]);
+    }, [smartMergeConfig, canvasElements, selectedElementIds, projectId, promptModel, aspectRatio, resolution, addElementAtViewportCenter, fitElementsInView, handleCloseSmartMerge, smartMergeModel, addJob, markJobStarted, removeJob, isJobCancelled, getJobPlaceholder, removeJobPlaceholder, jobRunOptions, failPlaceholder, ensureCredits, smartMergeCredits]);
 
     // Compute cursor style
     const getCursorStyle = () => {
@@ -3437,6 +5639,8 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                                     selectedModel={promptModel}
                                                     onSelectModel={setPromptModel}
                                                     theme={theme}
+                                                    entitlements={entitlements}
+                                                    onLockedModel={handleLockedModel}
                                                     openUpward
                                                     showLabel
                                                     className={styles.ghostTrigger}
@@ -3446,7 +5650,10 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
                                         {/* Right side actions: Cost & Submit */}
                                         <div className={styles.promptActionsRight}>
-                                            <div className={styles.costDisplay} title="Cost in credits">
+                                            <div
+                                                className={`${styles.costDisplay} ${isShortOfCredits(sidebarCredits) ? styles.creditsInsufficient : ''}`}
+                                                title={isShortOfCredits(sidebarCredits) ? `Not enough credits (${totalCredits} left)` : 'Cost in credits'}
+                                            >
                                                 <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
                                                     <circle cx="7" cy="7" r="6.5" fill="#DA9A28" stroke="#DA9A28" />
                                                     <path d="M7 3.5V10.5M4.5 7H9.5" stroke="white" strokeWidth="1.2" strokeLinecap="round" />
@@ -3477,6 +5684,8 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                         onResolutionChange={setResolution}
                                         onSizeChange={setSize}
                                         onMegapixelsChange={setMegapixels}
+                                        seed={lockedSeed}
+                                        onSeedChange={setLockedSeed}
                                         theme={theme}
                                         showMatchInput={attachedImages.length > 0}
                                     />
@@ -3710,6 +5919,30 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                     </>
                 )}
 
+                {/* Layers Panel */}
+                {!viewMode && (
+                    <LayersPanel
+                        layers={layerItems}
+                        selectedIds={selectedElementIds}
+                        onSelect={handleLayerSelect}
+                        onReorder={moveLayer}
+                        onToggleLock={(id) => toggleLayerFlag([id], 'locked')}
+                        onToggleVisibility={(id) => toggleLayerFlag([id], 'hidden')}
+                        theme={theme}
+                    />
+                )}
+
+                {/* Lineage Panel - how the selected element evolved */}
+                {lineageTree && (
+                    <LineagePanel
+                        tree={lineageTree}
+                        items={lineageItems}
+                        selectedId={selectedElementIds[0]}
+                        onSelect={panToElement}
+                        theme={theme}
+                    />
+                )}
+
                 {/* Sidebar Bottom Stats */}
                 <div className={styles.sidebarBottomStats}>
                     <span className={styles.sidebarStatItem}>
@@ -3734,8 +5967,17 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 onMouseMove={handleCanvasMouseMove}
                 onMouseUp={handleCanvasMouseUp}
                 onMouseLeave={handleCanvasMouseUp}
-                onContextMenu={(e) => e.preventDefault()}
+                onContextMenu={handleCanvasContextMenu}
+                onDragOver={handleCanvasDragOver}
+                onDragLeave={handleCanvasDragLeave}
+                onDrop={handleCanvasDrop}
             >
+                {isFileDragOver && (
+                    <div className={styles.dropOverlay} aria-hidden="true">
+                        <span className={styles.dropOverlayLabel}>Drop images or a YouTube link to add them here</span>
+                    </div>
+                )}
+
                 {/* Top Right Controls (Credits + Export) */}
                 <div className={styles.topRightControls}>
                     {/* Credits Badge */}
@@ -3759,100 +6001,11 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                             <button
                                 className={styles.exportButton}
                                 onMouseDown={(e) => e.stopPropagation()}
-                                onClick={async (e) => {
+                                onClick={(e) => {
                                     e.stopPropagation();
                                     e.preventDefault();
-
-                                    // Get selected elements
-                                    const selectedElements = canvasElements.filter(el => selectedElementIds.includes(el.id));
-
-                                    if (selectedElements.length === 0) {
-                                        alert('No thumbnails selected');
-                                        return;
-                                    }
-
-                                    // Track export clicked
-                                    trackExportClicked(selectedElements.length);
-
-                                    console.log('Exporting', selectedElements.length, 'thumbnails');
-                                    let exportSuccessCount = 0;
-                                    const exportedThumbnailIds: string[] = []; // Track exported backend IDs for satisfaction feedback
-
-                                    for (let i = 0; i < selectedElements.length; i++) {
-                                        const element = selectedElements[i];
-
-                                        // Name file with prompt if available
-                                        let fileName = `thumbnail-${i + 1}`;
-                                        if (element.prompt) {
-                                            // Sanitize prompt to be safe for filenames
-                                            const safePrompt = element.prompt
-                                                .replace(/[^a-z0-9\s-]/gi, '') // Remove special chars
-                                                .trim()
-                                                .replace(/\s+/g, '-') // Replace spaces with hyphens
-                                                .substring(0, 50); // Limit length
-
-                                            if (safePrompt) {
-                                                fileName = safePrompt;
-                                            }
-                                        }
-                                        // Handle duplicates by appending index if generating multiple
-                                        if (selectedElements.length > 1) {
-                                            fileName += `-${i + 1}`;
-                                        }
-                                        const filename = `${fileName}.png`;
-
-                                        console.log('Downloading:', element.src.substring(0, 100) + '...');
-
-                                        try {
-                                            // Fetch the image
-                                            const response = await fetch(element.src);
-
-                                            if (!response.ok) {
-                                                throw new Error(`HTTP ${response.status}`);
-                                            }
-
-                                            const blob = await response.blob();
-                                            console.log('Got blob:', blob.size, 'bytes, type:', blob.type);
-
-                                            // Create download link
-                                            const url = window.URL.createObjectURL(blob);
-                                            const link = document.createElement('a');
-                                            link.href = url;
-                                            link.download = filename;
-                                            link.click();
-
-                                            // Cleanup
-                                            window.URL.revokeObjectURL(url);
-
-                                            console.log('Download triggered for:', filename);
-
-                                            // Track download and export (use backendId if available for API calls)
-                                            const thumbnailId = element.backendId || element.id;
-                                            trackThumbnailDownload(projectId, thumbnailId).catch(console.error);
-                                            trackCanvasExport('png', 'original', 'free');
-                                            trackExportSucceeded(projectId, thumbnailId);
-                                            exportedThumbnailIds.push(thumbnailId);
-                                            exportSuccessCount++;
-
-                                            // Small delay between downloads
-                                            if (i < selectedElements.length - 1) {
-                                                await new Promise(r => setTimeout(r, 500));
-                                            }
-                                        } catch (err) {
-                                            console.error('Download failed:', err);
-                                            // Fallback: open in new tab
-                                            window.open(element.src, '_blank');
-                                        }
-                                    }
-
-                                    // Show satisfaction toast if exports succeeded and throttle allows
-                                    if (exportSuccessCount > 0 && canShowExportSatisfaction()) {
-                                        setLastExportedThumbnailIds(exportedThumbnailIds);
-                                        setTimeout(() => {
-                                            setShowExportSatisfaction(true);
-                                            markExportSatisfactionShown();
-                                        }, 500);
-                                    }
+                                    trackExportClicked(selectedElementIds.length);
+                                    setExportModalOpen(true);
                                 }}
                                 title="Export selected thumbnails"
                             >
@@ -3870,19 +6023,25 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 <div ref={canvasContainerRef} className={styles.canvasViewport}>
                     {/* Infinite canvas workspace */}
                     <div
+                        ref={workspaceRef}
                         className={styles.canvasWorkspace}
                         style={{
-                            transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+                            transform: getViewportTransform(viewport),
                         }}
                     >
-                        {/* Canvas elements */}
-                        {canvasElements.map(element => (
+                        {/* Lineage connectors, behind the elements they join */}
+                        {showLineage && <LineageOverlay connectors={lineageConnectors} theme={theme} />}
+
+                        {/* Canvas elements - only those on or near the screen are mounted */}
+                        {renderedElements.map(element => (
                             <CanvasItem
                                 key={element.id}
                                 element={element}
                                 isSelected={selectedElementIds.includes(element.id)}
                                 onMouseDown={handleElementMouseDown}
+                                onFailedAction={viewMode ? undefined : handleFailedElementAction}
                                 theme={theme}
+                                previewSrc={getPreviewImageUrl(element.src, element.width * viewport.zoom * devicePixelRatio)}
                             />
                         ))}
 
@@ -3980,11 +6139,15 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                             height: maxY - minY + 4,
                                         }}
                                     >
-                                        {/* Corner resize handles */}
-                                        <div className={`${styles.resizeHandle} ${styles.handleNW}`} onMouseDown={(e) => handleResizeMouseDown(e, 'nw')} />
-                                        <div className={`${styles.resizeHandle} ${styles.handleNE}`} onMouseDown={(e) => handleResizeMouseDown(e, 'ne')} />
-                                        <div className={`${styles.resizeHandle} ${styles.handleSW}`} onMouseDown={(e) => handleResizeMouseDown(e, 'sw')} />
-                                        <div className={`${styles.resizeHandle} ${styles.handleSE}`} onMouseDown={(e) => handleResizeMouseDown(e, 'se')} />
+                                        {/* Corner resize handles - not shown while any selected element is locked */}
+                                        {!selectedElements.some(el => el.locked) && (
+                                            <>
+                                                <div className={`${styles.resizeHandle} ${styles.handleNW}`} onMouseDown={(e) => handleResizeMouseDown(e, 'nw')} />
+                                                <div className={`${styles.resizeHandle} ${styles.handleNE}`} onMouseDown={(e) => handleResizeMouseDown(e, 'ne')} />
+                                                <div className={`${styles.resizeHandle} ${styles.handleSW}`} onMouseDown={(e) => handleResizeMouseDown(e, 'sw')} />
+                                                <div className={`${styles.resizeHandle} ${styles.handleSE}`} onMouseDown={(e) => handleResizeMouseDown(e, 'se')} />
+                                            </>
+                                        )}
                                     </div>
                                 </>
                             );
@@ -4355,7 +6518,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                                             <button
                                                                 className={`${styles.textOptionButton} ${smartMergeModel === 'nano-banana' ? styles.textOptionButtonActive : ''}`}
                                                                 onClick={() => setSmartMergeModel('nano-banana')}
-                                                                title="Standard quality (6 credits)"
+                                                                title={`Standard quality (${getSmartMergeCredits('nano-banana')} credits)`}
                                                             >
                                                                 Standard
                                                                 <div className={styles.inlineCreditsIcon}>
@@ -4363,13 +6526,13 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                                                         <circle cx="7" cy="7" r="6.5" fill="#DA9A28" stroke="#DA9A28" />
                                                                         <path d="M7 3.5V10.5M4.5 7H9.5" stroke="white" strokeWidth="1.2" strokeLinecap="round" />
                                                                     </svg>
-                                                                    6
+                                                                    {getSmartMergeCredits('nano-banana')}
                                                                 </div>
                                                             </button>
                                                             <button
                                                                 className={`${styles.textOptionButton} ${smartMergeModel === 'nano-banana-pro' ? styles.textOptionButtonActive : ''}`}
                                                                 onClick={() => setSmartMergeModel('nano-banana-pro')}
-                                                                title="Pro quality (24 credits)"
+                                                                title={`Pro quality (${getSmartMergeCredits('nano-banana-pro')} credits)`}
                                                             >
                                                                 Pro
                                                                 <div className={styles.inlineCreditsIcon}>
@@ -4377,7 +6540,7 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                                                         <circle cx="7" cy="7" r="6.5" fill="#DA9A28" stroke="#DA9A28" />
                                                                         <path d="M7 3.5V10.5M4.5 7H9.5" stroke="white" strokeWidth="1.2" strokeLinecap="round" />
                                                                     </svg>
-                                                                    24
+                                                                    {getSmartMergeCredits('nano-banana-pro')}
                                                                 </div>
                                                             </button>
                                                         </div>
@@ -4396,12 +6559,15 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                                 ) : (
                                                     <>
                                                         <span>Generate Thumbnail</span>
-                                                        <div className={styles.smartMergeCredits}>
+                                                        <div
+                                                            className={`${styles.smartMergeCredits} ${isShortOfCredits(smartMergeCredits) ? styles.creditsInsufficient : ''}`}
+                                                            title={isShortOfCredits(smartMergeCredits) ? `Not enough credits (${totalCredits} left)` : undefined}
+                                                        >
                                                             <svg className={styles.smartMergeCreditsIcon} viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg">
                                                                 <circle cx="7" cy="7" r="6.5" fill="#DA9A28" stroke="#DA9A28" />
                                                                 <path d="M7 3.5V10.5M4.5 7H9.5" stroke="white" strokeWidth="1.2" strokeLinecap="round" />
                                                             </svg>
-                                                            {smartMergeModel === 'nano-banana' ? 6 : 24}
+                                                            {smartMergeCredits}
                                                         </div>
                                                     </>
                                                 )}
@@ -4446,16 +6612,47 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                 const element = canvasElements.find(el => el.id === elementId);
                                 if (!element) return null;
 
+                                // Text layers get a style editor instead of the modify prompt
+                                if (element.type === 'text' && element.textLayer) {
+                                    const textPanelScale = 1 / viewport.zoom;
+                                    return (
+                                        <div
+                                            key={`text-${elementId}`}
+                                            className={styles.modifyPromptPanelWrapper}
+                                            style={{
+                                                position: 'absolute',
+                                                left: element.x + element.width / 2,
+                                                top: element.y + element.height + (24 * textPanelScale),
+                                                transform: `translateX(-50%) scale(${textPanelScale})`,
+                                                transformOrigin: 'top center',
+                                                zIndex: 1001,
+                                            }}
+                                            onMouseDown={(e) => e.stopPropagation()}
+                                            onDoubleClick={(e) => e.stopPropagation()}
+                                        >
+                                            <TextLayerPanel
+                                                textLayer={element.textLayer}
+                                                onChange={(changes) => handleTextLayerChange(elementId, changes)}
+                                                theme={theme}
+                                                autoFocus={newTextElementId === elementId}
+                                            />
+                                        </div>
+                                    );
+                                }
+
                                 const elementPrompt = elementPrompts[elementId] || '';
                                 // Use same default as generation logic (DEFAULT_MODEL = nano-banana-pro)
                                 const elementModel = elementModels[elementId] || DEFAULT_MODEL;
                                 const elementAttachedImages = modifyAttachedImages[elementId] || [];
 
-                                // Calculate credits for this element (only resolution matters for nano-banana-pro)
-                                const elementCredits = getGenerationCredits(
-                                    elementModel,
-                                    elementResolutions[elementId]
-                                );
+                                // Credits for this element's modify, with its own options
+                                const elementCredits = estimateCost({
+                                    model: elementModel,
+                                    action: 'modify',
+                                    resolution: elementResolutions[elementId],
+                                    size: elementSizes[elementId],
+                                    megapixels: elementMegapixels[elementId],
+                                });
 
                                 // Calculate scale to maintain visibility (inverse zoom) AND scale up for larger images
                                 const scaleFromZoom = 1 / viewport.zoom;
@@ -4528,6 +6725,8 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                                     selectedModel={elementModel}
                                                     onSelectModel={(model) => handleSelectModifyModel(elementId, model)}
                                                     theme={theme}
+                                                    entitlements={entitlements}
+                                                    onLockedModel={handleLockedModel}
                                                 />
                                             </div>
 
@@ -4536,9 +6735,11 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                                 className={styles.promptPanelSubmit}
                                                 onClick={() => handleModifyPromptSubmit(elementId)}
                                                 disabled={!elementPrompt.trim()}
-                                                title={`Generate (${elementCredits} credits)`}
+                                                title={isShortOfCredits(elementCredits)
+                                                    ? `Generate (${elementCredits} credits, ${totalCredits} left)`
+                                                    : `Generate (${elementCredits} credits)`}
                                             >
-                                                <span className={styles.promptPanelCredits}>
+                                                <span className={`${styles.promptPanelCredits} ${isShortOfCredits(elementCredits) ? styles.creditsInsufficient : ''}`}>
                                                     <svg width="10" height="10" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
                                                         <circle cx="7" cy="7" r="6.5" fill="#DA9A28" stroke="#DA9A28" />
                                                         <path d="M7 3.5V10.5M4.5 7H9.5" stroke="white" strokeWidth="1.2" strokeLinecap="round" />
@@ -4651,8 +6852,52 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                             <path d="M13 14L16 11L21 16" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
                         </svg>
                     </button>
+
+                    {/* Text layer button */}
+                    {!viewMode && (
+                        <button
+                            className={styles.toolButton}
+                            onClick={handleAddTextLayer}
+                            title="Add text (T)"
+                            aria-label="Add text"
+                        >
+                            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                                <path d="M5 6V4H19V6M12 4V20M9 20H15" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+                            </svg>
+                        </button>
+                    )}
+
+                    {/* Tidy board button */}
+                    {!viewMode && (
+                        <button
+                            className={styles.toolButton}
+                            onClick={() => tidyElements(selectedElementIds)}
+                            title={selectedElementIds.length >= 2 ? 'Tidy selection into a grid (Ctrl+Alt+T)' : 'Tidy board into a grid (Ctrl+Alt+T)'}
+                            aria-label="Tidy into a grid"
+                        >
+                            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                                <rect x="4" y="4" width="6.5" height="6.5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                                <rect x="13.5" y="4" width="6.5" height="6.5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                                <rect x="4" y="13.5" width="6.5" height="6.5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                                <rect x="13.5" y="13.5" width="6.5" height="6.5" rx="1" stroke="currentColor" strokeWidth="1.5" />
+                            </svg>
+                        </button>
+                    )}
                 </div>
 
+                {/* Arrange toolbar - multi-selection only */}
+                {!viewMode && selectedElementIds.length >= 2 && (
+                    <ArrangeToolbar
+                        selectionCount={selectedElementIds.length}
+                        tidySortKey={tidySortKey}
+                        onAlign={(edge) => alignElements(selectedElementIds, edge)}
+                        onDistribute={(axis) => distributeElements(selectedElementIds, axis)}
+                        onTidy={() => tidyElements(selectedElementIds)}
+                        onTidySortKeyChange={setTidySortKey}
+                        theme={theme}
+                    />
+                )}
+
                 {/* Zoom controls */}
                 <div className={styles.zoomControls}>
                     <button className={styles.zoomButton} onClick={handleZoomOut} title="Zoom out (Ctrl+-)">
@@ -4673,8 +6918,62 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                             <path d="M9 3V21M15 3V21M3 9H21M3 15H21" stroke="currentColor" strokeWidth="1" strokeOpacity="0.5" />
                         </svg>
                     </button>
+                    <div className={styles.zoomDivider} />
+                    <button
+                        className={`${styles.zoomButton} ${showLineage ? styles.zoomButtonActive : ''}`}
+                        onClick={toggleLineage}
+                        title={showLineage ? 'Hide lineage (L)' : 'Show lineage (L)'}
+                        aria-pressed={showLineage}
+                    >
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                            <circle cx="6" cy="6" r="2.5" />
+                            <circle cx="18" cy="12" r="2.5" />
+                            <circle cx="6" cy="18" r="2.5" />
+                            <path d="M8.5 6C13 6 12 12 15.5 12M8.5 18C13 18 12 12 15.5 12" />
+                        </svg>
+                    </button>
+                    <button className={styles.zoomButton} onClick={() => setIsPaletteOpen(true)} title="Commands and shortcuts (Ctrl+K)">
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
+                            <path d="M9 6V18M15 6V18M6 9H18M6 15H18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+                        </svg>
+                    </button>
                 </div>
 
+                {/* Inspector - read-only, so it is available on the share page too */}
+                {isInspectorOpen && (
+                    <InspectorPanel
+                        details={inspectorDetails}
+                        onClose={() => setInspectorOpen(false)}
+                        onReferenceClick={panToElement}
+                        onCopySettings={() => inspectedElement && copyGenerationSettings(inspectedElement)}
+                        theme={theme}
+                    />
+                )}
+
+                {/* Jobs Tray - queued, running and failed generations */}
+                {!viewMode && (
+                    <JobsTray
+                        jobs={generationJobs}
+                        onCancel={handleCancelJob}
+                        onDismiss={removeJob}
+                        onClearFinished={clearFinishedJobs}
+                        onSelect={panToElement}
+                        theme={theme}
+                    />
+                )}
+
+                {/* Minimap - navigation only, so it is available on the share page too */}
+                <Minimap
+                    elements={minimapElements}
+                    selectedIds={selectedElementIds}
+                    viewport={viewport}
+                    containerWidth={containerSize.width}
+                    containerHeight={containerSize.height}
+                    onViewportChange={setViewportLive}
+                    onViewportChangeEnd={commitViewport}
+                    theme={theme}
+                />
+
 
 
             </main >
@@ -4761,6 +7060,8 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                                         selectedModel={promptModel}
                                         onSelectModel={setPromptModel}
                                         theme={theme}
+                                        entitlements={entitlements}
+                                        onLockedModel={handleLockedModel}
                                         openUpward
                                         showLabel
                                         className={styles.ghostTrigger}
@@ -4770,7 +7071,10 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
 
                             {/* Right side: Credits & Submit */}
                             <div className={styles.promptActionsRight}>
-                                <div className={styles.costDisplay} title="Cost in credits">
+                                <div
+                                    className={`${styles.costDisplay} ${isShortOfCredits(sidebarCredits) ? styles.creditsInsufficient : ''}`}
+                                    title={isShortOfCredits(sidebarCredits) ? `Not enough credits (${totalCredits} left)` : 'Cost in credits'}
+                                >
                                     <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
                                         <circle cx="7" cy="7" r="6.5" fill="#DA9A28" stroke="#DA9A28" />
                                         <path d="M7 3.5V10.5M4.5 7H9.5" stroke="white" strokeWidth="1.2" strokeLinecap="round" />
@@ -4802,6 +7106,37 @@ export function ProjectCanvas(props: ProjectCanvasPageProps) {
                 userEmail={user?.email || undefined}
             />
 
+            {/* Export Modal */}
+            <ExportModal
+                isOpen={exportModalOpen}
+                onClose={() => setExportModalOpen(false)}
+                layers={exportLayers}
+                region={exportRegion}
+                fileName={`${projectName.replace(/[^a-z0-9\s-]/gi, '').trim().replace(/\s+/g, '-') || 'thumbnail'}-export`}
+                onExported={handleCompositeExported}
+                onDownloadOriginals={handleExportOriginals}
+                theme={theme}
+            />
+
+            {/* Command palette */}
+            <CommandPalette
+                isOpen={isPaletteOpen}
+                onClose={() => setIsPaletteOpen(false)}
+                commands={paletteCommands}
+                theme={theme}
+            />
+
+            {/* Right-click menu */}
+            {contextMenu && (
+                <ContextMenu
+                    x={contextMenu.x}
+                    y={contextMenu.y}
+                    items={contextMenuItems}
+                    onClose={closeContextMenu}
+                    theme={theme}
+                />
+            )}
+
             {/* Confidence Feedback (appears after generation) */}
             {showConfidenceFeedback && (
                 <div style={{
@@ -19,6 +19,7 @@ import { getNavItemsForRoute, PROJECTS_PER_PAGE } from '@/lib/constants';
 
 // Services
 import { getUserPlan } from '@/lib/services/userService';
+import { getEntitlements } from '@/lib/utils/entitlements';
 
 // Components
 import { Sidebar } from '@/components/layout';
@@ -49,6 +50,7 @@ export default function ProjectsPage() {
     // Custom hooks
     const { user, loading: authLoading, signOut } = useAuth();
     const { userData } = useUserData(user);
+    const entitlements = useMemo(() => getEntitlements(getUserPlan(userData).type), [userData]);
     const { theme, setTheme } = useTheme({ userId: user?.uid });
     const { isMobile, sidebarOpen, toggleSidebar, closeSidebar } = useMobile();
     const {
@@ -563,7 +565,7 @@ export default function ProjectsPage() {
                 onClose={() => setIsModalOpen(false)}
                 onCreateProject={handleCreateProject}
                 theme={theme}
-                isPaidUser={getUserPlan(userData).type !== 'free'}
+                canMakePrivate={entitlements.privateProjects}
                 onUpgradeClick={() => setPricingModalOpen(true)}
             />
 
@@ -575,7 +577,7 @@ export default function ProjectsPage() {
                 initialName={editProjectModal.projectName}
                 initialIsPublic={editProjectModal.isPublic}
                 theme={theme}
-                isPaidUser={getUserPlan(userData).type !== 'free'}
+                canMakePrivate={entitlements.privateProjects}
                 onUpgradeClick={() => setPricingModalOpen(true)}
             />
 
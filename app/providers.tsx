@@ -1,14 +1,20 @@
 'use client';
 
-import { ReactNode } from 'react';
+import { ReactNode, useEffect } from 'react';
 import { ProjectsProvider } from '@/contexts';
 import { AnalyticsProvider } from '@/components/providers/AnalyticsProvider';
+import { capturePromoCodeFromUrl } from '@/lib/utils/promoCode';
 
 interface ProvidersProps {
     children: ReactNode;
 }
 
 export function Providers({ children }: ProvidersProps) {
+    // Promo links can land on any page, including ones that redirect to login
+    useEffect(() => {
+        capturePromoCodeFromUrl();
+    }, []);
+
     return (
         <ProjectsProvider>
             <AnalyticsProvider>{children}</AnalyticsProvider>
@@ -0,0 +1,446 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState, useMemo, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import dynamicImport from 'next/dynamic';
+
+// Hooks
+import { useAuth, useUserData, useTheme, useMobile, useCreditLedger } from '@/hooks';
+import { useProjectsContext } from '@/contexts';
+
+// Constants
+import { getNavItemsForRoute, AVAILABLE_MODELS } from '@/lib/constants';
+
+// Utils
+import {
+    filterLedger,
+    getMonthKey,
+    getMonthlyTotals,
+    getUnrecordedTopUpCredits,
+    ledgerToCsv,
+    LEDGER_KIND_LABELS,
+    type LedgerFilter,
+} from '@/lib/utils/creditLedger';
+import { downloadBlob } from '@/lib/utils/exportImage';
+import { formatDate } from '@/lib/utils/formatTime';
+
+// Components
+import { Sidebar } from '@/components/layout';
+import { LoadingSpinner, PricingModal } from '@/components/ui';
+
+// Lazy load modals to reduce TBT
+const ProfileModal = dynamicImport(
+    () => import('@/components/modals/ProfileModal'),
+    { ssr: false }
+);
+
+// Styles
+import dashboardStyles from '@/app/dashboard/dashboard.module.css';
+import projectsStyles from '@/app/projects/projects.module.css';
+import styles from './usage.module.css';
+
+const DEFAULT_FILTER: LedgerFilter = { direction: 'all', projectId: null, month: null };
+
+// "2025-12" -> "December 2025"
+function formatMonth(month: string): string {
+    const [year, monthIndex] = month.split('-').map(Number);
+    return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+function formatCredits(credits: number): string {
+    return `${credits > 0 ? '+' : ''}${credits.toLocaleString()}`;
+}
+
+function getModelName(modelId: string): string {
+    const model = AVAILABLE_MODELS.find(m => m.id === modelId) || AVAILABLE_MODELS.find(m => m.baseModel === modelId);
+    return model?.name || modelId;
+}
+
+export default function UsagePage() {
+    const router = useRouter();
+
+    // Custom hooks
+    const { user, loading: authLoading, signOut } = useAuth();
+    const { userData, totalCredits } = useUserData(user);
+    const { theme, setTheme } = useTheme({ userId: user?.uid });
+    const { isMobile, sidebarOpen, toggleSidebar, closeSidebar } = useMobile();
+    const { projects } = useProjectsContext();
+    const {
+        entries,
+        loading: ledgerLoading,
+        hasMore,
+        completeSince,
+        loadingMore,
+        loadMore,
+    } = useCreditLedger(user);
+
+    // Navigation
+    const navItems = useMemo(() => getNavItemsForRoute('usage'), []);
+
+    const [profileMenuOpen, setProfileMenuOpen] = useState(false);
+    const [pricingModalOpen, setPricingModalOpen] = useState(false);
+    const [profileModalOpen, setProfileModalOpen] = useState(false);
+    const [filter, setFilter] = useState<LedgerFilter>(DEFAULT_FILTER);
+
+    const projectNames = useMemo(
+        () => new Map(projects.map(project => [project.id, project.name])),
+        [projects]
+    );
+
+    const filteredEntries = useMemo(() => filterLedger(entries, filter), [entries, filter]);
+
+    // Totals follow the direction and project filters, but always cover every month
+    const monthlyTotals = useMemo(
+        () => getMonthlyTotals(filterLedger(entries, { ...filter, month: null }), completeSince),
+        [entries, filter, completeSince]
+    );
+
+    // Projects that appear in the ledger, including deleted ones
+    const ledgerProjectIds = useMemo(
+        () => Array.from(new Set(entries.map(entry => entry.projectId).filter((id): id is string => !!id))),
+        [entries]
+    );
+
+    const currentMonth = getMonthKey(new Date().toISOString());
+    const thisMonth = getMonthlyTotals(entries, completeSince).find(total => total.month === currentMonth);
+
+    // Top-ups can only be checked against the balance once every top-up has loaded
+    const unrecordedTopUps = !hasMore && userData
+        ? getUnrecordedTopUpCredits(entries, userData.toppedUpBalance)
+        : 0;
+
+    // Handlers
+    const handleSignOut = useCallback(async () => {
+        try {
+            await signOut();
+            setProfileMenuOpen(false);
+        } catch (error) {
+            console.error('Sign out error:', error);
+        }
+    }, [signOut]);
+
+    const handleThemeToggle = useCallback((newTheme: 'light' | 'dark') => {
+        setTheme(newTheme);
+    }, [setTheme]);
+
+    const updateFilter = useCallback((changes: Partial<LedgerFilter>) => {
+        setFilter(prev => ({ ...prev, ...changes }));
+    }, []);
+
+    const handleExportCsv = useCallback(() => {
+        const csv = ledgerToCsv(filteredEntries, id => projectNames.get(id), getModelName);
+        const filename = `stumbnail-credits-${filter.month || new Date().toISOString().slice(0, 10)}.csv`;
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), filename);
+    }, [filteredEntries, projectNames, filter.month]);
+
+    // Loading state
+    if (authLoading) {
+        return (
+            <LoadingSpinner theme={theme} text="Loading..." fullScreen />
+        );
+    }
+
+    if (!user) {
+        return null;
+    }
+
+    const isFiltered = filter.direction !== 'all' || !!filter.projectId || !!filter.month;
+
+    return (
+        <div className={`${dashboardStyles.container} ${theme === 'dark' ? `${dashboardStyles.darkTheme} darkTheme` : dashboardStyles.lightTheme}`}>
+            {/* Decorative blur elements */}
+            {!isMobile && (
+                <>
+                    <div className={dashboardStyles.blurTopRight} />
+                    <div className={dashboardStyles.blurSidebarBottom} />
+                </>
+            )}
+
+            {/* Mobile Overlay */}
+            {isMobile && sidebarOpen && (
+                <div className={dashboardStyles.overlay} onClick={closeSidebar} />
+            )}
+
+            {/* Sidebar */}
+            <Sidebar
+                user={user}
+                userData={userData}
+                navItems={navItems}
+                theme={theme}
+                sidebarOpen={sidebarOpen}
+                profileMenuOpen={profileMenuOpen}
+                onProfileMenuToggle={() => setProfileMenuOpen(prev => !prev)}
+                onProfileMenuClose={() => setProfileMenuOpen(false)}
+                onThemeToggle={handleThemeToggle}
+                onSignOut={handleSignOut}
+                onCloseSidebar={closeSidebar}
+                onUpgradeClick={() => setPricingModalOpen(true)}
+                onProfileClick={() => setProfileModalOpen(true)}
+            />
+
+            {/* Main Content */}
+            <main className={dashboardStyles.main}>
+                <header className={dashboardStyles.header}>
+                    {isMobile && (
+                        <button className={dashboardStyles.menuButton} onClick={toggleSidebar}>
+                            <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                                <path d="M3 12H21M3 6H21M3 18H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                            </svg>
+                        </button>
+                    )}
+
+                    <h1 className={projectsStyles.pageTitle}>Usage</h1>
+
+                    <button className={dashboardStyles.createButton} onClick={() => router.push('/billing')}>
+                        <span>Billing</span>
+                    </button>
+                </header>
+
+                <div className={dashboardStyles.content}>
+                    <div className={projectsStyles.pageHeader}>
+                        <div className={projectsStyles.headerLeft}>
+                            <h2 className={dashboardStyles.sectionTitle}>
+                                Credit <span className={dashboardStyles.titleAccent}>Usage</span>
+                            </h2>
+                            <p className={projectsStyles.projectSubtext}>
+                                Where your credits went, and where they came from
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Summary */}
+                    <div className={styles.summary}>
+                        <div className={styles.summaryCard}>
+                            <span className={styles.summaryLabel}>Available</span>
+                            <span className={styles.summaryValue}>{totalCredits.toLocaleString()}</span>
+                        </div>
+                        <div className={styles.summaryCard}>
+                            <span className={styles.summaryLabel}>Spent this month</span>
+                            <span className={styles.summaryValue}>{(thisMonth?.spent ?? 0).toLocaleString()}</span>
+                        </div>
+                        <div className={styles.summaryCard}>
+                            <span className={styles.summaryLabel}>Added this month</span>
+                            <span className={styles.summaryValue}>{(thisMonth?.added ?? 0).toLocaleString()}</span>
+                        </div>
+                        <div className={styles.summaryCard}>
+                            <span className={styles.summaryLabel}>Top-up balance</span>
+                            <span className={styles.summaryValue}>{(userData?.toppedUpBalance ?? 0).toLocaleString()}</span>
+                            {unrecordedTopUps > 0 && (
+                                <span className={styles.summaryNote}>
+                                    {unrecordedTopUps.toLocaleString()} from top-ups not in your billing history
+                                </span>
+                            )}
+                        </div>
+                    </div>
+
+                    {hasMore && !ledgerLoading && (
+                        <div className={styles.notice}>
+                            <span>
+                                {completeSince
+                                    ? `Showing activity since ${formatDate(completeSince)}.`
+                                    : 'Showing your most recent activity.'}
+                                {' '}Older activity isn&apos;t included in the totals or the CSV export.
+                            </span>
+                            <button className={styles.noticeButton} onClick={loadMore} disabled={loadingMore}>
+                                {loadingMore ? 'Loading...' : 'Load older activity'}
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Filters */}
+                    <div className={styles.toolbar}>
+                        <div className={styles.segmented} role="group" aria-label="Show">
+                            {([['all', 'All'], ['spent', 'Spent'], ['added', 'Added']] as const).map(([direction, label]) => (
+                                <button
+                                    key={direction}
+                                    className={`${styles.segment} ${filter.direction === direction ? styles.segmentActive : ''}`}
+                                    onClick={() => updateFilter({ direction })}
+                                    aria-pressed={filter.direction === direction}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+
+                        <select
+                            className={styles.select}
+                            value={filter.projectId ?? ''}
+                            onChange={(e) => updateFilter({ projectId: e.target.value || null })}
+                            aria-label="Project"
+                        >
+                            <option value="">All projects</option>
+                            {ledgerProjectIds.map(id => (
+                                <option key={id} value={id}>{projectNames.get(id) || 'Deleted project'}</option>
+                            ))}
+                        </select>
+
+                        <select
+                            className={styles.select}
+                            value={filter.month ?? ''}
+                            onChange={(e) => updateFilter({ month: e.target.value || null })}
+                            aria-label="Month"
+                        >
+                            <option value="">All time</option>
+                            {monthlyTotals.map(total => (
+                                <option key={total.month} value={total.month}>{formatMonth(total.month)}</option>
+                            ))}
+                        </select>
+
+                        {isFiltered && (
+                            <button className={styles.clearButton} onClick={() => setFilter(DEFAULT_FILTER)}>
+                                Clear filters
+                            </button>
+                        )}
+
+                        <button
+                            className={styles.exportButton}
+                            onClick={handleExportCsv}
+                            disabled={filteredEntries.length === 0}
+                        >
+                            Export CSV
+                        </button>
+                    </div>
+
+                    {ledgerLoading ? (
+                        <LoadingSpinner theme={theme} text="Loading usage..." />
+                    ) : entries.length === 0 ? (
+                        <div className={dashboardStyles.emptyState}>
+                            <h3 className={dashboardStyles.emptyTitle}>No credit activity yet</h3>
+                            <p className={dashboardStyles.emptyText}>
+                                Generations, renewals and top-ups will appear here
+                            </p>
+                            <button
+                                className={dashboardStyles.goToProjectsButton}
+                                onClick={() => router.push('/dashboard')}
+                            >
+                                Start Creating
+                            </button>
+                        </div>
+                    ) : (
+                        <div className={styles.layout}>
+                            {/* Ledger */}
+                            <section className={styles.panel}>
+                                <h3 className={styles.panelTitle}>Activity</h3>
+                                {filteredEntries.length === 0 ? (
+                                    <p className={styles.empty}>Nothing matches these filters.</p>
+                                ) : (
+                                    <div className={styles.tableWrapper}>
+                                        <table className={styles.table}>
+                                            <thead>
+                                                <tr>
+                                                    <th>Date</th>
+                                                    <th>Type</th>
+                                                    <th>Details</th>
+                                                    <th>Project</th>
+                                                    <th>Model</th>
+                                                    <th className={styles.numeric}>Credits</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {filteredEntries.map(entry => (
+                                                    <tr key={entry.id}>
+                                                        <td className={styles.nowrap}>{entry.createdAt ? formatDate(entry.createdAt) : '-'}</td>
+                                                        <td>
+                                                            <span className={`${styles.kind} ${entry.credits < 0 ? styles.kindSpent : styles.kindAdded}`}>
+                                                                {LEDGER_KIND_LABELS[entry.kind]}
+                                                            </span>
+                                                        </td>
+                                                        <td>
+                                                            <div className={styles.details}>
+                                                                {entry.thumbnailUrl && (
+                                                                    // eslint-disable-next-line @next/next/no-img-element
+                                                                    <img className={styles.thumbnail} src={entry.thumbnailUrl} alt="" loading="lazy" />
+                                                                )}
+                                                                <span>
+                                                                    {entry.description || '-'}
+                                                                    {entry.invoiceUrl && (
+                                                                        <>
+                                                                            {' '}
+                                                                            <a className={styles.link} href={entry.invoiceUrl} target="_blank" rel="noopener noreferrer">
+                                                                                Invoice
+                                                                            </a>
+                                                                        </>
+                                                                    )}
+                                                                </span>
+                                                            </div>
+                                                        </td>
+                                                        <td>
+                                                            {entry.projectId ? (
+                                                                projectNames.has(entry.projectId) ? (
+                                                                    <button className={styles.link} onClick={() => router.push(`/project/${entry.projectId}`)}>
+                                                                        {projectNames.get(entry.projectId)}
+                                                                    </button>
+                                                                ) : (
+                                                                    <span className={styles.muted}>Deleted project</span>
+                                                                )
+                                                            ) : '-'}
+                                                        </td>
+                                                        <td>{entry.model ? getModelName(entry.model) : '-'}</td>
+                                                        <td className={`${styles.numeric} ${entry.credits < 0 ? styles.spent : styles.added}`}>
+                                                            {formatCredits(entry.credits)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </section>
+
+                            {/* Monthly totals */}
+                            <section className={styles.panel}>
+                                <h3 className={styles.panelTitle}>Monthly totals</h3>
+                                <table className={styles.table}>
+                                    <thead>
+                                        <tr>
+                                            <th>Month</th>
+                                            <th className={styles.numeric}>Spent</th>
+                                            <th className={styles.numeric}>Added</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {monthlyTotals.map(total => (
+                                            <tr
+                                                key={total.month}
+                                                className={`${styles.monthRow} ${filter.month === total.month ? styles.monthRowActive : ''}`}
+                                                onClick={() => updateFilter({ month: filter.month === total.month ? null : total.month })}
+                                            >
+                                                <td className={styles.nowrap}>
+                                                    {formatMonth(total.month)}
+                                                    {total.partial && (
+                                                        <span className={styles.muted} title="Older activity for this month hasn't been loaded"> (partial)</span>
+                                                    )}
+                                                </td>
+                                                <td className={`${styles.numeric} ${styles.spent}`}>{total.spent.toLocaleString()}</td>
+                                                <td className={`${styles.numeric} ${styles.added}`}>{total.added.toLocaleString()}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </section>
+                        </div>
+                    )}
+                </div>
+            </main>
+
+            {/* Pricing Modal */}
+            <PricingModal
+                open={pricingModalOpen}
+                onClose={() => setPricingModalOpen(false)}
+                theme={theme}
+                userEmail={user?.email || undefined}
+            />
+
+            <ProfileModal
+                open={profileModalOpen}
+                onClose={() => setProfileModalOpen(false)}
+                user={user}
+                userData={userData}
+                theme={theme}
+                onUpgradeClick={() => setPricingModalOpen(true)}
+            />
+        </div>
+    );
+}
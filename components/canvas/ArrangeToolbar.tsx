@@ -0,0 +1,98 @@
+'use client';
+
+import type { AlignEdge, DistributeAxis, TidySortKey } from '@/lib/utils/canvasArrange';
+import styles from './ArrangeToolbar.module.css';
+
+interface ArrangeToolbarProps {
+    selectionCount: number;
+    tidySortKey: TidySortKey;
+    onAlign: (edge: AlignEdge) => void;
+    onDistribute: (axis: DistributeAxis) => void;
+    onTidy: () => void;
+    onTidySortKeyChange: (key: TidySortKey) => void;
+    theme?: 'light' | 'dark';
+}
+
+// Icons are 18x18 strokes drawn on a 24 grid
+const ALIGN_BUTTONS: { edge: AlignEdge; label: string; shortcut: string; path: string }[] = [
+    { edge: 'left', label: 'Align left', shortcut: 'Alt+A', path: 'M4 3V21M8 7H18M8 15H14' },
+    { edge: 'centerX', label: 'Align horizontal centers', shortcut: 'Alt+H', path: 'M12 3V21M6 7H18M8 15H16' },
+    { edge: 'right', label: 'Align right', shortcut: 'Alt+D', path: 'M20 3V21M6 7H16M10 15H16' },
+    { edge: 'top', label: 'Align top', shortcut: 'Alt+W', path: 'M3 4H21M7 8V18M15 8V14' },
+    { edge: 'centerY', label: 'Align vertical centers', shortcut: 'Alt+V', path: 'M3 12H21M7 6V18M15 8V16' },
+    { edge: 'bottom', label: 'Align bottom', shortcut: 'Alt+S', path: 'M3 20H21M7 6V16M15 10V16' },
+];
+
+const DISTRIBUTE_BUTTONS: { axis: DistributeAxis; label: string; shortcut: string; path: string }[] = [
+    { axis: 'horizontal', label: 'Distribute horizontally', shortcut: 'Alt+Shift+H', path: 'M3 4V20M21 4V20M9 8H15V16H9Z' },
+    { axis: 'vertical', label: 'Distribute vertically', shortcut: 'Alt+Shift+V', path: 'M4 3H20M4 21H20M8 9H16V15H8Z' },
+];
+
+export default function ArrangeToolbar({
+    selectionCount,
+    tidySortKey,
+    onAlign,
+    onDistribute,
+    onTidy,
+    onTidySortKeyChange,
+    theme = 'light',
+}: ArrangeToolbarProps) {
+    return (
+        <div
+            className={`${styles.toolbar} ${theme === 'dark' ? styles.dark : ''}`}
+            onMouseDown={(e) => e.stopPropagation()}
+            role="toolbar"
+            aria-label="Arrange selection"
+        >
+            {ALIGN_BUTTONS.map(button => (
+                <button
+                    key={button.edge}
+                    className={styles.button}
+                    onClick={() => onAlign(button.edge)}
+                    title={`${button.label} (${button.shortcut})`}
+                    aria-label={button.label}
+                >
+                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                        <path d={button.path} stroke="currentColor" strokeWidth="1.75" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                </button>
+            ))}
+
+            <div className={styles.divider} />
+
+            {DISTRIBUTE_BUTTONS.map(button => (
+                <button
+                    key={button.axis}
+                    className={styles.button}
+                    onClick={() => onDistribute(button.axis)}
+                    disabled={selectionCount < 3}
+                    title={selectionCount < 3 ? `${button.label} (select 3 or more)` : `${button.label} (${button.shortcut})`}
+                    aria-label={button.label}
+                >
+                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                        <path d={button.path} stroke="currentColor" strokeWidth="1.75" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                </button>
+            ))}
+
+            <div className={styles.divider} />
+
+            <button
+                className={`${styles.button} ${styles.tidyButton}`}
+                onClick={onTidy}
+                title="Tidy into a grid (Ctrl+Alt+T)"
+            >
+                Tidy
+            </button>
+            <select
+                className={styles.select}
+                value={tidySortKey}
+                onChange={(e) => onTidySortKeyChange(e.target.value as TidySortKey)}
+                aria-label="Tidy order"
+            >
+                <option value="createdAt">by date</option>
+                <option value="model">by model</option>
+            </select>
+        </div>
+    );
+}
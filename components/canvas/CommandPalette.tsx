@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { fuzzyMatch } from '@/lib/utils/fuzzyMatch';
+import styles from './CommandPalette.module.css';
+
+export interface PaletteCommand {
+    id: string;
+    group: string;
+    label: string;
+    hint?: string;        // Secondary text shown after the label
+    shortcut?: string;
+    keywords?: string[];  // Extra search terms that aren't shown
+    disabled?: boolean;
+    onSelect?: () => void;  // Omitted for shortcut-reference entries that can't be run from here
+}
+
+interface CommandPaletteProps {
+    isOpen: boolean;
+    onClose: () => void;
+    commands: PaletteCommand[];  // Groups are shown in the order they first appear
+    theme?: 'light' | 'dark';
+}
+
+// Results per group while searching; an empty query shows every command
+const MAX_RESULTS_PER_GROUP = 8;
+
+interface PaletteResult {
+    command: PaletteCommand;
+    indices: number[];
+}
+
+// indices are code point positions from fuzzyMatch, hence Array.from rather than indexing the string
+function HighlightedLabel({ text, indices }: { text: string; indices: number[] }) {
+    if (indices.length === 0) return <>{text}</>;
+
+    const matched = new Set(indices);
+    return (
+        <>
+            {Array.from(text).map((char, i) => matched.has(i)
+                ? <mark key={i} className={styles.match}>{char}</mark>
+                : char
+            )}
+        </>
+    );
+}
+
+export default function CommandPalette({
+    isOpen,
+    onClose,
+    commands,
+    theme = 'light',
+}: CommandPaletteProps) {
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Start fresh each time the palette opens
+    useEffect(() => {
+        if (isOpen) {
+            setQuery('');
+            setActiveIndex(0);
+            inputRef.current?.focus();
+        }
+    }, [isOpen]);
+
+    const groups = useMemo(() => {
+        const byGroup = new Map<string, (PaletteResult & { score: number })[]>();
+
+        for (const command of commands) {
+            const labelMatch = fuzzyMatch(query, command.label);
+            let score = labelMatch?.score ?? null;
+            if (score === null) {
+                // Keyword hits rank just below label hits and don't highlight anything
+                for (const keyword of command.keywords || []) {
+                    const match = fuzzyMatch(query, keyword);
+                    if (match && (score === null || match.score - 1 > score)) score = match.score - 1;
+                }
+            }
+            if (score === null) continue;
+
+            const results = byGroup.get(command.group) || [];
+            results.push({ command, indices: labelMatch?.indices || [], score });
+            byGroup.set(command.group, results);
+        }
+
+        return Array.from(byGroup, ([name, results]) => ({
+            name,
+            results: query.trim()
+                ? results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS_PER_GROUP)
+                : results,
+        }));
+    }, [commands, query]);
+
+    // Flattened runnable results in display order, for keyboard navigation
+    const runnable = useMemo(() =>
+        groups.flatMap(group => group.results).filter(result => result.command.onSelect && !result.command.disabled),
+        [groups]
+    );
+
+    useEffect(() => {
+        setActiveIndex(0);
+    }, [query]);
+
+    // Keep the active row in view
+    useEffect(() => {
+        const id = runnable[activeIndex]?.command.id;
+        if (!id) return;
+        listRef.current?.querySelector(`[data-command-id="${CSS.escape(id)}"]`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex, runnable]);
+
+    if (!isOpen) return null;
+
+    const run = (command: PaletteCommand) => {
+        if (!command.onSelect || command.disabled) return;
+        onClose();
+        command.onSelect();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            e.stopPropagation();
+            onClose();
+        } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (runnable.length === 0) return;
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex(prev => (prev + step + runnable.length) % runnable.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            const active = runnable[activeIndex];
+            if (active) run(active.command);
+        }
+    };
+
+    const activeId = runnable[activeIndex]?.command.id;
+
+    return (
+        <div
+            className={`${styles.overlay} ${theme === 'dark' ? styles.darkTheme : ''}`}
+            onMouseDown={onClose}
+        >
+            <div
+                className={styles.palette}
+                onMouseDown={(e) => e.stopPropagation()}
+                onKeyDown={handleKeyDown}
+                role="dialog"
+                aria-modal="true"
+                aria-label="Command palette"
+            >
+                <div className={styles.searchRow}>
+                    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+                        <circle cx="11" cy="11" r="7" />
+                        <path d="M21 21L16.65 16.65" />
+                    </svg>
+                    <input
+                        ref={inputRef}
+                        className={styles.input}
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search commands, projects, models and prompts…"
+                        aria-label="Search commands"
+                        spellCheck={false}
+                    />
+                    <kbd className={styles.kbd}>Esc</kbd>
+                </div>
+
+                <div ref={listRef} className={styles.results} role="listbox">
+                    {groups.length === 0 && (
+                        <div className={styles.empty}>No matches for &ldquo;{query}&rdquo;</div>
+                    )}
+                    {groups.map(group => (
+                        <div key={group.name} className={styles.group}>
+                            <div className={styles.groupTitle}>{group.name}</div>
+                            {group.results.map(({ command, indices }) => {
+                                const isReference = !command.onSelect;
+                                return (
+                                    <div
+                                        key={command.id}
+                                        data-command-id={command.id}
+                                        className={[
+                                            styles.item,
+                                            command.id === activeId ? styles.itemActive : '',
+                                            isReference || command.disabled ? styles.itemInert : '',
+                                        ].join(' ')}
+                                        onMouseMove={() => {
+                                            const index = runnable.findIndex(result => result.command.id === command.id);
+                                            if (index !== -1 && index !== activeIndex) setActiveIndex(index);
+                                        }}
+                                        onClick={() => run(command)}
+                                        role="option"
+                                        aria-selected={command.id === activeId}
+                                        aria-disabled={isReference || command.disabled}
+                                    >
+                                        <span className={styles.label}>
+                                            <HighlightedLabel text={command.label} indices={indices} />
+                                        </span>
+                                        {command.hint && <span className={styles.hint}>{command.hint}</span>}
+                                        {command.shortcut && <kbd className={styles.kbd}>{command.shortcut}</kbd>}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ))}
+                </div>
+
+                <div className={styles.footer}>
+                    <span><kbd className={styles.kbd}>↑</kbd><kbd className={styles.kbd}>↓</kbd> navigate</span>
+                    <span><kbd className={styles.kbd}>Enter</kbd> run</span>
+                    <span><kbd className={styles.kbd}>Ctrl+K</kbd> toggle</span>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import styles from './ContextMenu.module.css';
+
+export interface ContextMenuItem {
+    id: string;
+    label: string;
+    shortcut?: string;
+    disabled?: boolean;
+    danger?: boolean;
+    onSelect: () => void;
+}
+
+// A null entry draws a separator between groups
+export type ContextMenuEntry = ContextMenuItem | null;
+
+interface ContextMenuProps {
+    x: number;  // Client coordinates of the right-click
+    y: number;
+    items: ContextMenuEntry[];
+    onClose: () => void;
+    theme?: 'light' | 'dark';
+}
+
+// Keep the menu this far from the window edges
+const EDGE_MARGIN = 8;
+
+export default function ContextMenu({
+    x,
+    y,
+    items,
+    onClose,
+    theme = 'light',
+}: ContextMenuProps) {
+    const menuRef = useRef<HTMLDivElement>(null);
+    const [position, setPosition] = useState({ left: x, top: y });
+
+    // Flip the menu back inside the window when it would overflow
+    useLayoutEffect(() => {
+        const menu = menuRef.current;
+        if (!menu) return;
+
+        const { width, height } = menu.getBoundingClientRect();
+        const left = x + width + EDGE_MARGIN > window.innerWidth ? Math.max(EDGE_MARGIN, x - width) : x;
+        const top = y + height + EDGE_MARGIN > window.innerHeight ? Math.max(EDGE_MARGIN, y - height) : y;
+        setPosition({ left, top });
+
+        menu.querySelector<HTMLButtonElement>('button:not(:disabled)')?.focus();
+    }, [x, y]);
+
+    // Close on outside click, Escape, scroll or window blur
+    useEffect(() => {
+        const handlePointerDown = (e: MouseEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) onClose();
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.stopPropagation();
+                onClose();
+            }
+        };
+
+        document.addEventListener('mousedown', handlePointerDown, true);
+        document.addEventListener('keydown', handleKeyDown, true);
+        window.addEventListener('wheel', onClose, { passive: true });
+        window.addEventListener('blur', onClose);
+        return () => {
+            document.removeEventListener('mousedown', handlePointerDown, true);
+            document.removeEventListener('keydown', handleKeyDown, true);
+            window.removeEventListener('wheel', onClose);
+            window.removeEventListener('blur', onClose);
+        };
+    }, [onClose]);
+
+    // Arrow keys move focus between enabled items
+    const handleMenuKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+        e.preventDefault();
+
+        const buttons = Array.from(menuRef.current?.querySelectorAll<HTMLButtonElement>('button:not(:disabled)') ?? []);
+        if (buttons.length === 0) return;
+
+        const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        buttons[(current + step + buttons.length) % buttons.length].focus();
+    };
+
+    return (
+        <div
+            ref={menuRef}
+            className={`${styles.menu} ${theme === 'dark' ? styles.dark : ''}`}
+            style={{ left: position.left, top: position.top }}
+            role="menu"
+            onKeyDown={handleMenuKeyDown}
+            onMouseDown={(e) => e.stopPropagation()}
+            onContextMenu={(e) => e.preventDefault()}
+        >
+            {items.map((item, index) => item === null ? (
+                <div key={`separator-${index}`} className={styles.separator} role="separator" />
+            ) : (
+                <button
+                    key={item.id}
+                    className={`${styles.item} ${item.danger ? styles.danger : ''}`}
+                    onClick={() => {
+                        onClose();
+                        item.onSelect();
+                    }}
+                    disabled={item.disabled}
+                    role="menuitem"
+                >
+                    <span className={styles.label}>{item.label}</span>
+                    {item.shortcut && <span className={styles.shortcut}>{item.shortcut}</span>}
+                </button>
+            ))}
+        </div>
+    );
+}
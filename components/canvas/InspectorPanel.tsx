@@ -0,0 +1,212 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { diffWords } from '@/lib/utils/textDiff';
+import { formatRelativeTime } from '@/lib/utils/formatTime';
+import styles from './InspectorPanel.module.css';
+
+export interface InspectorReference {
+    previewUrl: string;
+    label: string;             // Where the reference came from, e.g. "YouTube"
+    sourceElementId?: string;  // Element on this canvas the reference was taken from, if still present
+}
+
+export interface InspectorDetails {
+    typeLabel: string;
+    width: number;
+    height: number;
+    naturalWidth: number;
+    naturalHeight: number;
+    createdAt?: string;
+    updatedAt?: string;
+    prompt?: string;
+    systemRefinedPrompt?: string;
+    modelName?: string;
+    style?: string;
+    seed?: number;
+    aspectRatio?: string;
+    resolution?: string;
+    references: InspectorReference[];
+}
+
+interface InspectorPanelProps {
+    details: InspectorDetails | null;  // null when nothing (or more than one element) is selected
+    onClose: () => void;
+    onReferenceClick: (elementId: string) => void;
+    onCopySettings: () => void;
+    theme?: 'light' | 'dark';
+}
+
+type PromptView = 'prompt' | 'refined' | 'diff';
+
+function formatTimestamp(isoString: string) {
+    return (
+        <time dateTime={isoString} title={new Date(isoString).toLocaleString()}>
+            {formatRelativeTime(isoString)}
+        </time>
+    );
+}
+
+export default function InspectorPanel({
+    details,
+    onClose,
+    onReferenceClick,
+    onCopySettings,
+    theme = 'light',
+}: InspectorPanelProps) {
+    const [promptView, setPromptView] = useState<PromptView>('prompt');
+
+    const prompt = details?.prompt ?? '';
+    const refinedPrompt = details?.systemRefinedPrompt ?? '';
+    const hasRefinedPrompt = !!refinedPrompt && refinedPrompt !== prompt;
+    // Only refined prompts have something to show in the other tabs
+    const activeView: PromptView = hasRefinedPrompt ? promptView : 'prompt';
+
+    const diff = useMemo(
+        () => activeView === 'diff' ? diffWords(prompt, refinedPrompt) : [],
+        [activeView, prompt, refinedPrompt]
+    );
+
+    const hasGeneration = !!details && (!!details.prompt || !!details.modelName || details.references.length > 0);
+
+    return (
+        <aside
+            className={`${styles.panel} ${theme === 'dark' ? styles.dark : ''}`}
+            aria-label="Inspector"
+            onMouseDown={(e) => e.stopPropagation()}
+            onWheel={(e) => e.stopPropagation()}
+        >
+            <header className={styles.header}>
+                <span className={styles.title}>Inspector</span>
+                <button className={styles.closeButton} onClick={onClose} aria-label="Close inspector" title="Close (I)">
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                        <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+                    </svg>
+                </button>
+            </header>
+
+            {!details ? (
+                <p className={styles.empty}>Select a single item to see its details.</p>
+            ) : (
+                <div className={styles.body}>
+                    <section className={styles.section}>
+                        <h3 className={styles.sectionTitle}>Details</h3>
+                        <dl className={styles.fields}>
+                            <dt>Type</dt>
+                            <dd>{details.typeLabel}</dd>
+                            <dt>On canvas</dt>
+                            <dd>{Math.round(details.width)} × {Math.round(details.height)}</dd>
+                            <dt>Original</dt>
+                            <dd>{details.naturalWidth} × {details.naturalHeight} px</dd>
+                            {details.createdAt && (
+                                <>
+                                    <dt>Created</dt>
+                                    <dd>{formatTimestamp(details.createdAt)}</dd>
+                                </>
+                            )}
+                            {details.updatedAt && details.updatedAt !== details.createdAt && (
+                                <>
+                                    <dt>Updated</dt>
+                                    <dd>{formatTimestamp(details.updatedAt)}</dd>
+                                </>
+                            )}
+                        </dl>
+                    </section>
+
+                    {hasGeneration && (
+                        <section className={styles.section}>
+                            <h3 className={styles.sectionTitle}>Generation</h3>
+                            <dl className={styles.fields}>
+                                {details.modelName && (
+                                    <>
+                                        <dt>Model</dt>
+                                        <dd>{details.modelName}</dd>
+                                    </>
+                                )}
+                                {details.style && (
+                                    <>
+                                        <dt>Style</dt>
+                                        <dd>{details.style}</dd>
+                                    </>
+                                )}
+                                {details.aspectRatio && (
+                                    <>
+                                        <dt>Ratio</dt>
+                                        <dd>{details.aspectRatio === 'match_input_image' ? 'Match input' : details.aspectRatio}</dd>
+                                    </>
+                                )}
+                                {details.resolution && (
+                                    <>
+                                        <dt>Resolution</dt>
+                                        <dd>{details.resolution}</dd>
+                                    </>
+                                )}
+                                {details.seed !== undefined && (
+                                    <>
+                                        <dt>Seed</dt>
+                                        <dd>{details.seed}</dd>
+                                    </>
+                                )}
+                            </dl>
+
+                            {prompt && (
+                                <div className={styles.prompt}>
+                                    {hasRefinedPrompt && (
+                                        <div className={styles.tabs} role="tablist">
+                                            {([['prompt', 'Prompt'], ['refined', 'Refined'], ['diff', 'Diff']] as const).map(([view, label]) => (
+                                                <button
+                                                    key={view}
+                                                    role="tab"
+                                                    aria-selected={activeView === view}
+                                                    className={`${styles.tab} ${activeView === view ? styles.tabActive : ''}`}
+                                                    onClick={() => setPromptView(view)}
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <p className={styles.promptText}>
+                                        {activeView === 'prompt' && prompt}
+                                        {activeView === 'refined' && refinedPrompt}
+                                        {activeView === 'diff' && diff.map((segment, index) => (
+                                            segment.type === 'insert' ? <ins key={index} className={styles.diffInsert}>{segment.text}</ins>
+                                                : segment.type === 'delete' ? <del key={index} className={styles.diffDelete}>{segment.text}</del>
+                                                    : <span key={index}>{segment.text}</span>
+                                        ))}
+                                    </p>
+                                </div>
+                            )}
+
+                            {details.references.length > 0 && (
+                                <>
+                                    <h4 className={styles.subTitle}>References</h4>
+                                    <ul className={styles.references}>
+                                        {details.references.map((reference, index) => (
+                                            <li key={`${reference.previewUrl}-${index}`}>
+                                                <button
+                                                    className={styles.reference}
+                                                    disabled={!reference.sourceElementId}
+                                                    onClick={() => reference.sourceElementId && onReferenceClick(reference.sourceElementId)}
+                                                    title={reference.sourceElementId ? `${reference.label} - show on canvas` : `${reference.label} - not on this canvas`}
+                                                >
+                                                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                                                    <img src={reference.previewUrl} alt={reference.label} loading="lazy" />
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+
+                            <button className={styles.copyButton} onClick={onCopySettings}>
+                                Copy generation settings
+                            </button>
+                        </section>
+                    )}
+                </div>
+            )}
+        </aside>
+    );
+}
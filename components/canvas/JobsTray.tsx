@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import styles from './JobsTray.module.css';
+
+export interface JobsTrayItem {
+    id: string;
+    label: string;
+    status: 'queued' | 'running' | 'failed' | 'cancelled';
+    progress: number;     // 0-100
+    statusText?: string;  // Latest message from the backend
+    error?: string;
+}
+
+interface JobsTrayProps {
+    jobs: JobsTrayItem[];
+    onCancel: (id: string) => void;
+    onDismiss: (id: string) => void;
+    onClearFinished: () => void;
+    onSelect: (id: string) => void;  // Jump to the job's placeholder
+    theme?: 'light' | 'dark';
+}
+
+const STATUS_LABELS: Record<JobsTrayItem['status'], string> = {
+    queued: 'Queued',
+    running: 'Generating',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+export default function JobsTray({
+    jobs,
+    onCancel,
+    onDismiss,
+    onClearFinished,
+    onSelect,
+    theme = 'light',
+}: JobsTrayProps) {
+    const [isCollapsed, setIsCollapsed] = useState(false);
+
+    if (jobs.length === 0) return null;
+
+    const activeCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+    const hasFinished = activeCount < jobs.length;
+
+    return (
+        <section
+            className={`${styles.tray} ${theme === 'dark' ? styles.dark : ''}`}
+            aria-label="Generation jobs"
+            onMouseDown={(e) => e.stopPropagation()}
+            onWheel={(e) => e.stopPropagation()}
+        >
+            <header className={styles.header}>
+                <button
+                    className={styles.toggle}
+                    onClick={() => setIsCollapsed(prev => !prev)}
+                    aria-expanded={!isCollapsed}
+                >
+                    <span className={styles.title}>Jobs</span>
+                    <span className={styles.count}>
+                        {activeCount > 0 ? `${activeCount} running` : 'All done'}
+                    </span>
+                    <svg
+                        className={`${styles.chevron} ${isCollapsed ? styles.chevronCollapsed : ''}`}
+                        width="14"
+                        height="14"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        aria-hidden="true"
+                    >
+                        <path d="M6 15L12 9L18 15" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                </button>
+                {hasFinished && !isCollapsed && (
+                    <button className={styles.clearButton} onClick={onClearFinished}>
+                        Clear
+                    </button>
+                )}
+            </header>
+
+            {!isCollapsed && (
+                <ul className={styles.list}>
+                    {jobs.map(job => {
+                        const isActive = job.status === 'queued' || job.status === 'running';
+                        return (
+                            <li key={job.id} className={styles.job}>
+                                <button
+                                    className={styles.jobBody}
+                                    onClick={() => onSelect(job.id)}
+                                    disabled={!isActive}
+                                    title={job.label}
+                                >
+                                    <span className={styles.label}>{job.label}</span>
+                                    <span className={`${styles.status} ${styles[job.status]}`}>
+                                        {job.status === 'failed' && job.error
+                                            ? job.error
+                                            : isActive && job.statusText
+                                                ? job.statusText
+                                                : STATUS_LABELS[job.status]}
+                                    </span>
+                                    {isActive && (
+                                        <span className={styles.progressTrack}>
+                                            <span className={styles.progressBar} style={{ width: `${Math.max(job.progress, 2)}%` }} />
+                                        </span>
+                                    )}
+                                </button>
+                                <button
+                                    className={styles.actionButton}
+                                    onClick={() => isActive ? onCancel(job.id) : onDismiss(job.id)}
+                                    aria-label={isActive ? 'Cancel job' : 'Dismiss'}
+                                    title={isActive ? 'Cancel' : 'Dismiss'}
+                                >
+                                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                                        <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+                                    </svg>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </section>
+    );
+}
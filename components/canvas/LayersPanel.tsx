@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import styles from './LayersPanel.module.css';
+
+export interface LayerItem {
+    id: string;
+    label: string;
+    previewUrl?: string;  // Omitted for text layers and placeholders
+    isText: boolean;
+    locked: boolean;
+    hidden: boolean;
+}
+
+interface LayersPanelProps {
+    layers: LayerItem[];  // Top-most first
+    selectedIds: string[];
+    onSelect: (id: string, additive: boolean) => void;
+    onReorder: (id: string, targetIndex: number) => void;  // targetIndex in the top-first list
+    onToggleLock: (id: string) => void;
+    onToggleVisibility: (id: string) => void;
+    theme?: 'light' | 'dark';
+    readOnly?: boolean;
+}
+
+export default function LayersPanel({
+    layers,
+    selectedIds,
+    onSelect,
+    onReorder,
+    onToggleLock,
+    onToggleVisibility,
+    theme = 'light',
+    readOnly = false,
+}: LayersPanelProps) {
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const handleDragOver = (e: React.DragEvent, index: number) => {
+        if (!draggedId) return;
+        e.preventDefault();
+        // Drop above or below the hovered row depending on pointer position
+        const rect = e.currentTarget.getBoundingClientRect();
+        setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        if (draggedId && dropIndex !== null) {
+            const fromIndex = layers.findIndex(layer => layer.id === draggedId);
+            // Removing the dragged row shifts everything below it up by one
+            const targetIndex = dropIndex > fromIndex ? dropIndex - 1 : dropIndex;
+            if (targetIndex !== fromIndex) {
+                onReorder(draggedId, targetIndex);
+            }
+        }
+        setDraggedId(null);
+        setDropIndex(null);
+    };
+
+    return (
+        <section className={`${styles.panel} ${theme === 'dark' ? styles.dark : ''}`}>
+            <button
+                className={styles.header}
+                onClick={() => setIsCollapsed(prev => !prev)}
+                aria-expanded={!isCollapsed}
+            >
+                <span className={styles.title}>Layers</span>
+                <span className={styles.count}>{layers.length}</span>
+                <svg
+                    className={`${styles.chevron} ${isCollapsed ? styles.chevronCollapsed : ''}`}
+                    width="14"
+                    height="14"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    aria-hidden="true"
+                >
+                    <path d="M6 9L12 15L18 9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+            </button>
+
+            {!isCollapsed && (
+                <ul className={styles.list} onDragLeave={() => setDropIndex(null)}>
+                    {layers.length === 0 && (
+                        <li className={styles.empty}>Nothing on the canvas yet</li>
+                    )}
+                    {layers.map((layer, index) => (
+                        <li
+                            key={layer.id}
+                            className={[
+                                styles.row,
+                                selectedIds.includes(layer.id) ? styles.rowSelected : '',
+                                layer.hidden ? styles.rowHidden : '',
+                                draggedId === layer.id ? styles.rowDragging : '',
+                                dropIndex === index ? styles.dropBefore : '',
+                                dropIndex === index + 1 && index === layers.length - 1 ? styles.dropAfter : '',
+                            ].join(' ')}
+                            draggable={!readOnly}
+                            onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move';
+                                setDraggedId(layer.id);
+                            }}
+                            onDragEnd={() => {
+                                setDraggedId(null);
+                                setDropIndex(null);
+                            }}
+                            onDragOver={(e) => handleDragOver(e, index)}
+                            onDrop={handleDrop}
+                            onClick={(e) => onSelect(layer.id, e.shiftKey || e.metaKey || e.ctrlKey)}
+                        >
+                            <span className={styles.preview}>
+                                {layer.isText ? (
+                                    <span className={styles.textGlyph} aria-hidden="true">T</span>
+                                ) : layer.previewUrl ? (
+                                    // eslint-disable-next-line @next/next/no-img-element
+                                    <img src={layer.previewUrl} alt="" loading="lazy" />
+                                ) : null}
+                            </span>
+                            <span className={styles.label} title={layer.label}>{layer.label}</span>
+
+                            <button
+                                className={`${styles.iconButton} ${layer.hidden ? styles.iconButtonActive : ''}`}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onToggleVisibility(layer.id);
+                                }}
+                                disabled={readOnly}
+                                aria-label={layer.hidden ? 'Show layer' : 'Hide layer'}
+                                title={layer.hidden ? 'Show (Ctrl+Shift+H)' : 'Hide (Ctrl+Shift+H)'}
+                            >
+                                {layer.hidden ? (
+                                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                        <path d="M17.94 17.94A10.07 10.07 0 0 1 12 20c-7 0-11-8-11-8a18.45 18.45 0 0 1 5.06-5.94M9.9 4.24A9.12 9.12 0 0 1 12 4c7 0 11 8 11 8a18.5 18.5 0 0 1-2.16 3.19" />
+                                        <line x1="1" y1="1" x2="23" y2="23" />
+                                    </svg>
+                                ) : (
+                                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                        <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+                                        <circle cx="12" cy="12" r="3" />
+                                    </svg>
+                                )}
+                            </button>
+                            <button
+                                className={`${styles.iconButton} ${layer.locked ? styles.iconButtonActive : ''}`}
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onToggleLock(layer.id);
+                                }}
+                                disabled={readOnly}
+                                aria-label={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                                title={layer.locked ? 'Unlock (Ctrl+Shift+L)' : 'Lock (Ctrl+Shift+L)'}
+                            >
+                                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2" />
+                                    <path d={layer.locked ? 'M7 11V7a5 5 0 0 1 10 0v4' : 'M7 11V7a5 5 0 0 1 9.9-1'} />
+                                </svg>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+}
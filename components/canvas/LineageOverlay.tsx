@@ -0,0 +1,83 @@
+'use client';
+
+import { useId } from 'react';
+import styles from './LineageOverlay.module.css';
+
+interface LineageRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface LineageConnector {
+    id: string;
+    from: LineageRect;  // Source element
+    to: LineageRect;    // Element made from it
+    highlighted: boolean;
+}
+
+interface LineageOverlayProps {
+    connectors: LineageConnector[];
+    theme?: 'light' | 'dark';
+}
+
+// Join the facing edges of two rects with a curve that leaves and enters at right angles
+function getConnectorPath(from: LineageRect, to: LineageRect): string {
+    const fromCenter = { x: from.x + from.width / 2, y: from.y + from.height / 2 };
+    const toCenter = { x: to.x + to.width / 2, y: to.y + to.height / 2 };
+    const dx = toCenter.x - fromCenter.x;
+    const dy = toCenter.y - fromCenter.y;
+
+    if (Math.abs(dx) >= Math.abs(dy)) {
+        const direction = Math.sign(dx) || 1;
+        const startX = fromCenter.x + direction * from.width / 2;
+        const endX = toCenter.x - direction * to.width / 2;
+        const bend = Math.max(40, Math.abs(endX - startX) / 2) * direction;
+        return `M ${startX} ${fromCenter.y} C ${startX + bend} ${fromCenter.y}, ${endX - bend} ${toCenter.y}, ${endX} ${toCenter.y}`;
+    }
+
+    const direction = Math.sign(dy) || 1;
+    const startY = fromCenter.y + direction * from.height / 2;
+    const endY = toCenter.y - direction * to.height / 2;
+    const bend = Math.max(40, Math.abs(endY - startY) / 2) * direction;
+    return `M ${fromCenter.x} ${startY} C ${fromCenter.x} ${startY + bend}, ${toCenter.x} ${endY - bend}, ${toCenter.x} ${endY}`;
+}
+
+/**
+ * Connectors from each element to the variants and edits made from it
+ * Rendered inside the canvas workspace, so coordinates are canvas coordinates.
+ */
+export default function LineageOverlay({ connectors, theme = 'light' }: LineageOverlayProps) {
+    const markerId = useId();
+    const highlightMarkerId = `${markerId}-highlight`;
+    const hasHighlight = connectors.some(connector => connector.highlighted);
+
+    if (connectors.length === 0) return null;
+
+    return (
+        <svg className={`${styles.overlay} ${theme === 'dark' ? styles.dark : ''}`} aria-hidden="true">
+            <defs>
+                <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="14" markerHeight="14" markerUnits="userSpaceOnUse" orient="auto">
+                    <path className={styles.arrow} d="M 0 0 L 10 5 L 0 10 z" />
+                </marker>
+                <marker id={highlightMarkerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="14" markerHeight="14" markerUnits="userSpaceOnUse" orient="auto">
+                    <path className={styles.arrowHighlighted} d="M 0 0 L 10 5 L 0 10 z" />
+                </marker>
+            </defs>
+            {connectors.map(connector => (
+                <path
+                    key={connector.id}
+                    className={[
+                        styles.connector,
+                        connector.highlighted ? styles.highlighted : '',
+                        hasHighlight && !connector.highlighted ? styles.dimmed : '',
+                    ].join(' ')}
+                    d={getConnectorPath(connector.from, connector.to)}
+                    markerEnd={`url(#${connector.highlighted ? highlightMarkerId : markerId})`}
+                    vectorEffect="non-scaling-stroke"
+                />
+            ))}
+        </svg>
+    );
+}
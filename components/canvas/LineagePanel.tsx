@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import type { LineageTreeNode } from '@/lib/utils/canvasLineage';
+import styles from './LineagePanel.module.css';
+
+export interface LineageItem {
+    label: string;
+    previewUrl?: string;  // Omitted for text layers and placeholders
+}
+
+interface LineagePanelProps {
+    tree: LineageTreeNode;
+    items: Record<string, LineageItem>;
+    selectedId: string;
+    onSelect: (id: string) => void;
+    theme?: 'light' | 'dark';
+}
+
+function countNodes(node: LineageTreeNode): number {
+    return node.children.reduce((sum, child) => sum + countNodes(child), 1);
+}
+
+export default function LineagePanel({
+    tree,
+    items,
+    selectedId,
+    onSelect,
+    theme = 'light',
+}: LineagePanelProps) {
+    const [isCollapsed, setIsCollapsed] = useState(false);
+
+    const renderNode = (node: LineageTreeNode, depth: number) => {
+        const item = items[node.id];
+        if (!item) return null;
+
+        return (
+            <li key={node.id}>
+                <button
+                    className={`${styles.row} ${node.id === selectedId ? styles.rowSelected : ''}`}
+                    style={{ paddingLeft: 6 + depth * 14 }}
+                    onClick={() => onSelect(node.id)}
+                    aria-current={node.id === selectedId ? 'true' : undefined}
+                >
+                    {depth > 0 && <span className={styles.branch} aria-hidden="true">↳</span>}
+                    <span className={styles.preview}>
+                        {item.previewUrl && (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img src={item.previewUrl} alt="" loading="lazy" />
+                        )}
+                    </span>
+                    <span className={styles.label} title={item.label}>{item.label}</span>
+                </button>
+                {node.children.length > 0 && (
+                    <ul className={styles.children}>
+                        {node.children.map(child => renderNode(child, depth + 1))}
+                    </ul>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <section className={`${styles.panel} ${theme === 'dark' ? styles.dark : ''}`}>
+            <button
+                className={styles.header}
+                onClick={() => setIsCollapsed(prev => !prev)}
+                aria-expanded={!isCollapsed}
+            >
+                <span className={styles.title}>Lineage</span>
+                <span className={styles.count}>{countNodes(tree)}</span>
+                <svg
+                    className={`${styles.chevron} ${isCollapsed ? styles.chevronCollapsed : ''}`}
+                    width="14"
+                    height="14"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    aria-hidden="true"
+                >
+                    <path d="M6 9L12 15L18 9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+            </button>
+
+            {!isCollapsed && (
+                <ul className={styles.tree}>
+                    {renderNode(tree, 0)}
+                </ul>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import styles from './Minimap.module.css';
+
+interface MinimapRect {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface MinimapViewport {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+interface MinimapProps {
+    elements: MinimapRect[];  // Visible elements only - hidden ones stay off the map
+    selectedIds: string[];
+    viewport: MinimapViewport;
+    containerWidth: number;
+    containerHeight: number;
+    onViewportChange: (viewport: MinimapViewport) => void;  // Called continuously while dragging
+    onViewportChangeEnd: () => void;
+    theme?: 'light' | 'dark';
+}
+
+// Map size in screen pixels
+const MAP_WIDTH = 200;
+const MAP_HEIGHT = 130;
+// Empty border around the content, as a fraction of its size
+const MAP_PADDING = 0.1;
+
+const COLLAPSED_STORAGE_KEY = 'stumbnail_minimap_collapsed';
+
+interface Bounds {
+    minX: number;
+    minY: number;
+    width: number;
+    height: number;
+}
+
+export default function Minimap({
+    elements,
+    selectedIds,
+    viewport,
+    containerWidth,
+    containerHeight,
+    onViewportChange,
+    onViewportChangeEnd,
+    theme = 'light',
+}: MinimapProps) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    // While dragging, the map tracks the pointer itself instead of waiting for committed viewport state
+    const [dragViewport, setDragViewport] = useState<MinimapViewport | null>(null);
+    const frozenBoundsRef = useRef<Bounds | null>(null);
+
+    useEffect(() => {
+        setIsCollapsed(localStorage.getItem(COLLAPSED_STORAGE_KEY) === 'true');
+    }, []);
+
+    const toggleCollapsed = () => {
+        setIsCollapsed(prev => {
+            localStorage.setItem(COLLAPSED_STORAGE_KEY, String(!prev));
+            return !prev;
+        });
+    };
+
+    const current = dragViewport ?? viewport;
+
+    // Canvas-space rectangle currently on screen
+    const viewRect = useMemo(() => ({
+        x: -current.x / current.zoom,
+        y: -current.y / current.zoom,
+        width: containerWidth / current.zoom,
+        height: containerHeight / current.zoom,
+    }), [current.x, current.y, current.zoom, containerWidth, containerHeight]);
+
+    // Content plus the on-screen area, so the viewport frame never leaves the map
+    const liveBounds = useMemo((): Bounds => {
+        const rects = [...elements, viewRect];
+        const minX = Math.min(...rects.map(r => r.x));
+        const minY = Math.min(...rects.map(r => r.y));
+        const maxX = Math.max(...rects.map(r => r.x + r.width));
+        const maxY = Math.max(...rects.map(r => r.y + r.height));
+        const padX = (maxX - minX) * MAP_PADDING;
+        const padY = (maxY - minY) * MAP_PADDING;
+        return { minX: minX - padX, minY: minY - padY, width: maxX - minX + padX * 2, height: maxY - minY + padY * 2 };
+    }, [elements, viewRect]);
+
+    // The map scale must not shift under the pointer mid-drag
+    const bounds = frozenBoundsRef.current ?? liveBounds;
+
+    // Pointer position in canvas coordinates
+    const toCanvasPoint = useCallback((clientX: number, clientY: number) => {
+        const svg = svgRef.current;
+        const matrix = svg?.getScreenCTM();
+        if (!svg || !matrix) return null;
+
+        const point = svg.createSVGPoint();
+        point.x = clientX;
+        point.y = clientY;
+        return point.matrixTransform(matrix.inverse());
+    }, []);
+
+    // Viewport that puts a canvas point at the centre of the screen
+    const centeredOn = useCallback((x: number, y: number, zoom: number): MinimapViewport => ({
+        x: containerWidth / 2 - x * zoom,
+        y: containerHeight / 2 - y * zoom,
+        zoom,
+    }), [containerWidth, containerHeight]);
+
+    const handleMouseDown = (e: React.MouseEvent) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+
+        const start = toCanvasPoint(e.clientX, e.clientY);
+        if (!start) return;
+
+        frozenBoundsRef.current = bounds;
+        const zoom = viewport.zoom;
+
+        // Grabbing the frame keeps the grab offset; clicking elsewhere jumps there first
+        const insideFrame = start.x >= viewRect.x && start.x <= viewRect.x + viewRect.width &&
+            start.y >= viewRect.y && start.y <= viewRect.y + viewRect.height;
+        const offset = insideFrame
+            ? { x: start.x - (viewRect.x + viewRect.width / 2), y: start.y - (viewRect.y + viewRect.height / 2) }
+            : { x: 0, y: 0 };
+
+        const moveTo = (clientX: number, clientY: number) => {
+            const point = toCanvasPoint(clientX, clientY);
+            if (!point) return;
+            const next = centeredOn(point.x - offset.x, point.y - offset.y, zoom);
+            setDragViewport(next);
+            onViewportChange(next);
+        };
+
+        if (!insideFrame) moveTo(e.clientX, e.clientY);
+
+        const handleMove = (moveEvent: MouseEvent) => moveTo(moveEvent.clientX, moveEvent.clientY);
+        const handleUp = () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+            frozenBoundsRef.current = null;
+            setDragViewport(null);
+            onViewportChangeEnd();
+        };
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+    };
+
+    if (containerWidth === 0) return null;
+
+    return (
+        <div
+            className={`${styles.minimap} ${theme === 'dark' ? styles.dark : ''} ${isCollapsed ? styles.collapsed : ''}`}
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <button
+                className={styles.toggle}
+                onClick={toggleCollapsed}
+                aria-expanded={!isCollapsed}
+                title={isCollapsed ? 'Show minimap' : 'Hide minimap'}
+            >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+                    <path d="M1 6V22L8 18L16 22L23 18V2L16 6L8 2L1 6Z" />
+                    <path d="M8 2V18M16 6V22" />
+                </svg>
+                {!isCollapsed && <span>Map</span>}
+            </button>
+
+            {!isCollapsed && (
+                <svg
+                    ref={svgRef}
+                    className={styles.map}
+                    width={MAP_WIDTH}
+                    height={MAP_HEIGHT}
+                    viewBox={`${bounds.minX} ${bounds.minY} ${bounds.width} ${bounds.height}`}
+                    preserveAspectRatio="xMidYMid meet"
+                    onMouseDown={handleMouseDown}
+                    role="img"
+                    aria-label="Canvas overview - drag to pan"
+                >
+                    {elements.map(el => (
+                        <rect
+                            key={el.id}
+                            className={selectedIds.includes(el.id) ? styles.elementSelected : styles.element}
+                            x={el.x}
+                            y={el.y}
+                            width={el.width}
+                            height={el.height}
+                        />
+                    ))}
+                    <rect
+                        className={styles.viewport}
+                        x={viewRect.x}
+                        y={viewRect.y}
+                        width={viewRect.width}
+                        height={viewRect.height}
+                        vectorEffect="non-scaling-stroke"
+                    />
+                </svg>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { TextLayerStyle } from '@/lib/services/thumbnailService';
+import {
+    TEXT_LAYER_FONTS,
+    TEXT_LAYER_FONT_SIZE_RANGE,
+    TEXT_LAYER_STROKE_WIDTH_MAX,
+    TEXT_LAYER_SHADOW_BLUR_MAX,
+    DEFAULT_TEXT_LAYER_STYLE,
+} from '@/lib/constants';
+import styles from './TextLayerPanel.module.css';
+
+interface TextLayerPanelProps {
+    textLayer: TextLayerStyle;
+    onChange: (changes: Partial<TextLayerStyle>) => void;
+    theme?: 'light' | 'dark';
+    autoFocus?: boolean;
+    readOnly?: boolean;
+}
+
+export default function TextLayerPanel({
+    textLayer,
+    onChange,
+    theme = 'light',
+    autoFocus = false,
+    readOnly = false,
+}: TextLayerPanelProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    useEffect(() => {
+        if (autoFocus && textareaRef.current) {
+            textareaRef.current.focus();
+            textareaRef.current.select();
+        }
+    }, [autoFocus]);
+
+    const hasShadow = textLayer.shadowBlur > 0 || textLayer.shadowOffsetX !== 0 || textLayer.shadowOffsetY !== 0;
+    const isBold = textLayer.fontWeight >= 700;
+
+    const handleFontSizeChange = (value: string) => {
+        const size = Number(value);
+        if (!Number.isFinite(size)) return;
+        const { min, max } = TEXT_LAYER_FONT_SIZE_RANGE;
+        onChange({ fontSize: Math.min(max, Math.max(min, Math.round(size))) });
+    };
+
+    const handleShadowToggle = () => {
+        if (hasShadow) {
+            onChange({ shadowBlur: 0, shadowOffsetX: 0, shadowOffsetY: 0 });
+        } else {
+            onChange({
+                shadowBlur: DEFAULT_TEXT_LAYER_STYLE.shadowBlur,
+                shadowOffsetX: DEFAULT_TEXT_LAYER_STYLE.shadowOffsetX,
+                shadowOffsetY: DEFAULT_TEXT_LAYER_STYLE.shadowOffsetY,
+            });
+        }
+    };
+
+    return (
+        <div className={`${styles.panel} ${theme === 'dark' ? styles.dark : ''}`}>
+            <textarea
+                ref={textareaRef}
+                className={styles.textInput}
+                value={textLayer.text}
+                onChange={(e) => onChange({ text: e.target.value })}
+                placeholder="Type your text"
+                rows={2}
+                readOnly={readOnly}
+                aria-label="Text content"
+            />
+
+            <div className={styles.row}>
+                <select
+                    className={styles.select}
+                    value={textLayer.fontFamily}
+                    onChange={(e) => onChange({ fontFamily: e.target.value })}
+                    disabled={readOnly}
+                    aria-label="Font"
+                >
+                    {TEXT_LAYER_FONTS.map(font => (
+                        <option key={font.id} value={font.id}>{font.label}</option>
+                    ))}
+                </select>
+
+                <input
+                    type="number"
+                    className={styles.numberInput}
+                    value={textLayer.fontSize}
+                    min={TEXT_LAYER_FONT_SIZE_RANGE.min}
+                    max={TEXT_LAYER_FONT_SIZE_RANGE.max}
+                    onChange={(e) => handleFontSizeChange(e.target.value)}
+                    disabled={readOnly}
+                    aria-label="Font size"
+                />
+
+                <button
+                    className={`${styles.toggleButton} ${isBold ? styles.toggleButtonActive : ''}`}
+                    onClick={() => onChange({ fontWeight: isBold ? 400 : 700 })}
+                    disabled={readOnly}
+                    aria-label="Bold"
+                    aria-pressed={isBold}
+                >
+                    <span className={styles.boldGlyph} aria-hidden="true">B</span>
+                </button>
+
+                <label className={styles.colorField} title="Text color">
+                    <input
+                        type="color"
+                        value={textLayer.color}
+                        onChange={(e) => onChange({ color: e.target.value })}
+                        disabled={readOnly}
+                        aria-label="Text color"
+                    />
+                </label>
+            </div>
+
+            <div className={styles.row}>
+                <span className={styles.label}>Stroke</span>
+                <label className={styles.colorField} title="Stroke color">
+                    <input
+                        type="color"
+                        value={textLayer.strokeColor}
+                        onChange={(e) => onChange({ strokeColor: e.target.value })}
+                        disabled={readOnly}
+                        aria-label="Stroke color"
+                    />
+                </label>
+                <input
+                    type="range"
+                    className={styles.range}
+                    min={0}
+                    max={TEXT_LAYER_STROKE_WIDTH_MAX}
+                    value={textLayer.strokeWidth}
+                    onChange={(e) => onChange({ strokeWidth: Number(e.target.value) })}
+                    disabled={readOnly}
+                    aria-label="Stroke width"
+                />
+                <span className={styles.value}>{textLayer.strokeWidth}px</span>
+            </div>
+
+            <div className={styles.row}>
+                <button
+                    className={`${styles.toggleButton} ${styles.toggleButtonWide} ${hasShadow ? styles.toggleButtonActive : ''}`}
+                    onClick={handleShadowToggle}
+                    disabled={readOnly}
+                    aria-pressed={hasShadow}
+                >
+                    Shadow
+                </button>
+                {hasShadow && (
+                    <>
+                        <label className={styles.colorField} title="Shadow color">
+                            <input
+                                type="color"
+                                value={textLayer.shadowColor}
+                                onChange={(e) => onChange({ shadowColor: e.target.value })}
+                                disabled={readOnly}
+                                aria-label="Shadow color"
+                            />
+                        </label>
+                        <input
+                            type="range"
+                            className={styles.range}
+                            min={0}
+                            max={TEXT_LAYER_SHADOW_BLUR_MAX}
+                            value={textLayer.shadowBlur}
+                            onChange={(e) => onChange({ shadowBlur: Number(e.target.value) })}
+                            disabled={readOnly}
+                            aria-label="Shadow blur"
+                        />
+                    </>
+                )}
+            </div>
+
+            <div className={styles.row}>
+                <span className={styles.label}>Rotate</span>
+                <input
+                    type="range"
+                    className={styles.range}
+                    min={-180}
+                    max={180}
+                    value={textLayer.rotation}
+                    onChange={(e) => onChange({ rotation: Number(e.target.value) })}
+                    onDoubleClick={() => onChange({ rotation: 0 })}
+                    disabled={readOnly}
+                    aria-label="Rotation"
+                />
+                <span className={styles.value}>{textLayer.rotation}°</span>
+            </div>
+        </div>
+    );
+}
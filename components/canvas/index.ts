@@ -0,0 +1,10 @@
+export { default as TextLayerPanel } from './TextLayerPanel';
+export { default as LayersPanel, type LayerItem } from './LayersPanel';
+export { default as ArrangeToolbar } from './ArrangeToolbar';
+export { default as ContextMenu, type ContextMenuEntry } from './ContextMenu';
+export { default as CommandPalette, type PaletteCommand } from './CommandPalette';
+export { default as Minimap } from './Minimap';
+export { default as InspectorPanel, type InspectorDetails } from './InspectorPanel';
+export { default as LineageOverlay, type LineageConnector } from './LineageOverlay';
+export { default as LineagePanel, type LineageItem } from './LineagePanel';
+export { default as JobsTray, type JobsTrayItem } from './JobsTray';
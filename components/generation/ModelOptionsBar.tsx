@@ -2,6 +2,7 @@
 
 import { useCallback, useState, useRef, useEffect } from 'react';
 import { Model } from '@/types';
+import { MAX_SEED } from '@/lib/utils/generationRequest';
 import styles from './ModelOptionsBar.module.css';
 
 interface ModelOptionsBarProps {
@@ -10,10 +11,12 @@ interface ModelOptionsBarProps {
     resolution?: string;
     size?: string;
     megapixels?: string;
+    seed?: number | null;  // null = a new random seed for every image
     onAspectRatioChange: (value: string) => void;
     onResolutionChange?: (value: string) => void;
     onSizeChange?: (value: string) => void;
     onMegapixelsChange?: (value: string) => void;
+    onSeedChange?: (value: number | null) => void;
     theme?: 'light' | 'dark';
     compact?: boolean;
     showMatchInput?: boolean;
@@ -25,15 +28,18 @@ export default function ModelOptionsBar({
     resolution,
     size,
     megapixels,
+    seed = null,
     onAspectRatioChange,
     onResolutionChange,
     onSizeChange,
     onMegapixelsChange,
+    onSeedChange,
     theme = 'light',
     compact = false,
     showMatchInput = true,
 }: ModelOptionsBarProps) {
     const [openDropdown, setOpenDropdown] = useState<string | null>(null);
+    const [seedDraft, setSeedDraft] = useState('');
     const containerRef = useRef<HTMLDivElement>(null);
 
     // Close dropdown when clicking outside
@@ -51,6 +57,19 @@ export default function ModelOptionsBar({
         setOpenDropdown(prev => prev === name ? null : name);
     }, []);
 
+    const openSeedDropdown = useCallback(() => {
+        setSeedDraft(seed === null ? '' : String(seed));
+        toggleDropdown('seed');
+    }, [seed, toggleDropdown]);
+
+    // An empty or invalid draft unlocks the seed
+    const applySeedDraft = useCallback(() => {
+        const value = Number(seedDraft.trim());
+        const isValid = seedDraft.trim() !== '' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+        onSeedChange?.(isValid ? value : null);
+        setOpenDropdown(null);
+    }, [seedDraft, onSeedChange]);
+
     const handleSelect = useCallback((name: string, value: string) => {
         switch (name) {
             case 'aspectRatio':
@@ -65,9 +84,12 @@ export default function ModelOptionsBar({
             case 'megapixels':
                 onMegapixelsChange?.(value);
                 break;
+            case 'seed':
+                onSeedChange?.(value === '' ? null : Number(value));
+                break;
         }
         setOpenDropdown(null);
-    }, [onAspectRatioChange, onResolutionChange, onSizeChange, onMegapixelsChange]);
+    }, [onAspectRatioChange, onResolutionChange, onSizeChange, onMegapixelsChange, onSeedChange]);
 
     if (!model?.options) return null;
 
@@ -196,6 +218,52 @@ export default function ModelOptionsBar({
                     )}
                 </div>
             )}
+
+            {/* Seed - all models */}
+            {onSeedChange && (
+                <div className={styles.optionGroup}>
+                    <button
+                        className={`${styles.optionPill} ${openDropdown === 'seed' ? styles.active : ''}`}
+                        onClick={openSeedDropdown}
+                        title={seed === null ? 'Every image gets a new random seed' : 'Seed locked - same settings give the same composition'}
+                    >
+                        <span className={styles.optionLabel}>Seed</span>
+                        <span className={styles.optionValue}>{seed === null ? 'Random' : seed}</span>
+                        <svg className={styles.chevron} width="12" height="12" viewBox="0 0 12 12" fill="none">
+                            <path d="M3 4.5L6 7.5L9 4.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+                        </svg>
+                    </button>
+                    {openDropdown === 'seed' && (
+                        <div className={`${styles.dropdown} ${styles.seedDropdown}`}>
+                            <input
+                                className={styles.seedInput}
+                                type="number"
+                                inputMode="numeric"
+                                min={0}
+                                max={MAX_SEED}
+                                step={1}
+                                placeholder="Random"
+                                value={seedDraft}
+                                onChange={(e) => setSeedDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') applySeedDraft();
+                                }}
+                                aria-label="Seed"
+                                autoFocus
+                            />
+                            <button className={styles.dropdownItem} onClick={applySeedDraft}>
+                                Lock seed
+                            </button>
+                            <button
+                                className={`${styles.dropdownItem} ${seed === null ? styles.selected : ''}`}
+                                onClick={() => handleSelect('seed', '')}
+                            >
+                                Random each time
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,348 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  EXPORT_FRAMES,
+  DEFAULT_EXPORT_FORMAT,
+  DEFAULT_EXPORT_QUALITY,
+  EXPORT_QUALITY_RANGE,
+  YOUTUBE_THUMBNAIL_PRESET,
+  getExportFormat,
+  type ExportFormat,
+} from '@/lib/constants';
+import {
+  renderRegion,
+  fitRegionToAspect,
+  getLayersInRegion,
+  canvasToBlob,
+  encodeCanvasWithinBudget,
+  downloadBlob,
+  type CompositeLayer,
+  type ExportRegion,
+} from '@/lib/utils/exportImage';
+import { getYouTubeByteBudget } from '@/lib/utils/exportBudget';
+import styles from './ExportModal.module.css';
+
+const PREVIEW_MAX_SIZE = 320;
+const BYTES_PER_MB = 1024 * 1024;
+const MAX_BUDGET_MB = YOUTUBE_THUMBNAIL_PRESET.maxBytes / BYTES_PER_MB;
+// Rounded up to the input's 0.1 MB step
+const MIN_BUDGET_MB = Math.ceil(YOUTUBE_THUMBNAIL_PRESET.minBytes / BYTES_PER_MB * 10) / 10;
+
+type ExportPreset = 'custom' | 'youtube';
+
+export interface ExportResult {
+  preset: ExportPreset;
+  format: ExportFormat;
+  width: number;
+  height: number;
+  size: number;           // Bytes
+  withinBudget?: boolean; // YouTube preset only
+}
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  layers: CompositeLayer[];    // Every element on the canvas, bottom to top
+  region: ExportRegion | null; // Area to export (usually the selection bounds)
+  fileName: string;            // Without extension
+  onExported?: (result: ExportResult) => void;
+  onDownloadOriginals?: () => void;
+  theme?: 'light' | 'dark';
+}
+
+export default function ExportModal({
+  isOpen,
+  onClose,
+  layers,
+  region,
+  fileName,
+  onExported,
+  onDownloadOriginals,
+  theme = 'light'
+}: ExportModalProps) {
+  const [preset, setPreset] = useState<ExportPreset>('custom');
+  const [budgetMb, setBudgetMb] = useState(MAX_BUDGET_MB);
+  const [frameId, setFrameId] = useState(EXPORT_FRAMES[0].id);
+  const [fit, setFit] = useState<'contain' | 'cover'>('contain');
+  const [format, setFormat] = useState<ExportFormat>(DEFAULT_EXPORT_FORMAT);
+  const [quality, setQuality] = useState(DEFAULT_EXPORT_QUALITY);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Images are fetched once per open and shared by the preview and the final render
+  const imageCacheRef = useRef(new Map<string, Promise<ImageBitmap>>());
+
+  const isYouTube = preset === 'youtube';
+  const frame = isYouTube
+    ? { width: YOUTUBE_THUMBNAIL_PRESET.width, height: YOUTUBE_THUMBNAIL_PRESET.height }
+    : EXPORT_FRAMES.find(f => f.id === frameId) || EXPORT_FRAMES[0];
+  const formatOption = getExportFormat(format);
+  const availableFormats = isYouTube
+    ? EXPORT_FORMATS.filter(option => YOUTUBE_THUMBNAIL_PRESET.formats.includes(option.id))
+    : EXPORT_FORMATS;
+  const exportRegion = region ? fitRegionToAspect(region, frame.width / frame.height, fit) : null;
+  const layerCount = exportRegion ? getLayersInRegion(layers, exportRegion).length : 0;
+  // JPEG has no alpha channel - fill transparent areas with white instead of black
+  const background = format === 'jpeg' ? '#ffffff' : undefined;
+
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+      setError(null);
+    } else {
+      document.body.style.overflow = '';
+      imageCacheRef.current.clear();
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen, onClose]);
+
+  // Re-render the preview when the framing changes
+  useEffect(() => {
+    if (!isOpen || !exportRegion) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    const scale = PREVIEW_MAX_SIZE / Math.max(frame.width, frame.height);
+
+    const timer = setTimeout(async () => {
+      try {
+        const canvas = await renderRegion(layers, exportRegion, frame.width * scale, frame.height * scale, {
+          background,
+          imageCache: imageCacheRef.current,
+        });
+        const blob = await canvasToBlob(canvas, 'image/png');
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setPreviewUrl(objectUrl);
+        setError(null);
+      } catch (err) {
+        console.error('Export preview failed:', err);
+        if (!cancelled) {
+          setError('Some images could not be loaded for the preview.');
+        }
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+    // exportRegion is derived from region/frame/fit
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, layers, region, frame.width, frame.height, fit, background]);
+
+  if (!isOpen) return null;
+
+  const handlePresetChange = (next: ExportPreset) => {
+    setPreset(next);
+    // YouTube only accepts lossy formats for budgeted output
+    if (next === 'youtube' && !YOUTUBE_THUMBNAIL_PRESET.formats.includes(format)) {
+      setFormat(YOUTUBE_THUMBNAIL_PRESET.formats[0]);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!exportRegion) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const canvas = await renderRegion(layers, exportRegion, frame.width, frame.height, {
+        background,
+        imageCache: imageCacheRef.current,
+      });
+      if (isYouTube) {
+        const result = await encodeCanvasWithinBudget(canvas, formatOption.mimeType, getYouTubeByteBudget(budgetMb * BYTES_PER_MB));
+        downloadBlob(result.output, `${fileName}.${formatOption.extension}`);
+        onExported?.({
+          preset,
+          format,
+          width: result.width,
+          height: result.height,
+          size: result.size,
+          withinBudget: result.withinBudget,
+        });
+      } else {
+        const blob = await canvasToBlob(canvas, formatOption.mimeType, formatOption.lossy ? quality : undefined);
+        downloadBlob(blob, `${fileName}.${formatOption.extension}`);
+        onExported?.({ preset, format, width: canvas.width, height: canvas.height, size: blob.size });
+      }
+      onClose();
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={`${styles.overlay} ${theme === 'dark' ? styles.darkTheme : ''}`} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <button
+          className={styles.closeButton}
+          onClick={onClose}
+          aria-label="Close modal"
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+        </button>
+
+        <h2 className={styles.title}>Export image</h2>
+        <p className={styles.description}>
+          Flattens {layerCount} {layerCount === 1 ? 'layer' : 'layers'} into a single {frame.width}×{frame.height} image.
+        </p>
+
+        <div
+          className={styles.preview}
+          style={{ aspectRatio: `${frame.width} / ${frame.height}` }}
+        >
+          {previewUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={previewUrl} alt="Export preview" className={styles.previewImage} />
+          )}
+        </div>
+
+        <div className={styles.fields}>
+          <div className={styles.field}>
+            <span className={styles.label}>Preset</span>
+            <div className={styles.segmented}>
+              <button
+                className={`${styles.segment} ${!isYouTube ? styles.segmentActive : ''}`}
+                onClick={() => handlePresetChange('custom')}
+              >
+                Custom
+              </button>
+              <button
+                className={`${styles.segment} ${isYouTube ? styles.segmentActive : ''}`}
+                onClick={() => handlePresetChange('youtube')}
+                title="1280×720, compressed to fit YouTube's upload limit"
+              >
+                YouTube
+              </button>
+            </div>
+          </div>
+
+          {!isYouTube && (
+            <label className={styles.field}>
+              <span className={styles.label}>Frame</span>
+              <select className={styles.select} value={frameId} onChange={(e) => setFrameId(e.target.value)}>
+                {EXPORT_FRAMES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <div className={styles.field}>
+            <span className={styles.label}>Fit</span>
+            <div className={styles.segmented}>
+              <button
+                className={`${styles.segment} ${fit === 'contain' ? styles.segmentActive : ''}`}
+                onClick={() => setFit('contain')}
+                title="Keep everything in frame"
+              >
+                Fit
+              </button>
+              <button
+                className={`${styles.segment} ${fit === 'cover' ? styles.segmentActive : ''}`}
+                onClick={() => setFit('cover')}
+                title="Crop to fill the frame"
+              >
+                Fill
+              </button>
+            </div>
+          </div>
+
+          <label className={styles.field}>
+            <span className={styles.label}>Format</span>
+            <select className={styles.select} value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+              {availableFormats.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {isYouTube ? (
+            <label className={styles.field}>
+              <span className={styles.label}>Max size</span>
+              <input
+                type="number"
+                className={styles.numberInput}
+                min={MIN_BUDGET_MB}
+                max={MAX_BUDGET_MB}
+                step={0.1}
+                value={budgetMb}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  // YouTube rejects anything larger; much smaller can't be reached at a usable quality
+                  if (Number.isFinite(value) && value >= MIN_BUDGET_MB) setBudgetMb(Math.min(value, MAX_BUDGET_MB));
+                }}
+              />
+              <span className={styles.value}>MB</span>
+            </label>
+          ) : formatOption.lossy && (
+            <label className={styles.field}>
+              <span className={styles.label}>Quality</span>
+              <input
+                type="range"
+                className={styles.range}
+                min={EXPORT_QUALITY_RANGE.min}
+                max={EXPORT_QUALITY_RANGE.max}
+                step={0.01}
+                value={quality}
+                onChange={(e) => setQuality(Number(e.target.value))}
+              />
+              <span className={styles.value}>{Math.round(quality * 100)}%</span>
+            </label>
+          )}
+        </div>
+
+        {error && <p className={styles.error}>{error}</p>}
+
+        <div className={styles.buttonGroup}>
+          {onDownloadOriginals && (
+            <button
+              className={styles.cancelButton}
+              onClick={() => {
+                onClose();
+                onDownloadOriginals();
+              }}
+            >
+              Download originals
+            </button>
+          )}
+          <button
+            className={styles.confirmButton}
+            onClick={handleExport}
+            disabled={isExporting || !exportRegion || layerCount === 0}
+          >
+            {isExporting ? 'Exporting...' : `Download ${formatOption.label}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import Image from 'next/image';
+import { useRouter } from 'next/navigation';
 import { User } from 'firebase/auth';
 import { Theme, UserData } from '@/types';
 import { getUserPlan } from '@/lib/services/userService';
@@ -18,6 +19,7 @@ interface ProfileModalProps {
 }
 
 export default function ProfileModal({ open, onClose, user, userData, theme, onUpgradeClick }: ProfileModalProps) {
+    const router = useRouter();
     const isDark = theme === 'dark';
     const [isLoadingPortal, setIsLoadingPortal] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -38,6 +40,11 @@ export default function ProfileModal({ open, onClose, user, userData, theme, onU
         }
     };
 
+    const handleOpenBilling = () => {
+        router.push('/billing');
+        onClose();
+    };
+
     if (!open) return null;
 
     return (
@@ -142,27 +149,21 @@ export default function ProfileModal({ open, onClose, user, userData, theme, onU
                         <>
                             <button
                                 className={styles.manageButton}
-                                onClick={handleManageSubscription}
+                                onClick={handleOpenBilling}
                                 disabled={isLoadingPortal}
                             >
-                                {isLoadingPortal ? (
-                                    <span className={styles.spinner} />
-                                ) : (
-                                    <>
-                                        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                            <rect width="20" height="14" x="2" y="5" rx="2" />
-                                            <path d="M2 10h20" />
-                                        </svg>
-                                        Manage Subscription
-                                    </>
-                                )}
+                                <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                    <rect width="20" height="14" x="2" y="5" rx="2" />
+                                    <path d="M2 10h20" />
+                                </svg>
+                                Manage Subscription
                             </button>
                             <button
                                 className={styles.cancelButton}
                                 onClick={handleManageSubscription}
                                 disabled={isLoadingPortal}
                             >
-                                Cancel subscription
+                                {isLoadingPortal ? 'Opening portal...' : 'Cancel subscription'}
                             </button>
                         </>
                     ) : (
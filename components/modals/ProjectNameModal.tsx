@@ -13,7 +13,7 @@ interface ProjectNameModalProps {
   initialName?: string;
   initialIsPublic?: boolean;
   theme?: 'light' | 'dark';
-  isPaidUser?: boolean;
+  canMakePrivate?: boolean; // From the plan's entitlements
   onUpgradeClick?: () => void;
 }
 
@@ -25,7 +25,7 @@ export default function ProjectNameModal({
   initialName = 'untitled',
   initialIsPublic = true,
   theme = 'light',
-  isPaidUser = true,
+  canMakePrivate = true,
   onUpgradeClick
 }: ProjectNameModalProps) {
   const [projectName, setProjectName] = useState(initialName);
@@ -115,8 +115,8 @@ export default function ProjectNameModal({
           <button
             className={`${styles.toggle} ${isPublic ? styles.toggleActive : ''}`}
             onClick={() => {
-              // If user is trying to make private (turning off public) and is not paid
-              if (isPublic && !isPaidUser) {
+              // Making the project private needs a plan that includes private projects
+              if (isPublic && !canMakePrivate) {
                 onUpgradeClick?.();
                 return;
               }
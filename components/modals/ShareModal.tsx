@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { AnimatedBorder } from '@/components/ui';
+import type { PlanEntitlements } from '@/lib/utils/entitlements';
 import styles from './ShareModal.module.css';
 
 interface ShareModalProps {
@@ -12,6 +13,8 @@ interface ShareModalProps {
   privacy: 'public' | 'private';
   onMakePublic?: () => Promise<void>;
   theme?: 'light' | 'dark';
+  entitlements?: PlanEntitlements;
+  onUpgradeClick?: () => void;
 }
 
 export default function ShareModal({
@@ -21,7 +24,9 @@ export default function ShareModal({
   projectName,
   privacy,
   onMakePublic,
-  theme = 'light'
+  theme = 'light',
+  entitlements,
+  onUpgradeClick
 }: ShareModalProps) {
   const [copied, setCopied] = useState(false);
   const [isUpdatingPrivacy, setIsUpdatingPrivacy] = useState(false);
@@ -172,6 +177,25 @@ export default function ShareModal({
                 </svg>
                 <span>View-only mode (viewers cannot edit)</span>
               </div>
+              {entitlements && !entitlements.privateProjects && (
+                <div className={styles.tip}>
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <rect width="18" height="11" x="3" y="11" rx="2" ry="2" />
+                    <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+                  </svg>
+                  <span>
+                    Projects on the Free plan are always public.
+                    {onUpgradeClick && (
+                      <>
+                        {' '}
+                        <button className={styles.tipAction} onClick={onUpgradeClick}>
+                          Upgrade to keep them private
+                        </button>
+                      </>
+                    )}
+                  </span>
+                </div>
+              )}
             </div>
           </>
         )}
@@ -2,8 +2,17 @@
 
 import { useState, useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
-import { Theme } from '@/types';
-import { redirectToCheckout, PlanType } from '@/lib/services/subscriptionService';
+import { Theme, PlanType } from '@/types';
+import { redirectToCheckout, type CheckoutProduct } from '@/lib/services/subscriptionService';
+import { SUBSCRIPTION_PLANS, type SubscriptionPlanId } from '@/lib/constants';
+import { PLAN_ENTITLEMENTS, type PlanEntitlements } from '@/lib/utils/entitlements';
+import {
+    validatePromoCode,
+    getSavedPromoCode,
+    savePromoCode,
+    clearSavedPromoCode,
+    isPromoCodeError
+} from '@/lib/utils/promoCode';
 import styles from './PricingModal.module.css';
 import { trackPricingModalOpen, trackPricingModalPlanClick } from '@/lib/analytics';
 import {
@@ -120,23 +129,29 @@ function LoadingSpinner() {
     );
 }
 
-const paidFeatures = [
-    { icon: MergeIcon, text: "Smart Merge: combine assets with AI" },
-    { icon: WandIcon, text: "Prompt-based generation" },
-    { icon: YouTubeIcon, text: "Clone any YouTube thumbnail" },
-    { icon: ImageIcon, text: "Upload custom assets" },
-    { icon: LayersIcon, text: "Access to all AI models" },
-    { icon: LockIcon, text: "Keep thumbnails private" },
-];
-
-const freeFeatures = [
-    { icon: MergeIcon, text: "Smart Merge: combine assets with AI" },
-    { icon: WandIcon, text: "Prompt-based generation" },
-    { icon: YouTubeIcon, text: "Clone any YouTube thumbnail" },
-    { icon: ImageIcon, text: "Upload custom assets" },
-    { icon: LayersIcon, text: "Standard AI models" },
-    { icon: GlobeIcon, text: "Thumbnails are public", isLimitation: true },
-];
+interface PlanFeature {
+    icon: typeof SparklesIcon;
+    text: string;
+    isLimitation?: boolean;
+}
+
+// Feature list for a plan card, from what the plan includes
+function getPlanFeatures(entitlements: PlanEntitlements): PlanFeature[] {
+    return [
+        { icon: MergeIcon, text: "Smart Merge: combine assets with AI" },
+        { icon: WandIcon, text: "Prompt-based generation" },
+        { icon: YouTubeIcon, text: "Clone any YouTube thumbnail" },
+        { icon: ImageIcon, text: "Upload custom assets" },
+        entitlements.proModels
+            ? { icon: LayersIcon, text: "Access to all AI models" }
+            : { icon: LayersIcon, text: "Standard AI models" },
+        entitlements.privateProjects
+            ? { icon: LockIcon, text: "Keep thumbnails private" }
+            : { icon: GlobeIcon, text: "Thumbnails are public", isLimitation: true },
+    ];
+}
+
+const freeFeatures = getPlanFeatures(PLAN_ENTITLEMENTS.free);
 
 interface PricingModalProps {
     open: boolean;
@@ -144,7 +159,7 @@ interface PricingModalProps {
     theme: Theme;
     userEmail?: string;
     source?: 'sidebar' | 'credits' | 'generate' | 'exhausted';
-    currentPlan?: 'free' | 'creator' | 'automation';
+    currentPlan?: PlanType;
 }
 
 export default function PricingModal({
@@ -156,10 +171,13 @@ export default function PricingModal({
     currentPlan = 'free'
 }: PricingModalProps) {
     const isDark = theme === 'dark';
-    const [loadingPlan, setLoadingPlan] = useState<PlanType | null>(null);
+    const [loadingPlan, setLoadingPlan] = useState<CheckoutProduct | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [selectedPlan, setSelectedPlan] = useState<'creator' | 'automation'>('creator');
+    const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlanId>('creator');
     const [showPaywallReason, setShowPaywallReason] = useState(false);
+    const [promoOpen, setPromoOpen] = useState(false);
+    const [promoCode, setPromoCode] = useState('');
+    const [promoError, setPromoError] = useState<string | null>(null);
     const hasCheckedPaywallReason = useRef(false);
     const didStartCheckout = useRef(false);
 
@@ -170,6 +188,13 @@ export default function PricingModal({
             trackPaywallViewed(source, currentPlan);
             // Reset checkout flag when modal opens
             didStartCheckout.current = false;
+            // Prefill a code from a promo link
+            const savedCode = getSavedPromoCode();
+            if (savedCode) {
+                setPromoCode(savedCode);
+                setPromoOpen(true);
+                setPromoError(null);
+            }
         }
     }, [open, source, currentPlan]);
 
@@ -213,12 +238,29 @@ export default function PricingModal({
         onClose();
     };
 
-    const handleGetPlan = async (plan: PlanType) => {
+    // Validate and remember the code so it's still there if checkout is cancelled
+    const commitPromoCode = (): string | null | false => {
+        const code = promoCode.trim();
+        if (!code) {
+            clearSavedPromoCode();
+            return null;
+        }
+        const validationError = validatePromoCode(code);
+        setPromoError(validationError);
+        if (validationError) return false;
+        savePromoCode(code);
+        return code;
+    };
+
+    const handleGetPlan = async (plan: CheckoutProduct) => {
         if (!userEmail) {
             setError('Please sign in to purchase a subscription');
             return;
         }
 
+        const couponId = commitPromoCode();
+        if (couponId === false) return;
+
         // Track plan click
         trackPricingModalPlanClick(plan, currentPlan);
         trackUpgradeClicked(source, currentPlan, plan);
@@ -230,11 +272,18 @@ export default function PricingModal({
         setError(null);
 
         try {
-            await redirectToCheckout(plan, userEmail);
+            await redirectToCheckout(plan, userEmail, couponId ?? undefined);
             // User will be redirected to Stripe checkout
         } catch (err) {
             console.error('Checkout error:', err);
-            setError(err instanceof Error ? err.message : 'Failed to start checkout');
+            const message = err instanceof Error ? err.message : 'Failed to start checkout';
+            // Show coupon rejections next to the code rather than as a checkout failure
+            if (couponId && isPromoCodeError(message)) {
+                setPromoError(message);
+                clearSavedPromoCode();
+            } else {
+                setError(message);
+            }
             setLoadingPlan(null);
             // Reset checkout flag on error
             didStartCheckout.current = false;
@@ -368,12 +417,12 @@ export default function PricingModal({
                                 <div className={styles.priceSection}>
                                     <div className={styles.priceRow}>
                                         <span className={styles.price}>
-                                            {selectedPlan === 'creator' ? '$12.99' : '$39'}
+                                            {SUBSCRIPTION_PLANS[selectedPlan].price}
                                         </span>
                                         <span className={styles.period}>/mo</span>
                                     </div>
                                     <p className={styles.creditsPaid}>
-                                        {selectedPlan === 'creator' ? '1,430 credits' : '4,500 credits'}
+                                        {SUBSCRIPTION_PLANS[selectedPlan].monthlyCredits.toLocaleString()} credits
                                     </p>
                                 </div>
 
@@ -381,7 +430,7 @@ export default function PricingModal({
 
                                 {/* Features */}
                                 <ul className={styles.featuresList}>
-                                    {paidFeatures.map((feature, i) => (
+                                    {getPlanFeatures(PLAN_ENTITLEMENTS[selectedPlan]).map((feature, i) => (
                                         <li key={i} className={styles.featureItem}>
                                             <feature.icon className={styles.featureIconPaid} />
                                             <span>{feature.text}</span>
@@ -396,9 +445,47 @@ export default function PricingModal({
                                 >
                                     {loadingPlan === selectedPlan
                                         ? <LoadingSpinner />
-                                        : `Get ${selectedPlan === 'creator' ? 'Creator' : 'Automation'}`
+                                        : `Get ${SUBSCRIPTION_PLANS[selectedPlan].name}`
                                     }
                                 </button>
+
+                                {/* Promo Code */}
+                                <div className={styles.promo}>
+                                    {promoOpen ? (
+                                        <>
+                                            <input
+                                                type="text"
+                                                className={`${styles.promoInput} ${promoError ? styles.promoInputError : ''}`}
+                                                value={promoCode}
+                                                onChange={(e) => {
+                                                    setPromoCode(e.target.value);
+                                                    setPromoError(null);
+                                                }}
+                                                onBlur={() => commitPromoCode()}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') handleGetPlan(selectedPlan);
+                                                }}
+                                                placeholder="Promo code"
+                                                aria-label="Promo code"
+                                                aria-invalid={!!promoError}
+                                                autoComplete="off"
+                                                spellCheck={false}
+                                                autoFocus={!promoCode}
+                                                disabled={loadingPlan !== null}
+                                            />
+                                            {promoError && (
+                                                <p className={styles.promoError} role="alert">{promoError}</p>
+                                            )}
+                                        </>
+                                    ) : (
+                                        <button
+                                            className={styles.promoToggle}
+                                            onClick={() => setPromoOpen(true)}
+                                        >
+                                            Have a promo code?
+                                        </button>
+                                    )}
+                                </div>
                             </div>
                         </div>
                     </div>
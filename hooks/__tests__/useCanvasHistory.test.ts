@@ -0,0 +1,195 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from '@testing-library/react';
+import { useCanvasHistory, type HistoryCommand } from '@/hooks/useCanvasHistory';
+
+// Expired entries are swept on this interval
+const EXPIRY_CHECK_INTERVAL = 15000;
+
+function command(label: string, overrides: Partial<HistoryCommand> = {}) {
+    return {
+        label,
+        undo: jest.fn(),
+        redo: jest.fn(),
+        dispose: jest.fn(),
+        ...overrides,
+    };
+}
+
+function renderHistory(options?: Parameters<typeof useCanvasHistory>[0]) {
+    return renderHook(() => useCanvasHistory(options));
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+describe('useCanvasHistory', () => {
+    it('undoes and redoes in order', () => {
+        const { result } = renderHistory();
+        const move = command('Move');
+        const resize = command('Resize');
+
+        act(() => {
+            result.current.push(move);
+            result.current.push(resize);
+        });
+        expect(result.current.canUndo).toBe(true);
+        expect(result.current.canRedo).toBe(false);
+
+        let label: string | null = null;
+        act(() => { label = result.current.undo(); });
+        expect(label).toBe('Resize');
+        expect(resize.undo).toHaveBeenCalledTimes(1);
+        expect(result.current.canRedo).toBe(true);
+
+        act(() => { label = result.current.redo(); });
+        expect(label).toBe('Resize');
+        expect(resize.redo).toHaveBeenCalledTimes(1);
+        expect(move.undo).not.toHaveBeenCalled();
+    });
+
+    it('returns null with nothing to undo or redo', () => {
+        const { result } = renderHistory();
+        expect(result.current.undo()).toBeNull();
+        expect(result.current.redo()).toBeNull();
+    });
+
+    it('merges same-key commands pushed within the merge window', () => {
+        const { result } = renderHistory({ mergeWindow: 1000 });
+        const first = command('Nudge', { mergeKey: 'nudge' });
+        const second = command('Nudge', { mergeKey: 'nudge' });
+
+        act(() => result.current.push(first));
+        jest.advanceTimersByTime(500);
+        act(() => result.current.push(second));
+
+        // One undo reverts the whole burst from its start
+        act(() => { result.current.undo(); });
+        expect(first.undo).toHaveBeenCalledTimes(1);
+        expect(second.undo).not.toHaveBeenCalled();
+        expect(result.current.canUndo).toBe(false);
+
+        // Redo re-applies the end state
+        act(() => { result.current.redo(); });
+        expect(second.redo).toHaveBeenCalledTimes(1);
+
+        // Both halves are disposed with the merged entry
+        act(() => result.current.clear());
+        expect(first.dispose).toHaveBeenCalledTimes(1);
+        expect(second.dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([
+        ['after the merge window', { mergeKey: 'nudge' }, 1500],
+        ['with a different key', { mergeKey: 'resize' }, 100],
+        ['without a key', {}, 100],
+    ])('keeps commands apart %s', (_case, overrides, delay) => {
+        const { result } = renderHistory({ mergeWindow: 1000 });
+        act(() => result.current.push(command('Nudge', { mergeKey: 'nudge' })));
+        jest.advanceTimersByTime(delay);
+        act(() => result.current.push(command('Next', overrides)));
+
+        act(() => { result.current.undo(); });
+        expect(result.current.canUndo).toBe(true);
+    });
+
+    it('does not merge into an entry that was undone and redone', () => {
+        const { result } = renderHistory({ mergeWindow: 1000 });
+        act(() => result.current.push(command('Nudge', { mergeKey: 'nudge' })));
+        act(() => { result.current.undo(); });
+        act(() => { result.current.redo(); });
+        act(() => result.current.push(command('Nudge', { mergeKey: 'nudge' })));
+
+        act(() => { result.current.undo(); });
+        expect(result.current.canUndo).toBe(true);
+    });
+
+    it('disposes the redo branch when a new command is pushed', () => {
+        const { result } = renderHistory();
+        const undone = command('Delete');
+
+        act(() => result.current.push(undone));
+        act(() => { result.current.undo(); });
+        act(() => result.current.push(command('Move')));
+
+        expect(undone.dispose).toHaveBeenCalledTimes(1);
+        expect(result.current.canRedo).toBe(false);
+    });
+
+    it('disposes the oldest entries beyond maxEntries', () => {
+        const { result } = renderHistory({ maxEntries: 2 });
+        const commands = [command('One'), command('Two'), command('Three')];
+
+        act(() => commands.forEach(c => result.current.push(c)));
+
+        expect(commands[0].dispose).toHaveBeenCalledTimes(1);
+        expect(commands[1].dispose).not.toHaveBeenCalled();
+    });
+
+    it('expires entries older than the TTL from both stacks', () => {
+        const ttl = 60000;
+        const { result } = renderHistory({ ttl });
+        const undoable = command('Move');
+        const redoable = command('Delete');
+
+        act(() => {
+            result.current.push(undoable);
+            result.current.push(redoable);
+        });
+        act(() => { result.current.undo(); });
+
+        act(() => { jest.advanceTimersByTime(ttl); });
+        expect(undoable.dispose).not.toHaveBeenCalled();
+
+        act(() => { jest.advanceTimersByTime(EXPIRY_CHECK_INTERVAL); });
+        expect(undoable.dispose).toHaveBeenCalledTimes(1);
+        expect(redoable.dispose).toHaveBeenCalledTimes(1);
+        expect(result.current.canUndo).toBe(false);
+        expect(result.current.canRedo).toBe(false);
+    });
+
+    it('keeps entries younger than the TTL', () => {
+        const { result } = renderHistory({ ttl: 60000 });
+        act(() => result.current.push(command('Move')));
+        act(() => { jest.advanceTimersByTime(EXPIRY_CHECK_INTERVAL * 2); });
+        expect(result.current.canUndo).toBe(true);
+    });
+
+    it('disposes everything once when the page is hidden', () => {
+        const { result, unmount } = renderHistory();
+        const deleted = command('Delete');
+
+        act(() => result.current.push(deleted));
+        window.dispatchEvent(new Event('pagehide'));
+        unmount();
+
+        expect(deleted.dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('disposes everything on unmount', () => {
+        const { result, unmount } = renderHistory();
+        const deleted = command('Delete');
+
+        act(() => result.current.push(deleted));
+        unmount();
+
+        expect(deleted.dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps going when a dispose throws', () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const { result } = renderHistory();
+        const failing = command('Broken', { dispose: () => { throw new Error('boom'); } });
+        const next = command('Delete');
+
+        act(() => {
+            result.current.push(failing);
+            result.current.push(next);
+        });
+        act(() => result.current.clear());
+
+        expect(next.dispose).toHaveBeenCalledTimes(1);
+        jest.mocked(console.error).mockRestore();
+    });
+});
@@ -10,4 +10,17 @@ export { useProjectsFirestore } from './useProjectsFirestore';
 export { useThumbnailsFirestore } from './useThumbnailsFirestore';
 export { useDebouncedFirestoreUpdate, useDebouncedBatchUpdate } from './useDebouncedFirestoreUpdate';
 export { useCachedFirestoreData, clearCache, clearAllFirestoreCaches } from './useCachedFirestoreData';
+export { useCanvasHistory } from './useCanvasHistory';
+export type { HistoryCommand } from './useCanvasHistory';
 
+export { useCanvasViewport, getViewportTransform } from './useCanvasViewport';
+export type { CanvasViewport, CanvasViewportUpdate } from './useCanvasViewport';
+
+export { useGenerationJobs } from './useGenerationJobs';
+export type { GenerationJob, GenerationJobStatus, GenerationJobPlaceholder } from './useGenerationJobs';
+
+export { useCreditLedger } from './useCreditLedger';
+export type { CreditLedgerState } from './useCreditLedger';
+
+export { useSubscriptionStatus } from './useSubscriptionStatus';
+export type { SubscriptionStatusState } from './useSubscriptionStatus';
@@ -0,0 +1,207 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * A reversible canvas operation.
+ * `undo`/`redo` must be idempotent with respect to the state they restore,
+ * since they may be replayed any number of times.
+ */
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Called exactly once when the entry leaves the history for good
+   * (expired, evicted, discarded from the redo stack, or on unmount).
+   * Used to commit side effects that were deferred so they could be undone,
+   * such as backend deletes.
+   */
+  dispose?: () => void;
+  /**
+   * Consecutive commands with the same key pushed within the merge window
+   * collapse into a single entry (e.g. repeated arrow-key nudges).
+   */
+  mergeKey?: string;
+}
+
+interface HistoryEntry {
+  command: HistoryCommand;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface UseCanvasHistoryOptions {
+  /** Maximum number of undo entries kept (default: 100) */
+  maxEntries?: number;
+  /** Time in ms after which an entry expires and can no longer be undone (default: 10 minutes) */
+  ttl?: number;
+  /** Window in ms during which commands with the same mergeKey are merged (default: 1000ms) */
+  mergeWindow?: number;
+}
+
+const EXPIRY_CHECK_INTERVAL = 15000;
+
+/**
+ * Command-based undo/redo history for the canvas.
+ *
+ * Commands are applied by the caller before being pushed; the history only
+ * stores how to reverse and re-apply them. Entries are disposed when they
+ * expire so deferred work (like deleting a thumbnail on the backend) can be
+ * held back until the user can no longer undo it.
+ *
+ * @example
+ * const history = useCanvasHistory();
+ *
+ * moveElements(after);
+ * history.push({
+ *   label: 'Move',
+ *   undo: () => moveElements(before),
+ *   redo: () => moveElements(after),
+ * });
+ *
+ * history.undo(); // restores `before`
+ */
+export function useCanvasHistory({
+  maxEntries = 100,
+  ttl = 10 * 60 * 1000,
+  mergeWindow = 1000,
+}: UseCanvasHistoryOptions = {}) {
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const syncFlags = useCallback(() => {
+    setCanUndo(undoStackRef.current.length > 0);
+    setCanRedo(redoStackRef.current.length > 0);
+  }, []);
+
+  const disposeEntries = useCallback((entries: HistoryEntry[]) => {
+    entries.forEach(({ command }) => {
+      try {
+        command.dispose?.();
+      } catch (error) {
+        console.error(`[History] Failed to dispose "${command.label}":`, error);
+      }
+    });
+  }, []);
+
+  const push = useCallback(
+    (command: HistoryCommand) => {
+      const now = Date.now();
+      const undoStack = undoStackRef.current;
+
+      // Any new action invalidates the redo branch
+      disposeEntries(redoStackRef.current);
+      redoStackRef.current = [];
+
+      const top = undoStack[undoStack.length - 1];
+      if (
+        top &&
+        command.mergeKey &&
+        top.command.mergeKey === command.mergeKey &&
+        now - top.updatedAt < mergeWindow
+      ) {
+        // Keep the original undo so one Ctrl+Z reverts the whole burst
+        const previous = top.command;
+        top.command = {
+          ...command,
+          undo: previous.undo,
+          dispose: () => {
+            previous.dispose?.();
+            command.dispose?.();
+          },
+        };
+        top.updatedAt = now;
+      } else {
+        undoStack.push({ command, createdAt: now, updatedAt: now });
+      }
+
+      if (undoStack.length > maxEntries) {
+        disposeEntries(undoStack.splice(0, undoStack.length - maxEntries));
+      }
+
+      syncFlags();
+    },
+    [disposeEntries, maxEntries, mergeWindow, syncFlags]
+  );
+
+  /**
+   * Undo the most recent command
+   * @returns The label of the undone command, or null if there was nothing to undo
+   */
+  const undo = useCallback((): string | null => {
+    const entry = undoStackRef.current.pop();
+    if (!entry) return null;
+
+    entry.command.undo();
+    // Prevent the next push from merging into an entry that was just undone
+    entry.command = { ...entry.command, mergeKey: undefined };
+    redoStackRef.current.push(entry);
+    syncFlags();
+    return entry.command.label;
+  }, [syncFlags]);
+
+  /**
+   * Re-apply the most recently undone command
+   * @returns The label of the redone command, or null if there was nothing to redo
+   */
+  const redo = useCallback((): string | null => {
+    const entry = redoStackRef.current.pop();
+    if (!entry) return null;
+
+    entry.command.redo();
+    undoStackRef.current.push(entry);
+    syncFlags();
+    return entry.command.label;
+  }, [syncFlags]);
+
+  /**
+   * Drop all entries, committing any deferred side effects
+   */
+  const clear = useCallback(() => {
+    disposeEntries([...undoStackRef.current, ...redoStackRef.current]);
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncFlags();
+  }, [disposeEntries, syncFlags]);
+
+  // Expire old entries periodically
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const cutoff = Date.now() - ttl;
+      const isExpired = (entry: HistoryEntry) => entry.createdAt < cutoff;
+
+      const expired = [
+        ...undoStackRef.current.filter(isExpired),
+        ...redoStackRef.current.filter(isExpired),
+      ];
+      if (expired.length === 0) return;
+
+      undoStackRef.current = undoStackRef.current.filter(entry => !isExpired(entry));
+      redoStackRef.current = redoStackRef.current.filter(entry => !isExpired(entry));
+      disposeEntries(expired);
+      syncFlags();
+    }, EXPIRY_CHECK_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [ttl, disposeEntries, syncFlags]);
+
+  // Commit deferred work when the page is hidden for good or the canvas unmounts
+  useEffect(() => {
+    const disposeAll = () => {
+      disposeEntries([...undoStackRef.current, ...redoStackRef.current]);
+      undoStackRef.current = [];
+      redoStackRef.current = [];
+    };
+
+    window.addEventListener('pagehide', disposeAll);
+    return () => {
+      window.removeEventListener('pagehide', disposeAll);
+      disposeAll();
+    };
+  }, [disposeEntries]);
+
+  return { push, undo, redo, clear, canUndo, canRedo };
+}
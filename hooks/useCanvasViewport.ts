@@ -0,0 +1,104 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+
+export interface CanvasViewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export type CanvasViewportUpdate = CanvasViewport | ((prev: CanvasViewport) => CanvasViewport);
+
+interface UseCanvasViewportOptions {
+  /** Minimum time in ms between React state commits during a continuous gesture (default: 150ms) */
+  commitInterval?: number;
+}
+
+/**
+ * CSS transform that places the canvas workspace for a viewport
+ */
+export function getViewportTransform({ x, y, zoom }: CanvasViewport): string {
+  return `translate(${x}px, ${y}px) scale(${zoom})`;
+}
+
+const resolveUpdate = (update: CanvasViewportUpdate, prev: CanvasViewport) =>
+  typeof update === 'function' ? update(prev) : update;
+
+/**
+ * Pan/zoom state for the infinite canvas that stays smooth during gestures.
+ *
+ * `setViewportLive` writes the transform straight to the workspace element and
+ * commits to React state at most once per `commitInterval`, so panning and
+ * wheel-zooming don't re-render the whole canvas on every event. `viewportRef`
+ * always holds the live value while `viewport` is the last committed one.
+ *
+ * Use `setViewport` for discrete jumps (buttons, shortcuts) and call
+ * `commitViewport` when a gesture ends so the final position renders at once.
+ *
+ * @example
+ * const workspaceRef = useRef<HTMLDivElement>(null);
+ * const { viewport, setViewportLive, commitViewport } = useCanvasViewport(workspaceRef);
+ *
+ * onMouseMove: setViewportLive(prev => ({ ...prev, x: prev.x + dx }));
+ * onMouseUp:   commitViewport();
+ */
+export function useCanvasViewport(
+  workspaceRef: RefObject<HTMLElement | null>,
+  initial: CanvasViewport = { x: 0, y: 0, zoom: 1 },
+  { commitInterval = 150 }: UseCanvasViewportOptions = {}
+) {
+  const [viewport, setViewportState] = useState<CanvasViewport>(initial);
+  const viewportRef = useRef<CanvasViewport>(initial);
+  const commitTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const applyTransform = useCallback((next: CanvasViewport) => {
+    if (workspaceRef.current) {
+      workspaceRef.current.style.transform = getViewportTransform(next);
+    }
+  }, [workspaceRef]);
+
+  const commitViewport = useCallback(() => {
+    if (commitTimerRef.current) {
+      clearTimeout(commitTimerRef.current);
+      commitTimerRef.current = null;
+    }
+    setViewportState(viewportRef.current);
+  }, []);
+
+  const setViewport = useCallback((update: CanvasViewportUpdate) => {
+    viewportRef.current = resolveUpdate(update, viewportRef.current);
+    applyTransform(viewportRef.current);
+    commitViewport();
+  }, [applyTransform, commitViewport]);
+
+  const setViewportLive = useCallback((update: CanvasViewportUpdate) => {
+    viewportRef.current = resolveUpdate(update, viewportRef.current);
+    applyTransform(viewportRef.current);
+
+    // The first update of a burst schedules the commit; later ones ride along
+    if (!commitTimerRef.current) {
+      commitTimerRef.current = setTimeout(() => {
+        commitTimerRef.current = null;
+        setViewportState(viewportRef.current);
+      }, commitInterval);
+    }
+  }, [applyTransform, commitInterval]);
+
+  // A re-render mid-gesture renders the last committed transform - put the live one back before paint
+  useLayoutEffect(() => {
+    applyTransform(viewportRef.current);
+  });
+
+  useEffect(() => () => {
+    if (commitTimerRef.current) clearTimeout(commitTimerRef.current);
+  }, []);
+
+  return {
+    viewport,
+    viewportRef,
+    setViewport,
+    setViewportLive,
+    commitViewport,
+  };
+}
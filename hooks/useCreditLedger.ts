@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import type { BillingHistoryEntry, CreditTransaction } from '@/types';
+import { subscribeToCreditTransactions, subscribeToBillingHistory, LEDGER_PAGE_SIZE } from '@/lib/services/userService';
+import { buildLedger, getLedgerCutoff, type LedgerEntry } from '@/lib/utils/creditLedger';
+
+/**
+ * Credit ledger state
+ */
+export interface CreditLedgerState {
+  entries: LedgerEntry[];
+  loading: boolean;
+  /** Older activity exists that hasn't been loaded */
+  hasMore: boolean;
+  /** Entries go back to this ISO timestamp when `hasMore`; null when the ledger is complete */
+  completeSince: string | null;
+  loadingMore: boolean;
+  /** Load the next page of older activity */
+  loadMore: () => void;
+}
+
+interface LoadedPage<T> {
+  items: T[];
+  hasMore: boolean;
+  pageLimit: number;
+}
+
+/**
+ * Custom hook for the user's credit ledger: spend from the transactions
+ * subcollection and subscriptions, renewals and top-ups from billingHistory
+ * SECURITY: Only reads the authenticated user's own subcollections
+ *
+ * Loads the most recent LEDGER_PAGE_SIZE documents of each; `loadMore` raises
+ * the limit. While older activity is missing, entries stop at `completeSince`
+ * so totals built from them aren't skewed by one list reaching further back.
+ *
+ * @param user - The authenticated Firebase user (from useAuth)
+ * @returns Ledger entries, newest first
+ *
+ * @example
+ * const { user } = useAuth();
+ * const { entries, loading, hasMore, loadMore } = useCreditLedger(user);
+ */
+export function useCreditLedger(user: User | null): CreditLedgerState {
+  const [transactions, setTransactions] = useState<LoadedPage<CreditTransaction> | null>(null);
+  const [billingHistory, setBillingHistory] = useState<LoadedPage<BillingHistoryEntry> | null>(null);
+  const [pageLimit, setPageLimit] = useState(LEDGER_PAGE_SIZE);
+  // SECURITY: uid comes from Firebase Auth, not user input
+  const uid = user?.uid;
+
+  // Start from the first page for each user
+  useEffect(() => {
+    setPageLimit(LEDGER_PAGE_SIZE);
+    setTransactions(null);
+    setBillingHistory(null);
+  }, [uid]);
+
+  useEffect(() => {
+    // No user, nothing to load
+    if (!uid) {
+      setTransactions({ items: [], hasMore: false, pageLimit });
+      setBillingHistory({ items: [], hasMore: false, pageLimit });
+      return;
+    }
+
+    let cancelled = false;
+    const unsubscribes: (() => void)[] = [];
+
+    const initSubscriptions = async () => {
+      const subscriptions = await Promise.all([
+        subscribeToCreditTransactions(
+          uid,
+          (items, hasMore) => setTransactions({ items, hasMore, pageLimit }),
+          pageLimit
+        ),
+        subscribeToBillingHistory(
+          uid,
+          (items, hasMore) => setBillingHistory({ items, hasMore, pageLimit }),
+          pageLimit
+        ),
+      ]);
+      // Unmounted while subscribing
+      if (cancelled) {
+        subscriptions.forEach(unsubscribe => unsubscribe());
+        return;
+      }
+      unsubscribes.push(...subscriptions);
+    };
+
+    initSubscriptions();
+
+    // Cleanup subscriptions on unmount or user change
+    return () => {
+      cancelled = true;
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+  }, [uid, pageLimit]);
+
+  const hasMore = !!transactions?.hasMore || !!billingHistory?.hasMore;
+
+  const completeSince = useMemo(() => getLedgerCutoff([
+    { entries: transactions?.items ?? [], hasMore: !!transactions?.hasMore },
+    { entries: billingHistory?.items ?? [], hasMore: !!billingHistory?.hasMore },
+  ]), [transactions, billingHistory]);
+
+  const entries = useMemo(
+    () => buildLedger(transactions?.items ?? [], billingHistory?.items ?? [], completeSince),
+    [transactions, billingHistory, completeSince]
+  );
+
+  const loadMore = useCallback(() => {
+    setPageLimit(prev => prev + LEDGER_PAGE_SIZE);
+  }, []);
+
+  return {
+    entries,
+    loading: transactions === null || billingHistory === null,
+    hasMore,
+    completeSince,
+    // Both lists keep showing their previous page until the larger one arrives
+    loadingMore: !!transactions && !!billingHistory &&
+      (transactions.pageLimit < pageLimit || billingHistory.pageLimit < pageLimit),
+    loadMore,
+  };
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { cancelJob, type JobKind } from '@/lib/services/thumbnailService';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'failed' | 'cancelled';
+
+/** Where a job's placeholder sits on the canvas, so it can be put back after a reload */
+export interface GenerationJobPlaceholder {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+export interface GenerationJob {
+  /** Id of the canvas placeholder the result will replace */
+  id: string;
+  /** Backend job id, set once the job has been started */
+  jobId?: string;
+  kind: JobKind;
+  label: string;
+  status: GenerationJobStatus;
+  progress: number;
+  statusText?: string;
+  error?: string;
+  prompt?: string;
+  placeholder?: GenerationJobPlaceholder;
+  /** Restored from storage after a reload; nothing in this session is polling it yet */
+  resumed?: boolean;
+  createdAt: number;
+  /** When the backend job was started */
+  startedAt?: number;
+  /** Timeout the job was run with, so a resumed job keeps the same deadline */
+  timeout?: number;
+}
+
+const STORAGE_KEY_PREFIX = 'stumbnail_generation_jobs_';
+
+const isActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+function readStoredJobs(projectId: string): GenerationJob[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + projectId);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((job): job is GenerationJob =>
+        !!job && typeof job.id === 'string' && typeof job.jobId === 'string' && !!job.placeholder
+      )
+      .map(job => ({ ...job, resumed: true }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Generation jobs for a project, shown in the jobs tray.
+ *
+ * Jobs that have been started on the backend are persisted per project, so a
+ * reload or navigating away doesn't orphan them: on the next mount they come
+ * back flagged `resumed` for the canvas to pick up polling again. Finished
+ * jobs are removed by the caller; failed and cancelled ones stay listed until
+ * dismissed.
+ *
+ * @example
+ * const { jobs, addJob, markJobStarted, getJobSignal, removeJob } = useGenerationJobs(projectId);
+ *
+ * addJob({ id: placeholderId, kind: 'generation', label: prompt });
+ * const { jobId } = await startGenerationJob(request);
+ * if (!markJobStarted(placeholderId, jobId, placeholder)) return; // cancelled meanwhile
+ * const result = await runJob('generation', jobId, { signal: getJobSignal(placeholderId) });
+ */
+export function useGenerationJobs(projectId: string | undefined, { enabled = true }: { enabled?: boolean } = {}) {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  // Storage is only written once it has been read for the current project
+  const [loadedProjectId, setLoadedProjectId] = useState<string | null>(null);
+
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  // Read synchronously by running jobs between polls
+  const cancelledIdsRef = useRef(new Set<string>());
+  // Signals handed to whoever follows each job, aborted on cancel
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    if (!projectId || !enabled) return;
+    setJobs(readStoredJobs(projectId));
+    setLoadedProjectId(projectId);
+  }, [projectId, enabled]);
+
+  useEffect(() => {
+    if (!projectId || loadedProjectId !== projectId) return;
+
+    const key = STORAGE_KEY_PREFIX + projectId;
+    const persisted = jobs
+      .filter(job => isActive(job) && job.jobId && job.placeholder)
+      .map(({ resumed: _resumed, ...job }) => job);
+
+    try {
+      if (persisted.length > 0) {
+        localStorage.setItem(key, JSON.stringify(persisted));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch (error) {
+      console.error('Failed to persist generation jobs:', error);
+    }
+  }, [jobs, projectId, loadedProjectId]);
+
+  const updateJob = useCallback((id: string, changes: Partial<GenerationJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+  }, []);
+
+  const addJob = useCallback((job: Pick<GenerationJob, 'id' | 'kind' | 'label' | 'prompt'>) => {
+    cancelledIdsRef.current.delete(job.id);
+    abortControllersRef.current.delete(job.id);
+    setJobs(prev => [
+      ...prev.filter(existing => existing.id !== job.id),
+      { ...job, status: 'queued', progress: 0, createdAt: Date.now() },
+    ]);
+  }, []);
+
+  /**
+   * Record the backend job id once the job has started, with the timeout it
+   * will be run with.
+   * Returns false if the job was cancelled while it was starting - the
+   * backend job is cancelled too and the caller should stop.
+   */
+  const markJobStarted = useCallback((id: string, jobId: string, placeholder?: GenerationJobPlaceholder, timeout?: number) => {
+    if (cancelledIdsRef.current.has(id)) {
+      cancelJob(jobId).catch(error => console.error('Error cancelling job:', error));
+      return false;
+    }
+    updateJob(id, { jobId, placeholder, status: 'running', startedAt: Date.now(), timeout });
+    return true;
+  }, [updateJob]);
+
+  const failJob = useCallback((id: string, error: string) => {
+    setJobs(prev => prev.map(job =>
+      job.id === id && isActive(job) ? { ...job, status: 'failed', error, resumed: false } : job
+    ));
+  }, []);
+
+  const removeJob = useCallback((id: string) => {
+    abortControllersRef.current.delete(id);
+    setJobs(prev => prev.filter(job => job.id !== id));
+  }, []);
+
+  /** Signal to pass to `runJob`, aborted when the job is cancelled from the tray */
+  const getJobSignal = useCallback((id: string) => {
+    let controller = abortControllersRef.current.get(id);
+    if (!controller) {
+      controller = new AbortController();
+      abortControllersRef.current.set(id, controller);
+    }
+    return controller.signal;
+  }, []);
+
+  const cancelGenerationJob = useCallback((id: string) => {
+    const job = jobsRef.current.find(existing => existing.id === id);
+    if (!job || !isActive(job)) return;
+
+    cancelledIdsRef.current.add(id);
+    updateJob(id, { status: 'cancelled', statusText: undefined });
+
+    // A job being followed is cancelled on the backend by its runner, one still starting in markJobStarted
+    const controller = abortControllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else if (job.jobId) {
+      cancelJob(job.jobId).catch(error => console.error('Error cancelling job:', error));
+    }
+  }, [updateJob]);
+
+  const isJobCancelled = useCallback((id: string) => cancelledIdsRef.current.has(id), []);
+
+  const clearFinishedJobs = useCallback(() => {
+    setJobs(prev => prev.filter(isActive));
+  }, []);
+
+  return {
+    jobs,
+    addJob,
+    markJobStarted,
+    updateJob,
+    failJob,
+    removeJob,
+    getJobSignal,
+    cancelGenerationJob,
+    isJobCancelled,
+    clearFinishedJobs,
+  };
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import { getSubscriptionStatus, type SubscriptionStatus } from '@/lib/services/subscriptionService';
+
+/**
+ * Subscription status state
+ */
+export interface SubscriptionStatusState {
+  status: SubscriptionStatus | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<SubscriptionStatus | null>;
+}
+
+/**
+ * Custom hook for the signed-in user's Stripe subscription status
+ * Fetched from the backend on mount and whenever refresh() is called
+ *
+ * @param user - The authenticated Firebase user (from useAuth)
+ * @returns Subscription status with loading and error handling
+ *
+ * @example
+ * const { user } = useAuth();
+ * const { status, loading, error, refresh } = useSubscriptionStatus(user);
+ */
+export function useSubscriptionStatus(user: User | null): SubscriptionStatusState {
+  const [status, setStatus] = useState<SubscriptionStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getSubscriptionStatus();
+      setStatus(result);
+      return result;
+    } catch (err) {
+      console.error('Error fetching subscription status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load subscription');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const uid = user?.uid;
+  useEffect(() => {
+    // No user, nothing to fetch
+    if (!uid) {
+      setStatus(null);
+      setLoading(false);
+      return;
+    }
+    refresh();
+  }, [uid, refresh]);
+
+  return { status, loading, error, refresh };
+}
@@ -0,0 +1,17 @@
+const nextJest = require('next/jest');
+
+// Loads next.config.js and .env files and compiles TypeScript with SWC, like the app build
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+const config = {
+  // Unit tests cover plain modules; hook and storage tests opt into jsdom with a docblock
+  testEnvironment: 'node',
+  // Helpers such as the stand-in API server live next to the tests
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+};
+
+module.exports = createJestConfig(config);
@@ -0,0 +1,161 @@
+import { startStandInServer, openEventStream, sendEvent, sendJson, type StandInServer } from './standInServer';
+
+jest.mock('@/lib/firebase', () => ({
+    getFirebaseAuth: async () => ({
+        currentUser: { getIdToken: async () => 'test-token' },
+    }),
+}));
+
+let server: StandInServer;
+let apiEventStream: typeof import('@/lib/api').apiEventStream;
+let apiGet: typeof import('@/lib/api').apiGet;
+let apiDelete: typeof import('@/lib/api').apiDelete;
+
+beforeAll(async () => {
+    server = await startStandInServer();
+    // API_BASE_URL is read when the module loads
+    process.env.NEXT_PUBLIC_API_URL = server.url;
+    ({ apiEventStream, apiGet, apiDelete } = await import('@/lib/api'));
+});
+
+afterEach(() => server.reset());
+
+afterAll(() => server.close());
+
+describe('apiEventStream', () => {
+    it('passes each event to onMessage and sends the auth token', async () => {
+        let authorization: string | undefined;
+        server.route('/events', (req, res) => {
+            authorization = req.headers.authorization;
+            openEventStream(res);
+            sendEvent(res, { n: 1 });
+            sendEvent(res, { n: 2 });
+            res.end();
+        });
+
+        const received: string[] = [];
+        await apiEventStream('/events', data => {
+            received.push(data);
+        });
+
+        expect(received).toEqual(['{"n":1}', '{"n":2}']);
+        expect(authorization).toBe('Bearer test-token');
+    });
+
+    it('stops as soon as onMessage returns true', async () => {
+        server.route('/events', (_req, res) => {
+            openEventStream(res);
+            sendEvent(res, { done: false });
+            sendEvent(res, { done: true });
+            // Left open: the client has to close it
+        });
+
+        const received: string[] = [];
+        await apiEventStream('/events', data => {
+            received.push(data);
+            return JSON.parse(data).done;
+        });
+
+        expect(received).toHaveLength(2);
+    });
+
+    it('joins multi-line data and reassembles events split across chunks', async () => {
+        server.route('/events', (_req, res) => {
+            openEventStream(res);
+            res.write('data: first\ndata: second\n');
+            setTimeout(() => {
+                res.write('\nevent: status\ndata: third\r\n\r\n');
+                res.end();
+            }, 20);
+        });
+
+        const received: string[] = [];
+        await apiEventStream('/events', data => {
+            received.push(data);
+        });
+
+        expect(received).toEqual(['first\nsecond', 'third']);
+    });
+
+    it('rejects when the endpoint does not serve an event stream', async () => {
+        server.route('/events', (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end('{}');
+        });
+
+        await expect(apiEventStream('/events', () => undefined))
+            .rejects.toThrow('Event stream unavailable');
+    });
+
+    it('rejects when the endpoint is missing', async () => {
+        await expect(apiEventStream('/missing', () => undefined))
+            .rejects.toThrow('API Error: 404 - Event stream unavailable');
+    });
+
+    it('times out when the stream goes quiet', async () => {
+        server.route('/events', (_req, res) => {
+            openEventStream(res);
+            sendEvent(res, { n: 1 });
+            // Then nothing, not even a heartbeat
+        });
+
+        const received: string[] = [];
+        await expect(apiEventStream('/events', data => {
+            received.push(data);
+        }, { idleTimeout: 200 })).rejects.toThrow('Event stream timed out');
+        expect(received).toHaveLength(1);
+    });
+
+    it('keeps a quiet stream open while heartbeats arrive', async () => {
+        server.route('/events', (_req, res) => {
+            openEventStream(res);
+            const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 50);
+            setTimeout(() => {
+                clearInterval(heartbeat);
+                sendEvent(res, { done: true });
+                res.end();
+            }, 500);
+        });
+
+        const received: string[] = [];
+        await apiEventStream('/events', data => {
+            received.push(data);
+        }, { idleTimeout: 200 });
+
+        expect(received).toEqual(['{"done":true}']);
+    });
+
+    it('rejects when the signal aborts', async () => {
+        server.route('/events', (_req, res) => openEventStream(res));
+
+        const controller = new AbortController();
+        const stream = apiEventStream('/events', () => undefined, { signal: controller.signal });
+        setTimeout(() => controller.abort(), 50);
+
+        await expect(stream).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
+
+describe('apiDelete', () => {
+    it('calls fetch without waiting for a token when sent with keepalive', async () => {
+        let authorization: string | undefined;
+        server.route('/ping', (_req, res) => sendJson(res, 200, { success: true }));
+        server.route('/thumbnails/t1', (req, res) => {
+            authorization = req.headers.authorization;
+            sendJson(res, 200, { success: true });
+        });
+        // Any earlier request leaves a token to reuse
+        await apiGet('/ping');
+
+        const fetchSpy = jest.spyOn(globalThis, 'fetch');
+        try {
+            const deleting = apiDelete('/thumbnails/t1', { keepalive: true });
+            // Still inside the caller's synchronous code, as in a pagehide handler
+            expect(fetchSpy).toHaveBeenCalledWith(expect.stringContaining('/thumbnails/t1'), expect.objectContaining({ keepalive: true }));
+            await expect(deleting).resolves.toEqual({ success: true });
+        } finally {
+            fetchSpy.mockRestore();
+        }
+        expect(authorization).toBe('Bearer test-token');
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Stand-in API server for tests
+ * A local HTTP server whose routes each test sets, so the real fetch-based
+ * API client can be exercised without the backend.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+export interface StandInServer {
+    url: string;
+    /** Handle requests to `path` (exact match, query string ignored) */
+    route: (path: string, handler: RouteHandler) => void;
+    /** Number of requests received per path */
+    hits: (path: string) => number;
+    reset: () => void;
+    close: () => Promise<void>;
+}
+
+export async function startStandInServer(): Promise<StandInServer> {
+    const routes = new Map<string, RouteHandler>();
+    const hitCounts = new Map<string, number>();
+
+    const server = createServer((req, res) => {
+        const path = (req.url ?? '').split('?')[0];
+        hitCounts.set(path, (hitCounts.get(path) ?? 0) + 1);
+
+        const handler = routes.get(path);
+        if (handler) {
+            handler(req, res);
+            return;
+        }
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: false, error: 'Not found' }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        route: (path, handler) => routes.set(path, handler),
+        hits: (path) => hitCounts.get(path) ?? 0,
+        reset: () => {
+            routes.clear();
+            hitCounts.clear();
+        },
+        close: () => new Promise(resolve => {
+            // Drop streams that are still open so close() doesn't wait on them
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
+
+/** Start a Server-Sent Events response */
+export function openEventStream(res: ServerResponse): void {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+}
+
+/** Send one SSE event carrying `data` as JSON */
+export function sendEvent(res: ServerResponse, data: unknown): void {
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
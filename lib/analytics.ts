@@ -6,13 +6,11 @@
 
 import { track } from '@vercel/analytics/react';
 import { apiPost } from './api';
+import type { PlanType } from '@/types';
 
 // Event properties type
 type EventProperties = Record<string, string | number | boolean | null | undefined>;
 
-// User plan type
-type UserPlan = 'free' | 'creator' | 'automation';
-
 // Session storage keys
 const SESSION_ID_KEY = 'stumbnail_session_id';
 const GENERATION_COUNT_KEY = 'stumbnail_gen_count';
@@ -72,7 +70,7 @@ interface FirestoreEventPayload {
     route?: string;
     project_id?: string;
     credits_remaining?: number;
-    plan_tier?: UserPlan;
+    plan_tier?: PlanType;
     generation_count_in_session?: number;
     properties?: EventProperties;
 }
@@ -88,7 +86,7 @@ export function trackFirestoreEvent(
         route?: string;
         projectId?: string;
         creditsRemaining?: number;
-        planTier?: UserPlan;
+        planTier?: PlanType;
     } = {}
 ): void {
     if (typeof window === 'undefined') return;
@@ -181,7 +179,7 @@ export const trackLoginSuccess = (isNewUser: boolean) =>
 export const trackProjectCreate = (
     source: 'template' | 'empty',
     templateName: string | null,
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('project_create', {
         source,
@@ -198,7 +196,7 @@ export const trackGenerationStart = (
     model: string,
     editorMode: 'sidebar' | 'expanded',
     batchCount: number,
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('generation_start', {
         type,
@@ -212,7 +210,7 @@ export const trackGenerationSuccess = (
     type: string,
     model: string,
     durationMs: number,
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('generation_success', {
         type,
@@ -224,7 +222,7 @@ export const trackGenerationSuccess = (
 export const trackGenerationFailure = (
     type: string,
     error: string,
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('generation_failure', {
         type,
@@ -242,7 +240,7 @@ export const trackAssetUpload = (type: 'image' | 'youtube') =>
 export const trackCanvasExport = (
     format: string,
     resolution: string,
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('canvas_export', {
         format,
@@ -254,7 +252,7 @@ export const trackCanvasExport = (
 // Credits & Pricing Events
 // ============================================
 
-export const trackCreditsExhausted = (userPlan: UserPlan, actionAttempted: string) =>
+export const trackCreditsExhausted = (userPlan: PlanType, actionAttempted: string) =>
     trackEvent('credits_exhausted', {
         user_plan: userPlan,
         action_attempted: actionAttempted,
@@ -262,14 +260,14 @@ export const trackCreditsExhausted = (userPlan: UserPlan, actionAttempted: strin
 
 export const trackPricingModalOpen = (
     source: 'sidebar' | 'credits' | 'generate' | 'exhausted',
-    currentPlan: UserPlan
+    currentPlan: PlanType
 ) =>
     trackEvent('pricing_modal_open', {
         source,
         current_plan: currentPlan,
     });
 
-export const trackPricingModalPlanClick = (targetPlan: string, currentPlan: UserPlan) =>
+export const trackPricingModalPlanClick = (targetPlan: string, currentPlan: PlanType) =>
     trackEvent('pricing_modal_plan_click', {
         target_plan: targetPlan,
         current_plan: currentPlan,
@@ -285,7 +283,7 @@ export const trackPromptEditorOpen = (mode: 'expanded' | 'sidebar') =>
 export const trackCategorySelect = (
     category: string,
     isCustom: boolean,
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('category_select', {
         category,
@@ -295,14 +293,14 @@ export const trackCategorySelect = (
 
 export const trackVisibilityToggle = (
     visibility: 'private' | 'public',
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('visibility_toggle', {
         visibility,
         user_plan: userPlan,
     });
 
-export const trackBatchCountChange = (count: number, userPlan: UserPlan) =>
+export const trackBatchCountChange = (count: number, userPlan: PlanType) =>
     trackEvent('batch_count_change', {
         count,
         user_plan: userPlan,
@@ -314,7 +312,7 @@ export const trackBatchCountChange = (count: number, userPlan: UserPlan) =>
 
 export const trackSessionStart = (
     isNewUser: boolean,
-    userPlan: UserPlan,
+    userPlan: PlanType,
     referrer: string
 ) =>
     trackEvent('session_start', {
@@ -327,7 +325,7 @@ export const trackSessionEnd = (
     totalDuration: number,
     pagesVisited: number,
     isNewUser: boolean,
-    userPlan: UserPlan
+    userPlan: PlanType
 ) =>
     trackEvent('session_end', {
         total_duration: totalDuration,
@@ -20,6 +20,9 @@ export interface ApiResponse<T> {
     error?: string;
 }
 
+// Last ID token fetched, for requests that can't wait for one (see apiDelete)
+let lastAuthToken: string | null = null;
+
 /**
  * Get the current user's Firebase ID token for API authentication
  * Waits for auth state to be ready if needed
@@ -30,7 +33,8 @@ async function getAuthToken(): Promise<string | null> {
 
         // If currentUser is available, get token directly
         if (auth.currentUser) {
-            return await auth.currentUser.getIdToken();
+            lastAuthToken = await auth.currentUser.getIdToken();
+            return lastAuthToken;
         }
 
         // Wait for auth state to be determined (handles initial load)
@@ -40,6 +44,7 @@ async function getAuthToken(): Promise<string | null> {
                 if (user) {
                     try {
                         const token = await user.getIdToken();
+                        lastAuthToken = token;
                         resolve(token);
                     } catch {
                         resolve(null);
@@ -65,15 +70,16 @@ async function getAuthToken(): Promise<string | null> {
  * Build headers for API requests
  */
 async function buildHeaders(includeAuth: boolean = true): Promise<HeadersInit> {
+    return headersWithToken(includeAuth ? await getAuthToken() : null);
+}
+
+function headersWithToken(token: string | null): HeadersInit {
     const headers: HeadersInit = {
         'Content-Type': 'application/json',
     };
 
-    if (includeAuth) {
-        const token = await getAuthToken();
-        if (token) {
-            headers['Authorization'] = `Bearer ${token}`;
-        }
+    if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
     }
 
     return headers;
@@ -142,12 +148,20 @@ export async function apiPost<T>(
 
 /**
  * Make an authenticated DELETE request
+ * Pass `keepalive` for requests that must survive the page being closed or reloaded.
  */
-export async function apiDelete<T>(endpoint: string): Promise<T> {
-    const headers = await buildHeaders();
+export async function apiDelete<T>(
+    endpoint: string,
+    { keepalive = false }: { keepalive?: boolean } = {}
+): Promise<T> {
+    // A keepalive request is only sent if fetch is called before the page unloads, which is
+    // before any await in a pagehide handler - so it goes with the last token instead of a fresh one.
+    // Callers still need their own retry for when it isn't sent (no token yet) or is rejected (expired).
+    const headers = keepalive && lastAuthToken ? headersWithToken(lastAuthToken) : await buildHeaders();
     const response = await fetch(`${API_BASE_URL}${endpoint}`, {
         method: 'DELETE',
         headers,
+        keepalive,
     });
 
     return handleResponse<T>(response);
@@ -170,4 +184,84 @@ export async function apiPatch<T>(
     return handleResponse<T>(response);
 }
 
+/**
+ * Open an authenticated Server-Sent Events stream and pass each event's data to `onMessage`
+ * Resolves when the stream ends, or as soon as `onMessage` returns true. Rejects if the
+ * stream can't be opened, if nothing (not even a heartbeat comment) arrives for
+ * `idleTimeout` ms, or when `signal` aborts.
+ */
+export async function apiEventStream(
+    endpoint: string,
+    onMessage: (data: string) => boolean | void,
+    { signal, idleTimeout = 15000 }: { signal?: AbortSignal; idleTimeout?: number } = {}
+): Promise<void> {
+    const headers = new Headers(await buildHeaders());
+    headers.set('Accept', 'text/event-stream');
+
+    // Aborted by the caller's signal or when the stream goes quiet
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, idleTimeout);
+    };
+
+    try {
+        resetIdleTimer();
+        const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+            method: 'GET',
+            headers,
+            signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+            throw new Error(`API Error: ${response.status} - Event stream unavailable`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            resetIdleTimer();
+
+            // Events are separated by a blank line; keep a trailing partial event for the next chunk
+            buffer += decoder.decode(value, { stream: true });
+            const events = buffer.split(/\r?\n\r?\n/);
+            buffer = events.pop() ?? '';
+
+            for (const event of events) {
+                const data = event
+                    .split(/\r?\n/)
+                    .filter(line => line.startsWith('data:'))
+                    .map(line => line.slice(5).replace(/^ /, ''))
+                    .join('\n');
+
+                if (data && onMessage(data) === true) {
+                    await reader.cancel();
+                    return;
+                }
+            }
+        }
+    } catch (error) {
+        if (timedOut) {
+            throw new Error('Event stream timed out');
+        }
+        throw error;
+    } finally {
+        clearTimeout(idleTimer);
+        signal?.removeEventListener('abort', abort);
+    }
+}
+
 export { API_BASE_URL };
@@ -0,0 +1,58 @@
+// Export Constants
+// Output formats and frame sizes for flattened canvas exports
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportFormatOption {
+    id: ExportFormat;
+    label: string;
+    mimeType: string;
+    extension: string;
+    lossy: boolean;  // Lossy formats expose a quality setting
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+    { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+    { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+    { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+];
+
+export interface ExportFrameOption {
+    id: string;       // Aspect ratio, e.g. '16:9'
+    label: string;
+    width: number;
+    height: number;
+}
+
+// Output frames - YouTube's recommended 1280x720 first
+export const EXPORT_FRAMES: ExportFrameOption[] = [
+    { id: '16:9', label: '16:9 (1280×720)', width: 1280, height: 720 },
+    { id: '9:16', label: '9:16 (720×1280)', width: 720, height: 1280 },
+    { id: '1:1', label: '1:1 (1080×1080)', width: 1080, height: 1080 },
+    { id: '4:3', label: '4:3 (1280×960)', width: 1280, height: 960 },
+    { id: '4:5', label: '4:5 (1080×1350)', width: 1080, height: 1350 },
+];
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = 'png';
+export const DEFAULT_EXPORT_QUALITY = 0.92;
+export const EXPORT_QUALITY_RANGE = { min: 0.3, max: 1 };
+
+/**
+ * Look up a format option by ID (falls back to PNG)
+ */
+export function getExportFormat(format: ExportFormat): ExportFormatOption {
+    return EXPORT_FORMATS.find(option => option.id === format) || EXPORT_FORMATS[0];
+}
+
+// YouTube custom thumbnail requirements - 1280x720, max 2 MB
+export const YOUTUBE_THUMBNAIL_PRESET = {
+    width: 1280,
+    height: 720,
+    maxBytes: 2 * 1024 * 1024,
+    minBytes: 100 * 1024,   // Smallest budget we'll try to hit - below this JPEGs at 640x360 turn to mush
+    formats: ['jpeg', 'webp'] as ExportFormat[],
+};
+
+// Size budgeting search bounds
+export const EXPORT_BUDGET_QUALITY_RANGE = { min: 0.4, max: 0.95 };
+export const EXPORT_BUDGET_MIN_SCALE = 0.5;  // YouTube's minimum width is 640px
@@ -3,6 +3,9 @@ export * from './navigation';
 export * from './templates';
 export * from './models';
 export * from './smartMerge';
+export * from './textLayers';
+export * from './export';
+export * from './plans';
 
 // Common pagination constants
 export const PROJECTS_PER_PAGE = 12;
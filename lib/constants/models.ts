@@ -10,7 +10,8 @@ export const DEFAULT_MODEL: Model = {
     name: 'Nano Banana Pro',
     description: '2K and 4K resolution output with text placement',
     featureTag: 'Text Placement',
-    credits: 24,  // Base credits (1K/2K), 4K is 47
+    credits: 24,  // 1K and 2K
+    creditsByOption: { '4K': 47 },
     logo: '/assets/dashboard/icons/nano-banana-model.webp',
     maxImages: 14,
     hasResolutionOptions: true,
@@ -18,6 +19,7 @@ export const DEFAULT_MODEL: Model = {
     resolution: '2K',
     defaultAspectRatio: '16:9',
     defaultResolution: '2K',
+    jobTimeout: 300000,  // 4K output can take longer than the 3 minute default
     options: {
         aspectRatios: [...EXTENDED_ASPECT_RATIOS, 'match_input_image'],
         resolutions: ['1K', '2K', '4K'],
@@ -27,6 +27,12 @@ export const NAV_ITEMS: NavItem[] = [
         icon: '/assets/dashboard/icons/play-list-favourite-02-stroke-rounded 1-sidebar.svg',
         active: false
     },
+    {
+        id: 'usage',
+        label: 'Usage',
+        icon: '/assets/dashboard/icons/credits.svg',
+        active: false
+    },
 ];
 
 // Route mapping for navigation
@@ -35,12 +41,13 @@ export const NAV_ROUTES: Record<string, string> = {
     projects: '/projects',
     community: '/community',
     favourites: '/favourites',
+    usage: '/usage',
 };
 
 /**
  * Get navigation items with the active state set for the current route
  */
-export function getNavItemsForRoute(currentRoute: 'dashboard' | 'projects' | 'community' | 'favourites'): NavItem[] {
+export function getNavItemsForRoute(currentRoute: 'dashboard' | 'projects' | 'community' | 'favourites' | 'usage'): NavItem[] {
     return NAV_ITEMS.map(item => ({
         ...item,
         active: item.id === currentRoute,
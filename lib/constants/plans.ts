@@ -0,0 +1,25 @@
+// Paid subscription plans, as sold on Stripe
+// Keep in sync with the Stripe products configured in NEXT_PUBLIC_STRIPE_PRODUCT_ID_*
+
+import type { PlanType } from '@/types';
+
+export type SubscriptionPlanId = Exclude<PlanType, 'free'>;
+
+export interface SubscriptionPlan {
+    id: SubscriptionPlanId;
+    name: string;
+    price: string;           // Display price per month
+    monthlyCredits: number;  // As advertised on the pricing page
+    // Subscription credits granted each period, as getUserPlan reports them. A subscription
+    // balance of at least this identifies the plan. Creator's 1,100 differs from the advertised
+    // 1,430; it stays at what the app has always reported until the backend's grant is confirmed.
+    grantedCredits: number;
+}
+
+export const SUBSCRIPTION_PLANS: Record<SubscriptionPlanId, SubscriptionPlan> = {
+    creator: { id: 'creator', name: 'Creator', price: '$12.99', monthlyCredits: 1430, grantedCredits: 1100 },
+    automation: { id: 'automation', name: 'Automation', price: '$39', monthlyCredits: 4500, grantedCredits: 4500 },
+};
+
+// Lowest tier first
+export const SUBSCRIPTION_PLAN_ORDER: SubscriptionPlanId[] = ['creator', 'automation'];
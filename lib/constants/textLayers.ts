@@ -0,0 +1,47 @@
+// Text Layer Constants
+// Font choices and default styling for editable text layers on the canvas
+
+import type { TextLayerStyle } from '@/lib/services/thumbnailService';
+
+export interface TextLayerFontOption {
+    id: string;       // CSS/canvas font-family value
+    label: string;
+}
+
+// Fonts that are available in every browser, so canvas export matches the on-canvas preview
+export const TEXT_LAYER_FONTS: TextLayerFontOption[] = [
+    { id: 'Impact, "Arial Black", sans-serif', label: 'Impact' },
+    { id: '"Arial Black", Arial, sans-serif', label: 'Arial Black' },
+    { id: 'Arial, Helvetica, sans-serif', label: 'Arial' },
+    { id: 'Verdana, Geneva, sans-serif', label: 'Verdana' },
+    { id: '"Trebuchet MS", sans-serif', label: 'Trebuchet' },
+    { id: 'Georgia, serif', label: 'Georgia' },
+    { id: '"Times New Roman", Times, serif', label: 'Times' },
+    { id: '"Comic Sans MS", "Comic Sans", cursive', label: 'Comic' },
+    { id: '"Courier New", Courier, monospace', label: 'Courier' },
+];
+
+export const TEXT_LAYER_FONT_SIZE_RANGE = { min: 12, max: 400 };
+export const TEXT_LAYER_STROKE_WIDTH_MAX = 40;
+export const TEXT_LAYER_SHADOW_BLUR_MAX = 60;
+
+// Line height multiplier shared by on-canvas rendering and export
+export const TEXT_LAYER_LINE_HEIGHT = 1.15;
+
+// Padding around the text block (in natural pixels) so stroke and shadow aren't clipped
+export const TEXT_LAYER_PADDING = 16;
+
+export const DEFAULT_TEXT_LAYER_STYLE: TextLayerStyle = {
+    text: 'YOUR TITLE',
+    fontFamily: TEXT_LAYER_FONTS[0].id,
+    fontSize: 120,
+    fontWeight: 700,
+    color: '#ffffff',
+    strokeColor: '#000000',
+    strokeWidth: 8,
+    shadowColor: '#000000',
+    shadowBlur: 12,
+    shadowOffsetX: 4,
+    shadowOffsetY: 6,
+    rotation: 0,
+};
@@ -0,0 +1,176 @@
+import { startStandInServer, openEventStream, sendEvent, sendJson, type StandInServer } from '@/lib/__tests__/standInServer';
+import type { JobStatusResponse } from '@/lib/services/thumbnailService';
+
+jest.mock('@/lib/firebase', () => ({
+    getFirebaseAuth: async () => ({
+        currentUser: { getIdToken: async () => 'test-token' },
+    }),
+}));
+
+let server: StandInServer;
+let watchJobStatus: typeof import('@/lib/services/thumbnailService').watchJobStatus;
+let runJob: typeof import('@/lib/services/thumbnailService').runJob;
+
+beforeAll(async () => {
+    // Falling back to polling is logged; expected here
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    server = await startStandInServer();
+    // API_BASE_URL is read when the module loads
+    process.env.NEXT_PUBLIC_API_URL = server.url;
+    ({ watchJobStatus, runJob } = await import('@/lib/services/thumbnailService'));
+});
+
+afterEach(() => server.reset());
+
+afterAll(() => server.close());
+
+const EVENTS_PATH = '/api/jobs/job-1/events';
+const STATUS_PATH = '/api/jobs/job-1/status';
+const CANCEL_PATH = '/api/jobs/job-1/cancel';
+
+function jobStatus(statusCode: JobStatusResponse['statusCode'], progress: number): JobStatusResponse {
+    const isComplete = statusCode === 'COMPLETE';
+    return {
+        success: true,
+        id: 'job-1',
+        statusCode,
+        status: statusCode.toLowerCase(),
+        progress,
+        isComplete,
+        isFailed: statusCode === 'FAILED',
+        result: isComplete ? { success: true, status: 'complete' } as JobStatusResponse['result'] : null,
+    };
+}
+
+/** Serve `statuses` from the status endpoint one poll at a time, repeating the last */
+function routeStatusPolls(statuses: JobStatusResponse[]) {
+    let poll = 0;
+    server.route(STATUS_PATH, (_req, res) => {
+        sendJson(res, 200, statuses[Math.min(poll++, statuses.length - 1)]);
+    });
+}
+
+describe('watchJobStatus', () => {
+    it('follows the event stream without polling', async () => {
+        server.route(EVENTS_PATH, (_req, res) => {
+            openEventStream(res);
+            sendEvent(res, jobStatus('GENERATING', 40));
+            sendEvent(res, jobStatus('COMPLETE', 100));
+        });
+
+        const updates: number[] = [];
+        const final = await watchJobStatus('job-1', { onUpdate: status => updates.push(status.progress) });
+
+        expect(final.statusCode).toBe('COMPLETE');
+        expect(updates).toEqual([40, 100]);
+        expect(server.hits(STATUS_PATH)).toBe(0);
+    });
+
+    it('falls back to polling when the event stream is unavailable', async () => {
+        // No events route: the stream request gets a 404
+        routeStatusPolls([jobStatus('GENERATING', 50), jobStatus('COMPLETE', 100)]);
+
+        const updates: number[] = [];
+        const final = await watchJobStatus('job-1', {
+            onUpdate: status => updates.push(status.progress),
+            pollInterval: 10,
+        });
+
+        expect(final.statusCode).toBe('COMPLETE');
+        expect(updates).toEqual([50, 100]);
+        expect(server.hits(EVENTS_PATH)).toBe(1);
+        expect(server.hits(STATUS_PATH)).toBe(2);
+    });
+
+    it('falls back to polling when the stream drops before the job finishes', async () => {
+        server.route(EVENTS_PATH, (_req, res) => {
+            openEventStream(res);
+            sendEvent(res, jobStatus('GENERATING', 30));
+            res.end();
+        });
+        routeStatusPolls([jobStatus('COMPLETE', 100)]);
+
+        const updates: number[] = [];
+        const final = await watchJobStatus('job-1', {
+            onUpdate: status => updates.push(status.progress),
+            pollInterval: 10,
+        });
+
+        expect(final.statusCode).toBe('COMPLETE');
+        expect(updates).toEqual([30, 100]);
+    });
+
+    it('retries transient polling errors', async () => {
+        let poll = 0;
+        server.route(STATUS_PATH, (_req, res) => {
+            if (poll++ === 0) {
+                sendJson(res, 503, { success: false });
+                return;
+            }
+            sendJson(res, 200, jobStatus('COMPLETE', 100));
+        });
+
+        const final = await watchJobStatus('job-1', { pollInterval: 10 });
+
+        expect(final.statusCode).toBe('COMPLETE');
+        expect(server.hits(STATUS_PATH)).toBe(2);
+    });
+
+    it('rejects with an AbortError on browsers without AbortSignal.reason or throwIfAborted', async () => {
+        routeStatusPolls([jobStatus('GENERATING', 10)]);
+
+        const controller = new AbortController();
+        // As on Chrome < 100 and Safari < 15.4
+        Object.defineProperty(controller.signal, 'reason', { value: undefined });
+        Object.defineProperty(controller.signal, 'throwIfAborted', { value: undefined });
+
+        const watching = watchJobStatus('job-1', { signal: controller.signal, pollInterval: 10 });
+        setTimeout(() => controller.abort(), 50);
+
+        await expect(watching).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
+
+describe('runJob', () => {
+    beforeEach(() => {
+        server.route(CANCEL_PATH, (_req, res) => sendJson(res, 200, { success: true }));
+    });
+
+    it('times out and cancels the job on the backend', async () => {
+        routeStatusPolls([jobStatus('GENERATING', 10)]);
+
+        const result = await runJob('generation', 'job-1', { timeout: 100, pollInterval: 10 });
+
+        expect(result).toMatchObject({ success: false, cancelled: true, timedOut: true });
+        expect(server.hits(CANCEL_PATH)).toBe(1);
+    });
+
+    it('counts the timeout of a resumed job from when it was started', async () => {
+        routeStatusPolls([jobStatus('GENERATING', 10)]);
+
+        // Past its 1 minute timeout: only the short grace period to fetch a result is left
+        const resumedAt = Date.now();
+        const result = await runJob('generation', 'job-1', {
+            timeout: 60000,
+            startedAt: resumedAt - 120000,
+            pollInterval: 10,
+        });
+
+        expect(Date.now() - resumedAt).toBeLessThan(10000);
+        // Reported against the job's whole timeout
+        expect(result).toMatchObject({ success: false, timedOut: true, error: 'Generation timed out after 1 minute' });
+    }, 15000);
+
+    it('still collects a resumed job that finished after its timeout', async () => {
+        routeStatusPolls([jobStatus('COMPLETE', 100)]);
+
+        const result = await runJob('generation', 'job-1', {
+            timeout: 60000,
+            startedAt: Date.now() - 120000,
+            pollInterval: 10,
+        });
+
+        expect(result.success).toBe(true);
+        expect(server.hits(CANCEL_PATH)).toBe(0);
+    });
+});
@@ -0,0 +1,37 @@
+import { getUserPlan } from '@/lib/services/userService';
+import type { UserData } from '@/types';
+
+jest.mock('@/lib/firebase', () => ({
+    getFirestore: async () => {
+        throw new Error('Firestore is not available in tests');
+    },
+}));
+
+function userData(subscriptionCredits: number): UserData {
+    return {
+        uid: 'u1',
+        email: 'user@example.com',
+        displayName: 'User',
+        subscriptionCredits,
+        toppedUpBalance: 0,
+        trialCredits: 0,
+        hasTakenTour: true,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+    };
+}
+
+describe('getUserPlan', () => {
+    it('is free without user data or a subscription balance', () => {
+        expect(getUserPlan(null)).toEqual({ type: 'free', name: 'Free', monthlyCredits: 0 });
+        expect(getUserPlan(userData(0)).type).toBe('free');
+        expect(getUserPlan(userData(1099)).type).toBe('free');
+    });
+
+    it('picks the highest plan whose threshold the balance reaches', () => {
+        expect(getUserPlan(userData(1100))).toEqual({ type: 'creator', name: 'Creator', monthlyCredits: 1100 });
+        expect(getUserPlan(userData(1430)).type).toBe('creator');
+        expect(getUserPlan(userData(4499)).type).toBe('creator');
+        expect(getUserPlan(userData(4500))).toEqual({ type: 'automation', name: 'Automation', monthlyCredits: 4500 });
+    });
+});
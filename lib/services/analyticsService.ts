@@ -7,6 +7,7 @@
 
 import { apiGet, apiPost } from '../api';
 import { getSessionId, getGenerationCount } from '../analytics';
+import type { PlanType } from '@/types';
 
 // Storage keys for client-side throttling
 const CONFIDENCE_THROTTLE_KEY = 'stumbnail_confidence_throttle';
@@ -22,7 +23,7 @@ const CONFIDENCE_COOLDOWN_MS = 60 * 1000; // 60 seconds
 // Store for user context (set by the app when user data is available)
 let userContext: {
     creditsRemaining?: number;
-    planTier?: 'free' | 'creator' | 'automation';
+    planTier?: PlanType;
 } = {};
 
 /**
@@ -30,7 +31,7 @@ let userContext: {
  */
 export function setAnalyticsUserContext(context: {
     creditsRemaining?: number;
-    planTier?: 'free' | 'creator' | 'automation';
+    planTier?: PlanType;
 }): void {
     userContext = context;
 }
@@ -4,13 +4,14 @@
  *
  * This service provides:
  * - Real-time subscription to project thumbnails (~50-100ms latency vs ~200-500ms API)
- * - Debounced position/size updates
+ * - Debounced position/size and layer (order, lock, visibility) updates
  *
  * Backend API is still used for: create, delete, generate, and upload operations
  */
 
 import { getFirestore } from '@/lib/firebase';
 import type { Timestamp, DocumentSnapshot, DocumentData } from 'firebase/firestore';
+import type { TextLayerStyle, StoredGenerationRequest } from './thumbnailService';
 
 // ═══════════════════════════════════════════════════════
 // TYPES
@@ -46,7 +47,7 @@ export interface FirestoreThumbnail {
   projectId: string;
   ownerId: string;
   thumbnailUrl: string;
-  type: 'generated' | 'youtube-thumbnail' | 'uploaded';
+  type: 'generated' | 'youtube-thumbnail' | 'uploaded' | 'text';
   status: 'generating' | 'complete' | 'failed';
   x: number;
   y: number;
@@ -60,6 +61,11 @@ export interface FirestoreThumbnail {
   model: string | null;
   style: string | null;
   refImages: RefImage[];
+  textLayer?: TextLayerStyle | null;
+  generationRequest?: StoredGenerationRequest | null;  // Generated thumbnails only
+  zIndex?: number;   // Stacking order on the canvas (higher = on top)
+  locked?: boolean;  // Locked against drag/resize/delete
+  hidden?: boolean;  // Hidden on the canvas and in exports
   likesCount: number;
   likedBy?: string[];
   isPublic?: boolean;
@@ -78,7 +84,7 @@ export interface Thumbnail {
   projectId: string;
   ownerId: string;
   thumbnailUrl: string;
-  type: 'generated' | 'youtube-thumbnail' | 'uploaded';
+  type: 'generated' | 'youtube-thumbnail' | 'uploaded' | 'text';
   status: 'generating' | 'complete' | 'failed';
   x: number;
   y: number;
@@ -92,6 +98,11 @@ export interface Thumbnail {
   model: string | null;
   style: string | null;
   refImages: RefImage[];
+  textLayer?: TextLayerStyle | null;
+  generationRequest?: StoredGenerationRequest | null;  // Generated thumbnails only
+  zIndex?: number;   // Stacking order on the canvas (higher = on top)
+  locked?: boolean;  // Locked against drag/resize/delete
+  hidden?: boolean;  // Hidden on the canvas and in exports
   likesCount: number;
   likedBy?: string[];
   isPublic?: boolean;
@@ -100,17 +111,20 @@ export interface Thumbnail {
 }
 
 /**
- * Position/size update request
+ * Position/size/layer update request
  */
 export interface ThumbnailPositionUpdate {
   x?: number;
   y?: number;
   width?: number;
   height?: number;
+  zIndex?: number;
+  locked?: boolean;
+  hidden?: boolean;
 }
 
 /**
- * Batch position update
+ * Batch position/layer update
  */
 export interface BatchPositionUpdate {
   id: string;
@@ -118,6 +132,9 @@ export interface BatchPositionUpdate {
   y?: number;
   width?: number;
   height?: number;
+  zIndex?: number;
+  locked?: boolean;
+  hidden?: boolean;
 }
 
 // ═══════════════════════════════════════════════════════
@@ -147,6 +164,11 @@ function transformFirestoreThumbnail(doc: FirestoreThumbnail): Thumbnail {
     model: doc.model,
     style: doc.style,
     refImages: doc.refImages || [],
+    textLayer: doc.textLayer ?? null,
+    generationRequest: doc.generationRequest ?? null,
+    zIndex: doc.zIndex,
+    locked: doc.locked ?? false,
+    hidden: doc.hidden ?? false,
     likesCount: doc.likesCount || 0,
     likedBy: doc.likedBy,
     isPublic: doc.isPublic,
@@ -267,12 +289,12 @@ export async function subscribeToThumbnail(
 // ═══════════════════════════════════════════════════════
 
 /**
- * Update thumbnail position/size (debounced in calling code)
- * SECURITY: Firestore rules enforce that only position fields can be updated
+ * Update thumbnail position/size/layer state (debounced in calling code)
+ * SECURITY: Firestore rules enforce that only position and layer fields can be updated
  *
  * @param projectId - Project document ID
  * @param thumbnailId - Thumbnail document ID
- * @param position - Partial position update { x?, y?, width?, height? }
+ * @param position - Partial update { x?, y?, width?, height?, zIndex?, locked?, hidden? }
  */
 export async function updateThumbnailPosition(
   projectId: string,
@@ -298,6 +320,9 @@ export async function updateThumbnailPosition(
     if (position.y !== undefined) updates.y = position.y;
     if (position.width !== undefined) updates.width = position.width;
     if (position.height !== undefined) updates.height = position.height;
+    if (position.zIndex !== undefined) updates.zIndex = position.zIndex;
+    if (position.locked !== undefined) updates.locked = position.locked;
+    if (position.hidden !== undefined) updates.hidden = position.hidden;
 
     await updateDoc(thumbnailRef, updates);
   } catch (error) {
@@ -307,8 +332,8 @@ export async function updateThumbnailPosition(
 }
 
 /**
- * Update multiple thumbnail positions in a batch (for group drag operations)
- * SECURITY: Firestore rules enforce that only position fields can be updated
+ * Update multiple thumbnail positions in a batch (for group drag and layer reordering)
+ * SECURITY: Firestore rules enforce that only position and layer fields can be updated
  *
  * @param projectId - Project document ID
  * @param updates - Array of thumbnail position updates
@@ -339,6 +364,9 @@ export async function batchUpdateThumbnailPositions(
       if (update.y !== undefined) updateData.y = update.y;
       if (update.width !== undefined) updateData.width = update.width;
       if (update.height !== undefined) updateData.height = update.height;
+      if (update.zIndex !== undefined) updateData.zIndex = update.zIndex;
+      if (update.locked !== undefined) updateData.locked = update.locked;
+      if (update.hidden !== undefined) updateData.hidden = update.hidden;
 
       batch.update(thumbnailRef, updateData);
     }
@@ -385,15 +413,18 @@ export async function getCommunityThumbnails(
 
     const snapshot = await getDocs(q);
 
-    const thumbnails = snapshot.docs.map(doc => {
-      const data = doc.data() as FirestoreThumbnail;
-      // We don't have access to current user ID here, so isLiked defaults to false
-      // In a real app, you'd check if user ID is in likedBy array
-      return {
-        ...transformFirestoreThumbnail({ ...data, id: doc.id }),
-        isLiked: false
-      } as CommunityThumbnail;
-    });
+    const thumbnails = snapshot.docs
+      .map(doc => {
+        const data = doc.data() as FirestoreThumbnail;
+        // We don't have access to current user ID here, so isLiked defaults to false
+        // In a real app, you'd check if user ID is in likedBy array
+        return {
+          ...transformFirestoreThumbnail({ ...data, id: doc.id }),
+          isLiked: false
+        } as CommunityThumbnail;
+      })
+      // Text layers are canvas overlays, not standalone images
+      .filter(thumbnail => thumbnail.type !== 'text');
 
     return {
       thumbnails,
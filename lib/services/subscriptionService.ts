@@ -3,12 +3,16 @@
  */
 
 import { apiPost, apiGet } from '../api';
+import type { SubscriptionPlanId } from '@/lib/constants';
 
 // Product IDs from environment variables
 export const STRIPE_CREATOR_PRODUCT_ID = process.env.NEXT_PUBLIC_STRIPE_PRODUCT_ID_CREATOR || '';
 export const STRIPE_AUTOMATION_PRODUCT_ID = process.env.NEXT_PUBLIC_STRIPE_PRODUCT_ID_AUTOMATION || '';
 export const STRIPE_MORECREDITS_PRODUCT_ID = process.env.NEXT_PUBLIC_STRIPE_PRODUCT_ID_MORECREDITS || '';
 
+// Where to send the user after checkout (sessionStorage survives the round trip to Stripe)
+const CHECKOUT_RETURN_PATH_KEY = 'stumbnail_checkout_return_path';
+
 interface CheckoutResponse {
     url: string;
     sessionId: string;
@@ -18,7 +22,7 @@ interface PortalResponse {
     url: string;
 }
 
-interface SubscriptionStatus {
+export interface SubscriptionStatus {
     hasSubscription: boolean;
     subscription: {
         name: string;
@@ -35,12 +39,31 @@ interface SubscriptionStatus {
     };
 }
 
-export type PlanType = 'creator' | 'automation' | 'morecredits';
+// Anything sold through checkout: a subscription plan or the one-time credit pack
+export type CheckoutProduct = SubscriptionPlanId | 'morecredits';
+
+/**
+ * A completed (or abandoned) Stripe checkout, as verified by the backend
+ */
+export interface CheckoutSessionSummary {
+    id: string;
+    status: 'open' | 'complete' | 'expired';
+    paymentStatus: 'paid' | 'unpaid' | 'no_payment_required';
+    plan: CheckoutProduct;
+    productName: string;
+    credits: number;        // Credits granted by the purchase
+    amountTotal: number;    // Smallest currency unit, after discounts
+    amountDiscount: number;
+    currency: string;       // ISO code, lowercase as Stripe returns it
+    customerEmail: string;
+    createdAt: string;
+    fulfilled: boolean;     // The webhook has applied the purchase to the user's account
+}
 
 /**
  * Get product ID for a given plan type
  */
-function getProductId(plan: PlanType): string {
+function getProductId(plan: CheckoutProduct): string {
     switch (plan) {
         case 'creator':
             return STRIPE_CREATOR_PRODUCT_ID;
@@ -57,6 +80,7 @@ function getProductId(plan: PlanType): string {
  * Create a Stripe checkout session for subscription or one-time purchase
  * @param productId - Stripe product ID
  * @param customerEmail - User's email address
+ * @param couponId - Optional Stripe coupon to apply
  * @returns Checkout session URL to redirect user to
  */
 export async function createCheckoutSession(
@@ -88,14 +112,45 @@ export async function getSubscriptionStatus(): Promise<SubscriptionStatus> {
     return apiGet<SubscriptionStatus>('/api/subscription/status');
 }
 
+/**
+ * Verify a checkout session from the success page's session_id parameter
+ * SECURITY: The backend only returns sessions belonging to the authenticated user
+ * @param sessionId - Stripe checkout session ID
+ * @returns Session summary for the receipt, and whether the webhook has applied it yet
+ */
+export async function verifyCheckoutSession(sessionId: string): Promise<CheckoutSessionSummary> {
+    return apiGet<CheckoutSessionSummary>('/api/subscription/session', { sessionId });
+}
+
+/**
+ * Page the user started checkout from, if it was in this tab
+ */
+export function getCheckoutReturnPath(): string | null {
+    try {
+        return sessionStorage.getItem(CHECKOUT_RETURN_PATH_KEY);
+    } catch {
+        return null;
+    }
+}
+
+export function clearCheckoutReturnPath(): void {
+    try {
+        sessionStorage.removeItem(CHECKOUT_RETURN_PATH_KEY);
+    } catch {
+        // Ignore storage errors
+    }
+}
+
 /**
  * Redirect user to Stripe checkout for subscription or one-time purchase
  * @param plan - 'creator', 'automation', or 'morecredits'
  * @param email - User's email address
+ * @param couponId - Optional Stripe coupon, e.g. from a promo code
  */
 export async function redirectToCheckout(
-    plan: PlanType,
-    email: string
+    plan: CheckoutProduct,
+    email: string,
+    couponId?: string
 ): Promise<void> {
     const productId = getProductId(plan);
 
@@ -103,7 +158,13 @@ export async function redirectToCheckout(
         throw new Error(`Missing Stripe product ID for ${plan} plan. Please configure NEXT_PUBLIC_STRIPE_PRODUCT_ID_${plan.toUpperCase()}.`);
     }
 
-    const { url } = await createCheckoutSession(productId, email);
+    const { url } = await createCheckoutSession(productId, email, couponId);
+
+    try {
+        sessionStorage.setItem(CHECKOUT_RETURN_PATH_KEY, window.location.pathname + window.location.search);
+    } catch {
+        // Ignore storage errors - the success page falls back to the dashboard
+    }
 
     // Redirect to Stripe checkout
     window.location.href = url;
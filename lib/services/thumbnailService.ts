@@ -2,7 +2,7 @@
  * Thumbnail Service - API functions for thumbnail/canvas management
  */
 
-import { apiGet, apiPost, apiPatch, apiDelete } from '../api';
+import { apiGet, apiPost, apiPatch, apiDelete, apiEventStream } from '../api';
 
 // ═══════════════════════════════════════════════════════
 // TYPES
@@ -13,12 +13,32 @@ import { apiGet, apiPost, apiPatch, apiDelete } from '../api';
  */
 export interface RefImage {
     type: 'youtube' | 'upload' | 'url';
+    thumbnailId?: string;  // Canvas thumbnail the reference was taken from (edits and variations)
     youtubeVideoId?: string;
     youtubeUrl?: string;
     storageUrl?: string;
     previewUrl: string;
 }
 
+/**
+ * Text layer content and styling (for thumbnails of type 'text')
+ * Sizes are in the layer's natural pixel space, like an image's naturalWidth/naturalHeight
+ */
+export interface TextLayerStyle {
+    text: string;
+    fontFamily: string;
+    fontSize: number;
+    fontWeight: number;
+    color: string;
+    strokeColor: string;
+    strokeWidth: number;
+    shadowColor: string;
+    shadowBlur: number;
+    shadowOffsetX: number;
+    shadowOffsetY: number;
+    rotation: number;  // Degrees, clockwise around the layer center
+}
+
 /**
  * API Thumbnail type (matches API response)
  */
@@ -27,7 +47,7 @@ export interface ApiThumbnail {
     projectId: string;
     ownerId: string;
     thumbnailUrl: string;
-    type: 'generated' | 'youtube-thumbnail' | 'uploaded';
+    type: 'generated' | 'youtube-thumbnail' | 'uploaded' | 'text';
     status: 'generating' | 'complete' | 'failed';
     x: number;
     y: number;
@@ -41,6 +61,11 @@ export interface ApiThumbnail {
     model: string | null;
     style: string | null;
     refImages: RefImage[];
+    textLayer?: TextLayerStyle | null;
+    generationRequest?: StoredGenerationRequest | null;
+    zIndex?: number;
+    locked?: boolean;
+    hidden?: boolean;
     likesCount: number;
     likedBy?: string[];
     isPublic?: boolean;
@@ -216,8 +241,8 @@ export interface SmartMergeConfigResponse {
 // ═══════════════════════════════════════════════════════
 
 export interface AddThumbnailRequest {
-    thumbnailUrl: string;
-    type: 'uploaded' | 'youtube-thumbnail';
+    thumbnailUrl: string;  // Empty for text layers
+    type: 'uploaded' | 'youtube-thumbnail' | 'text';
     x: number;
     y: number;
     width: number;
@@ -225,7 +250,11 @@ export interface AddThumbnailRequest {
     naturalWidth: number;
     naturalHeight: number;
     prompt?: string | null;
+    // Generation metadata, kept when an element is copied from another project
+    model?: string | null;
+    refImages?: RefImage[];
     youtubeVideoId?: string;
+    textLayer?: TextLayerStyle;
 }
 
 export interface UpdateThumbnailRequest {
@@ -233,6 +262,12 @@ export interface UpdateThumbnailRequest {
     y?: number;
     width?: number;
     height?: number;
+    // Text layers only - editing text changes the layer's natural size
+    naturalWidth?: number;
+    naturalHeight?: number;
+    textLayer?: TextLayerStyle;
+    // Generated thumbnails - recorded once the generation completes
+    generationRequest?: StoredGenerationRequest;
 }
 
 export interface GenerateThumbnailRequest {
@@ -269,6 +304,16 @@ export interface GenerateThumbnailRequest {
     tone?: string;      // intense, calm, professional, fun
 }
 
+/**
+ * Generation parameters stored on a thumbnail - enough to run the same generation again
+ * Image inputs are URLs only; inline uploads are replaced by the backend's stored copies.
+ */
+export type StoredGenerationRequest = Pick<GenerateThumbnailRequest,
+    'prompt' | 'gen_model' | 'aspectRatio' | 'resolution' | 'size' | 'seed' | 'type' | 'enable_intelligence' | 'category' | 'tone'
+> & {
+    imageInput?: string[];
+};
+
 export interface UploadThumbnailRequest {
     imageData: string;  // base64 or URL
     x: number;
@@ -278,6 +323,10 @@ export interface UploadThumbnailRequest {
     naturalWidth: number;
     naturalHeight: number;
     fileName?: string;
+    // Generation metadata, kept when an element is copied from another project
+    prompt?: string | null;
+    model?: string | null;
+    refImages?: RefImage[];
 }
 
 /**
@@ -365,9 +414,14 @@ export async function updateThumbnail(
 
 /**
  * Delete a thumbnail from a project
+ * @param options.keepalive - Let the request finish even if the page is being unloaded
  */
-export async function deleteThumbnail(projectId: string, thumbnailId: string): Promise<{ success: boolean }> {
-    return apiDelete<{ success: boolean }>(`/api/projects/${projectId}/thumbnails/${thumbnailId}`);
+export async function deleteThumbnail(
+    projectId: string,
+    thumbnailId: string,
+    options?: { keepalive?: boolean }
+): Promise<{ success: boolean }> {
+    return apiDelete<{ success: boolean }>(`/api/projects/${projectId}/thumbnails/${thumbnailId}`, options);
 }
 
 /**
@@ -418,79 +472,9 @@ export async function startGenerationJob(request: GenerateThumbnailRequest): Pro
     return apiPost<GenerateJobStartResponse>('/api/thumbnail/generateThumbnail', request as unknown as Record<string, unknown>);
 }
 
-/**
- * Poll a generation job until completion with progress callbacks
- * @param jobId - The job ID to poll
- * @param onProgress - Callback for progress updates (status message, progress percentage)
- * @param onTimeout - Callback when timeout warning is triggered (at 30 seconds)
- * @param pollInterval - Polling interval in milliseconds (default 2000ms)
- * @param maxDuration - Maximum duration in milliseconds before auto-cancel (default 180000ms = 3 minutes)
- * @returns The final GenerateThumbnailResponse on success
- */
-export async function pollGenerationJob(
-    jobId: string,
-    onProgress?: (status: string, progress: number) => void,
-    onTimeout?: () => void,
-    pollInterval: number = 2000,
-    maxDuration: number = 180000 // 3 minutes
-): Promise<{ success: true; result: GenerateThumbnailResponse } | { success: false; error: string; suggestion?: string; code?: string; cancelled?: boolean }> {
-    const startTime = Date.now();
-    let timeoutWarningShown = false;
-
-    while (true) {
-        const elapsed = Date.now() - startTime;
-
-        // Show timeout warning at 30 seconds
-        if (!timeoutWarningShown && elapsed >= 30000 && onTimeout) {
-            timeoutWarningShown = true;
-            onTimeout();
-        }
-
-        // Auto-cancel at 3 minutes
-        if (elapsed >= maxDuration) {
-            try {
-                await cancelJob(jobId);
-            } catch (cancelError) {
-                console.error('Error cancelling job:', cancelError);
-            }
-            return {
-                success: false,
-                error: 'Generation timed out after 3 minutes',
-                cancelled: true,
-            };
-        }
-
-        const statusResponse = await pollJobStatus(jobId);
-
-        // Update progress
-        if (onProgress) {
-            onProgress(statusResponse.status, statusResponse.progress);
-        }
-
-        // Check for completion
-        if (statusResponse.isComplete && statusResponse.result) {
-            return { success: true, result: statusResponse.result as GenerateThumbnailResponse };
-        }
-
-        // Handle failure or cancellation
-        if (statusResponse.isFailed) {
-            return {
-                success: false,
-                error: statusResponse.error || 'Generation failed',
-                suggestion: statusResponse.errorDetails?.suggestion,
-                code: statusResponse.errorDetails?.code,
-                cancelled: statusResponse.cancelled,
-            };
-        }
-
-        // Wait before next poll
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
-    }
-}
-
 /**
  * Generate a thumbnail using AI with built-in job polling
- * @deprecated Use startGenerationJob + pollGenerationJob for progress tracking
+ * @deprecated Use startGenerationJob + runJob for progress tracking
  */
 export async function generateThumbnail(request: GenerateThumbnailRequest): Promise<GenerateThumbnailResponse> {
     // Start the job
@@ -499,8 +483,8 @@ export async function generateThumbnail(request: GenerateThumbnailRequest): Prom
         throw new Error('Failed to start generation job');
     }
 
-    // Poll until completion (no progress callback for legacy usage)
-    const result = await pollGenerationJob(startResponse.jobId);
+    // Follow until completion (no progress callback for legacy usage)
+    const result = await runJob('generation', startResponse.jobId);
     if (result.success) {
         return result.result;
     } else {
@@ -515,6 +499,37 @@ export async function startSmartMergeJob(request: SmartMergeRequest): Promise<Sm
     return apiPost<SmartMergeStartResponse>('/api/smart-merge', request as unknown as Record<string, unknown>);
 }
 
+/**
+ * Generate a thumbnail using Smart Merge (AI intelligence layer)
+ * @deprecated Use startSmartMergeJob + runJob for progress tracking
+ */
+export async function smartMergeThumbnail(request: SmartMergeRequest): Promise<SmartMergeResponse> {
+    // Start the job
+    const startResponse = await startSmartMergeJob(request);
+    if (!startResponse.success) {
+        throw new Error('Failed to start Smart Merge job');
+    }
+
+    // Follow until completion (no progress callback for legacy usage)
+    const result = await runJob('smart-merge', startResponse.jobId);
+    if (result.success) {
+        return result.result;
+    } else {
+        throw new Error(result.error);
+    }
+}
+
+/**
+ * Get Smart Merge configuration options
+ */
+export async function getSmartMergeConfig(): Promise<SmartMergeConfigResponse> {
+    return apiGet<SmartMergeConfigResponse>('/api/smart-merge/config');
+}
+
+// ═══════════════════════════════════════════════════════
+// JOB FUNCTIONS
+// ═══════════════════════════════════════════════════════
+
 /**
  * Poll job status
  */
@@ -530,100 +545,218 @@ export async function cancelJob(jobId: string): Promise<{ success: boolean; mess
 }
 
 /**
- * Poll a Smart Merge job until completion with progress callbacks
- * @param jobId - The job ID to poll
- * @param onProgress - Callback for progress updates (status message, progress percentage)
- * @param onTimeout - Callback when timeout warning is triggered (at 30 seconds)
- * @param pollInterval - Polling interval in milliseconds (default 2000ms)
- * @param maxDuration - Maximum duration in milliseconds before auto-cancel (default 180000ms = 3 minutes)
- * @returns The final SmartMergeResponse on success
+ * Options for following a job with `watchJobStatus`
  */
-export async function pollSmartMergeJob(
-    jobId: string,
-    onProgress?: (status: string, progress: number) => void,
-    onTimeout?: () => void,
-    pollInterval: number = 2000,
-    maxDuration: number = 180000 // 3 minutes
-): Promise<{ success: true; result: SmartMergeResponse } | { success: false; error: string; suggestion?: string; code?: string; cancelled?: boolean }> {
-    const startTime = Date.now();
-    let timeoutWarningShown = false;
-
-    while (true) {
-        const elapsed = Date.now() - startTime;
-
-        // Show timeout warning at 30 seconds
-        if (!timeoutWarningShown && elapsed >= 30000 && onTimeout) {
-            timeoutWarningShown = true;
-            onTimeout();
-        }
+export interface WatchJobOptions {
+    onUpdate?: (status: JobStatusResponse) => void;
+    signal?: AbortSignal;
+    pollInterval?: number;     // Initial polling interval in ms when falling back (default 2000ms)
+    maxPollInterval?: number;  // Backoff cap in ms (default 10000ms)
+    retries?: number;          // Transient errors in a row tolerated while polling (default 3)
+}
 
-        // Auto-cancel at 3 minutes
-        if (elapsed >= maxDuration) {
-            try {
-                await cancelJob(jobId);
-            } catch (cancelError) {
-                console.error('Error cancelling job:', cancelError);
-            }
-            return {
-                success: false,
-                error: 'Generation timed out after 3 minutes',
-                cancelled: true,
-            };
-        }
+// Network failures (fetch rejects with a TypeError), rate limits and server errors are worth
+// retrying; anything else, such as an unknown job, is not
+const isTransientError = (error: unknown) =>
+    error instanceof TypeError || (error instanceof Error && /API Error: (429|5\d\d)/.test(error.message));
 
-        const statusResponse = await pollJobStatus(jobId);
+const isFinalJobStatus = (status: JobStatusResponse) =>
+    status.isFailed || (status.isComplete && !!status.result);
 
-        // Update progress
-        if (onProgress) {
-            onProgress(statusResponse.status, statusResponse.progress);
-        }
+// AbortSignal.reason and throwIfAborted() aren't available on all supported browsers (Safari < 15.4)
+const abortError = () => new DOMException('Aborted', 'AbortError');
 
-        // Check for completion
-        if (statusResponse.isComplete && statusResponse.result) {
-            return { success: true, result: statusResponse.result as SmartMergeResponse };
+function waitForPoll(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
         }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
 
-        // Handle failure or cancellation
-        if (statusResponse.isFailed) {
-            return {
-                success: false,
-                error: statusResponse.error || 'Generation failed',
-                suggestion: statusResponse.errorDetails?.suggestion,
-                code: statusResponse.errorDetails?.code,
-                cancelled: statusResponse.cancelled,
-            };
+/**
+ * Follow a job until it completes or fails
+ * Listens to the job's Server-Sent Events stream (`/api/jobs/{id}/events`, one
+ * JobStatusResponse per event). If the stream can't be opened or drops before
+ * the job finishes, falls back to polling the status endpoint, backing off
+ * exponentially while the job's status doesn't change or the network is flaky.
+ * Rejects when `signal` aborts.
+ */
+export async function watchJobStatus(
+    jobId: string,
+    { onUpdate, signal, pollInterval = 2000, maxPollInterval = 10000, retries = 3 }: WatchJobOptions = {}
+): Promise<JobStatusResponse> {
+    let latest: JobStatusResponse | null = null;
+
+    try {
+        await apiEventStream(`/api/jobs/${jobId}/events`, (data) => {
+            let status: JobStatusResponse;
+            try {
+                status = JSON.parse(data);
+            } catch {
+                return;  // Not a status event
+            }
+            latest = status;
+            onUpdate?.(status);
+            return isFinalJobStatus(status);
+        }, { signal });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('Job event stream unavailable, falling back to polling:', error);
+    }
+
+    let interval = pollInterval;
+    let failures = 0;
+
+    while (!latest || !isFinalJobStatus(latest)) {
+        if (signal?.aborted) throw abortError();
+
+        try {
+            const status: JobStatusResponse = await pollJobStatus(jobId);
+            const changed = !latest || status.statusCode !== latest.statusCode || status.progress !== latest.progress;
+            failures = 0;
+            latest = status;
+            onUpdate?.(status);
+            if (isFinalJobStatus(status)) break;
+
+            // Check again soon after the job moves, less often while it sits still
+            interval = changed ? pollInterval : Math.min(interval * 2, maxPollInterval);
+        } catch (error) {
+            if (signal?.aborted || !isTransientError(error) || ++failures > retries) throw error;
+            interval = Math.min(interval * 2, maxPollInterval);
         }
 
-        // Wait before next poll
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        await waitForPoll(interval, signal);
     }
+
+    return latest;
 }
 
 /**
- * Generate a thumbnail using Smart Merge (AI intelligence layer)
- * @deprecated Use startSmartMergeJob + pollSmartMergeJob for progress tracking
+ * Final result of each kind of job
+ * New job types (upscale, background removal, ...) add their result type here
+ * and a label below, then run through `runJob` like the rest.
  */
-export async function smartMergeThumbnail(request: SmartMergeRequest): Promise<SmartMergeResponse> {
-    // Start the job
-    const startResponse = await startSmartMergeJob(request);
-    if (!startResponse.success) {
-        throw new Error('Failed to start Smart Merge job');
-    }
+export interface JobResultMap {
+    generation: GenerateThumbnailResponse;
+    'smart-merge': SmartMergeResponse;
+}
 
-    // Poll until completion (no progress callback for legacy usage)
-    const result = await pollSmartMergeJob(startResponse.jobId);
-    if (result.success) {
-        return result.result;
-    } else {
-        throw new Error(result.error);
-    }
+export type JobKind = keyof JobResultMap;
+
+/** Display name for each kind of job */
+export const JOB_KIND_LABELS: Record<JobKind, string> = {
+    generation: 'Generation',
+    'smart-merge': 'Smart Merge',
+};
+
+export type JobRunResult<K extends JobKind> =
+    | { success: true; result: JobResultMap[K] }
+    | { success: false; error: string; suggestion?: string; code?: string; cancelled?: boolean; timedOut?: boolean };
+
+/**
+ * Options for `runJob`
+ */
+export interface RunJobOptions {
+    onProgress?: (status: string, progress: number, statusCode: JobStatusResponse['statusCode']) => void;
+    onSlow?: () => void;    // Called once if the job is still running after `slowAfter`
+    signal?: AbortSignal;   // Abort to stop following the job; it is cancelled on the backend too
+    slowAfter?: number;     // Default 30 seconds
+    timeout?: number;       // Auto-cancel after this many ms (default 3 minutes) - see Model.jobTimeout
+    startedAt?: number;     // When the job was started, for one picked back up after a reload - the timeout counts from then
+    pollInterval?: number;  // Initial polling interval when the event stream is unavailable
+    retries?: number;       // Transient network errors in a row tolerated (default 3)
 }
 
+const DEFAULT_JOB_TIMEOUT = 180000; // 3 minutes
+const RESUMED_JOB_GRACE = 5000;     // Long enough to fetch the result of a job resumed past its timeout
+
 /**
- * Get Smart Merge configuration options
+ * Follow a started job until it finishes, reporting progress along the way
+ * Aborting `signal` or running past `timeout` cancels the job on the backend
+ * and resolves with `cancelled: true` instead of rejecting. Rejects only when
+ * the job's status can't be fetched at all.
+ * @param kind - Kind of job, which decides the result type
+ * @param jobId - The job ID returned when the job was started
  */
-export async function getSmartMergeConfig(): Promise<SmartMergeConfigResponse> {
-    return apiGet<SmartMergeConfigResponse>('/api/smart-merge/config');
+export async function runJob<K extends JobKind>(
+    kind: K,
+    jobId: string,
+    { onProgress, onSlow, signal, slowAfter = 30000, timeout = DEFAULT_JOB_TIMEOUT, startedAt, pollInterval, retries }: RunJobOptions = {}
+): Promise<JobRunResult<K>> {
+    const label = JOB_KIND_LABELS[kind];
+
+    // Aborted by the caller or by the timeout
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    let timedOut = false;
+    const slowTimer = onSlow ? setTimeout(onSlow, slowAfter) : undefined;
+    const remaining = startedAt === undefined
+        ? timeout
+        : Math.max(timeout - (Date.now() - startedAt), RESUMED_JOB_GRACE);
+    const timeoutTimer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, remaining);
+
+    let statusResponse: JobStatusResponse;
+    try {
+        statusResponse = await watchJobStatus(jobId, {
+            onUpdate: (status) => onProgress?.(status.status, status.progress, status.statusCode),
+            signal: controller.signal,
+            pollInterval,
+            retries,
+        });
+    } catch (error) {
+        if (!controller.signal.aborted) throw error;
+
+        try {
+            await cancelJob(jobId);
+        } catch (cancelError) {
+            console.error('Error cancelling job:', cancelError);
+        }
+
+        if (!timedOut) {
+            return { success: false, error: `${label} cancelled`, cancelled: true };
+        }
+        const minutes = Math.round(timeout / 60000);
+        return {
+            success: false,
+            error: `${label} timed out after ${minutes} minute${minutes === 1 ? '' : 's'}`,
+            cancelled: true,
+            timedOut: true,
+        };
+    } finally {
+        clearTimeout(slowTimer);
+        clearTimeout(timeoutTimer);
+        signal?.removeEventListener('abort', abort);
+    }
+
+    if (statusResponse.isComplete && statusResponse.result) {
+        return { success: true, result: statusResponse.result as JobResultMap[K] };
+    }
+
+    // Failed or cancelled on the backend
+    return {
+        success: false,
+        error: statusResponse.error || `${label} failed`,
+        suggestion: statusResponse.errorDetails?.suggestion,
+        code: statusResponse.errorDetails?.code,
+        cancelled: statusResponse.cancelled,
+    };
 }
 
 // ═══════════════════════════════════════════════════════
@@ -2,7 +2,19 @@
 // SECURITY: Only accesses user's own document using authenticated UID
 
 import { getFirestore } from '@/lib/firebase';
-import type { UserData, PlanInfo } from '@/types';
+import type { UserData, PlanInfo, PlanType, CreditTransaction, BillingHistoryEntry } from '@/types';
+import { SUBSCRIPTION_PLANS, SUBSCRIPTION_PLAN_ORDER } from '@/lib/constants/plans';
+
+/**
+ * Firestore Timestamp (or an ISO string written by older backends) to an ISO string
+ */
+function toIsoString(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  return '';
+}
 
 /**
  * Get user data from Firestore
@@ -41,8 +53,8 @@ export async function getUserData(uid: string): Promise<UserData | null> {
       toppedUpBalance: data.toppedUpBalance || 0,
       trialCredits: data.trialCredits || 0,
       hasTakenTour: data.hasTakenTour || false,
-      createdAt: data.createdAt || '',
-      updatedAt: data.updatedAt || '',
+      createdAt: toIsoString(data.createdAt),
+      updatedAt: toIsoString(data.updatedAt),
     };
   } catch (error) {
     console.error('Error fetching user data:', error);
@@ -94,8 +106,8 @@ export async function subscribeToUserData(
           toppedUpBalance: data.toppedUpBalance || 0,
           trialCredits: data.trialCredits || 0,
           hasTakenTour: data.hasTakenTour || false,
-          createdAt: data.createdAt || '',
-          updatedAt: data.updatedAt || '',
+          createdAt: toIsoString(data.createdAt),
+          updatedAt: toIsoString(data.updatedAt),
         });
       },
       (error) => {
@@ -112,6 +124,140 @@ export async function subscribeToUserData(
   }
 }
 
+// Ledger documents loaded per page; callers raise the limit to load older ones
+export const LEDGER_PAGE_SIZE = 500;
+
+function toCreditTransaction(id: string, data: Record<string, unknown>): CreditTransaction {
+  // Without an explicit type, debits are the negative amounts
+  const amount = Number(data.amount ?? data.credits ?? 0);
+  const type = data.type === 'debit' || data.type === 'refund' ? data.type : amount > 0 ? 'refund' : 'debit';
+  return {
+    id,
+    type,
+    credits: Math.abs(amount),
+    description: typeof data.description === 'string' ? data.description : '',
+    action: typeof data.action === 'string' ? data.action : undefined,
+    projectId: typeof data.projectId === 'string' ? data.projectId : undefined,
+    thumbnailId: typeof data.thumbnailId === 'string' ? data.thumbnailId : undefined,
+    thumbnailUrl: typeof data.thumbnailUrl === 'string' ? data.thumbnailUrl : undefined,
+    model: typeof data.model === 'string' ? data.model : undefined,
+    createdAt: toIsoString(data.createdAt),
+  };
+}
+
+function toBillingHistoryEntry(id: string, data: Record<string, unknown>): BillingHistoryEntry {
+  const type = data.type === 'subscription' || data.type === 'renewal' ? data.type : 'top-up';
+  return {
+    id,
+    type,
+    credits: Math.abs(Number(data.credits ?? 0)),
+    description: typeof data.description === 'string' ? data.description : '',
+    plan: typeof data.plan === 'string' ? data.plan as PlanType : undefined,
+    amountPaid: typeof data.amountPaid === 'number' ? data.amountPaid : undefined,
+    currency: typeof data.currency === 'string' ? data.currency : undefined,
+    invoiceUrl: typeof data.invoiceUrl === 'string' ? data.invoiceUrl : undefined,
+    createdAt: toIsoString(data.createdAt),
+  };
+}
+
+/**
+ * Subscribe to a user's credit transactions (spend and refunds), newest first
+ * SECURITY: Only reads the authenticated user's transactions subcollection
+ * @param uid - The authenticated user's UID (from Firebase Auth)
+ * @param callback - Called when transactions change; `hasMore` when older ones weren't loaded
+ * @param pageLimit - Most transactions to load
+ * @returns Unsubscribe function
+ */
+export async function subscribeToCreditTransactions(
+  uid: string,
+  callback: (transactions: CreditTransaction[], hasMore: boolean) => void,
+  pageLimit: number = LEDGER_PAGE_SIZE
+): Promise<() => void> {
+  if (!uid) {
+    console.error('subscribeToCreditTransactions: UID is required');
+    callback([], false);
+    return () => {};
+  }
+
+  try {
+    const { collection, query, orderBy, limit, onSnapshot } = await import('firebase/firestore');
+    const db = await getFirestore();
+
+    const transactionsQuery = query(
+      collection(db, 'users', uid, 'transactions'),
+      orderBy('createdAt', 'desc'),
+      limit(pageLimit)
+    );
+
+    return onSnapshot(
+      transactionsQuery,
+      (snapshot) => {
+        callback(
+          snapshot.docs.map(docSnap => toCreditTransaction(docSnap.id, docSnap.data())),
+          snapshot.size >= pageLimit
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to credit transactions:', error);
+        callback([], false);
+      }
+    );
+  } catch (error) {
+    console.error('Error setting up credit transactions subscription:', error);
+    callback([], false);
+    return () => {};
+  }
+}
+
+/**
+ * Subscribe to a user's billing history (subscriptions, renewals and top-ups), newest first
+ * SECURITY: Only reads the authenticated user's billingHistory subcollection
+ * @param uid - The authenticated user's UID (from Firebase Auth)
+ * @param callback - Called when billing history changes; `hasMore` when older entries weren't loaded
+ * @param pageLimit - Most entries to load
+ * @returns Unsubscribe function
+ */
+export async function subscribeToBillingHistory(
+  uid: string,
+  callback: (entries: BillingHistoryEntry[], hasMore: boolean) => void,
+  pageLimit: number = LEDGER_PAGE_SIZE
+): Promise<() => void> {
+  if (!uid) {
+    console.error('subscribeToBillingHistory: UID is required');
+    callback([], false);
+    return () => {};
+  }
+
+  try {
+    const { collection, query, orderBy, limit, onSnapshot } = await import('firebase/firestore');
+    const db = await getFirestore();
+
+    const historyQuery = query(
+      collection(db, 'users', uid, 'billingHistory'),
+      orderBy('createdAt', 'desc'),
+      limit(pageLimit)
+    );
+
+    return onSnapshot(
+      historyQuery,
+      (snapshot) => {
+        callback(
+          snapshot.docs.map(docSnap => toBillingHistoryEntry(docSnap.id, docSnap.data())),
+          snapshot.size >= pageLimit
+        );
+      },
+      (error) => {
+        console.error('Error subscribing to billing history:', error);
+        callback([], false);
+      }
+    );
+  } catch (error) {
+    console.error('Error setting up billing history subscription:', error);
+    callback([], false);
+    return () => {};
+  }
+}
+
 /**
  * Calculate total available credits for a user
  * @param userData - User data from Firestore
@@ -144,24 +290,23 @@ export function calculateDisplayCredits(userData: UserData | null): number {
 
 /**
  * Determine user's plan based on subscription credits
- * Creator: 1100 credits/month
- * Automation: 4500 credits/month
- * Free: 0 subscription credits
+ * Thresholds, names and monthly credits come from SUBSCRIPTION_PLANS
+ * (grantedCredits); anything below every threshold is Free.
  * @param userData - User data from Firestore
  * @returns Plan information
  */
 export function getUserPlan(userData: UserData | null): PlanInfo {
-  if (!userData) {
-    return { type: 'free', name: 'Free', monthlyCredits: 0 };
-  }
+  const subCredits = userData?.subscriptionCredits || 0;
 
-  const subCredits = userData.subscriptionCredits || 0;
+  // Highest tier whose threshold the balance reaches
+  const planId = [...SUBSCRIPTION_PLAN_ORDER]
+    .reverse()
+    .find(id => subCredits >= SUBSCRIPTION_PLANS[id].grantedCredits);
 
-  if (subCredits >= 4500) {
-    return { type: 'automation', name: 'Automation', monthlyCredits: 4500 };
-  } else if (subCredits >= 1100) {
-    return { type: 'creator', name: 'Creator', monthlyCredits: 1100 };
-  } else {
+  if (!planId) {
     return { type: 'free', name: 'Free', monthlyCredits: 0 };
   }
+
+  const { name, grantedCredits } = SUBSCRIPTION_PLANS[planId];
+  return { type: planId, name, monthlyCredits: grantedCredits };
 }
@@ -0,0 +1,164 @@
+import {
+    alignRects,
+    arrangeLayerOrder,
+    distributeRects,
+    restackElements,
+    tidyRects,
+    type AlignEdge,
+    type LayerArrangeMode,
+    type TidyItem,
+} from '@/lib/utils/canvasArrange';
+
+const rect = (id: string, x: number, y: number, width: number, height: number) => ({ id, x, y, width, height });
+const positions = (rects: { id: string; x: number; y: number }[]) =>
+    Object.fromEntries(rects.map(r => [r.id, [r.x, r.y]]));
+
+describe('alignRects', () => {
+    // Bounding box: x 0-300, y 0-200
+    const rects = [rect('a', 0, 0, 100, 50), rect('b', 200, 150, 100, 50), rect('c', 50, 100, 200, 100)];
+
+    it.each<[AlignEdge, Record<string, number[]>]>([
+        ['left', { a: [0, 0], b: [0, 150], c: [0, 100] }],
+        ['centerX', { a: [100, 0], b: [100, 150], c: [50, 100] }],
+        ['right', { a: [200, 0], b: [200, 150], c: [100, 100] }],
+        ['top', { a: [0, 0], b: [200, 0], c: [50, 0] }],
+        ['centerY', { a: [0, 75], b: [200, 75], c: [50, 50] }],
+        ['bottom', { a: [0, 150], b: [200, 150], c: [50, 100] }],
+    ])('aligns to %s', (edge, expected) => {
+        expect(positions(alignRects(rects, edge))).toEqual(expected);
+    });
+
+    it('leaves a single rect alone', () => {
+        const single = [rect('a', 10, 20, 100, 50)];
+        expect(alignRects(single, 'right')).toBe(single);
+    });
+
+    it('keeps sizes and other fields', () => {
+        const [aligned] = alignRects([{ ...rect('a', 0, 0, 100, 50), label: 'x' }, rect('b', 200, 0, 100, 50)], 'right');
+        expect(aligned).toEqual({ id: 'a', x: 200, y: 0, width: 100, height: 50, label: 'x' });
+    });
+});
+
+describe('distributeRects', () => {
+    it.each([
+        ['equal sizes', [rect('a', 0, 0, 100, 10), rect('b', 120, 0, 100, 10), rect('c', 400, 0, 100, 10)], { a: 0, b: 200, c: 400 }],
+        ['mixed sizes', [rect('a', 0, 0, 100, 10), rect('b', 50, 0, 50, 10), rect('c', 300, 0, 150, 10)], { a: 0, b: 175, c: 300 }],
+        ['unsorted input', [rect('c', 400, 0, 100, 10), rect('a', 0, 0, 100, 10), rect('b', 350, 0, 100, 10)], { a: 0, b: 200, c: 400 }],
+    ])('spaces %s with equal gaps, first and last in place', (_case, rects, expectedX) => {
+        const distributed = distributeRects(rects, 'horizontal');
+        expect(Object.fromEntries(distributed.map(r => [r.id, r.x]))).toEqual(expectedX);
+        // Only the distributed axis moves
+        expect(distributed.every(r => r.y === 0)).toBe(true);
+    });
+
+    it('distributes vertically by height', () => {
+        const distributed = distributeRects(
+            [rect('a', 0, 0, 10, 100), rect('b', 0, 10, 10, 50), rect('c', 0, 300, 10, 100)],
+            'vertical'
+        );
+        expect(Object.fromEntries(distributed.map(r => [r.id, r.y]))).toEqual({ a: 0, b: 175, c: 300 });
+    });
+
+    it('needs at least three rects', () => {
+        const two = [rect('a', 0, 0, 10, 10), rect('b', 100, 0, 10, 10)];
+        expect(distributeRects(two, 'horizontal')).toBe(two);
+    });
+});
+
+describe('tidyRects', () => {
+    const item = (id: string, overrides: Partial<TidyItem> = {}): TidyItem => ({
+        ...rect(id, 0, 0, 100, 100),
+        ...overrides,
+    });
+
+    it('lays items out in a near-square grid from the top-left of their bounds', () => {
+        const tidied = tidyRects([
+            item('a', { x: 500, y: 300, createdAt: '2025-01-01T00:00:00Z' }),
+            item('b', { x: 50, y: 900, createdAt: '2025-01-02T00:00:00Z' }),
+            item('c', { x: 700, y: 80, createdAt: '2025-01-03T00:00:00Z' }),
+        ], 'createdAt', 10);
+
+        // 3 items: 2 columns, 2 rows, starting at (50, 80)
+        expect(positions(tidied)).toEqual({ a: [50, 80], b: [160, 80], c: [50, 190] });
+    });
+
+    it('sizes columns and rows to their largest item', () => {
+        const tidied = tidyRects([
+            item('a', { width: 300, height: 50, createdAt: '2025-01-01T00:00:00Z' }),
+            item('b', { width: 100, height: 200, createdAt: '2025-01-02T00:00:00Z' }),
+            item('c', { width: 100, height: 100, createdAt: '2025-01-03T00:00:00Z' }),
+            item('d', { width: 100, height: 100, createdAt: '2025-01-04T00:00:00Z' }),
+        ], 'createdAt', 0);
+
+        expect(positions(tidied)).toEqual({ a: [0, 0], b: [300, 0], c: [0, 200], d: [300, 200] });
+    });
+
+    it('puts items without a timestamp last', () => {
+        const tidied = tidyRects([
+            item('unsynced'),
+            item('old', { createdAt: '2025-01-01T00:00:00Z' }),
+        ], 'createdAt');
+        expect(tidied.map(i => i.id)).toEqual(['old', 'unsynced']);
+    });
+
+    it('groups by model, with uploads and text last', () => {
+        const tidied = tidyRects([
+            item('upload'),
+            item('seedream-new', { model: 'seedream-4', createdAt: '2025-01-03T00:00:00Z' }),
+            item('flux', { model: 'flux-2-pro', createdAt: '2025-01-04T00:00:00Z' }),
+            item('seedream-old', { model: 'seedream-4', createdAt: '2025-01-01T00:00:00Z' }),
+        ], 'model');
+        expect(tidied.map(i => i.id)).toEqual(['flux', 'seedream-old', 'seedream-new', 'upload']);
+    });
+
+    it('handles no items', () => {
+        expect(tidyRects([], 'createdAt')).toEqual([]);
+    });
+});
+
+describe('arrangeLayerOrder', () => {
+    const order = ['a', 'b', 'c', 'd', 'e'];
+
+    it.each<[string, string[], LayerArrangeMode, string[]]>([
+        ['one step up', ['b'], 'forward', ['a', 'c', 'b', 'd', 'e']],
+        ['one step down', ['d'], 'backward', ['a', 'b', 'd', 'c', 'e']],
+        ['to the front', ['b', 'd'], 'front', ['a', 'c', 'e', 'b', 'd']],
+        ['to the back', ['b', 'd'], 'back', ['b', 'd', 'a', 'c', 'e']],
+        ['a block up together', ['b', 'c'], 'forward', ['a', 'd', 'b', 'c', 'e']],
+        ['a block down together', ['c', 'd'], 'backward', ['a', 'c', 'd', 'b', 'e']],
+        ['nothing past the top', ['e'], 'forward', order],
+        ['nothing past the bottom', ['a'], 'backward', order],
+        ['separate elements up one each', ['a', 'c'], 'forward', ['b', 'a', 'd', 'c', 'e']],
+    ])('moves %s', (_case, ids, mode, expected) => {
+        expect(arrangeLayerOrder(order, ids, mode)).toEqual(expected);
+    });
+
+    it('does not change the order it was given', () => {
+        const original = [...order];
+        arrangeLayerOrder(order, ['b'], 'forward');
+        expect(order).toEqual(original);
+    });
+});
+
+describe('restackElements', () => {
+    it('sorts into the order and numbers zIndex to match', () => {
+        const restacked = restackElements(
+            [{ id: 'a', zIndex: 0 }, { id: 'b', zIndex: 1 }, { id: 'c', zIndex: 2 }],
+            ['c', 'a', 'b']
+        );
+        expect(restacked).toEqual([{ id: 'c', zIndex: 0 }, { id: 'a', zIndex: 1 }, { id: 'b', zIndex: 2 }]);
+    });
+
+    it('keeps elements missing from the order on top', () => {
+        const restacked = restackElements([{ id: 'new' }, { id: 'a' }, { id: 'b' }], ['b', 'a']);
+        expect(restacked.map(el => el.id)).toEqual(['b', 'a', 'new']);
+    });
+
+    it('returns unchanged elements as the same objects', () => {
+        const a = { id: 'a', zIndex: 0 };
+        const b = { id: 'b', zIndex: 5 };
+        const [first, second] = restackElements([a, b], ['a', 'b']);
+        expect(first).toBe(a);
+        expect(second).not.toBe(b);
+    });
+});
@@ -0,0 +1,101 @@
+import {
+    centerElementsOn,
+    parseCanvasElements,
+    serializeCanvasElements,
+    type ClipboardCanvasElement,
+} from '@/lib/utils/canvasClipboard';
+import { DEFAULT_TEXT_LAYER_STYLE } from '@/lib/constants/textLayers';
+
+function element(overrides: Partial<ClipboardCanvasElement> = {}): ClipboardCanvasElement {
+    return {
+        type: 'generated',
+        src: 'https://firebasestorage.googleapis.com/thumb.png',
+        x: 0,
+        y: 0,
+        width: 320,
+        height: 180,
+        naturalWidth: 1280,
+        naturalHeight: 720,
+        ...overrides,
+    };
+}
+
+describe('serializeCanvasElements / parseCanvasElements', () => {
+    it('round-trips elements with their generation metadata', () => {
+        const elements = [
+            element({ prompt: 'A cat', model: 'nano-banana-pro', refImages: [{ type: 'url', previewUrl: 'https://ref' }] }),
+            element({ type: 'text', src: '', textLayer: { ...DEFAULT_TEXT_LAYER_STYLE, text: 'Hello' } }),
+        ];
+
+        expect(parseCanvasElements(serializeCanvasElements(elements, 'p1'))).toEqual({
+            kind: 'stumbnail/canvas-elements',
+            version: 1,
+            sourceProjectId: 'p1',
+            elements,
+        });
+    });
+
+    it('leaves out fields that are not part of the payload', () => {
+        const serialized = serializeCanvasElements([{ ...element(), id: 'local-id', status: 'complete' } as ClipboardCanvasElement], 'p1');
+        expect(serialized).not.toContain('local-id');
+    });
+
+    it.each([
+        ['empty text', ''],
+        ['plain text', 'https://youtube.com/watch?v=abc'],
+        ['broken JSON', '{"kind":'],
+        ['another app\'s JSON', '{"kind":"other","version":1,"elements":[]}'],
+        ['a newer version', JSON.stringify({ kind: 'stumbnail/canvas-elements', version: 2, elements: [element()] })],
+        ['no elements', JSON.stringify({ kind: 'stumbnail/canvas-elements', version: 1, elements: [] })],
+        ['elements that is not a list', JSON.stringify({ kind: 'stumbnail/canvas-elements', version: 1, elements: {} })],
+    ])('rejects %s', (_case, data) => {
+        expect(parseCanvasElements(data)).toBeNull();
+    });
+
+    it.each([
+        ['an unknown type', { type: 'video' }],
+        ['a missing src', { src: undefined }],
+        ['a non-numeric position', { x: 'left' }],
+        ['an infinite position', { y: Infinity }],
+        ['a zero width', { width: 0 }],
+        ['a negative height', { height: -5 }],
+        ['text without a text layer', { type: 'text' }],
+    ])('drops elements with %s and keeps the rest', (_case, overrides) => {
+        const data = JSON.stringify({
+            kind: 'stumbnail/canvas-elements',
+            version: 1,
+            sourceProjectId: 'p1',
+            elements: [element({ src: 'good' }), { ...element(), ...overrides }],
+        });
+        expect(parseCanvasElements(data)?.elements.map(el => el.src)).toEqual(['good']);
+    });
+
+    it('tolerates leading whitespace and a missing source project', () => {
+        const data = '  ' + JSON.stringify({ kind: 'stumbnail/canvas-elements', version: 1, elements: [element()] });
+        expect(parseCanvasElements(data)?.sourceProjectId).toBe('');
+    });
+});
+
+describe('centerElementsOn', () => {
+    it.each([
+        ['a single element', [element({ x: 100, y: 100, width: 200, height: 100 })], { x: 0, y: 0 }, [[-100, -50]]],
+        [
+            'a group, keeping its layout',
+            [element({ x: 0, y: 0, width: 100, height: 100 }), element({ x: 300, y: 100, width: 100, height: 100 })],
+            { x: 1000, y: 500 },
+            [[800, 400], [1100, 500]],
+        ],
+        ['onto its own centre', [element({ x: 10, y: 20, width: 100, height: 50 })], { x: 60, y: 45 }, [[10, 20]]],
+    ])('centres %s on the target', (_case, elements, target, expected) => {
+        expect(centerElementsOn(elements, target).map(el => [el.x, el.y])).toEqual(expected);
+    });
+
+    it('keeps sizes and other fields', () => {
+        const [moved] = centerElementsOn([element({ prompt: 'A cat' })], { x: 0, y: 0 });
+        expect(moved).toMatchObject({ width: 320, height: 180, prompt: 'A cat' });
+    });
+
+    it('handles no elements', () => {
+        expect(centerElementsOn([], { x: 0, y: 0 })).toEqual([]);
+    });
+});
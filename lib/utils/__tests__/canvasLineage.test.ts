@@ -0,0 +1,101 @@
+import {
+    findRefImageSource,
+    getLineageChain,
+    getLineageLinks,
+    getLineageTree,
+    type LineageElement,
+    type LineageLink,
+} from '@/lib/utils/canvasLineage';
+import type { RefImage } from '@/lib/services/thumbnailService';
+
+function element(id: string, overrides: Partial<LineageElement> = {}): LineageElement {
+    return { id, type: 'generated', src: `https://storage/${id}.png`, ...overrides };
+}
+
+const ref = (overrides: Partial<RefImage>): RefImage => ({ type: 'url', previewUrl: '', ...overrides });
+const link = (parentId: string, childId: string): LineageLink => ({ parentId, childId });
+
+describe('findRefImageSource', () => {
+    const elements = [
+        element('a', { backendId: 'backend-a' }),
+        element('b'),
+        element('yt', { type: 'youtube-thumbnail', src: 'https://i.ytimg.com/vi/abc123/maxresdefault.jpg' }),
+    ];
+
+    it.each([
+        ['canvas id', ref({ thumbnailId: 'b' }), 'b'],
+        ['backend id', ref({ thumbnailId: 'backend-a' }), 'a'],
+        ['storage URL', ref({ storageUrl: 'https://storage/b.png' }), 'b'],
+        ['preview URL', ref({ previewUrl: 'https://storage/a.png' }), 'a'],
+        ['YouTube video id', ref({ type: 'youtube', youtubeVideoId: 'abc123' }), 'yt'],
+        ['URL when the id is gone', ref({ thumbnailId: 'deleted', previewUrl: 'https://storage/b.png' }), 'b'],
+    ])('matches by %s', (_case, refImage, expected) => {
+        expect(findRefImageSource(refImage, elements)?.id).toBe(expected);
+    });
+
+    it('finds nothing for images not on the canvas', () => {
+        expect(findRefImageSource(ref({ previewUrl: 'https://elsewhere/x.png' }), elements)).toBeUndefined();
+    });
+
+    it('skips the excluded element', () => {
+        expect(findRefImageSource(ref({ thumbnailId: 'a' }), elements, 'a')).toBeUndefined();
+    });
+});
+
+describe('getLineageLinks', () => {
+    it('links each element to the canvas elements it was made from, once each', () => {
+        const links = getLineageLinks([
+            element('a'),
+            element('b', { refImages: [ref({ thumbnailId: 'a' }), ref({ previewUrl: 'https://storage/a.png' })] }),
+            element('c', { refImages: [ref({ thumbnailId: 'a' }), ref({ thumbnailId: 'b' })] }),
+            element('upload', { type: 'uploaded', refImages: [ref({ previewUrl: 'https://elsewhere/x.png' })] }),
+        ]);
+
+        expect(links).toEqual([link('a', 'b'), link('a', 'c'), link('b', 'c')]);
+    });
+
+    it('does not link an element to itself', () => {
+        expect(getLineageLinks([element('a', { refImages: [ref({ thumbnailId: 'a' })] })])).toEqual([]);
+    });
+});
+
+describe('getLineageTree', () => {
+    // a → b → d, a → c, and e made from both c and d
+    const links = [link('a', 'b'), link('a', 'c'), link('b', 'd'), link('c', 'e'), link('d', 'e')];
+
+    it('builds the tree from the oldest ancestor, listing each element once', () => {
+        expect(getLineageTree(links, 'd')).toEqual({
+            id: 'a',
+            children: [
+                { id: 'b', children: [{ id: 'd', children: [{ id: 'e', children: [] }] }] },
+                { id: 'c', children: [] },
+            ],
+        });
+    });
+
+    it('is null for an element without lineage', () => {
+        expect(getLineageTree(links, 'unrelated')).toBeNull();
+    });
+
+    it('stops when the links loop', () => {
+        const tree = getLineageTree([link('a', 'b'), link('b', 'a')], 'a');
+        expect(tree).toEqual({ id: 'b', children: [{ id: 'a', children: [] }] });
+    });
+});
+
+describe('getLineageChain', () => {
+    const links = [link('a', 'b'), link('b', 'c'), link('a', 'sibling'), link('c', 'd')];
+
+    it.each([
+        ['a middle element', 'b', ['a', 'b', 'c', 'd']],
+        ['the root', 'a', ['a', 'b', 'c', 'd', 'sibling']],
+        ['a leaf', 'sibling', ['a', 'sibling']],
+        ['an element without lineage', 'x', ['x']],
+    ])('covers ancestors and descendants of %s', (_case, id, expected) => {
+        expect([...getLineageChain(links, id)].sort()).toEqual(expected);
+    });
+
+    it('terminates on loops', () => {
+        expect([...getLineageChain([link('a', 'b'), link('b', 'a')], 'a')].sort()).toEqual(['a', 'b']);
+    });
+});
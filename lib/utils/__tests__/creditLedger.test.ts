@@ -0,0 +1,260 @@
+import {
+    buildLedger,
+    filterLedger,
+    getLedgerCutoff,
+    getMonthKey,
+    getMonthlyTotals,
+    getUnrecordedTopUpCredits,
+    ledgerToCsv,
+    type LedgerEntry,
+} from '@/lib/utils/creditLedger';
+import type { BillingHistoryEntry, CreditTransaction } from '@/types';
+
+// Local-time timestamps, so month bucketing doesn't depend on the test machine's time zone
+const at = (year: number, month: number, day: number, hour = 12) =>
+    new Date(year, month - 1, day, hour).toISOString();
+
+function transaction(overrides: Partial<CreditTransaction>): CreditTransaction {
+    return {
+        id: 't1',
+        type: 'debit',
+        credits: 10,
+        description: 'Generation',
+        createdAt: at(2025, 3, 10),
+        ...overrides,
+    };
+}
+
+function billing(overrides: Partial<BillingHistoryEntry>): BillingHistoryEntry {
+    return {
+        id: 'b1',
+        type: 'top-up',
+        credits: 500,
+        description: 'More credits',
+        createdAt: at(2025, 3, 1),
+        ...overrides,
+    };
+}
+
+function entry(overrides: Partial<LedgerEntry>): LedgerEntry {
+    return {
+        id: 'e1',
+        kind: 'debit',
+        credits: -10,
+        description: 'Generation',
+        createdAt: at(2025, 3, 10),
+        ...overrides,
+    };
+}
+
+describe('buildLedger', () => {
+    it('merges both lists newest first with signed credits', () => {
+        const ledger = buildLedger(
+            [
+                transaction({ id: 'a', type: 'debit', credits: 24, createdAt: at(2025, 3, 5), projectId: 'p1' }),
+                transaction({ id: 'b', type: 'refund', credits: 24, createdAt: at(2025, 3, 6) }),
+            ],
+            [billing({ id: 'c', type: 'renewal', credits: 1430, createdAt: at(2025, 3, 7), invoiceUrl: 'https://invoice' })]
+        );
+
+        expect(ledger.map(e => [e.id, e.kind, e.credits])).toEqual([
+            ['billing-c', 'renewal', 1430],
+            ['transaction-b', 'refund', 24],
+            ['transaction-a', 'debit', -24],
+        ]);
+        expect(ledger[2].projectId).toBe('p1');
+        expect(ledger[0].invoiceUrl).toBe('https://invoice');
+    });
+
+    it('keeps ids from the two collections apart', () => {
+        const ledger = buildLedger([transaction({ id: 'same' })], [billing({ id: 'same' })]);
+        expect(new Set(ledger.map(e => e.id)).size).toBe(2);
+    });
+
+    it('drops entries older than the point the ledger is complete from', () => {
+        const ledger = buildLedger(
+            [transaction({ id: 'new', createdAt: at(2025, 3, 10) }), transaction({ id: 'old', createdAt: at(2025, 1, 10) })],
+            [billing({ id: 'older', createdAt: at(2024, 12, 1) })],
+            at(2025, 2, 1)
+        );
+        expect(ledger.map(e => e.id)).toEqual(['transaction-new']);
+    });
+});
+
+describe('getLedgerCutoff', () => {
+    it('is null when nothing was cut off', () => {
+        expect(getLedgerCutoff([
+            { entries: [{ createdAt: at(2025, 1, 1) }], hasMore: false },
+            { entries: [], hasMore: false },
+        ])).toBeNull();
+    });
+
+    it('is the oldest loaded entry of a cut-off list', () => {
+        expect(getLedgerCutoff([
+            { entries: [{ createdAt: at(2025, 3, 1) }, { createdAt: at(2025, 2, 1) }], hasMore: true },
+            { entries: [{ createdAt: at(2024, 1, 1) }], hasMore: false },
+        ])).toBe(at(2025, 2, 1));
+    });
+
+    it('is the latest cutoff when both lists were cut off', () => {
+        expect(getLedgerCutoff([
+            { entries: [{ createdAt: at(2025, 3, 1) }, { createdAt: at(2025, 2, 1) }], hasMore: true },
+            { entries: [{ createdAt: at(2025, 3, 5) }, { createdAt: at(2025, 2, 20) }], hasMore: true },
+        ])).toBe(at(2025, 2, 20));
+    });
+
+    it('ignores entries without a timestamp', () => {
+        expect(getLedgerCutoff([
+            { entries: [{ createdAt: at(2025, 3, 1) }, { createdAt: '' }], hasMore: true },
+        ])).toBe(at(2025, 3, 1));
+    });
+});
+
+describe('getMonthKey', () => {
+    it('uses the local calendar month', () => {
+        expect(getMonthKey(at(2025, 1, 31, 23))).toBe('2025-01');
+        expect(getMonthKey(at(2025, 2, 1, 0))).toBe('2025-02');
+        expect(getMonthKey(at(2025, 12, 31, 23))).toBe('2025-12');
+    });
+});
+
+describe('filterLedger', () => {
+    const entries = [
+        entry({ id: 'spent-p1', credits: -10, projectId: 'p1', createdAt: at(2025, 3, 10) }),
+        entry({ id: 'spent-p2', credits: -20, projectId: 'p2', createdAt: at(2025, 2, 10) }),
+        entry({ id: 'refund-p1', kind: 'refund', credits: 10, projectId: 'p1', createdAt: at(2025, 3, 11) }),
+        entry({ id: 'top-up', kind: 'top-up', credits: 500, createdAt: at(2025, 2, 1) }),
+    ];
+    const ids = (filtered: LedgerEntry[]) => filtered.map(e => e.id);
+
+    it('filters by direction', () => {
+        expect(ids(filterLedger(entries, { direction: 'spent', projectId: null, month: null })))
+            .toEqual(['spent-p1', 'spent-p2']);
+        expect(ids(filterLedger(entries, { direction: 'added', projectId: null, month: null })))
+            .toEqual(['refund-p1', 'top-up']);
+    });
+
+    it('filters by project and month together', () => {
+        expect(ids(filterLedger(entries, { direction: 'all', projectId: 'p1', month: '2025-03' })))
+            .toEqual(['spent-p1', 'refund-p1']);
+        expect(ids(filterLedger(entries, { direction: 'all', projectId: 'p1', month: '2025-02' })))
+            .toEqual([]);
+    });
+
+    it('keeps everything without filters', () => {
+        expect(filterLedger(entries, { direction: 'all', projectId: null, month: null })).toHaveLength(4);
+    });
+});
+
+describe('getMonthlyTotals', () => {
+    it('buckets spend and additions by month, newest first', () => {
+        const totals = getMonthlyTotals([
+            entry({ credits: -10, createdAt: at(2025, 3, 1, 0) }),
+            entry({ credits: -15, createdAt: at(2025, 3, 31, 23) }),
+            entry({ credits: 500, kind: 'top-up', createdAt: at(2025, 3, 15) }),
+            entry({ credits: -5, createdAt: at(2025, 2, 28, 23) }),
+            entry({ credits: 1430, kind: 'renewal', createdAt: at(2024, 12, 31, 23) }),
+        ]);
+
+        expect(totals).toEqual([
+            { month: '2025-03', spent: 25, added: 500 },
+            { month: '2025-02', spent: 5, added: 0 },
+            { month: '2024-12', spent: 0, added: 1430 },
+        ]);
+    });
+
+    it('counts refunds as added', () => {
+        expect(getMonthlyTotals([entry({ kind: 'refund', credits: 24 })])).toEqual([
+            { month: '2025-03', spent: 0, added: 24 },
+        ]);
+    });
+
+    it('skips entries without a timestamp', () => {
+        expect(getMonthlyTotals([entry({ createdAt: '' })])).toEqual([]);
+    });
+
+    it('marks the month the loaded ledger starts in as partial', () => {
+        const totals = getMonthlyTotals([
+            entry({ createdAt: at(2025, 3, 10) }),
+            entry({ createdAt: at(2025, 2, 20) }),
+        ], at(2025, 2, 15));
+
+        expect(totals.map(total => [total.month, !!total.partial])).toEqual([
+            ['2025-03', false],
+            ['2025-02', true],
+        ]);
+    });
+});
+
+describe('getUnrecordedTopUpCredits', () => {
+    const topUps = [
+        entry({ kind: 'top-up', credits: 500 }),
+        entry({ kind: 'top-up', credits: 300 }),
+        entry({ kind: 'renewal', credits: 1430 }),
+    ];
+
+    it('is zero when recorded top-ups cover the balance', () => {
+        expect(getUnrecordedTopUpCredits(topUps, 800)).toBe(0);
+        expect(getUnrecordedTopUpCredits(topUps, 120)).toBe(0);
+    });
+
+    it('is the part of the balance no top-up accounts for', () => {
+        expect(getUnrecordedTopUpCredits(topUps, 1000)).toBe(200);
+        expect(getUnrecordedTopUpCredits([], 250)).toBe(250);
+    });
+
+    it('does not count renewals towards top-ups', () => {
+        expect(getUnrecordedTopUpCredits([entry({ kind: 'renewal', credits: 1430 })], 100)).toBe(100);
+    });
+});
+
+describe('ledgerToCsv', () => {
+    const getProjectName = (id: string) => ({ p1: 'My Project' } as Record<string, string>)[id];
+    const getModelName = (id: string) => id === 'nano-banana-pro' ? 'Nano Banana Pro' : id;
+
+    it('writes a header and one CRLF-separated row per entry', () => {
+        const csv = ledgerToCsv([
+            entry({
+                createdAt: '2025-03-10T12:00:00.000Z',
+                description: 'Generation',
+                projectId: 'p1',
+                thumbnailId: 'th1',
+                model: 'nano-banana-pro',
+                credits: -24,
+            }),
+            entry({ kind: 'top-up', description: 'More credits', credits: 500, createdAt: '2025-03-01T12:00:00.000Z' }),
+        ], getProjectName, getModelName);
+
+        expect(csv.split('\r\n')).toEqual([
+            'Date,Type,Description,Project,Project ID,Thumbnail ID,Model,Credits',
+            '2025-03-10T12:00:00.000Z,Spent,Generation,My Project,p1,th1,Nano Banana Pro,-24',
+            '2025-03-01T12:00:00.000Z,Top-up,More credits,,,,,500',
+        ]);
+    });
+
+    it('leaves the name of a deleted project empty but keeps its id', () => {
+        const [, row] = ledgerToCsv([entry({ projectId: 'gone' })], getProjectName, getModelName).split('\r\n');
+        expect(row.split(',').slice(3, 5)).toEqual(['', 'gone']);
+    });
+
+    it('quotes fields with commas, quotes and line breaks', () => {
+        const csv = ledgerToCsv([
+            entry({ description: 'A "bold" prompt, with commas\nand a newline', createdAt: '2025-03-10T12:00:00.000Z', credits: -1 }),
+        ], getProjectName, getModelName);
+
+        expect(csv.split('\r\n').slice(1).join('\r\n')).toBe(
+            '2025-03-10T12:00:00.000Z,Spent,"A ""bold"" prompt, with commas\nand a newline",,,,,-1'
+        );
+    });
+
+    it('quotes project names that need it', () => {
+        const csv = ledgerToCsv([entry({ projectId: 'p2' })], () => 'Gaming, Vlogs', getModelName);
+        expect(csv).toContain(',"Gaming, Vlogs",p2,');
+    });
+
+    it('writes only the header for an empty ledger', () => {
+        expect(ledgerToCsv([], getProjectName, getModelName)).toBe(
+            'Date,Type,Description,Project,Project ID,Thumbnail ID,Model,Credits'
+        );
+    });
+});
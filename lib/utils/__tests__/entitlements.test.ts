@@ -0,0 +1,56 @@
+import {
+    PLAN_ENTITLEMENTS,
+    canUseModel,
+    getEntitlements,
+    getLockedFeature,
+} from '@/lib/utils/entitlements';
+import type { Model } from '@/types';
+
+function model(overrides: Partial<Model>): Model {
+    return {
+        id: 'nano-banana',
+        name: 'Nano Banana',
+        description: '',
+        featureTag: '',
+        credits: 24,
+        logo: '',
+        ...overrides,
+    };
+}
+
+const standardModel = model({});
+const proModel = model({ id: 'nano-banana-pro', name: 'Nano Banana Pro', isPro: true });
+
+describe('getEntitlements', () => {
+    it('maps each plan to its limits', () => {
+        expect(getEntitlements('free')).toEqual({ proModels: false, privateProjects: false });
+        expect(getEntitlements('creator')).toEqual({ proModels: true, privateProjects: true });
+        expect(getEntitlements('automation')).toEqual({ proModels: true, privateProjects: true });
+    });
+});
+
+describe('canUseModel', () => {
+    it('lets every plan use standard models', () => {
+        for (const entitlements of Object.values(PLAN_ENTITLEMENTS)) {
+            expect(canUseModel(entitlements, standardModel)).toBe(true);
+        }
+    });
+
+    it('keeps pro models to paid plans', () => {
+        expect(canUseModel(getEntitlements('free'), proModel)).toBe(false);
+        expect(canUseModel(getEntitlements('creator'), proModel)).toBe(true);
+        expect(canUseModel(getEntitlements('automation'), proModel)).toBe(true);
+    });
+});
+
+describe('getLockedFeature', () => {
+    it('names the model the plan does not include', () => {
+        expect(getLockedFeature(getEntitlements('free'), proModel)).toBe('Nano Banana Pro');
+    });
+
+    it('is null when the model is allowed or missing', () => {
+        expect(getLockedFeature(getEntitlements('free'), standardModel)).toBeNull();
+        expect(getLockedFeature(getEntitlements('creator'), proModel)).toBeNull();
+        expect(getLockedFeature(getEntitlements('free'), null)).toBeNull();
+    });
+});
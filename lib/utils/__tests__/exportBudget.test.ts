@@ -0,0 +1,79 @@
+import { encodeWithinBudget, formatFileSize, getYouTubeByteBudget, type BudgetEncoder } from '@/lib/utils/exportBudget';
+import { EXPORT_BUDGET_QUALITY_RANGE, YOUTUBE_THUMBNAIL_PRESET } from '@/lib/constants/export';
+
+/** Stand-in encoder whose output size grows with pixel count and quality */
+function fakeEncoder(bytesPerPixelAtFullQuality: number) {
+    const calls: { width: number; height: number; quality: number }[] = [];
+    const encode: BudgetEncoder<string> = async (width, height, quality) => {
+        calls.push({ width, height, quality });
+        const size = Math.round(width * height * bytesPerPixelAtFullQuality * quality);
+        return { output: `${width}x${height}@${quality}`, size };
+    };
+    return { encode, calls };
+}
+
+describe('encodeWithinBudget', () => {
+    it('keeps the first attempt when it already fits', async () => {
+        const { encode, calls } = fakeEncoder(0.1);
+        const result = await encodeWithinBudget(encode, 1280, 720, 2 * 1024 * 1024);
+
+        expect(calls).toHaveLength(1);
+        expect(result).toMatchObject({
+            width: 1280,
+            height: 720,
+            quality: EXPORT_BUDGET_QUALITY_RANGE.max,
+            withinBudget: true,
+        });
+    });
+
+    it('lowers the quality before the size', async () => {
+        const { encode } = fakeEncoder(1);
+        const maxBytes = 1280 * 720 * 0.6;
+        const result = await encodeWithinBudget(encode, 1280, 720, maxBytes);
+
+        expect(result.width).toBe(1280);
+        expect(result.withinBudget).toBe(true);
+        expect(result.size).toBeLessThanOrEqual(maxBytes);
+        expect(result.quality).toBeGreaterThan(EXPORT_BUDGET_QUALITY_RANGE.min);
+        expect(result.quality).toBeLessThan(0.6);
+    });
+
+    it('scales down when even the lowest quality is too large', async () => {
+        const { encode } = fakeEncoder(1);
+        const maxBytes = 1280 * 720 * 0.3;
+        const result = await encodeWithinBudget(encode, 1280, 720, maxBytes);
+
+        expect(result.withinBudget).toBe(true);
+        expect(result.width).toBeLessThan(1280);
+        expect(result.width / result.height).toBeCloseTo(1280 / 720, 2);
+        expect(result.size).toBeLessThanOrEqual(maxBytes);
+    });
+
+    it('returns the smallest attempt, flagged, when nothing fits', async () => {
+        const { encode, calls } = fakeEncoder(1);
+        const result = await encodeWithinBudget(encode, 1280, 720, 1000);
+
+        expect(result.withinBudget).toBe(false);
+        expect(result).toMatchObject({ width: 640, height: 360, quality: EXPORT_BUDGET_QUALITY_RANGE.min });
+        expect(Math.min(...calls.map(call => call.width))).toBe(640);
+    });
+});
+
+describe('getYouTubeByteBudget', () => {
+    it('caps the budget at YouTube\'s upload limit', () => {
+        expect(getYouTubeByteBudget(5 * 1024 * 1024)).toBe(YOUTUBE_THUMBNAIL_PRESET.maxBytes);
+        expect(getYouTubeByteBudget(YOUTUBE_THUMBNAIL_PRESET.maxBytes)).toBe(YOUTUBE_THUMBNAIL_PRESET.maxBytes);
+    });
+
+    it('keeps smaller budgets', () => {
+        expect(getYouTubeByteBudget(500 * 1024)).toBe(500 * 1024);
+    });
+});
+
+describe('formatFileSize', () => {
+    it('picks the unit by size', () => {
+        expect(formatFileSize(512)).toBe('512 B');
+        expect(formatFileSize(1536)).toBe('2 KB');
+        expect(formatFileSize(1.42 * 1024 * 1024)).toBe('1.42 MB');
+    });
+});
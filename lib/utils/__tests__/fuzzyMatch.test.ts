@@ -0,0 +1,40 @@
+import { fuzzyMatch } from '@/lib/utils/fuzzyMatch';
+
+describe('fuzzyMatch', () => {
+    it.each([
+        ['zi', 'Zoom in', [0, 5]],
+        ['ZOOM', 'zoom in', [0, 1, 2, 3]],
+        ['z i', 'Zoom in', [0, 5]],
+        ['fit', 'Fit to view', [0, 1, 2]],
+    ])('matches %p in %p at %p', (query, text, indices) => {
+        expect(fuzzyMatch(query, text)?.indices).toEqual(indices);
+    });
+
+    it('returns null when the characters are not all there in order', () => {
+        expect(fuzzyMatch('xyz', 'Zoom in')).toBeNull();
+        expect(fuzzyMatch('niz', 'Zoom in')).toBeNull();
+    });
+
+    it('matches everything with an empty query', () => {
+        expect(fuzzyMatch('  ', 'Zoom in')).toEqual({ score: 0, indices: [] });
+    });
+
+    it('ranks word starts and consecutive runs higher', () => {
+        const zoomIn = fuzzyMatch('zi', 'Zoom in')!;
+        const resize = fuzzyMatch('zi', 'Resize image')!;
+        expect(zoomIn.score).toBeGreaterThan(resize.score);
+    });
+
+    it('gives code point indices that line up with Array.from(text)', () => {
+        const text = '🎨 Paint 🖌️ brush';
+        const match = fuzzyMatch('pb', text)!;
+        const chars = Array.from(text);
+        expect(match.indices.map(i => chars[i])).toEqual(['P', 'b']);
+    });
+
+    it('keeps indices aligned when lowercasing changes the length', () => {
+        // 'İ' lowercases to two UTF-16 units
+        const match = fuzzyMatch('s', 'İstanbul')!;
+        expect(Array.from('İstanbul')[match.indices[0]]).toBe('s');
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment jsdom
+ */
+import {
+    addPendingDeletes,
+    getPendingDeletes,
+    reconcilePendingDeletes,
+    removePendingDeletes,
+} from '@/lib/utils/pendingDeletes';
+
+const KEY = 'stumbnail_pending_deletes_p1';
+
+beforeEach(() => localStorage.clear());
+
+describe('addPendingDeletes / removePendingDeletes', () => {
+    it('keeps each id once, in the order added', () => {
+        addPendingDeletes('p1', ['a', 'b']);
+        addPendingDeletes('p1', ['b', 'c']);
+        expect(getPendingDeletes('p1')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('keeps projects apart', () => {
+        addPendingDeletes('p1', ['a']);
+        addPendingDeletes('p2', ['b']);
+        expect(getPendingDeletes('p1')).toEqual(['a']);
+        expect(getPendingDeletes('p2')).toEqual(['b']);
+    });
+
+    it('drops the storage key once nothing is pending', () => {
+        addPendingDeletes('p1', ['a', 'b']);
+        removePendingDeletes('p1', ['a']);
+        expect(getPendingDeletes('p1')).toEqual(['b']);
+        removePendingDeletes('p1', ['b']);
+        expect(localStorage.getItem(KEY)).toBeNull();
+    });
+});
+
+describe('getPendingDeletes', () => {
+    it.each([
+        ['nothing stored', null, []],
+        ['corrupt JSON', '{not json', []],
+        ['not a list', '{"a":1}', []],
+        ['non-string entries', '["a",1,null,"b"]', ['a', 'b']],
+    ])('copes with %s', (_case, stored, expected) => {
+        if (stored !== null) localStorage.setItem(KEY, stored);
+        expect(getPendingDeletes('p1')).toEqual(expected);
+    });
+});
+
+describe('reconcilePendingDeletes', () => {
+    const thumbnails = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+    it('leaves the thumbnails alone when nothing is pending', () => {
+        expect(reconcilePendingDeletes('p1', thumbnails)).toEqual({ retry: [], visible: thumbnails });
+    });
+
+    it('hides pending thumbnails and returns them to delete again', () => {
+        addPendingDeletes('p1', ['b']);
+        expect(reconcilePendingDeletes('p1', thumbnails)).toEqual({
+            retry: ['b'],
+            visible: [{ id: 'a' }, { id: 'c' }],
+        });
+        // Still pending until the retried delete succeeds
+        expect(getPendingDeletes('p1')).toEqual(['b']);
+    });
+
+    it('forgets deletes the backend already made', () => {
+        addPendingDeletes('p1', ['b', 'gone']);
+        expect(reconcilePendingDeletes('p1', thumbnails).retry).toEqual(['b']);
+        expect(getPendingDeletes('p1')).toEqual(['b']);
+    });
+});
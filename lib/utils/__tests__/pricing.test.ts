@@ -0,0 +1,100 @@
+import { getImageCredits, estimateCost, canAfford } from '@/lib/utils/pricing';
+import type { Model } from '@/types';
+
+function model(overrides: Partial<Model>): Model {
+    return {
+        id: 'test-model',
+        name: 'Test Model',
+        description: '',
+        featureTag: '',
+        logo: '',
+        credits: 10,
+        ...overrides,
+    };
+}
+
+const resolutionModel = model({
+    credits: 24,
+    creditsByOption: { '4K': 48 },
+    options: { aspectRatios: ['16:9'], resolutions: ['1K', '2K', '4K'] },
+    defaultResolution: '2K',
+});
+
+describe('getImageCredits', () => {
+    it('charges the model credits when it has no priced options', () => {
+        expect(getImageCredits(model({ credits: 7 }))).toBe(7);
+    });
+
+    it('is free without a model', () => {
+        expect(getImageCredits(undefined)).toBe(0);
+        expect(getImageCredits(null, { resolution: '4K' })).toBe(0);
+    });
+
+    it('charges the listed price for a selected option', () => {
+        expect(getImageCredits(resolutionModel, { resolution: '4K' })).toBe(48);
+    });
+
+    it('falls back to the model credits for options without a listed price', () => {
+        expect(getImageCredits(resolutionModel, { resolution: '1K' })).toBe(24);
+    });
+
+    it('prices the default option when none is selected', () => {
+        const pricedDefault = model({ ...resolutionModel, defaultResolution: '4K' });
+        expect(getImageCredits(pricedDefault)).toBe(48);
+    });
+
+    it('ignores options the model does not offer', () => {
+        expect(getImageCredits(resolutionModel, { size: '4K', megapixels: '4K' })).toBe(24);
+    });
+
+    it('charges the most expensive of several selected options', () => {
+        const multiOption = model({
+            credits: 5,
+            creditsByOption: { large: 8, '4': 12 },
+            options: { aspectRatios: ['16:9'], sizes: ['small', 'large'], megapixels: ['1', '4'] },
+        });
+        expect(getImageCredits(multiOption, { size: 'large', megapixels: '4' })).toBe(12);
+        expect(getImageCredits(multiOption, { size: 'large', megapixels: '1' })).toBe(8);
+    });
+});
+
+describe('estimateCost', () => {
+    it('multiplies prompt generations by the thumbnail count', () => {
+        expect(estimateCost({ model: resolutionModel, action: 'prompt', resolution: '4K', count: 3 })).toBe(144);
+    });
+
+    it('charges at least one image for a prompt generation', () => {
+        expect(estimateCost({ model: resolutionModel, action: 'prompt', count: 0 })).toBe(24);
+    });
+
+    it('charges modifications for a single image regardless of count', () => {
+        expect(estimateCost({ model: resolutionModel, action: 'modify', count: 4 })).toBe(24);
+    });
+
+    it('uses the backend Smart Merge cost once it is known', () => {
+        expect(estimateCost({ model: resolutionModel, action: 'smart-merge', resolution: '4K', smartMergeCost: 30 })).toBe(30);
+        expect(estimateCost({ model: resolutionModel, action: 'smart-merge', smartMergeCost: 0 })).toBe(0);
+    });
+
+    it('estimates Smart Merge from the model until the backend cost has loaded', () => {
+        expect(estimateCost({ model: resolutionModel, action: 'smart-merge', resolution: '4K' })).toBe(48);
+    });
+
+    it('ignores the Smart Merge cost for other actions', () => {
+        expect(estimateCost({ model: resolutionModel, action: 'prompt', count: 2, smartMergeCost: 30 })).toBe(48);
+    });
+});
+
+describe('canAfford', () => {
+    it('allows spending exactly the balance', () => {
+        expect(canAfford(24, 24)).toBe(true);
+    });
+
+    it('blocks costs above the balance', () => {
+        expect(canAfford(25, 24)).toBe(false);
+    });
+
+    it('allows free actions on an empty balance', () => {
+        expect(canAfford(0, 0)).toBe(true);
+    });
+});
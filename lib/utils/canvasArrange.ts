@@ -0,0 +1,154 @@
+/**
+ * Canvas arrange utilities - align, distribute, tidy and restack a set of elements
+ *
+ * All functions are pure: they take element rects (or layer order) and return
+ * them with new positions, leaving persistence to the caller.
+ */
+
+export interface ArrangeRect {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type AlignEdge = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type TidySortKey = 'createdAt' | 'model';
+export type LayerArrangeMode = 'forward' | 'backward' | 'front' | 'back';
+
+export interface TidyItem extends ArrangeRect {
+    createdAt?: string;
+    model?: string;
+}
+
+// Space between cells when tidying into a grid
+export const TIDY_GRID_GAP = 40;
+
+/**
+ * Align rects to an edge or center of their combined bounding box
+ */
+export function alignRects<T extends ArrangeRect>(rects: T[], edge: AlignEdge): T[] {
+    if (rects.length < 2) return rects;
+
+    const minX = Math.min(...rects.map(r => r.x));
+    const minY = Math.min(...rects.map(r => r.y));
+    const maxX = Math.max(...rects.map(r => r.x + r.width));
+    const maxY = Math.max(...rects.map(r => r.y + r.height));
+
+    return rects.map(r => {
+        switch (edge) {
+            case 'left': return { ...r, x: minX };
+            case 'centerX': return { ...r, x: (minX + maxX) / 2 - r.width / 2 };
+            case 'right': return { ...r, x: maxX - r.width };
+            case 'top': return { ...r, y: minY };
+            case 'centerY': return { ...r, y: (minY + maxY) / 2 - r.height / 2 };
+            case 'bottom': return { ...r, y: maxY - r.height };
+        }
+    });
+}
+
+/**
+ * Space rects evenly along an axis, keeping the first and last in place
+ * Gaps between neighbours are made equal, so mixed sizes still line up neatly.
+ */
+export function distributeRects<T extends ArrangeRect>(rects: T[], axis: DistributeAxis): T[] {
+    if (rects.length < 3) return rects;
+
+    const pos = axis === 'horizontal' ? 'x' : 'y';
+    const size = axis === 'horizontal' ? 'width' : 'height';
+    const sorted = [...rects].sort((a, b) => a[pos] - b[pos]);
+
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const span = last[pos] + last[size] - first[pos];
+    const totalSize = sorted.reduce((sum, r) => sum + r[size], 0);
+    const gap = (span - totalSize) / (sorted.length - 1);
+
+    let cursor = first[pos];
+    return sorted.map(r => {
+        const next = { ...r, [pos]: cursor };
+        cursor += r[size] + gap;
+        return next;
+    });
+}
+
+/**
+ * Lay rects out in a near-square grid, ordered by creation time or model
+ * The grid starts at the top-left of the rects' current bounding box.
+ */
+export function tidyRects<T extends TidyItem>(items: T[], sortKey: TidySortKey, gap: number = TIDY_GRID_GAP): T[] {
+    if (items.length === 0) return items;
+
+    // Elements without a timestamp haven't synced yet - they are the newest
+    const time = (item: T) => item.createdAt ? Date.parse(item.createdAt) : Number.POSITIVE_INFINITY;
+    const byTime = (a: T, b: T) => time(a) === time(b) ? 0 : time(a) - time(b);
+    // Group by model (uploads and text have none and go last), oldest first within a group
+    const byModel = (a: T, b: T) => {
+        if (!a.model !== !b.model) return a.model ? -1 : 1;
+        return (a.model || '').localeCompare(b.model || '') || byTime(a, b);
+    };
+    const sorted = [...items].sort(sortKey === 'model' ? byModel : byTime);
+
+    const columns = Math.ceil(Math.sqrt(sorted.length));
+    const rows = Math.ceil(sorted.length / columns);
+
+    // Each column is as wide as its widest item, each row as tall as its tallest
+    const columnWidths = Array.from({ length: columns }, (_, col) =>
+        Math.max(0, ...sorted.filter((_, i) => i % columns === col).map(item => item.width))
+    );
+    const rowHeights = Array.from({ length: rows }, (_, row) =>
+        Math.max(0, ...sorted.slice(row * columns, (row + 1) * columns).map(item => item.height))
+    );
+
+    const originX = Math.min(...items.map(item => item.x));
+    const originY = Math.min(...items.map(item => item.y));
+
+    return sorted.map((item, i) => {
+        const col = i % columns;
+        const row = Math.floor(i / columns);
+        const cellX = originX + columnWidths.slice(0, col).reduce((sum, w) => sum + w + gap, 0);
+        const cellY = originY + rowHeights.slice(0, row).reduce((sum, h) => sum + h + gap, 0);
+        return { ...item, x: cellX, y: cellY };
+    });
+}
+
+/**
+ * Layer order (bottom to top) after moving `ids` one step or all the way up or down
+ * Moving elements keep their order among themselves.
+ */
+export function arrangeLayerOrder(order: string[], ids: string[], mode: LayerArrangeMode): string[] {
+    const isMoving = (id: string) => ids.includes(id);
+
+    if (mode === 'front') {
+        return [...order.filter(id => !isMoving(id)), ...order.filter(isMoving)];
+    }
+    if (mode === 'back') {
+        return [...order.filter(isMoving), ...order.filter(id => !isMoving(id))];
+    }
+
+    // Swap each moving element with its unselected neighbour, walking away from the edge it moves toward
+    const next = [...order];
+    const step = mode === 'forward' ? 1 : -1;
+    const start = mode === 'forward' ? next.length - 2 : 1;
+    for (let i = start; i >= 0 && i < next.length; i -= step) {
+        if (isMoving(next[i]) && !isMoving(next[i + step])) {
+            [next[i], next[i + step]] = [next[i + step], next[i]];
+        }
+    }
+    return next;
+}
+
+/**
+ * Sort elements into `order` (bottom to top) and number their zIndex to match
+ * Elements missing from `order` (added since it was recorded) stay on top.
+ * Unchanged elements are returned as the same objects.
+ */
+export function restackElements<T extends { id: string; zIndex?: number }>(elements: T[], order: string[]): T[] {
+    const rank = new Map(order.map((id, i) => [id, i]));
+    const sorted = [...elements].sort((a, b) =>
+        (rank.get(a.id) ?? order.length) - (rank.get(b.id) ?? order.length)
+    );
+    return sorted.map((el, zIndex) => el.zIndex === zIndex ? el : { ...el, zIndex });
+}
@@ -0,0 +1,130 @@
+/**
+ * Canvas clipboard - serialize canvas elements so they can be pasted into
+ * another project, in this tab or any other
+ *
+ * The payload is written both as a custom MIME type and as plain text: the
+ * custom type survives copy events in browsers that support it, the plain
+ * text covers the async Clipboard API (context menu copy) and browsers that
+ * drop custom types.
+ */
+
+import type { RefImage, TextLayerStyle } from '@/lib/services/thumbnailService';
+
+export const CANVAS_CLIPBOARD_TYPE = 'application/x-stumbnail-elements';
+
+const PAYLOAD_KIND = 'stumbnail/canvas-elements';
+const PAYLOAD_VERSION = 1;
+
+const ELEMENT_TYPES = ['image', 'youtube-thumbnail', 'generated', 'uploaded', 'smart-merge', 'edit', 'text'] as const;
+
+/**
+ * Everything needed to recreate an element in another project
+ */
+export interface ClipboardCanvasElement {
+    type: typeof ELEMENT_TYPES[number];
+    src: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    naturalWidth: number;
+    naturalHeight: number;
+    prompt?: string;
+    model?: string;
+    refImages?: RefImage[];
+    textLayer?: TextLayerStyle;
+}
+
+export interface CanvasClipboardPayload {
+    kind: typeof PAYLOAD_KIND;
+    version: typeof PAYLOAD_VERSION;
+    sourceProjectId: string;
+    elements: ClipboardCanvasElement[];
+}
+
+export function serializeCanvasElements(elements: ClipboardCanvasElement[], sourceProjectId: string): string {
+    const payload: CanvasClipboardPayload = {
+        kind: PAYLOAD_KIND,
+        version: PAYLOAD_VERSION,
+        sourceProjectId,
+        elements: elements.map(el => ({
+            type: el.type,
+            src: el.src,
+            x: el.x,
+            y: el.y,
+            width: el.width,
+            height: el.height,
+            naturalWidth: el.naturalWidth,
+            naturalHeight: el.naturalHeight,
+            prompt: el.prompt,
+            model: el.model,
+            refImages: el.refImages,
+            textLayer: el.textLayer,
+        })),
+    };
+    return JSON.stringify(payload);
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+function isClipboardElement(value: unknown): value is ClipboardCanvasElement {
+    if (!value || typeof value !== 'object') return false;
+    const el = value as Record<string, unknown>;
+    return ELEMENT_TYPES.includes(el.type as ClipboardCanvasElement['type']) &&
+        typeof el.src === 'string' &&
+        isFiniteNumber(el.x) && isFiniteNumber(el.y) &&
+        isFiniteNumber(el.width) && el.width > 0 &&
+        isFiniteNumber(el.height) && el.height > 0 &&
+        isFiniteNumber(el.naturalWidth) && isFiniteNumber(el.naturalHeight) &&
+        (el.type !== 'text' || (!!el.textLayer && typeof el.textLayer === 'object'));
+}
+
+/**
+ * Read a payload written by `serializeCanvasElements`
+ * Returns null for anything else, so arbitrary pasted text can be tried as a link instead.
+ */
+export function parseCanvasElements(data: string): CanvasClipboardPayload | null {
+    if (!data || !data.trimStart().startsWith('{')) return null;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(data);
+    } catch {
+        return null;
+    }
+
+    const payload = parsed as Partial<CanvasClipboardPayload> | null;
+    if (!payload || payload.kind !== PAYLOAD_KIND || payload.version !== PAYLOAD_VERSION) return null;
+    if (!Array.isArray(payload.elements)) return null;
+
+    const elements = payload.elements.filter(isClipboardElement);
+    if (elements.length === 0) return null;
+
+    return {
+        kind: PAYLOAD_KIND,
+        version: PAYLOAD_VERSION,
+        sourceProjectId: typeof payload.sourceProjectId === 'string' ? payload.sourceProjectId : '',
+        elements,
+    };
+}
+
+/**
+ * Move elements so their combined bounding box is centred on `target`,
+ * keeping their layout relative to each other
+ */
+export function centerElementsOn<T extends { x: number; y: number; width: number; height: number }>(
+    elements: T[],
+    target: { x: number; y: number }
+): T[] {
+    if (elements.length === 0) return elements;
+
+    const minX = Math.min(...elements.map(el => el.x));
+    const minY = Math.min(...elements.map(el => el.y));
+    const maxX = Math.max(...elements.map(el => el.x + el.width));
+    const maxY = Math.max(...elements.map(el => el.y + el.height));
+    const offsetX = target.x - (minX + maxX) / 2;
+    const offsetY = target.y - (minY + maxY) / 2;
+
+    return elements.map(el => ({ ...el, x: el.x + offsetX, y: el.y + offsetY }));
+}
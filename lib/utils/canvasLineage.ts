@@ -0,0 +1,124 @@
+/**
+ * Canvas lineage utilities - which elements were generated or edited from which
+ *
+ * A generated element lists its inputs in `refImages`. Inputs taken from the
+ * canvas carry the source `thumbnailId`; older ones are matched by image URL.
+ */
+
+import type { RefImage } from '@/lib/services/thumbnailService';
+
+export interface LineageElement {
+    id: string;
+    backendId?: string;
+    type: string;
+    src: string;
+    refImages?: RefImage[];
+}
+
+export interface LineageLink {
+    parentId: string;
+    childId: string;
+}
+
+export interface LineageTreeNode {
+    id: string;
+    children: LineageTreeNode[];
+}
+
+/**
+ * Element a reference image was taken from, when it is still on the canvas
+ */
+export function findRefImageSource<T extends LineageElement>(ref: RefImage, elements: T[], excludeId?: string): T | undefined {
+    const candidates = elements.filter(el => el.id !== excludeId);
+
+    if (ref.thumbnailId) {
+        const byId = candidates.find(el => el.id === ref.thumbnailId || el.backendId === ref.thumbnailId);
+        if (byId) return byId;
+    }
+
+    return candidates.find(el => !!el.src && (
+        el.src === ref.storageUrl ||
+        el.src === ref.previewUrl ||
+        (!!ref.youtubeVideoId && el.type === 'youtube-thumbnail' && el.src.includes(`/vi/${ref.youtubeVideoId}/`))
+    ));
+}
+
+/**
+ * Parent → child links for every element made from another element on the canvas
+ */
+export function getLineageLinks(elements: LineageElement[]): LineageLink[] {
+    const links: LineageLink[] = [];
+
+    elements.forEach(child => {
+        const parentIds = new Set<string>();
+        (child.refImages || []).forEach(ref => {
+            const parent = findRefImageSource(ref, elements, child.id);
+            if (parent && !parentIds.has(parent.id)) {
+                parentIds.add(parent.id);
+                links.push({ parentId: parent.id, childId: child.id });
+            }
+        });
+    });
+
+    return links;
+}
+
+/**
+ * Tree of everything derived from the oldest ancestor of `elementId`
+ * Elements with several sources follow their first one up. Returns null when
+ * the element has no lineage.
+ */
+export function getLineageTree(links: LineageLink[], elementId: string): LineageTreeNode | null {
+    const parentsOf = new Map<string, string[]>();
+    const childrenOf = new Map<string, string[]>();
+    links.forEach(({ parentId, childId }) => {
+        parentsOf.set(childId, [...(parentsOf.get(childId) || []), parentId]);
+        childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), childId]);
+    });
+
+    if (!parentsOf.has(elementId) && !childrenOf.has(elementId)) return null;
+
+    // Walk up to the root, stopping if the links loop back on themselves
+    let rootId = elementId;
+    const ancestors = new Set([rootId]);
+    for (;;) {
+        const parentId = parentsOf.get(rootId)?.[0];
+        if (!parentId || ancestors.has(parentId)) break;
+        ancestors.add(parentId);
+        rootId = parentId;
+    }
+
+    // Each element appears once, under the first parent that reaches it
+    const visited = new Set<string>();
+    const build = (id: string): LineageTreeNode => {
+        visited.add(id);
+        const children: LineageTreeNode[] = [];
+        (childrenOf.get(id) || []).forEach(childId => {
+            if (!visited.has(childId)) children.push(build(childId));
+        });
+        return { id, children };
+    };
+
+    return build(rootId);
+}
+
+/**
+ * IDs of an element's ancestors and descendants, itself included
+ */
+export function getLineageChain(links: LineageLink[], elementId: string): Set<string> {
+    const chain = new Set([elementId]);
+
+    const walk = (id: string, direction: 'up' | 'down') => {
+        links.forEach(({ parentId, childId }) => {
+            const [from, to] = direction === 'up' ? [childId, parentId] : [parentId, childId];
+            if (from === id && !chain.has(to)) {
+                chain.add(to);
+                walk(to, direction);
+            }
+        });
+    };
+    walk(elementId, 'up');
+    walk(elementId, 'down');
+
+    return chain;
+}
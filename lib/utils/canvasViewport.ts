@@ -0,0 +1,79 @@
+/**
+ * Canvas viewport utilities - visibility culling and zoom-dependent image previews
+ */
+
+export interface CanvasRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface ViewportTransform {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+// Extra area rendered around the visible region, as a fraction of the container size,
+// so elements are already mounted when a pan or zoom reveals them
+export const CULLING_OVERSCAN = 0.5;
+
+// Widths the Next.js image optimizer serves (imageSizes/deviceSizes in next.config.js)
+const PREVIEW_WIDTHS = [256, 640, 1080];
+
+// Hosts allowed by images.remotePatterns in next.config.js
+const PREVIEW_HOSTS = [
+    'lh3.googleusercontent.com',
+    'img.youtube.com',
+    'i.ytimg.com',
+    'storage.googleapis.com',
+    'firebasestorage.googleapis.com',
+];
+
+/**
+ * Canvas-space rectangle covered by the container at the given viewport, grown by `overscan`
+ */
+export function getVisibleCanvasRect(
+    viewport: ViewportTransform,
+    containerWidth: number,
+    containerHeight: number,
+    overscan: number = CULLING_OVERSCAN
+): CanvasRect {
+    const marginX = containerWidth * overscan;
+    const marginY = containerHeight * overscan;
+    return {
+        x: (-viewport.x - marginX) / viewport.zoom,
+        y: (-viewport.y - marginY) / viewport.zoom,
+        width: (containerWidth + marginX * 2) / viewport.zoom,
+        height: (containerHeight + marginY * 2) / viewport.zoom,
+    };
+}
+
+export function rectsIntersect(a: CanvasRect, b: CanvasRect): boolean {
+    return a.x < b.x + b.width &&
+        a.x + a.width > b.x &&
+        a.y < b.y + b.height &&
+        a.y + a.height > b.y;
+}
+
+/**
+ * Smaller copy of a remote image to show while it is drawn small on screen
+ * Returns null when the full image should be used: it is displayed large enough
+ * to need it, or its source can't go through the image optimizer.
+ * @param displayWidth - Width on screen in device pixels
+ */
+export function getPreviewImageUrl(src: string, displayWidth: number): string | null {
+    const previewWidth = PREVIEW_WIDTHS.find(width => width >= displayWidth);
+    if (!previewWidth) return null;
+
+    let url: URL;
+    try {
+        url = new URL(src);
+    } catch {
+        return null;
+    }
+    if (url.protocol !== 'https:' || !PREVIEW_HOSTS.includes(url.hostname)) return null;
+
+    return `/_next/image?url=${encodeURIComponent(src)}&w=${previewWidth}&q=70`;
+}
@@ -0,0 +1,177 @@
+/**
+ * Credit ledger - credit transactions and billing history merged into one timeline
+ */
+
+import type { BillingHistoryEntry, CreditTransaction } from '@/types';
+
+export type LedgerEntryKind = 'debit' | 'refund' | BillingHistoryEntry['type'];
+
+export interface LedgerEntry {
+    id: string;
+    kind: LedgerEntryKind;
+    credits: number;       // Signed - negative for credits spent
+    description: string;
+    action?: string;
+    projectId?: string;
+    thumbnailId?: string;
+    thumbnailUrl?: string;
+    model?: string;
+    invoiceUrl?: string;
+    createdAt: string;
+}
+
+export interface LedgerFilter {
+    direction: 'all' | 'spent' | 'added';
+    projectId: string | null;  // null = every project
+    month: string | null;      // YYYY-MM, null = all time
+}
+
+export interface MonthlyTotal {
+    month: string;  // YYYY-MM
+    spent: number;  // Positive
+    added: number;
+    partial?: boolean;  // Older entries for this month haven't been loaded
+}
+
+export interface LedgerPage {
+    entries: { createdAt: string }[];
+    hasMore: boolean;  // Cut off at the page limit
+}
+
+// Names used in the table and the CSV export
+export const LEDGER_KIND_LABELS: Record<LedgerEntryKind, string> = {
+    debit: 'Spent',
+    refund: 'Refund',
+    subscription: 'Subscription',
+    renewal: 'Renewal',
+    'top-up': 'Top-up',
+};
+
+/**
+ * Point in time the merged ledger is complete from
+ * A list cut off at its page limit may be missing anything older than its oldest
+ * loaded entry, so the ledger only covers everything back to the latest of those.
+ * @returns ISO timestamp, or null if no list was cut off
+ */
+export function getLedgerCutoff(pages: LedgerPage[]): string | null {
+    let cutoff: string | null = null;
+    for (const page of pages) {
+        if (!page.hasMore) continue;
+        const oldest = page.entries.reduce<string | null>(
+            (min, entry) => entry.createdAt && (!min || entry.createdAt < min) ? entry.createdAt : min,
+            null
+        );
+        if (oldest && (!cutoff || oldest > cutoff)) cutoff = oldest;
+    }
+    return cutoff;
+}
+
+/**
+ * Merge transactions and billing history, newest first
+ * @param completeSince - Drop entries older than this (see getLedgerCutoff), so a partly loaded list doesn't skew totals
+ */
+export function buildLedger(
+    transactions: CreditTransaction[],
+    billingHistory: BillingHistoryEntry[],
+    completeSince: string | null = null
+): LedgerEntry[] {
+    const entries: LedgerEntry[] = [
+        ...transactions.map(({ type, credits, ...transaction }) => ({
+            ...transaction,
+            id: `transaction-${transaction.id}`,
+            kind: type,
+            credits: type === 'debit' ? -credits : credits,
+        })),
+        ...billingHistory.map(entry => ({
+            id: `billing-${entry.id}`,
+            kind: entry.type,
+            credits: entry.credits,
+            description: entry.description,
+            invoiceUrl: entry.invoiceUrl,
+            createdAt: entry.createdAt,
+        })),
+    ];
+    return entries
+        .filter(entry => !completeSince || entry.createdAt >= completeSince)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Calendar month (local time) of an ISO timestamp, as YYYY-MM
+ */
+export function getMonthKey(isoString: string): string {
+    const date = new Date(isoString);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function filterLedger(entries: LedgerEntry[], filter: LedgerFilter): LedgerEntry[] {
+    return entries.filter(entry =>
+        (filter.direction === 'all' || (filter.direction === 'spent') === (entry.credits < 0)) &&
+        (!filter.projectId || entry.projectId === filter.projectId) &&
+        (!filter.month || getMonthKey(entry.createdAt) === filter.month)
+    );
+}
+
+/**
+ * Credits spent and added per month, newest month first
+ * @param completeSince - Where the loaded ledger starts; that month is marked partial
+ */
+export function getMonthlyTotals(entries: LedgerEntry[], completeSince: string | null = null): MonthlyTotal[] {
+    const partialMonth = completeSince ? getMonthKey(completeSince) : null;
+    const totals = new Map<string, MonthlyTotal>();
+    for (const entry of entries) {
+        if (!entry.createdAt) continue;
+        const month = getMonthKey(entry.createdAt);
+        const total: MonthlyTotal = totals.get(month) ?? { month, spent: 0, added: 0 };
+        if (month === partialMonth) total.partial = true;
+        if (entry.credits < 0) {
+            total.spent -= entry.credits;
+        } else {
+            total.added += entry.credits;
+        }
+        totals.set(month, total);
+    }
+    return Array.from(totals.values()).sort((a, b) => b.month.localeCompare(a.month));
+}
+
+/**
+ * Top-up credits in the balance that no top-up in the ledger accounts for,
+ * such as purchases made before billing history was kept
+ * Spending and refunds never take the balance above what was topped up, so
+ * anything over the recorded top-ups is missing from the history.
+ */
+export function getUnrecordedTopUpCredits(entries: LedgerEntry[], toppedUpBalance: number): number {
+    const recorded = entries
+        .filter(entry => entry.kind === 'top-up')
+        .reduce((sum, entry) => sum + entry.credits, 0);
+    return Math.max(0, toppedUpBalance - recorded);
+}
+
+function escapeCsvField(value: string | number): string {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV of ledger entries, one row per entry
+ * @param getProjectName - Name for a project id, when the project still exists
+ * @param getModelName - Display name for a model id
+ */
+export function ledgerToCsv(
+    entries: LedgerEntry[],
+    getProjectName: (projectId: string) => string | undefined,
+    getModelName: (modelId: string) => string
+): string {
+    const header = ['Date', 'Type', 'Description', 'Project', 'Project ID', 'Thumbnail ID', 'Model', 'Credits'];
+    const rows = entries.map(entry => [
+        entry.createdAt,
+        LEDGER_KIND_LABELS[entry.kind],
+        entry.description,
+        entry.projectId ? getProjectName(entry.projectId) ?? '' : '',
+        entry.projectId ?? '',
+        entry.thumbnailId ?? '',
+        entry.model ? getModelName(entry.model) : '',
+        entry.credits,
+    ]);
+    return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
@@ -0,0 +1,49 @@
+/**
+ * Plan entitlements - which features and options each plan includes
+ *
+ * Components gate features by reading these instead of checking the plan type
+ * themselves. Credits are a separate check (see pricing.ts): an entitlement
+ * says whether something is available at all, the balance whether it's affordable.
+ *
+ * Only what the plans actually differ in is gated here. Smart Merge, batch size,
+ * every resolution and every export format come with all plans, as PricingModal lists.
+ */
+
+import type { Model, PlanType } from '@/types';
+
+export interface PlanEntitlements {
+    proModels: boolean;            // Models flagged isPro
+    privateProjects: boolean;
+}
+
+export const PLAN_ENTITLEMENTS: Record<PlanType, PlanEntitlements> = {
+    free: {
+        proModels: false,
+        privateProjects: false,
+    },
+    creator: {
+        proModels: true,
+        privateProjects: true,
+    },
+    automation: {
+        proModels: true,
+        privateProjects: true,
+    },
+};
+
+export function getEntitlements(plan: PlanType): PlanEntitlements {
+    return PLAN_ENTITLEMENTS[plan];
+}
+
+export function canUseModel(entitlements: PlanEntitlements, model: Model): boolean {
+    return !model.isPro || entitlements.proModels;
+}
+
+/**
+ * What stops the plan from generating with this model, if anything
+ * @returns Display name of the locked model, or null if it's allowed
+ */
+export function getLockedFeature(entitlements: PlanEntitlements, model: Model | null | undefined): string | null {
+    return model && !canUseModel(entitlements, model) ? model.name : null;
+}
+
@@ -0,0 +1,96 @@
+/**
+ * Byte budget encoding - shared by the canvas export (browser) and /api/download (server)
+ *
+ * Re-encodes an image at decreasing quality, and then decreasing size, until
+ * the output fits the budget. The encoder is injected so the same search runs
+ * on top of canvas.toBlob or sharp.
+ */
+
+import { EXPORT_BUDGET_QUALITY_RANGE, EXPORT_BUDGET_MIN_SCALE, YOUTUBE_THUMBNAIL_PRESET } from '@/lib/constants/export';
+
+/**
+ * Encode the source at the given size and quality (0-1)
+ */
+export type BudgetEncoder<T> = (width: number, height: number, quality: number) => Promise<{ output: T; size: number }>;
+
+export interface BudgetEncodeResult<T> {
+    output: T;
+    size: number;          // Bytes
+    width: number;
+    height: number;
+    quality: number;
+    withinBudget: boolean; // False if even the smallest attempt was too large
+}
+
+// Binary search steps per size - quality differences below ~2% aren't visible
+const QUALITY_SEARCH_STEPS = 5;
+const SCALE_STEP = 0.1;
+
+/**
+ * Find the highest quality (at the largest size) that fits under maxBytes
+ * @param width - Target width at full scale
+ * @param height - Target height at full scale
+ */
+export async function encodeWithinBudget<T>(
+    encode: BudgetEncoder<T>,
+    width: number,
+    height: number,
+    maxBytes: number
+): Promise<BudgetEncodeResult<T>> {
+    const { min: minQuality, max: maxQuality } = EXPORT_BUDGET_QUALITY_RANGE;
+    let smallest: BudgetEncodeResult<T> | null = null;
+
+    for (let scale = 1; scale >= EXPORT_BUDGET_MIN_SCALE - 1e-6; scale -= SCALE_STEP) {
+        const w = Math.round(width * scale);
+        const h = Math.round(height * scale);
+        const attempt = async (quality: number): Promise<BudgetEncodeResult<T>> => {
+            const { output, size } = await encode(w, h, quality);
+            return { output, size, width: w, height: h, quality, withinBudget: size <= maxBytes };
+        };
+
+        // Most images fit at high quality - try that first
+        const best = await attempt(maxQuality);
+        if (best.withinBudget) return best;
+
+        const worst = await attempt(minQuality);
+        if (!worst.withinBudget) {
+            if (!smallest || worst.size < smallest.size) smallest = worst;
+            continue;
+        }
+
+        // Highest quality that still fits lies between min and max
+        let fitting = worst;
+        let lo = minQuality;
+        let hi = maxQuality;
+        for (let i = 0; i < QUALITY_SEARCH_STEPS; i++) {
+            const mid = (lo + hi) / 2;
+            const result = await attempt(mid);
+            if (result.withinBudget) {
+                fitting = result;
+                lo = mid;
+            } else {
+                hi = mid;
+            }
+        }
+        return fitting;
+    }
+
+    // Nothing fit - return the smallest file we managed
+    return smallest!;
+}
+
+/**
+ * Budget for the YouTube preset - never above YouTube's upload limit
+ */
+export function getYouTubeByteBudget(maxBytes: number): number {
+    return Math.min(maxBytes, YOUTUBE_THUMBNAIL_PRESET.maxBytes);
+}
+
+/**
+ * Format a byte count for display (e.g. "1.42 MB")
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
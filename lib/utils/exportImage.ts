@@ -0,0 +1,273 @@
+/**
+ * Export image utilities - flatten canvas elements into a single image
+ *
+ * Remote images are fetched through the /api/download proxy so the export
+ * canvas is never tainted by cross-origin pixels.
+ */
+
+import type { TextLayerStyle } from '@/lib/services/thumbnailService';
+import { drawTextLayer } from './textLayer';
+import { encodeWithinBudget, type BudgetEncodeResult } from './exportBudget';
+
+/**
+ * A canvas element to be drawn into an export (canvas coordinates)
+ */
+export interface CompositeLayer {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    naturalHeight: number;
+    src: string;
+    textLayer?: TextLayerStyle;
+}
+
+/**
+ * Rectangular region of the canvas (canvas coordinates)
+ */
+export interface ExportRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface RenderRegionOptions {
+    /** Fill color behind the layers (transparent if omitted) */
+    background?: string;
+    /** Reused between renders so previews don't refetch every image */
+    imageCache?: Map<string, Promise<ImageBitmap>>;
+}
+
+/**
+ * Route remote images through the download proxy; local blob/data URLs are used as-is
+ */
+export function getProxiedImageUrl(src: string): string {
+    if (src.startsWith('blob:') || src.startsWith('data:')) {
+        return src;
+    }
+    return `/api/download?url=${encodeURIComponent(src)}`;
+}
+
+/**
+ * Fetch an image's bytes through the download proxy
+ */
+export async function fetchImageBlob(src: string): Promise<Blob> {
+    const response = await fetch(getProxiedImageUrl(src));
+    if (!response.ok) {
+        throw new Error(`Failed to load image (HTTP ${response.status})`);
+    }
+    return response.blob();
+}
+
+/**
+ * Re-encode an image blob as PNG (the only image type every clipboard accepts)
+ */
+export async function toPngBlob(blob: Blob): Promise<Blob> {
+    if (blob.type === 'image/png') return blob;
+
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvasToBlob(canvas, 'image/png');
+}
+
+/**
+ * Fetch and decode an image for drawing
+ */
+async function loadImage(src: string): Promise<ImageBitmap> {
+    return createImageBitmap(await fetchImageBlob(src));
+}
+
+function loadImageCached(src: string, cache?: Map<string, Promise<ImageBitmap>>): Promise<ImageBitmap> {
+    if (!cache) return loadImage(src);
+
+    let pending = cache.get(src);
+    if (!pending) {
+        pending = loadImage(src);
+        // Don't cache failures so a retry can succeed
+        pending.catch(() => cache.delete(src));
+        cache.set(src, pending);
+    }
+    return pending;
+}
+
+/**
+ * Bounding box of a set of layers
+ */
+export function getLayersBounds(layers: ExportRegion[]): ExportRegion | null {
+    if (layers.length === 0) return null;
+
+    const minX = Math.min(...layers.map(l => l.x));
+    const minY = Math.min(...layers.map(l => l.y));
+    const maxX = Math.max(...layers.map(l => l.x + l.width));
+    const maxY = Math.max(...layers.map(l => l.y + l.height));
+
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Adjust a region to an aspect ratio around its center
+ * @param mode - 'contain' grows the region so everything stays visible, 'cover' crops it
+ */
+export function fitRegionToAspect(region: ExportRegion, aspectRatio: number, mode: 'contain' | 'cover'): ExportRegion {
+    const regionAspect = region.width / region.height;
+    const widen = mode === 'contain' ? regionAspect < aspectRatio : regionAspect > aspectRatio;
+
+    const width = widen ? region.height * aspectRatio : region.width;
+    const height = widen ? region.height : region.width / aspectRatio;
+
+    return {
+        x: region.x + (region.width - width) / 2,
+        y: region.y + (region.height - height) / 2,
+        width,
+        height,
+    };
+}
+
+/**
+ * Layers that overlap a region
+ */
+export function getLayersInRegion<T extends ExportRegion>(layers: T[], region: ExportRegion): T[] {
+    return layers.filter(layer =>
+        layer.x < region.x + region.width &&
+        layer.x + layer.width > region.x &&
+        layer.y < region.y + region.height &&
+        layer.y + layer.height > region.y
+    );
+}
+
+/**
+ * Draw an image into a box with object-fit: cover, matching the on-canvas rendering
+ */
+function drawImageCover(ctx: CanvasRenderingContext2D, image: ImageBitmap, box: ExportRegion): void {
+    const imageAspect = image.width / image.height;
+    const boxAspect = box.width / box.height;
+
+    let sx = 0;
+    let sy = 0;
+    let sWidth = image.width;
+    let sHeight = image.height;
+
+    if (imageAspect > boxAspect) {
+        sWidth = image.height * boxAspect;
+        sx = (image.width - sWidth) / 2;
+    } else if (imageAspect < boxAspect) {
+        sHeight = image.width / boxAspect;
+        sy = (image.height - sHeight) / 2;
+    }
+
+    ctx.drawImage(image, sx, sy, sWidth, sHeight, box.x, box.y, box.width, box.height);
+}
+
+/**
+ * Render every layer overlapping a region into a canvas of the given output size
+ * Layers are drawn in array order (first = bottom).
+ */
+export async function renderRegion(
+    layers: CompositeLayer[],
+    region: ExportRegion,
+    outputWidth: number,
+    outputHeight: number,
+    options: RenderRegionOptions = {}
+): Promise<HTMLCanvasElement> {
+    const visibleLayers = getLayersInRegion(layers, region);
+
+    // Load all images up front so drawing happens in one pass, in order
+    const images = await Promise.all(visibleLayers.map(layer =>
+        layer.textLayer || !layer.src ? Promise.resolve(null) : loadImageCached(layer.src, options.imageCache)
+    ));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(outputWidth);
+    canvas.height = Math.round(outputHeight);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas is not supported in this browser');
+    }
+
+    if (options.background) {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.scale(canvas.width / region.width, canvas.height / region.height);
+    ctx.translate(-region.x, -region.y);
+
+    visibleLayers.forEach((layer, i) => {
+        if (layer.textLayer) {
+            drawTextLayer(ctx, layer.textLayer, layer);
+            return;
+        }
+        const image = images[i];
+        if (image) {
+            drawImageCover(ctx, image, layer);
+        }
+    });
+
+    return canvas;
+}
+
+/**
+ * Encode a canvas
+ * @param quality - 0-1, only used by lossy formats
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('Failed to encode image'));
+            }
+        }, mimeType, quality);
+    });
+}
+
+/**
+ * Encode a canvas as large and sharp as possible while staying under maxBytes
+ * The canvas is downscaled only if the lowest quality is still too large.
+ */
+export function encodeCanvasWithinBudget(
+    canvas: HTMLCanvasElement,
+    mimeType: string,
+    maxBytes: number
+): Promise<BudgetEncodeResult<Blob>> {
+    // Quality steps at the same size reuse the resized canvas
+    let resized: HTMLCanvasElement = canvas;
+
+    return encodeWithinBudget<Blob>(async (width, height, quality) => {
+        if (resized.width !== width || resized.height !== height) {
+            resized = document.createElement('canvas');
+            resized.width = width;
+            resized.height = height;
+            const ctx = resized.getContext('2d');
+            if (!ctx) {
+                throw new Error('Canvas is not supported in this browser');
+            }
+            ctx.imageSmoothingEnabled = true;
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(canvas, 0, 0, width, height);
+        }
+        const blob = await canvasToBlob(resized, mimeType, quality);
+        return { output: blob, size: blob.size };
+    }, canvas.width, canvas.height, maxBytes);
+}
+
+/**
+ * Trigger a browser download for a blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => window.URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,48 @@
+/**
+ * Fuzzy matching for search-as-you-type lists (command palette)
+ */
+
+export interface FuzzyMatch {
+    score: number;
+    indices: number[];  // Code point positions in the text that matched the query, for highlighting
+}
+
+/**
+ * Match query characters in order anywhere in text (case-insensitive)
+ * Consecutive runs and matches at word starts score higher, so "zi" ranks
+ * "Zoom in" above "Resize image". Returns null when the query doesn't match.
+ * Works in code points rather than UTF-16 units, so indices line up with
+ * `Array.from(text)` even when the text has emoji in it.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+    const needle = Array.from(query.replace(/\s+/g, ''), char => char.toLowerCase());
+    if (needle.length === 0) return { score: 0, indices: [] };
+
+    // Lowercased one code point at a time - lowercasing the whole string can change its length
+    const haystack = Array.from(text, char => char.toLowerCase());
+    const indices: number[] = [];
+    let score = 0;
+    let searchFrom = 0;
+
+    for (const char of needle) {
+        const index = haystack.indexOf(char, searchFrom);
+        if (index === -1) return null;
+
+        const previous = indices[indices.length - 1];
+        const isWordStart = index === 0 || /[\s\-_/.:]/.test(haystack[index - 1]);
+
+        score += 1;
+        if (previous !== undefined && index === previous + 1) score += 4;
+        if (isWordStart) score += 3;
+        // Small penalty for skipped characters keeps tighter matches on top
+        score -= Math.min(index - searchFrom, 5) * 0.1;
+
+        indices.push(index);
+        searchFrom = index + 1;
+    }
+
+    // Prefer shorter texts when the match quality is otherwise equal
+    score -= haystack.length * 0.01;
+
+    return { score, indices };
+}
@@ -0,0 +1,48 @@
+/**
+ * Generation request utilities - seeds and the copy of a request kept on each thumbnail
+ */
+
+import type { GenerateThumbnailRequest, RefImage, StoredGenerationRequest } from '@/lib/services/thumbnailService';
+
+// Largest seed every model accepts (signed 32-bit)
+export const MAX_SEED = 2147483647;
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+/**
+ * The part of a generation request worth storing on its thumbnail
+ * Inline (base64) image inputs are too large to keep, so when there were any they are
+ * replaced by the reference images the backend stored for the thumbnail.
+ */
+export function toStoredGenerationRequest(
+    request: GenerateThumbnailRequest,
+    refImages: RefImage[] = []
+): StoredGenerationRequest {
+    const inputs = request.imageInput === undefined
+        ? []
+        : Array.isArray(request.imageInput) ? request.imageInput : [request.imageInput];
+    const urlInputs = inputs.filter(input => !input.startsWith('data:'));
+
+    const imageInput = urlInputs.length < inputs.length
+        ? Array.from(new Set([
+            ...urlInputs,
+            ...refImages.map(ref => ref.storageUrl || ref.previewUrl).filter(Boolean),
+        ]))
+        : urlInputs;
+
+    return {
+        prompt: request.prompt,
+        gen_model: request.gen_model,
+        aspectRatio: request.aspectRatio,
+        resolution: request.resolution,
+        size: request.size,
+        seed: request.seed,
+        type: request.type,
+        enable_intelligence: request.enable_intelligence,
+        category: request.category,
+        tone: request.tone,
+        ...(imageInput.length > 0 && { imageInput }),
+    };
+}
@@ -0,0 +1,63 @@
+/**
+ * Pending deletes - backend thumbnails removed from the canvas whose delete is
+ * still held back so it can be undone
+ *
+ * The list is kept per project in localStorage. If the page goes away before
+ * the deferred delete reaches the backend, the next load of the project hides
+ * these thumbnails and sends the deletes again.
+ */
+
+const STORAGE_KEY_PREFIX = 'stumbnail_pending_deletes_';
+
+export function getPendingDeletes(projectId: string): string[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY_PREFIX + projectId);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+function savePendingDeletes(projectId: string, ids: string[]): void {
+    try {
+        if (ids.length > 0) {
+            localStorage.setItem(STORAGE_KEY_PREFIX + projectId, JSON.stringify(ids));
+        } else {
+            localStorage.removeItem(STORAGE_KEY_PREFIX + projectId);
+        }
+    } catch (error) {
+        console.error('Failed to persist pending deletes:', error);
+    }
+}
+
+export function addPendingDeletes(projectId: string, ids: string[]): void {
+    if (ids.length === 0) return;
+    const pending = getPendingDeletes(projectId);
+    savePendingDeletes(projectId, [...pending, ...ids.filter(id => !pending.includes(id))]);
+}
+
+export function removePendingDeletes(projectId: string, ids: string[]): void {
+    if (ids.length === 0) return;
+    savePendingDeletes(projectId, getPendingDeletes(projectId).filter(id => !ids.includes(id)));
+}
+
+/**
+ * Check the pending deletes against the thumbnails the backend still has.
+ * Deletes that went through are forgotten; the rest are returned to send again,
+ * along with the thumbnails to show (everything not waiting to be deleted).
+ */
+export function reconcilePendingDeletes<T extends { id: string }>(
+    projectId: string,
+    thumbnails: T[]
+): { retry: string[]; visible: T[] } {
+    const pending = getPendingDeletes(projectId);
+    if (pending.length === 0) return { retry: [], visible: thumbnails };
+
+    const stillPresent = new Set(thumbnails.map(thumb => thumb.id));
+    removePendingDeletes(projectId, pending.filter(id => !stillPresent.has(id)));
+    return {
+        retry: pending.filter(id => stillPresent.has(id)),
+        visible: thumbnails.filter(thumb => !pending.includes(thumb.id)),
+    };
+}
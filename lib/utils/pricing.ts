@@ -0,0 +1,59 @@
+/**
+ * Credit pricing - what a pending generation will cost, worked out before it is started
+ *
+ * Mirrors the backend's charges: each image costs the model's credits, or the
+ * price listed in creditsByOption for the selected resolution, size or megapixels.
+ * Smart Merge is charged at the backend's configured credit_cost when it is known.
+ */
+
+import type { Model } from '@/types';
+
+export type PricedAction = 'prompt' | 'modify' | 'smart-merge';
+
+export interface CostEstimateInput {
+    model: Model | null | undefined;
+    action: PricedAction;
+    resolution?: string;
+    size?: string;
+    megapixels?: string;
+    count?: number;  // Thumbnails per request - only prompt generations make more than one
+    smartMergeCost?: number;  // getSmartMergeConfig().credit_cost; the model estimate is used until it has loaded
+}
+
+/**
+ * Credits for a single image from the model with the given options
+ * Options the model doesn't offer are ignored; missing ones fall back to the model defaults.
+ */
+export function getImageCredits(
+    model: Model | null | undefined,
+    options: Pick<CostEstimateInput, 'resolution' | 'size' | 'megapixels'> = {}
+): number {
+    if (!model) return 0;
+
+    const selected = [
+        model.options?.resolutions && (options.resolution || model.defaultResolution),
+        model.options?.sizes && (options.size || model.defaultSize),
+        model.options?.megapixels && (options.megapixels || model.defaultMegapixels),
+    ];
+    const prices = selected
+        .map(option => option ? model.creditsByOption?.[option] : undefined)
+        .filter((price): price is number => price !== undefined);
+
+    return prices.length > 0 ? Math.max(...prices) : model.credits;
+}
+
+/**
+ * Total credits a generation will charge
+ */
+export function estimateCost({ model, action, count = 1, smartMergeCost, ...options }: CostEstimateInput): number {
+    if (action === 'smart-merge' && smartMergeCost !== undefined) return smartMergeCost;
+    const images = action === 'prompt' ? Math.max(1, count) : 1;
+    return getImageCredits(model, options) * images;
+}
+
+/**
+ * Whether the balance covers the cost
+ */
+export function canAfford(cost: number, totalCredits: number): boolean {
+    return cost <= totalCredits;
+}
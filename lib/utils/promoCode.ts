@@ -0,0 +1,62 @@
+/**
+ * Promo codes - Stripe coupon IDs entered in PricingModal or shared as ?promo=CODE links
+ *
+ * A code from a link is kept in sessionStorage so it survives the login
+ * redirect and is still applied when the user opens checkout.
+ */
+
+export const PROMO_CODE_PARAM = 'promo';
+const PROMO_CODE_STORAGE_KEY = 'stumbnail_promo_code';
+const PROMO_CODE_MAX_LENGTH = 64;
+
+/**
+ * Check a promo code's format before it's sent to checkout
+ * @returns Error message, or null if the code looks valid
+ */
+export function validatePromoCode(code: string): string | null {
+    if (!code) return 'Enter a promo code';
+    if (code.length > PROMO_CODE_MAX_LENGTH) return `Promo codes are at most ${PROMO_CODE_MAX_LENGTH} characters`;
+    if (!/^[A-Za-z0-9_-]+$/.test(code)) return 'Promo codes can only contain letters, numbers, dashes and underscores';
+    return null;
+}
+
+export function getSavedPromoCode(): string | null {
+    try {
+        return sessionStorage.getItem(PROMO_CODE_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+}
+
+export function savePromoCode(code: string): void {
+    try {
+        sessionStorage.setItem(PROMO_CODE_STORAGE_KEY, code);
+    } catch {
+        // Ignore storage errors - the code just won't be prefilled
+    }
+}
+
+export function clearSavedPromoCode(): void {
+    try {
+        sessionStorage.removeItem(PROMO_CODE_STORAGE_KEY);
+    } catch {
+        // Ignore storage errors
+    }
+}
+
+/**
+ * Save a valid ?promo= code from the current URL, on whichever page the link lands
+ */
+export function capturePromoCodeFromUrl(): void {
+    const code = new URLSearchParams(window.location.search).get(PROMO_CODE_PARAM)?.trim();
+    if (code && !validatePromoCode(code)) {
+        savePromoCode(code);
+    }
+}
+
+/**
+ * Whether a checkout error is the backend rejecting the coupon
+ */
+export function isPromoCodeError(message: string): boolean {
+    return /coupon|promo/i.test(message);
+}
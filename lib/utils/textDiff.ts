@@ -0,0 +1,69 @@
+/**
+ * Word-level text diff - used to compare a user prompt with its refined version
+ */
+
+export interface DiffSegment {
+    type: 'equal' | 'insert' | 'delete';
+    text: string;
+}
+
+// Past this many token pairs the LCS table gets too large to build on every render
+const MAX_DIFF_CELLS = 250_000;
+
+// Words and the whitespace after them stay separate so spacing survives the diff
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+/**
+ * Diff two texts word by word (longest common subsequence)
+ * Adjacent segments of the same type are merged. Texts too long to diff
+ * come back as a single delete + insert.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [
+            ...(before ? [{ type: 'delete' as const, text: before }] : []),
+            ...(after ? [{ type: 'insert' as const, text: after }] : []),
+        ];
+    }
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('equal', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('delete', a[i++]);
+        } else {
+            push('insert', b[j++]);
+        }
+    }
+    while (i < a.length) push('delete', a[i++]);
+    while (j < b.length) push('insert', b[j++]);
+
+    return segments;
+}
@@ -0,0 +1,179 @@
+/**
+ * Text layer utilities - measuring and drawing editable text layers
+ * The same layout rules are used for the on-canvas preview (CSS) and export (2D canvas)
+ */
+
+import type { CSSProperties } from 'react';
+import type { TextLayerStyle } from '@/lib/services/thumbnailService';
+import { TEXT_LAYER_LINE_HEIGHT, TEXT_LAYER_PADDING } from '@/lib/constants/textLayers';
+
+/**
+ * Box a text layer is drawn into (canvas coordinates)
+ */
+export interface TextLayerBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    naturalHeight: number;
+}
+
+/**
+ * Build the canvas font shorthand for a text layer
+ */
+export function getTextLayerFont(style: TextLayerStyle): string {
+    return `${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+}
+
+/**
+ * Split text into lines (an empty layer still occupies one line)
+ */
+function getLines(text: string): string[] {
+    const lines = text.split('\n');
+    return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Extra space around the text so stroke and shadow are never clipped
+ */
+function getTextLayerInset(style: TextLayerStyle): number {
+    const shadowExtent = style.shadowBlur + Math.max(Math.abs(style.shadowOffsetX), Math.abs(style.shadowOffsetY));
+    return TEXT_LAYER_PADDING + style.strokeWidth / 2 + shadowExtent;
+}
+
+/**
+ * Measure the natural (unscaled, unrotated) size of a text layer
+ * @returns Natural width and height in pixels
+ */
+export function measureTextLayer(style: TextLayerStyle): { width: number; height: number } {
+    const lines = getLines(style.text);
+    const inset = getTextLayerInset(style);
+
+    const ctx = document.createElement('canvas').getContext('2d');
+    let textWidth = style.fontSize * Math.max(...lines.map(line => line.length)) * 0.6;
+    if (ctx) {
+        ctx.font = getTextLayerFont(style);
+        textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    }
+
+    return {
+        width: Math.ceil(Math.max(textWidth, style.fontSize * 0.5) + inset * 2),
+        height: Math.ceil(lines.length * style.fontSize * TEXT_LAYER_LINE_HEIGHT + inset * 2),
+    };
+}
+
+/**
+ * CSS for rendering a text layer at its natural size
+ * (the caller scales the container to the element's display size)
+ */
+export function getTextLayerCss(style: TextLayerStyle): CSSProperties {
+    const hasShadow = style.shadowBlur > 0 || style.shadowOffsetX !== 0 || style.shadowOffsetY !== 0;
+
+    return {
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize,
+        fontWeight: style.fontWeight,
+        lineHeight: TEXT_LAYER_LINE_HEIGHT,
+        color: style.color,
+        // Stroke is centered on the glyph outline; painting it first keeps the fill crisp like canvas export
+        WebkitTextStroke: style.strokeWidth > 0 ? `${style.strokeWidth}px ${style.strokeColor}` : undefined,
+        paintOrder: 'stroke fill',
+        textShadow: hasShadow
+            ? `${style.shadowOffsetX}px ${style.shadowOffsetY}px ${style.shadowBlur}px ${style.shadowColor}`
+            : undefined,
+    };
+}
+
+/**
+ * Draw a text layer into a 2D context
+ * The text is scaled from its natural size to fit the box and rotated around the box center.
+ */
+export function drawTextLayer(ctx: CanvasRenderingContext2D, style: TextLayerStyle, box: TextLayerBox): void {
+    const lines = getLines(style.text);
+    const scale = box.naturalHeight > 0 ? box.height / box.naturalHeight : 1;
+    const lineHeight = style.fontSize * TEXT_LAYER_LINE_HEIGHT;
+
+    ctx.save();
+    ctx.translate(box.x + box.width / 2, box.y + box.height / 2);
+    ctx.rotate((style.rotation * Math.PI) / 180);
+    ctx.scale(scale, scale);
+
+    ctx.font = getTextLayerFont(style);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+
+    const applyShadow = () => {
+        ctx.shadowColor = style.shadowColor;
+        ctx.shadowBlur = style.shadowBlur;
+        ctx.shadowOffsetX = style.shadowOffsetX;
+        ctx.shadowOffsetY = style.shadowOffsetY;
+    };
+    const clearShadow = () => {
+        ctx.shadowColor = 'transparent';
+        ctx.shadowBlur = 0;
+        ctx.shadowOffsetX = 0;
+        ctx.shadowOffsetY = 0;
+    };
+
+    lines.forEach((line, i) => {
+        const y = (i - (lines.length - 1) / 2) * lineHeight;
+
+        if (style.strokeWidth > 0) {
+            // Shadow goes on the stroke only, otherwise the fill's shadow would paint over the stroke
+            applyShadow();
+            ctx.strokeStyle = style.strokeColor;
+            ctx.lineWidth = style.strokeWidth;
+            ctx.strokeText(line, 0, y);
+            clearShadow();
+        } else {
+            applyShadow();
+        }
+
+        ctx.fillStyle = style.color;
+        ctx.fillText(line, 0, y);
+        clearShadow();
+    });
+
+    ctx.restore();
+}
+
+/**
+ * Render a text layer on its own to a transparent PNG at natural size
+ * The output grows to fit the rotated layer so corners aren't clipped.
+ */
+export async function renderTextLayerToBlob(
+    style: TextLayerStyle,
+    naturalWidth: number,
+    naturalHeight: number
+): Promise<Blob> {
+    const radians = (style.rotation * Math.PI) / 180;
+    const width = Math.ceil(Math.abs(naturalWidth * Math.cos(radians)) + Math.abs(naturalHeight * Math.sin(radians)));
+    const height = Math.ceil(Math.abs(naturalWidth * Math.sin(radians)) + Math.abs(naturalHeight * Math.cos(radians)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas is not supported in this browser');
+    }
+
+    drawTextLayer(ctx, style, {
+        x: (width - naturalWidth) / 2,
+        y: (height - naturalHeight) / 2,
+        width: naturalWidth,
+        height: naturalHeight,
+        naturalHeight,
+    });
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (blob) {
+                resolve(blob);
+            } else {
+                reject(new Error('Failed to render text layer'));
+            }
+        }, 'image/png');
+    });
+}
@@ -78,19 +78,21 @@ export interface Model {
     name: string;
     description: string;
     featureTag: string;
-    credits: number;
+    credits: number;                      // Credits per image at the default options
+    creditsByOption?: Record<string, number>;  // Per-image credits for resolutions/sizes/megapixels that cost more
     logo: string;
     maxImages?: number;                   // Max reference images for generation
     resolution?: '1K' | '2K' | '4K';      // Selected resolution for models with options
     baseModel?: string;                   // Actual API model name
     hasResolutionOptions?: boolean;       // True if model supports 2K/4K toggle
-    isPro?: boolean;                      // Show PRO badge
+    isPro?: boolean;                      // Paid plans only (see PLAN_ENTITLEMENTS)
     isSecondary?: boolean;                // Hidden under "More Models"
     options?: ModelOptions;               // Model-specific parameter options
     defaultAspectRatio?: string;          // Default aspect ratio
     defaultResolution?: string;           // Default resolution (nano-banana-pro)
     defaultSize?: string;                 // Default size (seedream-4)
     defaultMegapixels?: string;           // Default megapixels (flux-2-pro)
+    jobTimeout?: number;                  // Ms before a generation job is auto-cancelled (default 3 minutes)
 }
 
 // Community/Thumbnail types
@@ -171,6 +173,33 @@ export interface PlanInfo {
     monthlyCredits: number;
 }
 
+// Credit spend from users/{uid}/transactions
+export interface CreditTransaction {
+    id: string;
+    type: 'debit' | 'refund';  // Refunds return credits for failed or cancelled jobs
+    credits: number;           // Always positive
+    description: string;
+    action?: string;           // e.g. "generation", "smart-merge"
+    projectId?: string;
+    thumbnailId?: string;
+    thumbnailUrl?: string;
+    model?: string;
+    createdAt: string;
+}
+
+// Credits added, from users/{uid}/billingHistory
+export interface BillingHistoryEntry {
+    id: string;
+    type: 'subscription' | 'renewal' | 'top-up';
+    credits: number;           // Credits granted
+    description: string;
+    plan?: PlanType;
+    amountPaid?: number;       // In the smallest currency unit (cents)
+    currency?: string;
+    invoiceUrl?: string;
+    createdAt: string;
+}
+
 // Analytics types
 export type ConfidenceRating = 'yes' | 'maybe' | 'no';
 